@@ -0,0 +1,63 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './app';
+import { dbFunctions } from './lib/supabase';
+import { setRepository } from './lib/repository';
+import { createMemoryRepository, demoSeed } from './lib/memoryRepository';
+
+describe('App', () => {
+  it('shows the sign-in form when signed out', async () => {
+    setRepository(createMemoryRepository({ ...demoSeed(), signedInUserId: undefined }));
+    render(<App />);
+
+    expect(await screen.findByText('Welcome back to your wedding planner')).toBeInTheDocument();
+  });
+
+  it('opens the planner for a couple', async () => {
+    render(<App />);
+
+    expect(await screen.findByRole('heading', { name: 'Adorist' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Checklist' })).toBeInTheDocument();
+    expect(screen.queryByText('Adorist Admin')).not.toBeInTheDocument();
+  });
+
+  it('opens the admin dashboard for an admin', async () => {
+    const seed = demoSeed();
+    seed.profiles![0].is_admin = true;
+    setRepository(createMemoryRepository(seed));
+    vi.spyOn(dbFunctions, 'getAllWeddings').mockResolvedValue([]);
+    vi.spyOn(dbFunctions, 'getChecklistTemplates').mockResolvedValue([]);
+
+    render(<App />);
+
+    expect(await screen.findByText('Adorist Admin')).toBeInTheDocument();
+    expect(screen.getByText('No clients yet')).toBeInTheDocument();
+  });
+
+  it('goes back to sign-in after signing out', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Sign Out' }));
+
+    expect(await screen.findByText('Welcome back to your wedding planner')).toBeInTheDocument();
+  });
+
+  it('routes sign-in to the right view', async () => {
+    const seed = demoSeed();
+    seed.profiles![0].is_admin = true;
+    setRepository(createMemoryRepository({ ...seed, signedInUserId: undefined }));
+    vi.spyOn(dbFunctions, 'getAllWeddings').mockResolvedValue([]);
+    vi.spyOn(dbFunctions, 'getChecklistTemplates').mockResolvedValue([]);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(await screen.findByPlaceholderText('your@email.com'), 'demo@example.com');
+    await user.type(screen.getByPlaceholderText('••••••••'), 'demo-password');
+    await user.click(screen.getByRole('button', { name: 'Sign In' }));
+
+    expect(await screen.findByText('Adorist Admin')).toBeInTheDocument();
+  });
+});
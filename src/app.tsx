@@ -2,38 +2,53 @@ import React, { useState, useEffect } from 'react';
 import AuthForm from './components/AuthForm';
 import WeddingPlanner from './components/WeddingPlanner';
 import AdminDashboard from './components/AdminDashboard';
-import { authFunctions, supabase } from './lib/supabase';
+import RsvpPage from './components/RsvpPage';
+import { authFunctions, weddingFunctions } from './lib/supabase';
 import { Heart } from 'lucide-react';
 
+const matchInvite = () => window.location.pathname.match(/^\/invite\/([0-9a-f-]{36})\/?$/i)?.[1] ?? null;
+
 function App() {
   const [user, setUser] = useState<any>(null);
   const [profile, setProfile] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [inviteToken, setInviteToken] = useState<string | null>(matchInvite);
+  const [plannerKey, setPlannerKey] = useState(0);
 
   useEffect(() => {
     // Check for existing session
     checkUser();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        if (session?.user) {
-          setUser(session.user);
-          await loadProfile(session.user.id);
-        } else {
-          setUser(null);
-          setProfile(null);
-        }
-        setLoading(false);
+    return authFunctions.onAuthStateChange(async user => {
+      if (user) {
+        setUser(user);
+        await loadProfile(user.id);
+      } else {
+        setUser(null);
+        setProfile(null);
       }
-    );
-
-    return () => subscription.unsubscribe();
+      setLoading(false);
+    });
   }, []);
 
+  // An invite link joins the signed-in account to that wedding, then opens it
+  useEffect(() => {
+    if (!profile || !inviteToken) return;
+
+    weddingFunctions.acceptInvite(inviteToken)
+      .then(weddingId => weddingFunctions.selectWedding(weddingId))
+      .catch(error => window.alert(error.message))
+      .finally(() => {
+        window.history.replaceState(null, '', '/');
+        setInviteToken(null);
+        setPlannerKey(key => key + 1);
+      });
+  }, [profile, inviteToken]);
+
   const checkUser = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const user = await authFunctions.getCurrentUser();
       if (user) {
         setUser(user);
         await loadProfile(user.id);
@@ -54,8 +69,12 @@ function App() {
     }
   };
 
-  const handleAuthSuccess = () => {
-    // User state will be updated by the auth state change listener
+  const handleAuthSuccess = async () => {
+    // User state is updated by the auth state change listener, which can run
+    // before sign-up has created the profile and wedding, so load them again
+    const user = await authFunctions.getCurrentUser();
+    if (user) await loadProfile(user.id);
+    setPlannerKey(key => key + 1);
   };
 
   const handleSignOut = () => {
@@ -63,7 +82,13 @@ function App() {
     setProfile(null);
   };
 
-  if (loading) {
+  // Guests answer their invitation from a public link, no login needed
+  const rsvpMatch = window.location.pathname.match(/^\/rsvp\/([0-9a-f-]{36})\/?$/i);
+  if (rsvpMatch) {
+    return <RsvpPage token={rsvpMatch[1]} />;
+  }
+
+  if (loading || (user && inviteToken)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center">
         <div className="text-center">
@@ -76,7 +101,7 @@ function App() {
 
   // Show auth form if not logged in
   if (!user) {
-    return <AuthForm onAuthSuccess={handleAuthSuccess} />;
+    return <AuthForm onAuthSuccess={handleAuthSuccess} inviteToken={inviteToken ?? undefined} />;
   }
 
   // Show admin dashboard if user is admin
@@ -85,7 +110,7 @@ function App() {
   }
 
   // Show wedding planner for regular users
-  return <WeddingPlanner onSignOut={handleSignOut} />;
+  return <WeddingPlanner key={plannerKey} onSignOut={handleSignOut} />;
 }
 
 export default App;
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { History, Plus, Edit3, Trash2, RefreshCw } from 'lucide-react';
+import { dbFunctions, AuditEntry, ClientAuditEntry } from '../lib/supabase';
+import { activityActor, activityChanges, describeActivity } from '../lib/activity';
+import { formatDateTime } from '../lib/dates';
+
+interface ActivityFeedProps {
+  // The admin dashboard's feed across every client instead of the selected wedding
+  allWeddings?: boolean;
+  onError: (message: string) => void;
+}
+
+const ACTION_ICONS = {
+  insert: { icon: Plus, className: 'bg-green-100 text-green-700' },
+  update: { icon: Edit3, className: 'bg-blue-100 text-blue-700' },
+  delete: { icon: Trash2, className: 'bg-red-100 text-red-700' }
+};
+
+// Moving to and from the trash reads as a delete or an add, even though it's an update
+const actionIcon = (entry: AuditEntry) => {
+  if (entry.action === 'update' && entry.new_values && 'deleted_at' in entry.new_values) {
+    return ACTION_ICONS[entry.new_values.deleted_at ? 'delete' : 'insert'];
+  }
+  return ACTION_ICONS[entry.action];
+};
+
+export default function ActivityFeed({ allWeddings = false, onError }: ActivityFeedProps) {
+  const [entries, setEntries] = useState<(AuditEntry | ClientAuditEntry)[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadActivity();
+  }, [allWeddings]);
+
+  const loadActivity = async () => {
+    try {
+      setLoading(true);
+      setEntries(allWeddings ? await dbFunctions.getAllActivity() : await dbFunctions.getActivity());
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <div className="flex items-center">
+            <History className="w-5 h-5 text-rose-600 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              {allWeddings ? 'Recent Activity Across Clients' : 'Recent Activity'}
+            </h3>
+          </div>
+          <p className="text-sm text-gray-600">Who added, changed or deleted tasks, vendors and guests</p>
+        </div>
+        <button
+          onClick={loadActivity}
+          className="text-gray-500 hover:text-gray-700 flex items-center text-sm"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {entries.map(entry => {
+          const { icon: Icon, className } = actionIcon(entry);
+          const changes = activityChanges(entry);
+          const wedding = 'wedding' in entry ? entry.wedding : null;
+
+          return (
+            <div key={entry.id} className="px-6 py-4 flex items-start">
+              <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-3 flex-shrink-0 ${className}`}>
+                <Icon className="w-4 h-4" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-900">
+                  {wedding && <span className="font-medium">{wedding.couple_names}: </span>}
+                  {describeActivity(entry)}
+                </div>
+                {changes.length > 0 && (
+                  <ul className="mt-1 text-sm text-gray-600 space-y-0.5">
+                    {changes.map(change => (
+                      <li key={change.field}>
+                        {change.field}
+                        {change.from != null && `: ${change.from} → ${change.to}`}
+                        {change.from == null && ' changed'}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="text-xs text-gray-500 mt-1">
+                  {activityActor(entry)} · {formatDateTime(entry.created_at)}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!loading && entries.length === 0 && (
+        <p className="text-center text-gray-600 py-12">No changes recorded yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AdminDashboard from './AdminDashboard';
+import { dbFunctions, ClientWedding } from '../lib/supabase';
+import { taskProgress } from '../lib/tasks';
+
+// The client list comes from admin-only queries the in-memory backend doesn't have
+const client = (couple_names: string, tasks: number, done: number): ClientWedding => ({
+  id: crypto.randomUUID(),
+  couple_names,
+  wedding_date: null,
+  total_budget: null,
+  template_id: null,
+  template_synced_at: null,
+  calendar_token: crypto.randomUUID(),
+  created_by: null,
+  created_at: '2026-02-01T12:00:00Z',
+  owner_email: `${couple_names.split(' ')[0].toLowerCase()}@example.com`,
+  progress: taskProgress(tasks, done)
+});
+
+describe('AdminDashboard', () => {
+  beforeEach(() => {
+    const clients = [client('Ana & Ben', 4, 4), client('Cleo & Dev', 3, 1), client('Eli & Fay', 5, 0)];
+
+    vi.spyOn(dbFunctions, 'getAllWeddings').mockResolvedValue(clients);
+    vi.spyOn(dbFunctions, 'getChecklistTemplates').mockResolvedValue([]);
+  });
+
+  it('summarizes progress across clients', async () => {
+    render(<AdminDashboard onSignOut={() => {}} />);
+    await screen.findByText('Client Overview');
+
+    const stat = (label: string) => screen.getByText(label, { selector: 'div' }).previousElementSibling;
+    expect(stat('Total Clients')).toHaveTextContent('3');
+    expect(stat('Active Clients')).toHaveTextContent('2');
+    expect(stat('Average Progress')).toHaveTextContent('44%');
+    expect(stat('Completed')).toHaveTextContent('1');
+  });
+
+  it('lists each client with their progress', async () => {
+    render(<AdminDashboard onSignOut={() => {}} />);
+
+    const row = (await screen.findByText('Cleo & Dev')).closest('tr')!;
+    expect(within(row).getByText('cleo@example.com')).toBeInTheDocument();
+    expect(within(row).getByText('33%')).toBeInTheDocument();
+    expect(within(row).getByText('Not set')).toBeInTheDocument();
+  });
+
+  it("opens a client's plan read-only", async () => {
+    const user = userEvent.setup();
+    render(<AdminDashboard onSignOut={() => {}} />);
+
+    const row = (await screen.findByText('Eli & Fay')).closest('tr')!;
+    await user.click(within(row).getByRole('button', { name: 'View' }));
+
+    expect(await screen.findByText('View only')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Sharing' })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Back to clients' }));
+    expect(await screen.findByText('Client Overview')).toBeInTheDocument();
+  });
+
+  it('shows a load failure', async () => {
+    vi.mocked(dbFunctions.getAllWeddings).mockRejectedValue(new Error('permission denied for table weddings'));
+    render(<AdminDashboard onSignOut={() => {}} />);
+
+    expect(await screen.findByText('permission denied for table weddings')).toBeInTheDocument();
+  });
+});
@@ -8,45 +8,36 @@ import {
   Eye,
   TrendingUp,
   CheckCircle2,
-  Clock
+  Clock,
+  ListChecks,
+  History
 } from 'lucide-react';
-import { authFunctions, dbFunctions, Profile } from '../lib/supabase';
+import { authFunctions, dbFunctions, ClientWedding, ChecklistTemplate } from '../lib/supabase';
+import TemplateManager from './TemplateManager';
+import WeddingPlanner from './WeddingPlanner';
+import ActivityFeed from './ActivityFeed';
 
 interface AdminDashboardProps {
   onSignOut: () => void;
 }
 
-interface ClientProgress {
-  profile: Profile;
-  progress: {
-    total: number;
-    completed: number;
-    percentage: number;
-  };
-}
-
 export default function AdminDashboard({ onSignOut }: AdminDashboardProps) {
-  const [clients, setClients] = useState<ClientProgress[]>([]);
+  const [activeView, setActiveView] = useState('clients');
+  const [clients, setClients] = useState<ClientWedding[]>([]);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [viewingClient, setViewingClient] = useState<ClientWedding | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
   useEffect(() => {
     loadClientsData();
+    loadTemplates();
   }, []);
 
   const loadClientsData = async () => {
     try {
       setLoading(true);
-      const profiles = await dbFunctions.getAllProfiles();
-      
-      const clientsWithProgress = await Promise.all(
-        profiles.map(async (profile) => {
-          const progress = await dbFunctions.getProfileProgress(profile.id);
-          return { profile, progress };
-        })
-      );
-
-      setClients(clientsWithProgress);
+      setClients(await dbFunctions.getAllWeddings());
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -54,6 +45,28 @@ export default function AdminDashboard({ onSignOut }: AdminDashboardProps) {
     }
   };
 
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await dbFunctions.getChecklistTemplates());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const assignTemplate = async (wedding: ClientWedding, templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || !window.confirm(
+      `Switch ${wedding.couple_names} to the "${template.name}" checklist? Open tasks from their current template will be replaced; completed and custom tasks are kept.`
+    )) return;
+
+    try {
+      await dbFunctions.assignChecklistTemplate(wedding.id, templateId);
+      await loadClientsData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await authFunctions.signOut();
@@ -100,6 +113,16 @@ export default function AdminDashboard({ onSignOut }: AdminDashboardProps) {
     );
   }
 
+  if (viewingClient) {
+    return (
+      <WeddingPlanner
+        clientWedding={viewingClient}
+        onBack={() => setViewingClient(null)}
+        onSignOut={onSignOut}
+      />
+    );
+  }
+
   const stats = getOverallStats();
 
   return (
@@ -135,154 +158,219 @@ export default function AdminDashboard({ onSignOut }: AdminDashboardProps) {
           </div>
         )}
 
-        {/* Stats Overview */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <Users className="w-8 h-8 text-blue-600 mr-3" />
-              <div>
-                <div className="text-2xl font-bold text-gray-900">{stats.totalClients}</div>
-                <div className="text-sm text-gray-600">Total Clients</div>
+        {/* View Toggle */}
+        <div className="flex space-x-8 border-b border-gray-200 mb-8">
+          {[
+            { id: 'clients', label: 'Clients', icon: Users },
+            { id: 'activity', label: 'Activity', icon: History },
+            { id: 'templates', label: 'Checklist Templates', icon: ListChecks },
+          ].map(view => (
+            <button
+              key={view.id}
+              onClick={() => setActiveView(view.id)}
+              className={`flex items-center px-1 py-4 border-b-2 font-medium text-sm transition-colors ${
+                activeView === view.id
+                  ? 'border-rose-500 text-rose-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <view.icon className="w-5 h-5 mr-2" />
+              {view.label}
+            </button>
+          ))}
+        </div>
+
+        {activeView === 'activity' && (
+          <ActivityFeed allWeddings onError={setError} />
+        )}
+
+        {activeView === 'templates' && (
+          <TemplateManager
+            templates={templates}
+            onTemplatesChange={loadTemplates}
+            onError={setError}
+          />
+        )}
+
+        {activeView === 'clients' && (
+          <>
+            {/* Stats Overview */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <Users className="w-8 h-8 text-blue-600 mr-3" />
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.totalClients}</div>
+                    <div className="text-sm text-gray-600">Total Clients</div>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <TrendingUp className="w-8 h-8 text-green-600 mr-3" />
-              <div>
-                <div className="text-2xl font-bold text-gray-900">{stats.activeClients}</div>
-                <div className="text-sm text-gray-600">Active Clients</div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <TrendingUp className="w-8 h-8 text-green-600 mr-3" />
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.activeClients}</div>
+                    <div className="text-sm text-gray-600">Active Clients</div>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <BarChart3 className="w-8 h-8 text-purple-600 mr-3" />
-              <div>
-                <div className="text-2xl font-bold text-gray-900">{stats.averageProgress}%</div>
-                <div className="text-sm text-gray-600">Average Progress</div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <BarChart3 className="w-8 h-8 text-purple-600 mr-3" />
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.averageProgress}%</div>
+                    <div className="text-sm text-gray-600">Average Progress</div>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <CheckCircle2 className="w-8 h-8 text-rose-600 mr-3" />
-              <div>
-                <div className="text-2xl font-bold text-gray-900">{stats.completedClients}</div>
-                <div className="text-sm text-gray-600">Completed</div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center">
+                  <CheckCircle2 className="w-8 h-8 text-rose-600 mr-3" />
+                  <div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.completedClients}</div>
+                    <div className="text-sm text-gray-600">Completed</div>
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
 
-        {/* Clients Table */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-900">Client Overview</h2>
-            <p className="text-sm text-gray-600">Monitor all wedding planning progress</p>
-          </div>
+            {/* Clients Table */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Client Overview</h2>
+                <p className="text-sm text-gray-600">Monitor all wedding planning progress</p>
+              </div>
 
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Couple
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Wedding Date
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Progress
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Tasks Completed
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Joined
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {clients.map(({ profile, progress }) => (
-                  <tr key={profile.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="w-10 h-10 bg-rose-100 rounded-full flex items-center justify-center mr-3">
-                          <Heart className="w-5 h-5 text-rose-600" />
-                        </div>
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">
-                            {profile.couple_names}
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Couple
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Wedding Date
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Progress
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Tasks Completed
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Checklist
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Joined
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Plan
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {clients.map(wedding => (
+                      <tr key={wedding.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            <div className="w-10 h-10 bg-rose-100 rounded-full flex items-center justify-center mr-3">
+                              <Heart className="w-5 h-5 text-rose-600" />
+                            </div>
+                            <div>
+                              <div className="text-sm font-medium text-gray-900">
+                                {wedding.couple_names}
+                              </div>
+                              <div className="text-sm text-gray-500">{wedding.owner_email}</div>
+                            </div>
                           </div>
-                          <div className="text-sm text-gray-500">{profile.email}</div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <Calendar className="w-4 h-4 mr-2 text-gray-400" />
-                        {profile.wedding_date 
-                          ? formatDate(profile.wedding_date)
-                          : 'Not set'
-                        }
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="w-full bg-gray-200 rounded-full h-2 mr-3" style={{ width: '100px' }}>
-                          <div 
-                            className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(progress.percentage)}`}
-                            style={{ width: `${progress.percentage}%` }}
-                          ></div>
-                        </div>
-                        <span className="text-sm font-medium text-gray-900">
-                          {progress.percentage}%
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {progress.completed} / {progress.total}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatDate(profile.created_at)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        progress.percentage === 100
-                          ? 'bg-green-100 text-green-800'
-                          : progress.percentage > 0
-                          ? 'bg-blue-100 text-blue-800'
-                          : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {progress.percentage === 100 
-                          ? 'Completed' 
-                          : progress.percentage > 0 
-                          ? 'In Progress' 
-                          : 'Not Started'
-                        }
-                      </span>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center text-sm text-gray-900">
+                            <Calendar className="w-4 h-4 mr-2 text-gray-400" />
+                            {wedding.wedding_date 
+                              ? formatDate(wedding.wedding_date)
+                              : 'Not set'
+                            }
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            <div className="w-full bg-gray-200 rounded-full h-2 mr-3" style={{ width: '100px' }}>
+                              <div 
+                                className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(wedding.progress.percentage)}`}
+                                style={{ width: `${wedding.progress.percentage}%` }}
+                              ></div>
+                            </div>
+                            <span className="text-sm font-medium text-gray-900">
+                              {wedding.progress.percentage}%
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {wedding.progress.completed} / {wedding.progress.total}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <select
+                            value={wedding.template_id ?? ''}
+                            onChange={(e) => assignTemplate(wedding, e.target.value)}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                          >
+                            <option value="" disabled>Select template</option>
+                            {templates.map(template => (
+                              <option key={template.id} value={template.id}>{template.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(wedding.created_at)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            wedding.progress.percentage === 100
+                              ? 'bg-green-100 text-green-800'
+                              : wedding.progress.percentage > 0
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {wedding.progress.percentage === 100 
+                              ? 'Completed' 
+                              : wedding.progress.percentage > 0 
+                              ? 'In Progress' 
+                              : 'Not Started'
+                            }
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <button
+                            onClick={() => setViewingClient(wedding)}
+                            className="flex items-center text-rose-600 hover:text-rose-800"
+                          >
+                            <Eye className="w-4 h-4 mr-1" />
+                            View
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
 
-          {clients.length === 0 && (
-            <div className="text-center py-12">
-              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No clients yet</h3>
-              <p className="text-gray-600">Clients will appear here once they sign up</p>
+              {clients.length === 0 && (
+                <div className="text-center py-12">
+                  <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No clients yet</h3>
+                  <p className="text-gray-600">Clients will appear here once they sign up</p>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,74 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AuthForm from './AuthForm';
+import { authFunctions, weddingFunctions } from '../lib/supabase';
+import { setRepository } from '../lib/repository';
+import { createMemoryRepository } from '../lib/memoryRepository';
+
+describe('AuthForm', () => {
+  beforeEach(() => {
+    setRepository(createMemoryRepository({
+      users: [{ id: crypto.randomUUID(), email: 'couple@example.com', password: 'correct-horse' }]
+    }));
+  });
+
+  it('signs in', async () => {
+    const user = userEvent.setup();
+    const onAuthSuccess = vi.fn();
+    render(<AuthForm onAuthSuccess={onAuthSuccess} />);
+
+    await user.type(screen.getByPlaceholderText('your@email.com'), 'couple@example.com');
+    await user.type(screen.getByPlaceholderText('••••••••'), 'correct-horse');
+    await user.click(screen.getByRole('button', { name: 'Sign In' }));
+
+    expect(onAuthSuccess).toHaveBeenCalledOnce();
+    expect((await authFunctions.getCurrentUser())?.email).toBe('couple@example.com');
+  });
+
+  it('shows why sign-in failed', async () => {
+    const user = userEvent.setup();
+    const onAuthSuccess = vi.fn();
+    render(<AuthForm onAuthSuccess={onAuthSuccess} />);
+
+    await user.type(screen.getByPlaceholderText('your@email.com'), 'couple@example.com');
+    await user.type(screen.getByPlaceholderText('••••••••'), 'wrong');
+    await user.click(screen.getByRole('button', { name: 'Sign In' }));
+
+    expect(await screen.findByText('Invalid login credentials')).toBeInTheDocument();
+    expect(onAuthSuccess).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeEnabled();
+  });
+
+  it('creates the profile and wedding on sign-up', async () => {
+    const user = userEvent.setup();
+    const onAuthSuccess = vi.fn();
+    render(<AuthForm onAuthSuccess={onAuthSuccess} />);
+
+    await user.click(screen.getByRole('button', { name: 'Sign up' }));
+    await user.type(screen.getByPlaceholderText('John & Jane Smith'), 'Ana & Ben');
+    await user.type(screen.getByPlaceholderText('your@email.com'), 'ana@example.com');
+    await user.type(screen.getByPlaceholderText('••••••••'), 'a-long-password');
+    await user.click(screen.getByRole('button', { name: 'Create Account' }));
+
+    expect(onAuthSuccess).toHaveBeenCalledOnce();
+    expect(await authFunctions.getCurrentProfile()).toMatchObject({ couple_names: 'Ana & Ben', email: 'ana@example.com' });
+
+    const [membership] = await weddingFunctions.getMyWeddings();
+    expect(membership).toMatchObject({ role: 'owner', wedding: { couple_names: 'Ana & Ben' } });
+    expect(weddingFunctions.getCurrentWeddingId()).toBe(membership.wedding.id);
+  });
+
+  it('asks for an email before sending a reset link', async () => {
+    const user = userEvent.setup();
+    render(<AuthForm onAuthSuccess={() => {}} />);
+
+    await user.click(screen.getByRole('button', { name: 'Forgot your password?' }));
+    expect(screen.getByText('Please enter your email address')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText('your@email.com'), 'couple@example.com');
+    await user.click(screen.getByRole('button', { name: 'Forgot your password?' }));
+    expect(await screen.findByText('Check Your Email')).toBeInTheDocument();
+  });
+});
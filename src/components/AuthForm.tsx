@@ -1,25 +1,49 @@
-import React, { useState } from 'react';
-import { Heart, User, Calendar, Mail, Lock, Eye, EyeOff } from 'lucide-react';
-import { authFunctions } from '../lib/supabase';
+import React, { useState, useEffect } from 'react';
+import { Heart, User, Calendar, Mail, Lock, Eye, EyeOff, ListChecks } from 'lucide-react';
+import { authFunctions, dbFunctions, weddingFunctions, ChecklistTemplate, WeddingInvitePreview } from '../lib/supabase';
 
 interface AuthFormProps {
   onAuthSuccess: () => void;
+  inviteToken?: string;
 }
 
-export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
-  const [isLogin, setIsLogin] = useState(true);
+export default function AuthForm({ onAuthSuccess, inviteToken }: AuthFormProps) {
+  const [isLogin, setIsLogin] = useState(!inviteToken);
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [resetEmailSent, setResetEmailSent] = useState(false);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [invite, setInvite] = useState<WeddingInvitePreview | null>(null);
   
   const [formData, setFormData] = useState({
     email: '',
     password: '',
     coupleNames: '',
-    weddingDate: ''
+    weddingDate: '',
+    templateId: ''
   });
 
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    weddingFunctions.getInvite(inviteToken)
+      .then(inviteData => {
+        setInvite(inviteData);
+        if (inviteData) setFormData(prev => ({ ...prev, email: prev.email || inviteData.email }));
+        else setError('This invite link has already been used or was cancelled');
+      })
+      .catch(() => setInvite(null));
+  }, [inviteToken]);
+
+  useEffect(() => {
+    if (!isLogin && !invite && templates.length === 0) {
+      dbFunctions.getChecklistTemplates()
+        .then(setTemplates)
+        .catch(() => setTemplates([]));
+    }
+  }, [isLogin, invite]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -33,7 +57,9 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
           formData.email, 
           formData.password, 
           formData.coupleNames,
-          formData.weddingDate
+          formData.weddingDate,
+          formData.templateId,
+          invite ? inviteToken : undefined
         );
       }
       onAuthSuccess();
@@ -63,7 +89,7 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData(prev => ({
       ...prev,
       [e.target.name]: e.target.value
@@ -106,6 +132,13 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
           </p>
         </div>
 
+        {invite && (
+          <div className="bg-rose-50 border border-rose-200 text-rose-800 px-4 py-3 rounded-lg text-sm mb-6">
+            You've been invited to help plan {invite.couple_names}'s wedding.{' '}
+            {isLogin ? 'Sign in to join.' : 'Create your account to join, or sign in if you already have one.'}
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
           {error && (
@@ -117,7 +150,7 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
           {!isLogin && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Couple Names
+                {invite ? 'Your Name' : 'Couple Names'}
               </label>
               <div className="relative">
                 <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -126,7 +159,7 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
                   name="coupleNames"
                   value={formData.coupleNames}
                   onChange={handleInputChange}
-                  placeholder="John & Jane Smith"
+                  placeholder={invite ? 'Jane Smith' : 'John & Jane Smith'}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
                   required={!isLogin}
                 />
@@ -177,7 +210,7 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
             </div>
           </div>
 
-          {!isLogin && (
+          {!isLogin && !invite && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Wedding Date (Optional)
@@ -195,6 +228,28 @@ export default function AuthForm({ onAuthSuccess }: AuthFormProps) {
             </div>
           )}
 
+          {!isLogin && !invite && templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Checklist
+              </label>
+              <div className="relative">
+                <ListChecks className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <select
+                  name="templateId"
+                  value={formData.templateId}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                >
+                  <option value="">{templates.find(template => template.is_default)?.name ?? 'Standard'}</option>
+                  {templates.filter(template => !template.is_default).map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           <button
             type="submit"
             disabled={loading}
@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Wallet, PiggyBank, Receipt, TrendingDown } from 'lucide-react';
+import { dbFunctions, BudgetCategory, Vendor, Wedding } from '../lib/supabase';
+import { formatCurrency, parseAmount, summarizeBudget } from '../lib/budget';
+
+interface BudgetTabProps {
+  wedding: Wedding | null;
+  categories: BudgetCategory[];
+  vendors: Vendor[];
+  readOnly?: boolean;
+  onWeddingChange: (wedding: Partial<Wedding>) => void;
+  onError: (message: string) => void;
+}
+
+export default function BudgetTab({ wedding, categories, vendors, readOnly = false, onWeddingChange, onError }: BudgetTabProps) {
+  const [totalBudget, setTotalBudget] = useState('');
+  const [newCategory, setNewCategory] = useState({ name: '', planned_amount: '' });
+
+  useEffect(() => {
+    setTotalBudget(wedding?.total_budget != null ? String(wedding.total_budget) : '');
+  }, [wedding?.total_budget]);
+
+  const saveTotalBudget = async () => {
+    const total_budget = parseAmount(totalBudget);
+
+    try {
+      await dbFunctions.updateWedding({ total_budget });
+      onWeddingChange({ total_budget });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveCategory = async () => {
+    if (!newCategory.name) return;
+
+    try {
+      await dbFunctions.addBudgetCategory(newCategory.name, parseAmount(newCategory.planned_amount) ?? 0);
+      setNewCategory({ name: '', planned_amount: '' });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updatePlannedAmount = async (category: BudgetCategory, value: string) => {
+    const planned_amount = parseAmount(value) ?? 0;
+    if (planned_amount === Number(category.planned_amount)) return;
+
+    try {
+      await dbFunctions.updateBudgetCategory(category.id, { planned_amount });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteCategory = async (id: string) => {
+    try {
+      await dbFunctions.deleteBudgetCategory(id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateVendorCost = async (vendor: Vendor, field: 'estimated_cost' | 'actual_cost', value: string) => {
+    const amount = parseAmount(value);
+    if (amount === (vendor[field] != null ? Number(vendor[field]) : null)) return;
+
+    try {
+      await dbFunctions.updateVendor(vendor.id, { [field]: amount });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateVendorCategory = async (vendor: Vendor, categoryId: string) => {
+    try {
+      await dbFunctions.updateVendor(vendor.id, { category_id: categoryId || null });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const summary = summarizeBudget(categories, vendors);
+  const total = wedding?.total_budget != null ? Number(wedding.total_budget) : null;
+  const remaining = total != null ? total - summary.actual : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Overall Budget */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Overall Budget</h3>
+        <div className="flex items-center space-x-3">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Total budget"
+            value={totalBudget}
+            onChange={(e) => setTotalBudget(e.target.value)}
+            readOnly={readOnly}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          {!readOnly && (
+            <button
+              onClick={saveTotalBudget}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Budget Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center">
+            <Wallet className="w-8 h-8 text-rose-600 mr-3" />
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {total != null ? formatCurrency(total) : 'Not set'}
+              </div>
+              <div className="text-sm text-gray-600">Total Budget</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center">
+            <PiggyBank className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(summary.planned)}</div>
+              <div className="text-sm text-gray-600">Planned</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center">
+            <Receipt className="w-8 h-8 text-purple-600 mr-3" />
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(summary.actual)}</div>
+              <div className="text-sm text-gray-600">Spent</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center">
+            <TrendingDown className="w-8 h-8 text-green-600 mr-3" />
+            <div>
+              <div className={`text-2xl font-bold ${remaining != null && remaining < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {remaining != null ? formatCurrency(remaining) : '—'}
+              </div>
+              <div className="text-sm text-gray-600">Remaining</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {total != null && summary.planned > total && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg">
+          Your planned spending is {formatCurrency(summary.planned - total)} over your total budget.
+        </div>
+      )}
+
+      {/* Categories */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Spending by Category</h3>
+          <p className="text-sm text-gray-600">Planned amounts against vendor estimates and actual spend</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Planned
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estimated
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actual
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Remaining
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {summary.rows.map(row => {
+                const category = categories.find(c => c.id === row.id);
+
+                return (
+                  <tr key={row.id ?? 'uncategorized'}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{row.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {row.vendorCount} {row.vendorCount === 1 ? 'vendor' : 'vendors'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {category ? (
+                        <input
+                          key={`${category.id}-${category.planned_amount}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          defaultValue={category.planned_amount}
+                          onBlur={(e) => updatePlannedAmount(category, e.target.value)}
+                          readOnly={readOnly}
+                          className="w-32 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                        />
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(row.estimated)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(row.actual)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                      row.remaining < 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {formatCurrency(row.remaining)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {category && !readOnly && (
+                        <button
+                          onClick={() => deleteCategory(category.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {!readOnly && (
+          <div className="px-6 py-4 border-t border-gray-200 flex flex-col md:flex-row md:items-center gap-3">
+            <input
+              type="text"
+              placeholder="New category"
+              value={newCategory.name}
+              onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Planned amount"
+              value={newCategory.planned_amount}
+              onChange={(e) => setNewCategory(prev => ({ ...prev, planned_amount: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <button
+              onClick={saveCategory}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Category
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Vendor Costs */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Vendor Costs</h3>
+          <p className="text-sm text-gray-600">Assign vendors to categories and record what you actually paid</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Vendor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estimated
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actual
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {vendors.map(vendor => (
+                <tr key={vendor.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{vendor.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {vendor.type}
+                      {vendor.cost && vendor.estimated_cost == null && ` · Quoted: ${vendor.cost}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <select
+                      value={vendor.category_id ?? ''}
+                      onChange={(e) => updateVendorCategory(vendor, e.target.value)}
+                      disabled={readOnly}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                    >
+                      <option value="">Uncategorized</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      key={`${vendor.id}-estimated-${vendor.estimated_cost}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={vendor.estimated_cost ?? ''}
+                      onBlur={(e) => updateVendorCost(vendor, 'estimated_cost', e.target.value)}
+                      readOnly={readOnly}
+                      className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      key={`${vendor.id}-actual-${vendor.actual_cost}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={vendor.actual_cost ?? ''}
+                      onBlur={(e) => updateVendorCost(vendor, 'actual_cost', e.target.value)}
+                      readOnly={readOnly}
+                      className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {vendors.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-600">Add vendors to start tracking costs</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { CalendarDays, Download, Link, RefreshCw } from 'lucide-react';
+import { calendarFunctions, Wedding, Task, Vendor, VendorAppointment, VendorPayment } from '../lib/supabase';
+import { buildWeddingCalendar } from '../lib/ical';
+import { downloadFile } from '../lib/csv';
+
+interface CalendarSyncProps {
+  wedding: Wedding;
+  tasks: Task[];
+  vendors: Vendor[];
+  payments: VendorPayment[];
+  appointments: VendorAppointment[];
+  readOnly?: boolean;
+  onWeddingChange: (updates: Partial<Wedding>) => void;
+  onError: (message: string) => void;
+}
+
+export default function CalendarSync({
+  wedding,
+  tasks,
+  vendors,
+  payments,
+  appointments,
+  readOnly = false,
+  onWeddingChange,
+  onError
+}: CalendarSyncProps) {
+  const [copied, setCopied] = useState(false);
+
+  const feedUrl = calendarFunctions.getFeedUrl(wedding.calendar_token);
+
+  const downloadCalendar = () => {
+    const calendar = buildWeddingCalendar({ wedding, tasks, vendors, payments, appointments });
+    downloadFile('wedding.ics', calendar, 'text/calendar;charset=utf-8');
+  };
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err: any) {
+      onError('Could not copy the calendar link');
+    }
+  };
+
+  const resetFeedUrl = async () => {
+    if (!window.confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) return;
+
+    try {
+      const calendarToken = await calendarFunctions.resetFeedToken();
+      onWeddingChange({ calendar_token: calendarToken });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <CalendarDays className="w-5 h-5 text-rose-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Calendar</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Your wedding day, task due dates, payment deadlines and vendor appointments in your own calendar.
+        Subscribe to keep it up to date, or download a one-time copy.
+      </p>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          readOnly
+          value={feedUrl}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 bg-gray-50"
+        />
+        <button
+          onClick={copyFeedUrl}
+          className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center"
+        >
+          <Link className="w-4 h-4 mr-2" />
+          {copied ? 'Copied' : 'Copy Link'}
+        </button>
+        <button
+          onClick={downloadCalendar}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center justify-center"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download .ics
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-rose-600 hover:text-rose-700 font-medium">
+          Subscribe in your calendar app
+        </a>
+        {!readOnly && (
+          <button
+            onClick={resetFeedUrl}
+            className="text-gray-500 hover:text-gray-700 flex items-center"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Reset link
+          </button>
+        )}
+        <span className="text-gray-500">Anyone with the link can see these dates, so share it carefully.</span>
+      </div>
+    </div>
+  );
+}
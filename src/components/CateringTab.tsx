@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit3, Save, X, Printer, Download, AlertTriangle } from 'lucide-react';
+import { dbFunctions, Guest, MealOption, SeatingTable, Wedding } from '../lib/supabase';
+import { buildCateringReport, cateringToRows, dietaryTagLabel, isAllergy, normalizeDietaryTags } from '../lib/meals';
+import { guestName } from '../lib/seating';
+import { downloadFile, toDelimited } from '../lib/csv';
+import { formatDate, today } from '../lib/dates';
+
+interface CateringTabProps {
+  wedding: Wedding | null;
+  guests: Guest[];
+  mealOptions: MealOption[];
+  tables: SeatingTable[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+interface MealForm {
+  name: string;
+  description: string;
+}
+
+const emptyMeal: MealForm = { name: '', description: '' };
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent';
+
+export default function CateringTab({ wedding, guests, mealOptions, tables, readOnly = false, onError }: CateringTabProps) {
+  const [newMeal, setNewMeal] = useState<MealForm>(emptyMeal);
+  const [editingMeal, setEditingMeal] = useState<string | null>(null);
+  const [mealDraft, setMealDraft] = useState<MealForm>(emptyMeal);
+
+  const report = buildCateringReport(guests, mealOptions, tables);
+  const mealNames = new Map(mealOptions.map(option => [option.id, option.name]));
+  const awaiting = guests.filter(guest => guest.rsvp_status === 'pending').length;
+  const unchosen = report.meals.find(meal => !meal.option)?.count ?? 0;
+
+  const saveNewMeal = async () => {
+    if (!newMeal.name.trim()) return;
+
+    try {
+      await dbFunctions.addMealOption(newMeal.name.trim(), newMeal.description.trim());
+      setNewMeal(emptyMeal);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditing = (option: MealOption) => {
+    setEditingMeal(option.id);
+    setMealDraft({ name: option.name, description: option.description ?? '' });
+  };
+
+  const saveMeal = async (option: MealOption) => {
+    if (!mealDraft.name.trim()) return;
+
+    try {
+      await dbFunctions.updateMealOption(option.id, { name: mealDraft.name.trim(), description: mealDraft.description.trim() });
+      setEditingMeal(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteMeal = async (option: MealOption) => {
+    const chosen = guests.filter(guest => guest.meal_option_id === option.id).length;
+    const warning = chosen > 0 ? ` ${chosen} guests chose it and will need to choose again.` : '';
+    if (!window.confirm(`Remove "${option.name}" from the menu?${warning}`)) return;
+
+    try {
+      await dbFunctions.deleteMealOption(option.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const exportReport = () => {
+    downloadFile(`caterer-report-${today()}.csv`, toDelimited(cateringToRows(guests, mealOptions, tables)));
+  };
+
+  const renderMealInputs = (form: MealForm, setForm: (update: (prev: MealForm) => MealForm) => void) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <input
+        type="text"
+        placeholder="Meal (e.g., Braised short rib)"
+        value={form.name}
+        onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+        className={inputClass}
+      />
+      <input
+        type="text"
+        placeholder="Description (optional)"
+        value={form.description}
+        onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+        className={`${inputClass} md:col-span-2`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Menu */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 print:hidden">
+        <h3 className="text-lg font-semibold text-gray-900">Menu</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          The meals guests choose from on their RSVP. You can also set a guest's meal from the guest list.
+        </p>
+
+        {mealOptions.length > 0 && (
+          <ul className="divide-y divide-gray-200 mt-4">
+            {mealOptions.map(option => (
+              <li key={option.id} className="py-3">
+                {editingMeal === option.id ? (
+                  <div className="space-y-3">
+                    {renderMealInputs(mealDraft, setMealDraft)}
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => saveMeal(option)}
+                        className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors flex items-center text-sm"
+                      >
+                        <Save className="w-4 h-4 mr-1" />
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingMeal(null)}
+                        className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center text-sm"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">{option.name}</div>
+                      {option.description && <div className="text-sm text-gray-600">{option.description}</div>}
+                    </div>
+                    {!readOnly && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => startEditing(option)}
+                          title="Edit meal"
+                          className="text-gray-400 hover:text-gray-600 transition-colors"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteMeal(option)}
+                          title="Remove meal"
+                          className="text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!readOnly && (
+          <div className="mt-4 space-y-3">
+            {renderMealInputs(newMeal, setNewMeal)}
+            <button
+              onClick={saveNewMeal}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Meal
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Report Actions */}
+      <div className="flex justify-end space-x-2 print:hidden">
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </button>
+        <button
+          onClick={exportReport}
+          disabled={report.headcount === 0}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Caterer Report */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6 print:shadow-none print:border-0 print:p-0">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Caterer Report</h3>
+          {wedding && (
+            <p className="text-gray-600">
+              {wedding.couple_names}
+              {wedding.wedding_date && ` · ${formatDate(wedding.wedding_date)}`}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="text-2xl font-bold text-gray-900">{report.headcount}</div>
+            <div className="text-sm text-gray-600">Total Headcount</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className={`text-2xl font-bold ${unchosen > 0 ? 'text-yellow-600' : 'text-green-600'}`}>{unchosen}</div>
+            <div className="text-sm text-gray-600">Still to Choose a Meal</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="text-2xl font-bold text-gray-600">{awaiting}</div>
+            <div className="text-sm text-gray-600">Awaiting RSVP</div>
+          </div>
+        </div>
+
+        {awaiting > 0 && (
+          <div className="flex items-center text-sm text-yellow-700 print:hidden">
+            <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+            The headcount only counts guests who have said they're coming.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Meals</h4>
+            {report.meals.length === 0 ? (
+              <p className="text-sm text-gray-500">No one is attending yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-200">
+                  {report.meals.map(meal => (
+                    <tr key={meal.option?.id ?? 'none'}>
+                      <td className={`py-2 ${meal.option ? 'text-gray-900' : 'text-gray-500 italic'}`}>
+                        {meal.option?.name ?? 'No meal chosen'}
+                      </td>
+                      <td className="py-2 text-right font-medium text-gray-900">{meal.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Dietary Needs</h4>
+            {report.tags.length === 0 ? (
+              <p className="text-sm text-gray-500">No dietary needs or allergies.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-200">
+                  {report.tags.map(({ tag, count }) => (
+                    <tr key={tag.value}>
+                      <td className={`py-2 ${tag.allergy ? 'text-red-700' : 'text-gray-900'}`}>{tag.label}</td>
+                      <td className="py-2 text-right font-medium text-gray-900">{count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Allergies and Dietary Needs by Table</h4>
+          {report.tables.length === 0 ? (
+            <p className="text-sm text-gray-500">No attending guests have dietary needs.</p>
+          ) : (
+            <div className="space-y-4">
+              {report.tables.map(table => (
+                <div key={table.table_number ?? 'none'} className="break-inside-avoid">
+                  <div className="text-sm font-medium text-gray-700 border-b border-gray-200 pb-1 mb-1">{table.label}</div>
+                  <ul className="text-sm space-y-1">
+                    {table.guests.map(guest => {
+                      const tags = normalizeDietaryTags(guest.dietary_tags ?? []);
+                      const meal = guest.meal_option_id && mealNames.get(guest.meal_option_id);
+
+                      return (
+                        <li key={guest.id} className="flex flex-wrap items-baseline gap-x-2">
+                          <span className="text-gray-900">{guestName(guest)}</span>
+                          {meal && <span className="text-gray-500">({meal})</span>}
+                          {tags.filter(isAllergy).map(tag => (
+                            <span key={tag} className="font-medium text-red-700">{dietaryTagLabel(tag)}</span>
+                          ))}
+                          {tags.filter(tag => !isAllergy(tag)).map(tag => (
+                            <span key={tag} className="text-green-700">{dietaryTagLabel(tag)}</span>
+                          ))}
+                          {guest.dietary_restrictions?.trim() && (
+                            <span className="text-gray-600 italic">{guest.dietary_restrictions}</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CheckCircle2,
+  Circle,
+  Calendar,
+  Save,
+  X,
+  RotateCcw,
+  Plus,
+  Edit3,
+  Trash2,
+  ChevronUp,
+  ChevronDown
+} from 'lucide-react';
+import { dbFunctions, Task, Wedding, VendorPayment, TrashedRecord } from '../lib/supabase';
+import { formatCurrency, summarizePayments } from '../lib/budget';
+import { formatDate, today } from '../lib/dates';
+import { TASK_PHASES, getTasksByDueDate, getTasksByPhase } from '../lib/tasks';
+import PlannerUpdateLabel from './PlannerUpdateLabel';
+
+interface ChecklistTabProps {
+  tasks: Task[];
+  wedding: Wedding | null;
+  vendorPayments: VendorPayment[];
+  readOnly?: boolean;
+  // The wedding date can be locked while tasks stay editable
+  dateReadOnly?: boolean;
+  onWeddingChange: (wedding: Partial<Wedding>) => void;
+  onNavigate: (tab: string) => void;
+  onDeleted?: (record: TrashedRecord) => void;
+  onError: (message: string) => void;
+}
+
+type ChecklistView = 'phase' | 'overdue' | 'month' | 'upcoming';
+
+export default function ChecklistTab({ tasks, wedding, vendorPayments, readOnly = false, dateReadOnly = readOnly, onWeddingChange, onNavigate, onDeleted, onError }: ChecklistTabProps) {
+  const [view, setView] = useState<ChecklistView>('phase');
+  const [weddingDate, setWeddingDate] = useState('');
+  const [editingDueDate, setEditingDueDate] = useState<string | null>(null);
+  const [dueDateValue, setDueDateValue] = useState('');
+  const [newTaskNames, setNewTaskNames] = useState<Record<string, string>>({});
+  const [editingTask, setEditingTask] = useState<string | null>(null);
+  const [taskForm, setTaskForm] = useState({ task_name: '', phase: '', notes: '' });
+
+  useEffect(() => {
+    setWeddingDate(wedding?.wedding_date ?? '');
+  }, [wedding?.wedding_date]);
+
+  const toggleTask = async (taskId: string, completed: boolean) => {
+    try {
+      await dbFunctions.updateTask(taskId, { completed });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveWeddingDate = async () => {
+    const wedding_date = weddingDate || null;
+
+    try {
+      await dbFunctions.updateWedding({ wedding_date });
+      onWeddingChange({ wedding_date });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveDueDate = async (taskId: string, dueDate: string | null) => {
+    try {
+      await dbFunctions.updateTaskDueDate(taskId, dueDate);
+      setEditingDueDate(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const addTask = async (phase: string) => {
+    const taskName = (newTaskNames[phase] ?? '').trim();
+    if (!taskName) return;
+
+    try {
+      await dbFunctions.addTask(taskName, phase);
+      setNewTaskNames(prev => ({ ...prev, [phase]: '' }));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditing = (task: Task) => {
+    setEditingTask(task.id);
+    setTaskForm({ task_name: task.task_name, phase: task.phase, notes: task.notes ?? '' });
+  };
+
+  const saveTask = async (task: Task) => {
+    if (!taskForm.task_name.trim()) return;
+
+    const updates: Partial<Task> = {
+      task_name: taskForm.task_name.trim(),
+      notes: taskForm.notes
+    };
+
+    // Moving to another phase appends the task to the end of that phase
+    if (taskForm.phase !== task.phase) {
+      const phaseTasks = tasks.filter(t => t.phase === taskForm.phase);
+      updates.phase = taskForm.phase;
+      updates.position = phaseTasks.reduce((max, t) => Math.max(max, t.position + 1), 0);
+    }
+
+    try {
+      await dbFunctions.updateTask(task.id, updates);
+      setEditingTask(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteTask = async (task: Task) => {
+    try {
+      await dbFunctions.deleteTask(task.id);
+      onDeleted?.({ table: 'tasks', id: task.id, label: task.task_name });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const moveTask = async (phaseTasks: Task[], index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= phaseTasks.length) return;
+
+    const ids = phaseTasks.map(t => t.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    try {
+      await dbFunctions.reorderTasks(phaseTasks[index].phase, ids);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const paymentSummary = summarizePayments(vendorPayments);
+  const dueViews = getTasksByDueDate(tasks);
+  const currentDate = today();
+
+  const renderTask = (task: Task, showPhase = false, phaseTasks?: Task[], index = 0) => {
+    const overdue = !task.completed && !!task.due_date && task.due_date < currentDate;
+
+    if (editingTask === task.id) {
+      return (
+        <div key={task.id} className="border border-rose-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={taskForm.task_name}
+              onChange={(e) => setTaskForm(prev => ({ ...prev, task_name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <select
+              value={taskForm.phase}
+              onChange={(e) => setTaskForm(prev => ({ ...prev, phase: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              {TASK_PHASES.map(phase => (
+                <option key={phase} value={phase}>{phase}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            placeholder="Notes"
+            rows={2}
+            value={taskForm.notes}
+            onChange={(e) => setTaskForm(prev => ({ ...prev, notes: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => saveTask(task)}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </button>
+            <button
+              onClick={() => setEditingTask(null)}
+              className="text-gray-600 hover:text-gray-900 px-4 py-2 flex items-center"
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={task.id} className="flex items-center">
+        <button
+          onClick={() => toggleTask(task.id, !task.completed)}
+          disabled={readOnly}
+          title={task.completed ? 'Mark as not done' : 'Mark as done'}
+          className="mr-3 transition-colors disabled:cursor-default"
+        >
+          {task.completed ? (
+            <CheckCircle2 className="w-5 h-5 text-rose-600" />
+          ) : (
+            <Circle className={`w-5 h-5 text-gray-400 ${readOnly ? '' : 'hover:text-rose-600'}`} />
+          )}
+        </button>
+        <div className="flex-1">
+          <span className={task.completed ? 'line-through text-gray-500' : 'text-gray-900'}>
+            {task.task_name}
+          </span>
+          {showPhase && <span className="ml-2 text-sm text-gray-500">{task.phase}</span>}
+          {task.notes && <p className="text-sm text-gray-500">{task.notes}</p>}
+          <PlannerUpdateLabel record={task} />
+        </div>
+        {task.task_name === 'Prepare vendor payments' && paymentSummary.scheduledCount > 0 && (
+          <button
+            onClick={() => onNavigate('vendors')}
+            className={`mr-4 text-sm ${paymentSummary.overdueCount > 0 ? 'text-red-600' : 'text-gray-500'} hover:text-rose-600`}
+          >
+            {formatCurrency(paymentSummary.owed)} owed across {paymentSummary.scheduledCount} payments
+            {paymentSummary.overdueCount > 0 && ` (${paymentSummary.overdueCount} overdue)`}
+          </button>
+        )}
+        {task.task_name.toLowerCase().includes('wedding day timeline') && (
+          <button
+            onClick={() => onNavigate('timeline')}
+            className="mr-4 text-sm text-gray-500 hover:text-rose-600"
+          >
+            Open timeline
+          </button>
+        )}
+        {editingDueDate === task.id ? (
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={dueDateValue}
+              onChange={(e) => setDueDateValue(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => saveDueDate(task.id, dueDateValue || null)}
+              className="text-rose-600 hover:text-rose-700"
+            >
+              <Save className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setEditingDueDate(null)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : readOnly ? (
+          <span className={`flex items-center text-sm ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+            <Calendar className="w-4 h-4 mr-1" />
+            {task.due_date ? formatDate(task.due_date) : 'No date'}
+          </span>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => {
+                setEditingDueDate(task.id);
+                setDueDateValue(task.due_date ?? '');
+              }}
+              className={`flex items-center text-sm ${
+                overdue ? 'text-red-600' : 'text-gray-500'
+              } hover:text-rose-600`}
+            >
+              <Calendar className="w-4 h-4 mr-1" />
+              {task.due_date ? formatDate(task.due_date) : 'Set date'}
+            </button>
+            {task.due_date_overridden && (
+              <button
+                onClick={() => saveDueDate(task.id, null)}
+                title="Reset to the phase's due date"
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+        {!readOnly && (
+          <div className="flex items-center space-x-1 ml-4">
+            {phaseTasks && (
+              <>
+                <button
+                  onClick={() => moveTask(phaseTasks, index, -1)}
+                  disabled={index === 0}
+                  className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveTask(phaseTasks, index, 1)}
+                  disabled={index === phaseTasks.length - 1}
+                  className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => startEditing(task)}
+              className="text-gray-400 hover:text-rose-600 transition-colors"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => deleteTask(task)}
+              className="text-gray-400 hover:text-red-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const dueViewTasks = view === 'overdue'
+    ? dueViews.overdue
+    : view === 'month'
+    ? dueViews.dueThisMonth
+    : dueViews.upcoming;
+
+  return (
+    <div className="space-y-8">
+      {/* Wedding Date & Views */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <label className="text-sm font-medium text-gray-700">Wedding Date</label>
+          <input
+            type="date"
+            value={weddingDate}
+            onChange={(e) => setWeddingDate(e.target.value)}
+            readOnly={dateReadOnly}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          {!dateReadOnly && weddingDate !== (wedding?.wedding_date ?? '') && (
+            <button
+              onClick={saveWeddingDate}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {[
+            { id: 'phase' as ChecklistView, label: 'By Phase' },
+            { id: 'overdue' as ChecklistView, label: `Overdue (${dueViews.overdue.length})` },
+            { id: 'month' as ChecklistView, label: `Due This Month (${dueViews.dueThisMonth.length})` },
+            { id: 'upcoming' as ChecklistView, label: `Upcoming (${dueViews.upcoming.length})` },
+          ].map(option => (
+            <button
+              key={option.id}
+              onClick={() => setView(option.id)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                view === option.id
+                  ? 'bg-rose-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!wedding?.wedding_date && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg">
+          Set your wedding date to get due dates for every task.
+        </div>
+      )}
+
+      {view === 'phase' ? (
+        getTasksByPhase(tasks).map(({ phase, tasks: phaseTasks }) => (
+          <div key={phase} className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">{phase}</h3>
+              <p className="text-sm text-gray-600">
+                {phaseTasks.filter(t => t.completed).length} of {phaseTasks.length} completed
+              </p>
+            </div>
+            <div className="p-6">
+              <div className="space-y-3">
+                {phaseTasks.map((task, index) => renderTask(task, false, phaseTasks, index))}
+              </div>
+              {!readOnly && (
+                <div className="flex items-center mt-4 space-x-2">
+                  <input
+                    type="text"
+                    placeholder="Add a task"
+                    value={newTaskNames[phase] ?? ''}
+                    onChange={(e) => setNewTaskNames(prev => ({ ...prev, [phase]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && addTask(phase)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={() => addTask(phase)}
+                    className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6">
+            <div className="space-y-3">
+              {dueViewTasks.map(task => renderTask(task, true))}
+            </div>
+            {dueViewTasks.length === 0 && (
+              <p className="text-center text-gray-600 py-6">Nothing here — you're on track!</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit3, Save, X, Printer, Download, AlertTriangle, Mail, Home } from 'lucide-react';
+import { dbFunctions, Gift, Guest, Household, ThankYouStatus, Wedding } from '../lib/supabase';
+import {
+  THANK_YOU_STATUSES,
+  emptyGiftForm,
+  giftGiver,
+  giftToForm,
+  outstandingThankYous,
+  parseGiftForm,
+  summarizeGifts,
+  thankYousToRows,
+  GiftForm,
+  ThankYouNote
+} from '../lib/gifts';
+import { formatCurrency } from '../lib/budget';
+import { guestName } from '../lib/seating';
+import { downloadFile, toDelimited } from '../lib/csv';
+import { formatDate, today } from '../lib/dates';
+
+interface GiftsTabProps {
+  wedding: Wedding | null;
+  gifts: Gift[];
+  guests: Guest[];
+  households: Household[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent';
+
+const statusClass: Record<ThankYouStatus, string> = {
+  not_written: 'text-red-700',
+  written: 'text-yellow-700',
+  sent: 'text-green-700'
+};
+
+export default function GiftsTab({ wedding, gifts, guests, households, readOnly = false, onError }: GiftsTabProps) {
+  const [view, setView] = useState<'gifts' | 'thank-you'>('gifts');
+  const [newGift, setNewGift] = useState<GiftForm>(emptyGiftForm);
+  const [newGiftErrors, setNewGiftErrors] = useState<string[]>([]);
+  const [editingGift, setEditingGift] = useState<string | null>(null);
+  const [giftDraft, setGiftDraft] = useState<GiftForm>(emptyGiftForm);
+  const [giftDraftErrors, setGiftDraftErrors] = useState<string[]>([]);
+
+  const summary = summarizeGifts(gifts);
+  const notes = outstandingThankYous(gifts, guests, households);
+  const sortedGuests = [...guests].sort((a, b) => guestName(a).localeCompare(guestName(b)));
+
+  const saveNewGift = async () => {
+    const { gift, errors } = parseGiftForm(newGift);
+    setNewGiftErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      await dbFunctions.addGift(gift);
+      setNewGift(emptyGiftForm());
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditing = (gift: Gift) => {
+    setEditingGift(gift.id);
+    setGiftDraft(giftToForm(gift));
+    setGiftDraftErrors([]);
+  };
+
+  const saveGift = async (id: string) => {
+    const { gift, errors } = parseGiftForm(giftDraft);
+    setGiftDraftErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      await dbFunctions.updateGift(id, gift);
+      setEditingGift(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteGift = async (gift: Gift) => {
+    if (!window.confirm(`Remove "${gift.description}" from the gift list?`)) return;
+
+    try {
+      await dbFunctions.deleteGift(gift.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const setStatus = async (changed: Gift[], status: ThankYouStatus) => {
+    try {
+      await Promise.all(changed.map(gift => dbFunctions.updateGift(gift.id, { thank_you_status: status })));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const exportNotes = () => {
+    downloadFile(`thank-you-notes-${today()}.csv`, toDelimited(thankYousToRows(notes)));
+  };
+
+  const renderGiftFields = (form: GiftForm, setForm: (update: (prev: GiftForm) => GiftForm) => void, errors: string[]) => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <select
+          title="From guest"
+          value={form.guest_id}
+          onChange={(e) => {
+            const guest = guests.find(g => g.id === e.target.value);
+            setForm(prev => ({ ...prev, guest_id: e.target.value, household_id: guest?.household_id ?? prev.household_id }));
+          }}
+          className={inputClass}
+        >
+          <option value="">From guest</option>
+          {sortedGuests.map(guest => (
+            <option key={guest.id} value={guest.id}>{guestName(guest)}</option>
+          ))}
+        </select>
+        <select
+          title="From household"
+          value={form.household_id}
+          onChange={(e) => setForm(prev => ({ ...prev, household_id: e.target.value }))}
+          className={inputClass}
+        >
+          <option value="">From household</option>
+          {households.map(household => (
+            <option key={household.id} value={household.id}>{household.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Gift (e.g., Stand mixer)"
+          value={form.description}
+          onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Value"
+          value={form.value}
+          onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          title="Date received"
+          value={form.received_date}
+          onChange={(e) => setForm(prev => ({ ...prev, received_date: e.target.value }))}
+          className={inputClass}
+        />
+        <select
+          title="Thank-you note"
+          value={form.thank_you_status}
+          onChange={(e) => setForm(prev => ({ ...prev, thank_you_status: e.target.value as ThankYouStatus }))}
+          className={inputClass}
+        >
+          {THANK_YOU_STATUSES.map(status => (
+            <option key={status.value} value={status.value}>Note {status.label.toLowerCase()}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Notes"
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          className={`${inputClass} md:col-span-2`}
+        />
+        <label className="flex items-center px-3 py-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.from_registry}
+            onChange={(e) => setForm(prev => ({ ...prev, from_registry: e.target.checked }))}
+            className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+          />
+          From the registry
+        </label>
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-700 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </>
+  );
+
+  const renderNote = (note: ThankYouNote) => {
+    const unwritten = note.gifts.filter(gift => gift.thank_you_status === 'not_written');
+
+    return (
+      <li key={note.key} className="py-4 break-inside-avoid">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+          <div>
+            <div className="font-semibold text-gray-900">{note.name}</div>
+            {note.address.length > 0 ? (
+              <div className="flex items-start text-sm text-gray-700 mt-1">
+                <Home className="w-4 h-4 mr-2 mt-0.5 text-gray-400 flex-shrink-0 print:hidden" />
+                <div>
+                  {note.address.map(line => <div key={line}>{line}</div>)}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center text-sm text-yellow-700 mt-1">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                No mailing address on file
+              </div>
+            )}
+            {note.email && (
+              <div className="flex items-center text-sm text-gray-600 mt-1">
+                <Mail className="w-4 h-4 mr-2 text-gray-400 print:hidden" />
+                {note.email}
+              </div>
+            )}
+            <ul className="text-sm text-gray-600 mt-2 space-y-0.5">
+              {note.gifts.map(gift => (
+                <li key={gift.id}>
+                  {gift.description}
+                  {gift.received_date && ` · received ${formatDate(gift.received_date)}`}
+                  {gift.guest_id && note.household && ` · from ${giftGiver(gift, guests, households)}`}
+                  <span className={`ml-2 ${statusClass[gift.thank_you_status]}`}>
+                    ({gift.thank_you_status === 'written' ? 'written, not sent' : 'not written'})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          {!readOnly && (
+            <div className="flex space-x-2 print:hidden">
+              {unwritten.length > 0 && (
+                <button
+                  onClick={() => setStatus(unwritten, 'written')}
+                  className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors text-sm"
+                >
+                  Mark written
+                </button>
+              )}
+              <button
+                onClick={() => setStatus(note.gifts, 'sent')}
+                className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors text-sm"
+              >
+                Mark sent
+              </button>
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 print:hidden">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-900">{summary.count}</div>
+          <div className="text-sm text-gray-600">Gifts Received</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-900">{formatCurrency(summary.totalValue)}</div>
+          <div className="text-sm text-gray-600">Total Value</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className={`text-2xl font-bold ${summary.notWritten > 0 ? 'text-red-600' : 'text-green-600'}`}>{summary.notWritten}</div>
+          <div className="text-sm text-gray-600">Notes to Write</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className={`text-2xl font-bold ${summary.toSend > 0 ? 'text-yellow-600' : 'text-green-600'}`}>{summary.toSend}</div>
+          <div className="text-sm text-gray-600">Notes to Send</div>
+        </div>
+      </div>
+
+      <div className="flex space-x-2 print:hidden">
+        {[
+          { id: 'gifts' as const, label: 'All Gifts' },
+          { id: 'thank-you' as const, label: `Thank-You Notes (${notes.length})` }
+        ].map(option => (
+          <button
+            key={option.id}
+            onClick={() => setView(option.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              view === option.id ? 'bg-rose-600 text-white' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'gifts' && (
+        <>
+          {!readOnly && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Record a Gift</h3>
+              {renderGiftFields(newGift, setNewGift, newGiftErrors)}
+              <button
+                onClick={saveNewGift}
+                className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Gift
+              </button>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+            {gifts.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No gifts recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Received</th>
+                    <th className="px-4 py-3 font-medium">From</th>
+                    <th className="px-4 py-3 font-medium">Gift</th>
+                    <th className="px-4 py-3 font-medium text-right">Value</th>
+                    <th className="px-4 py-3 font-medium">Thank-You Note</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {gifts.map(gift => editingGift === gift.id ? (
+                    <tr key={gift.id}>
+                      <td colSpan={6} className="px-4 py-4 space-y-3">
+                        {renderGiftFields(giftDraft, setGiftDraft, giftDraftErrors)}
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => saveGift(gift.id)}
+                            className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors flex items-center text-sm"
+                          >
+                            <Save className="w-4 h-4 mr-1" />
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingGift(null)}
+                            className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center text-sm"
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={gift.id}>
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                        {gift.received_date ? formatDate(gift.received_date) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-gray-900">{giftGiver(gift, guests, households)}</td>
+                      <td className="px-4 py-3">
+                        <div className="text-gray-900">{gift.description}</div>
+                        {gift.from_registry && <div className="text-xs text-rose-600">From the registry</div>}
+                        {gift.notes && <div className="text-xs text-gray-500">{gift.notes}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900">
+                        {gift.value != null ? formatCurrency(Number(gift.value)) : '—'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          title={`Thank-you note for ${gift.description}`}
+                          value={gift.thank_you_status}
+                          disabled={readOnly}
+                          onChange={(e) => setStatus([gift], e.target.value as ThankYouStatus)}
+                          className={`px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50 ${statusClass[gift.thank_you_status]}`}
+                        >
+                          {THANK_YOU_STATUSES.map(status => (
+                            <option key={status.value} value={status.value}>{status.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        {!readOnly && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => startEditing(gift)}
+                              title="Edit gift"
+                              className="text-gray-400 hover:text-gray-600 transition-colors"
+                            >
+                              <Edit3 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => deleteGift(gift)}
+                              title="Remove gift"
+                              className="text-gray-400 hover:text-red-600 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {view === 'thank-you' && (
+        <>
+          <div className="flex justify-end space-x-2 print:hidden">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </button>
+            <button
+              onClick={exportNotes}
+              disabled={notes.length === 0}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </button>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 print:shadow-none print:border-0 print:p-0">
+            <h3 className="text-xl font-bold text-gray-900">Thank-You Notes</h3>
+            {wedding && <p className="text-gray-600">{wedding.couple_names}</p>}
+
+            {notes.length === 0 ? (
+              <p className="text-sm text-gray-500 mt-4">
+                {gifts.length === 0 ? 'No gifts recorded yet.' : 'Every thank-you note has been sent.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mt-2">
+                {notes.map(renderNote)}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Household, MealOption } from '../lib/supabase';
+import { GuestForm, RSVP_STATUSES } from '../lib/guests';
+import { DIETARY_TAGS } from '../lib/meals';
+
+interface GuestFieldsProps {
+  form: GuestForm;
+  onChange: (update: (prev: GuestForm) => GuestForm) => void;
+  households: Household[];
+  mealOptions: MealOption[];
+  // New guests also get a household and a plus-one; the list changes those for existing guests
+  isNew?: boolean;
+  errors?: string[];
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent';
+
+// Guest details shared by the add form and editing a guest in the list
+export default function GuestFields({ form, onChange, households, mealOptions, isNew = false, errors = [] }: GuestFieldsProps) {
+  const set = <K extends keyof GuestForm>(key: K, value: GuestForm[K]) => onChange(prev => ({ ...prev, [key]: value }));
+
+  const toggleTag = (tag: string, checked: boolean) => onChange(prev => ({
+    ...prev,
+    dietary_tags: checked ? [...prev.dietary_tags, tag] : prev.dietary_tags.filter(t => t !== tag)
+  }));
+
+  const renderTags = (legend: string, allergy: boolean) => (
+    <fieldset>
+      <legend className="text-sm font-medium text-gray-700 mb-2">{legend}</legend>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {DIETARY_TAGS.filter(tag => tag.allergy === allergy).map(tag => (
+          <label key={tag.value} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.dietary_tags.includes(tag.value)}
+              onChange={(e) => toggleTag(tag.value, e.target.checked)}
+              className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+            />
+            {tag.label}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        <input
+          type="text"
+          placeholder="First Name"
+          value={form.first_name}
+          onChange={(e) => set('first_name', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Last Name"
+          value={form.last_name}
+          onChange={(e) => set('last_name', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="email"
+          placeholder="Email"
+          value={form.email}
+          onChange={(e) => set('email', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="tel"
+          placeholder="Phone"
+          value={form.phone}
+          onChange={(e) => set('phone', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Group (e.g., Family)"
+          value={form.group_name}
+          onChange={(e) => set('group_name', e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={form.rsvp_status}
+          onChange={(e) => set('rsvp_status', e.target.value)}
+          className={inputClass}
+          title="RSVP status"
+        >
+          {RSVP_STATUSES.map(status => (
+            <option key={status} value={status}>{status.charAt(0).toUpperCase() + status.slice(1)}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          step="1"
+          placeholder="Table Number"
+          value={form.table_number}
+          onChange={(e) => set('table_number', e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={form.meal_option_id}
+          onChange={(e) => set('meal_option_id', e.target.value)}
+          className={inputClass}
+          title="Meal"
+        >
+          <option value="">{mealOptions.length > 0 ? 'No meal chosen' : 'No menu yet'}</option>
+          {mealOptions.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Other dietary needs"
+          value={form.dietary_restrictions}
+          onChange={(e) => set('dietary_restrictions', e.target.value)}
+          className={inputClass}
+        />
+        {isNew && (
+          <>
+            <select
+              value={form.household_id}
+              onChange={(e) => set('household_id', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">No household (own invitation)</option>
+              {households.map(household => (
+                <option key={household.id} value={household.id}>{household.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center px-3 py-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.plus_one_allowed}
+                onChange={(e) => set('plus_one_allowed', e.target.checked)}
+                className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+              />
+              Allow a plus-one
+            </label>
+            {form.plus_one_allowed && (
+              <input
+                type="text"
+                placeholder="Plus-one's name (optional)"
+                value={form.plus_one_name}
+                onChange={(e) => set('plus_one_name', e.target.value)}
+                className={inputClass}
+              />
+            )}
+          </>
+        )}
+      </div>
+      <div className="mt-4 space-y-3">
+        {renderTags('Diet', false)}
+        {renderTags('Allergies', true)}
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-700 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </>
+  );
+}
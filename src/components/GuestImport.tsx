@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Upload, Download, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { dbFunctions, Guest, GuestQuery, Household, MealOption } from '../lib/supabase';
+import { downloadFile, parseDelimited, toDelimited } from '../lib/csv';
+import { buildGuestImport, filterGuests, guessColumnMapping, guestsToRows, isFiltered, ColumnMapping, ImportField, IMPORT_FIELDS } from '../lib/guests';
+import { today } from '../lib/dates';
+
+interface GuestImportProps {
+  // The guest list's filters; Export CSV writes out the guests matching them
+  query: GuestQuery;
+  // How many guests match
+  total: number;
+  households: Household[];
+  mealOptions: MealOption[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+  // Everyone already on the list, to spot duplicates
+  existing: Guest[];
+}
+
+export default function GuestImport({ query, total, households, mealOptions, readOnly = false, onError }: GuestImportProps) {
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState('');
+  const filtered = isFiltered(query);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      const [headers = [], ...rows] = parseDelimited(await selected.text());
+      if (headers.length === 0 || rows.length === 0) {
+        onError(`${selected.name} has no guest rows to import`);
+        return;
+      }
+
+      setFile({ name: selected.name, headers, rows, existing: await dbFunctions.getGuests() });
+      setMapping(guessColumnMapping(headers));
+      setMessage('');
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateMapping = (column: number, field: ImportField | '') => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field;
+      // A field can only come from one column
+      return field && current === field ? '' : current;
+    }));
+  };
+
+  // Reads every guest, so plus-ones can name hosts the filters leave out
+  const exportGuests = async () => {
+    try {
+      const everyone = await dbFunctions.getGuests();
+      const exported = filtered ? filterGuests(everyone, query) : everyone;
+      downloadFile(`guest-list-${today()}.csv`, toDelimited(guestsToRows(exported, households, mealOptions, everyone)));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const cancelImport = () => {
+    setFile(null);
+    setMapping([]);
+  };
+
+  const preview = file ? buildGuestImport(file.rows, mapping, file.existing) : [];
+  const namesMapped = mapping.includes('first_name') && mapping.includes('last_name');
+  const invalid = preview.filter(row => row.errors.length > 0);
+  const duplicates = preview.filter(row => row.errors.length === 0 && row.duplicateOf);
+  const ready = preview.filter(row => row.errors.length === 0 && !(skipDuplicates && row.duplicateOf));
+
+  const runImport = async () => {
+    if (!namesMapped || ready.length === 0) return;
+
+    try {
+      setImporting(true);
+      const added = await dbFunctions.addGuests(ready.map(row => row.guest));
+      setMessage(`Imported ${added.length} ${added.length === 1 ? 'guest' : 'guests'} from ${file?.name}`);
+      cancelImport();
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Import &amp; Export</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Bring in guests from a CSV or TSV spreadsheet, or download your list.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {!readOnly && (
+            <label className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                onChange={handleFile}
+                className="hidden"
+              />
+            </label>
+          )}
+          <button
+            onClick={exportGuests}
+            disabled={total === 0}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {filtered ? `Export ${total} Filtered` : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm flex items-center">
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          {message}
+        </div>
+      )}
+
+      {file && (
+        <div className="mt-6 space-y-6">
+          {/* Column Mapping */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3">
+              Match columns from {file.name} ({file.rows.length} rows)
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              {file.headers.map((header, column) => (
+                <div key={column} className="flex items-center space-x-2">
+                  <span className="w-1/2 text-sm text-gray-700 truncate" title={header}>
+                    {header || `Column ${column + 1}`}
+                  </span>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => updateMapping(column, e.target.value as ImportField | '')}
+                    className="w-1/2 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_FIELDS.map(field => (
+                      <option key={field.key} value={field.key}>{field.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {!namesMapped && (
+              <p className="text-sm text-red-600 mt-3">Choose the columns holding first and last names to continue.</p>
+            )}
+          </div>
+
+          {/* Preview */}
+          {namesMapped && (
+            <div>
+              <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                <span className="text-green-700">{ready.length} ready to import</span>
+                {invalid.length > 0 && <span className="text-red-600">{invalid.length} with errors (skipped)</span>}
+                {duplicates.length > 0 && <span className="text-yellow-700">{duplicates.length} possible duplicates</span>}
+                {duplicates.length > 0 && (
+                  <label className="flex items-center text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={skipDuplicates}
+                      onChange={(e) => setSkipDuplicates(e.target.checked)}
+                      className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+                    />
+                    Skip possible duplicates
+                  </label>
+                )}
+              </div>
+              <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">RSVP</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.map(row => (
+                      <tr
+                        key={row.line}
+                        className={row.errors.length > 0 ? 'bg-red-50' : row.duplicateOf ? 'bg-yellow-50' : ''}
+                      >
+                        <td className="px-4 py-2 text-sm text-gray-500">{row.line}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{row.guest.first_name} {row.guest.last_name}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{row.guest.email}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{row.guest.rsvp_status}</td>
+                        <td className="px-4 py-2 text-sm">
+                          {row.errors.map(error => (
+                            <div key={error} className="flex items-center text-red-700">
+                              <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                              {error}
+                            </div>
+                          ))}
+                          {row.duplicateOf && (
+                            <div className="flex items-center text-yellow-700">
+                              <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                              Possible duplicate of {row.duplicateOf}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={runImport}
+              disabled={!namesMapped || ready.length === 0 || importing}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importing ? 'Importing...' : `Import ${ready.length} ${ready.length === 1 ? 'Guest' : 'Guests'}`}
+            </button>
+            <button
+              onClick={cancelImport}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
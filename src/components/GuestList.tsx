@@ -0,0 +1,928 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit3, Save, X, Link, Home, UserPlus, Search, ChevronUp, ChevronDown, AlertTriangle } from 'lucide-react';
+import { dbFunctions, rsvpFunctions, Guest, GuestBulkFailure, GuestOverview, GuestQuery, GuestSort, Household, MealOption, SeatingTable, TrashedRecord } from '../lib/supabase';
+import { emptyAddress, findPlusOne, formatAddress, groupGuestsByHousehold, plusOneFor } from '../lib/households';
+import { GUEST_PAGE_SIZE, RSVP_STATUSES, emptyGuestForm, guestQueryToSearch, guestToForm, isFiltered, parseGuestForm, GuestForm } from '../lib/guests';
+import { guestName, tableLabel } from '../lib/seating';
+import { DIETARY_TAGS, dietaryTagLabel, isAllergy, normalizeDietaryTags } from '../lib/meals';
+import PlannerUpdateLabel from './PlannerUpdateLabel';
+import GuestFields from './GuestFields';
+
+interface GuestListProps {
+  // The guests matching `query` on its current page
+  page: Guest[];
+  // Their hosts, plus-ones and household members
+  related: Guest[];
+  // How many guests match across all pages
+  total: number;
+  // Counts and filter choices across every guest
+  overview: GuestOverview;
+  query: GuestQuery;
+  onQueryChange: (query: GuestQuery) => void;
+  households: Household[];
+  tables: SeatingTable[];
+  mealOptions: MealOption[];
+  readOnly?: boolean;
+  // Households can be locked while guests stay editable
+  householdsReadOnly?: boolean;
+  onDeleted?: (record: TrashedRecord) => void;
+  onError: (message: string) => void;
+}
+
+type HouseholdForm = typeof emptyAddress & { name: string };
+
+const emptyHousehold: HouseholdForm = { name: '', ...emptyAddress };
+
+const ADDRESS_FIELDS: { key: keyof typeof emptyAddress; placeholder: string }[] = [
+  { key: 'address_line1', placeholder: 'Address Line 1' },
+  { key: 'address_line2', placeholder: 'Address Line 2' },
+  { key: 'city', placeholder: 'City' },
+  { key: 'state', placeholder: 'State / Region' },
+  { key: 'postal_code', placeholder: 'Postal Code' },
+  { key: 'country', placeholder: 'Country' }
+];
+
+const COLUMNS: { label: string; sort?: GuestSort }[] = [
+  { label: 'Name', sort: 'name' },
+  { label: 'Contact' },
+  { label: 'Group', sort: 'group' },
+  { label: 'RSVP', sort: 'rsvp' },
+  { label: 'Table', sort: 'table' },
+  { label: 'Meal' },
+  { label: 'Plus-One' },
+  { label: 'Actions' }
+];
+
+const filterClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent';
+
+const bulkClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-rose-500 focus:border-transparent';
+
+interface BulkResult {
+  message: string;
+  failures: { name: string; message: string }[];
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function GuestList({ page, related, total, overview, query, onQueryChange, households, tables, mealOptions, readOnly = false, householdsReadOnly = readOnly, onDeleted, onError }: GuestListProps) {
+  const [showNewHousehold, setShowNewHousehold] = useState(false);
+  const [newHousehold, setNewHousehold] = useState<HouseholdForm>(emptyHousehold);
+  const [editingHousehold, setEditingHousehold] = useState<string | null>(null);
+  const [householdDraft, setHouseholdDraft] = useState<HouseholdForm>(emptyHousehold);
+  const [plusOneNames, setPlusOneNames] = useState<Record<string, string>>({});
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [editingGuest, setEditingGuest] = useState<string | null>(null);
+  const [guestDraft, setGuestDraft] = useState<GuestForm>(emptyGuestForm);
+  const [guestDraftErrors, setGuestDraftErrors] = useState<string[]>([]);
+  const [search, setSearch] = useState(query.search ?? '');
+  // Guest ids, which may span pages
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Guests picked with "Select all", which may not be on this page
+  const [matching, setMatching] = useState<Guest[]>([]);
+  const [bulkGroup, setBulkGroup] = useState('');
+  const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
+  const [bulkWorking, setBulkWorking] = useState(false);
+  // The page's guests and the ones shown alongside them
+  const shown = [...page, ...related];
+
+  // Any change to the filters starts over at the first page
+  const filterBy = (changes: Partial<GuestQuery>) => {
+    onQueryChange({ ...query, ...changes, page: undefined });
+  };
+
+  const sortBy = (sort: GuestSort) => {
+    onQueryChange({ ...query, sort, descending: query.sort === sort ? !query.descending : false, page: undefined });
+  };
+
+  // Typing only searches once it pauses
+  useEffect(() => {
+    if (search === (query.search ?? '')) return;
+    const timer = setTimeout(() => filterBy({ search: search || undefined }), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Picks up filters cleared or set from outside, like the RSVP stat cards
+  useEffect(() => {
+    setSearch(query.search ?? '');
+  }, [query.search]);
+
+  // A selection only makes sense for the filters it was made under
+  const filterKey = guestQueryToSearch({ ...query, sort: undefined, descending: undefined, page: undefined });
+  useEffect(() => {
+    setSelected(new Set());
+    setMatching([]);
+  }, [filterKey]);
+
+  const toggleSelected = (ids: string[], select: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => select ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const selectAllMatching = async () => {
+    try {
+      const guests = await dbFunctions.getGuests({ ...query, page: undefined, pageSize: undefined });
+      setMatching(guests);
+      setSelected(new Set(guests.map(guest => guest.id)));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  // Runs one bulk call for the selection; guests that failed stay selected to retry
+  const applyToSelected = async (done: (count: number) => string, run: (ids: string[]) => Promise<GuestBulkFailure[]>) => {
+    const ids = [...selected];
+
+    try {
+      setBulkWorking(true);
+      const failures = await run(ids);
+      const saved = ids.length - failures.length;
+
+      setBulkResult({
+        message: done(saved),
+        failures: failures.map(failure => {
+          const guest = [...shown, ...matching].find(g => g.id === failure.id);
+          return { name: guest ? guestName(guest) : 'A guest no longer on the list', message: failure.message };
+        })
+      });
+      setSelected(new Set(failures.map(failure => failure.id)));
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const guestCount = (count: number) => `${count} ${count === 1 ? 'guest' : 'guests'}`;
+
+  const bulkUpdate = (changes: Parameters<typeof dbFunctions.updateGuests>[1]) =>
+    applyToSelected(count => `Updated ${guestCount(count)}`, ids => dbFunctions.updateGuests(ids, changes));
+
+  const bulkDelete = () => {
+    if (!window.confirm(`Move ${guestCount(selected.size)} to the trash? Their plus-ones go with them.`)) return;
+    applyToSelected(count => `Moved ${guestCount(count)} to the trash`, dbFunctions.deleteGuests);
+  };
+
+  const bulkSetGroup = () => {
+    bulkUpdate({ group_name: bulkGroup.trim() });
+    setBulkGroup('');
+  };
+
+  const saveNewHousehold = async () => {
+    if (!newHousehold.name.trim()) return;
+
+    try {
+      await dbFunctions.addHousehold({ ...newHousehold, name: newHousehold.name.trim(), primary_contact_id: null });
+      setNewHousehold(emptyHousehold);
+      setShowNewHousehold(false);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditingHousehold = (household: Household) => {
+    setEditingHousehold(household.id);
+    setHouseholdDraft({
+      name: household.name,
+      address_line1: household.address_line1 ?? '',
+      address_line2: household.address_line2 ?? '',
+      city: household.city ?? '',
+      state: household.state ?? '',
+      postal_code: household.postal_code ?? '',
+      country: household.country ?? ''
+    });
+  };
+
+  const saveHousehold = async (household: Household) => {
+    if (!householdDraft.name.trim()) return;
+
+    try {
+      await dbFunctions.updateHousehold(household.id, { ...householdDraft, name: householdDraft.name.trim() });
+      setEditingHousehold(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateHousehold = async (household: Household, updates: Partial<Household>) => {
+    try {
+      await dbFunctions.updateHousehold(household.id, updates);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteHousehold = async (household: Household) => {
+    if (!window.confirm(`Delete the household "${household.name}"? Its guests stay on your list as individual invitations.`)) return;
+
+    try {
+      await dbFunctions.deleteHousehold(household.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateGuest = async (guest: Guest, updates: Partial<Guest>) => {
+    try {
+      await dbFunctions.updateGuest(guest.id, updates);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditingGuest = (guest: Guest) => {
+    setEditingGuest(guest.id);
+    setGuestDraft(guestToForm(guest));
+    setGuestDraftErrors([]);
+  };
+
+  // Households and plus-ones have their own controls on the row
+  const saveGuestEdit = async (guest: Guest) => {
+    const { guest: { household_id, plus_one_allowed, ...changes }, errors } = parseGuestForm(guestDraft);
+    setGuestDraftErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      await dbFunctions.updateGuest(guest.id, changes);
+      setEditingGuest(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const togglePlusOne = async (guest: Guest) => {
+    const plusOne = findPlusOne(shown, guest);
+
+    if (guest.plus_one_allowed && plusOne) {
+      if (!window.confirm(`Remove ${guestName(plusOne)} as ${guestName(guest)}'s plus-one?`)) return;
+
+      try {
+        await dbFunctions.deleteGuest(plusOne.id);
+      } catch (err: any) {
+        onError(err.message);
+        return;
+      }
+    }
+
+    await updateGuest(guest, { plus_one_allowed: !guest.plus_one_allowed });
+  };
+
+  const addPlusOne = async (guest: Guest) => {
+    const plusOne = plusOneFor(guest, plusOneNames[guest.id] ?? '');
+    if (!plusOne.first_name) return;
+
+    try {
+      await dbFunctions.addGuest(plusOne);
+      setPlusOneNames(prev => ({ ...prev, [guest.id]: '' }));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteGuest = async (guest: Guest) => {
+    try {
+      await dbFunctions.deleteGuest(guest.id);
+      onDeleted?.({ table: 'guests', id: guest.id, label: guestName(guest) });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const copyRsvpLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(rsvpFunctions.getRsvpUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(current => current === token ? null : current), 2000);
+    } catch (err: any) {
+      onError('Could not copy the RSVP link');
+    }
+  };
+
+  const renderCopyButton = (token: string, label: string) => (
+    <button
+      onClick={() => copyRsvpLink(token)}
+      className="text-rose-600 hover:text-rose-800 flex items-center"
+      title={label}
+    >
+      <Link className="w-4 h-4" />
+      {copiedToken === token && <span className="ml-1 text-xs">Copied</span>}
+    </button>
+  );
+
+  const renderAddressInputs = (form: HouseholdForm, setForm: (update: (prev: HouseholdForm) => HouseholdForm) => void) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <input
+        type="text"
+        placeholder="Household Name (e.g., The Garcia Family)"
+        value={form.name}
+        onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+        className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+      />
+      {ADDRESS_FIELDS.map(field => (
+        <input
+          key={field.key}
+          type="text"
+          placeholder={field.placeholder}
+          value={form[field.key]}
+          onChange={(e) => setForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+      ))}
+    </div>
+  );
+
+  const renderHouseholdHeader = (household: Household, members: Guest[]) => {
+    const invitees = members.filter(guest => !guest.plus_one_of);
+
+    if (editingHousehold === household.id) {
+      return (
+        <div className="space-y-3">
+          {renderAddressInputs(householdDraft, setHouseholdDraft)}
+          <div className="flex space-x-2">
+            <button
+              onClick={() => saveHousehold(household)}
+              className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors flex items-center text-sm"
+            >
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </button>
+            <button
+              onClick={() => setEditingHousehold(null)}
+              className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center text-sm"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const address = formatAddress(household);
+    const primaryContact = invitees.find(guest => guest.id === household.primary_contact_id);
+
+    return (
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+        <div>
+          <div className="flex items-center font-semibold text-gray-900">
+            <Home className="w-4 h-4 mr-2 text-rose-600" />
+            {household.name}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {members.length} {members.length === 1 ? 'guest' : 'guests'}
+            </span>
+          </div>
+          {address.length > 0 ? (
+            <div className="text-sm text-gray-600 mt-1">{address.join(' · ')}</div>
+          ) : (
+            <div className="text-sm text-gray-400 mt-1">No mailing address</div>
+          )}
+        </div>
+        {householdsReadOnly ? (
+          primaryContact && <div className="text-sm text-gray-600">Primary contact: {guestName(primaryContact)}</div>
+        ) : (
+          <div className="flex items-center space-x-3">
+            <select
+              value={household.primary_contact_id ?? ''}
+              onChange={(e) => updateHousehold(household, { primary_contact_id: e.target.value || null })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              <option value="">Primary contact...</option>
+              {invitees.map(guest => (
+                <option key={guest.id} value={guest.id}>{guestName(guest)}</option>
+              ))}
+            </select>
+            {renderCopyButton(household.rsvp_token, 'Copy household RSVP link')}
+            <button
+              onClick={() => startEditingHousehold(household)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => deleteHousehold(household)}
+              className="text-red-600 hover:text-red-900"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderPlusOneCell = (guest: Guest) => {
+    if (guest.plus_one_of) {
+      const host = shown.find(g => g.id === guest.plus_one_of);
+      return <span className="text-gray-500">{host ? `Guest of ${guestName(host)}` : 'Plus-one'}</span>;
+    }
+
+    const plusOne = findPlusOne(shown, guest);
+
+    if (readOnly) {
+      return <span className="text-gray-700">{guest.plus_one_allowed ? (plusOne ? guestName(plusOne) : 'Allowed') : '—'}</span>;
+    }
+
+    return (
+      <div className="space-y-2">
+        <label className="flex items-center text-gray-700">
+          <input
+            type="checkbox"
+            checked={guest.plus_one_allowed}
+            onChange={() => togglePlusOne(guest)}
+            className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+          />
+          Allowed
+        </label>
+        {guest.plus_one_allowed && !plusOne && (
+          <div className="flex items-center space-x-1">
+            <input
+              type="text"
+              placeholder="Name"
+              value={plusOneNames[guest.id] ?? ''}
+              onChange={(e) => setPlusOneNames(prev => ({ ...prev, [guest.id]: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && addPlusOne(guest)}
+              className="w-32 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => addPlusOne(guest)}
+              className="text-rose-600 hover:text-rose-800"
+              title="Add plus-one as a guest"
+            >
+              <UserPlus className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderGuestEditRow = (guest: Guest) => (
+    <tr key={guest.id} className="bg-rose-50/50">
+      <td colSpan={columnCount} className="px-6 py-4">
+        <GuestFields form={guestDraft} onChange={setGuestDraft} households={households} mealOptions={mealOptions} errors={guestDraftErrors} />
+        <div className="flex space-x-2 mt-3">
+          <button
+            onClick={() => saveGuestEdit(guest)}
+            className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors flex items-center text-sm"
+          >
+            <Save className="w-4 h-4 mr-1" />
+            Save
+          </button>
+          <button
+            onClick={() => setEditingGuest(null)}
+            className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center text-sm"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  const renderGuestRow = (guest: Guest) => editingGuest === guest.id && !readOnly ? renderGuestEditRow(guest) : (
+    <tr key={guest.id} className={selected.has(guest.id) ? 'bg-rose-50/50' : undefined}>
+      {!readOnly && (
+        <td className="pl-6 py-4">
+          <input
+            type="checkbox"
+            checked={selected.has(guest.id)}
+            onChange={(e) => toggleSelected([guest.id], e.target.checked)}
+            className="rounded text-rose-600 focus:ring-rose-500"
+            aria-label={`Select ${guestName(guest)}`}
+          />
+        </td>
+      )}
+      <td className="px-6 py-4 whitespace-nowrap">
+        <div className={`text-sm font-medium text-gray-900 ${guest.plus_one_of ? 'pl-4' : ''}`}>
+          {guest.first_name} {guest.last_name}
+        </div>
+        <PlannerUpdateLabel record={guest} />
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap">
+        <div className="text-sm text-gray-900">{guest.email}</div>
+        <div className="text-sm text-gray-500">{guest.phone}</div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+        {guest.group_name}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap">
+        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+          guest.rsvp_status === 'attending'
+            ? 'bg-green-100 text-green-800'
+            : guest.rsvp_status === 'declined'
+            ? 'bg-red-100 text-red-800'
+            : 'bg-yellow-100 text-yellow-800'
+        }`}>
+          {guest.rsvp_status}
+        </span>
+        {guest.rsvp_responded_at && (
+          <div className="text-xs text-gray-500 mt-1">via RSVP link</div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+        {guest.table_number != null
+          ? (() => {
+              const table = tables.find(t => t.table_number === guest.table_number);
+              return table ? tableLabel(table) : `Table ${guest.table_number}`;
+            })()
+          : '—'
+        }
+      </td>
+      <td className="px-6 py-4 text-sm">
+        <div className="text-gray-900 whitespace-nowrap">
+          {(guest.meal_option_id && mealNames.get(guest.meal_option_id)) || '—'}
+        </div>
+        {normalizeDietaryTags(guest.dietary_tags ?? []).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {normalizeDietaryTags(guest.dietary_tags).map(tag => (
+              <span
+                key={tag}
+                className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${isAllergy(tag) ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}
+              >
+                {dietaryTagLabel(tag)}
+              </span>
+            ))}
+          </div>
+        )}
+        {guest.dietary_restrictions?.trim() && (
+          <div className="text-xs text-gray-500 mt-1">{guest.dietary_restrictions}</div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {renderPlusOneCell(guest)}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+        {readOnly ? null : (
+          <div className="flex items-center space-x-3">
+            {!guest.plus_one_of && (
+              <select
+                value={guest.household_id ?? ''}
+                onChange={(e) => updateGuest(guest, { household_id: e.target.value || null })}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm font-normal focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                title="Household"
+              >
+                <option value="">No household</option>
+                {households.map(household => (
+                  <option key={household.id} value={household.id}>{household.name}</option>
+                ))}
+              </select>
+            )}
+            {!guest.plus_one_of && guest.rsvp_token && renderCopyButton(guest.rsvp_token, 'Copy RSVP link')}
+            <button
+              onClick={() => startEditingGuest(guest)}
+              title="Edit guest"
+              className="text-rose-600 hover:text-rose-800"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => deleteGuest(guest)}
+              title="Delete guest"
+              className="text-red-600 hover:text-red-900"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+
+  const filtered = isFiltered(query);
+  // Households whose guests are all on other pages are left out, as are ones
+  // without a match in a filtered list
+  const pageHouseholds = new Set(page.map(guest => guest.household_id));
+  const householdsInUse = new Set(overview.householdsInUse);
+  const groups = groupGuestsByHousehold(page, households.filter(household =>
+    pageHouseholds.has(household.id) || (!filtered && !householdsInUse.has(household.id))
+  ));
+  // Household headers count and offer every member, not just this page's
+  const members = new Map(groupGuestsByHousehold(shown, households)
+    .flatMap(group => group.household ? [[group.household.id, group.guests] as const] : []));
+  const pageNumber = query.page ?? 1;
+  const pageSize = query.pageSize ?? GUEST_PAGE_SIZE;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const columnCount = COLUMNS.length + (readOnly ? 0 : 1);
+  const pageIds = page.map(guest => guest.id);
+  const pageSelected = pageIds.length > 0 && pageIds.every(id => selected.has(id));
+
+  const groupNames = overview.groupNames;
+  const tableNumbers = [...new Set([
+    ...tables.map(table => table.table_number),
+    ...overview.tableNumbers
+  ])].sort((a, b) => a - b);
+  const tagsInUse = new Set(overview.dietaryTags);
+  const dietaryTags = DIETARY_TAGS.filter(tag => tagsInUse.has(tag.value) || tag.value === query.dietary);
+  const mealNames = new Map(mealOptions.map(option => [option.id, option.name]));
+
+  const renderSortHeader = (column: typeof COLUMNS[number]) => (
+    <th key={column.label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+      {column.sort ? (
+        <button
+          onClick={() => sortBy(column.sort!)}
+          className="flex items-center uppercase tracking-wider hover:text-gray-700"
+          title={`Sort by ${column.label.toLowerCase()}`}
+        >
+          {column.label}
+          {query.sort === column.sort && (query.descending
+            ? <ChevronDown className="w-3 h-3 ml-1" />
+            : <ChevronUp className="w-3 h-3 ml-1" />
+          )}
+        </button>
+      ) : column.label}
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* New Household */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Households</h3>
+          {!showNewHousehold && !householdsReadOnly && (
+            <button
+              onClick={() => setShowNewHousehold(true)}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Household
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Group guests who share an invitation. Each household gets one mailing address and one RSVP link.
+        </p>
+        {showNewHousehold && (
+          <div className="mt-4 space-y-3">
+            {renderAddressInputs(newHousehold, setNewHousehold)}
+            <div className="flex space-x-2">
+              <button
+                onClick={saveNewHousehold}
+                className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Household
+              </button>
+              <button
+                onClick={() => {
+                  setShowNewHousehold(false);
+                  setNewHousehold(emptyHousehold);
+                }}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Guests List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              placeholder="Search name, email or phone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`${filterClass} w-full pl-9`}
+            />
+          </div>
+          <select
+            value={query.rsvp_status ?? ''}
+            onChange={(e) => filterBy({ rsvp_status: e.target.value || undefined })}
+            className={filterClass}
+            title="RSVP"
+          >
+            <option value="">All RSVPs</option>
+            {RSVP_STATUSES.map(status => (
+              <option key={status} value={status}>{capitalize(status)}</option>
+            ))}
+          </select>
+          <select
+            value={query.group_name ?? ''}
+            onChange={(e) => filterBy({ group_name: e.target.value || undefined })}
+            className={filterClass}
+            title="Group"
+          >
+            <option value="">All groups</option>
+            {groupNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            value={query.table ?? ''}
+            onChange={(e) => filterBy({ table: e.target.value === 'none' ? 'none' : e.target.value ? Number(e.target.value) : undefined })}
+            className={filterClass}
+            title="Table"
+          >
+            <option value="">All tables</option>
+            <option value="none">No table</option>
+            {tableNumbers.map(number => {
+              const table = tables.find(t => t.table_number === number);
+              return <option key={number} value={number}>{table ? tableLabel(table) : `Table ${number}`}</option>;
+            })}
+          </select>
+          <select
+            value={query.dietary ?? ''}
+            onChange={(e) => filterBy({ dietary: e.target.value || undefined })}
+            className={filterClass}
+            title="Dietary needs"
+          >
+            <option value="">All diets</option>
+            <option value="any">Any dietary needs</option>
+            <option value="none">No dietary needs</option>
+            {dietaryTags.map(tag => (
+              <option key={tag.value} value={tag.value}>{tag.label}</option>
+            ))}
+          </select>
+          {filtered && (
+            <button
+              onClick={() => onQueryChange({ sort: query.sort, descending: query.descending })}
+              className="text-sm text-rose-600 hover:text-rose-800 flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </button>
+          )}
+        </div>
+        {!readOnly && selected.size > 0 && (
+          <div className="px-4 py-3 bg-rose-50 border-b border-rose-100 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-gray-900">{guestCount(selected.size)} selected</span>
+            {pageSelected && selected.size < total && (
+              <button onClick={selectAllMatching} className="text-rose-600 hover:text-rose-800 underline">
+                Select all {total} {filtered ? 'matching' : 'guests'}
+              </button>
+            )}
+            <select
+              value=""
+              onChange={(e) => e.target.value && bulkUpdate({ rsvp_status: e.target.value })}
+              disabled={bulkWorking}
+              className={bulkClass}
+              title="Set RSVP"
+            >
+              <option value="">Set RSVP...</option>
+              {RSVP_STATUSES.map(status => (
+                <option key={status} value={status}>{capitalize(status)}</option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-1">
+              <input
+                type="text"
+                placeholder="Group"
+                value={bulkGroup}
+                onChange={(e) => setBulkGroup(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && bulkSetGroup()}
+                list="guest-list-groups"
+                className={`${bulkClass} w-32`}
+              />
+              <datalist id="guest-list-groups">
+                {groupNames.map(name => <option key={name} value={name} />)}
+              </datalist>
+              <button
+                onClick={bulkSetGroup}
+                disabled={bulkWorking}
+                className="px-2 py-1 rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                Set Group
+              </button>
+            </div>
+            <select
+              value=""
+              onChange={(e) => e.target.value && bulkUpdate({ table_number: e.target.value === 'none' ? null : Number(e.target.value) })}
+              disabled={bulkWorking}
+              className={bulkClass}
+              title="Assign table"
+            >
+              <option value="">Assign table...</option>
+              <option value="none">No table</option>
+              {tables.map(table => (
+                <option key={table.id} value={table.table_number}>{tableLabel(table)}</option>
+              ))}
+            </select>
+            <button
+              onClick={bulkDelete}
+              disabled={bulkWorking}
+              className="text-red-600 hover:text-red-900 disabled:opacity-50 flex items-center"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </button>
+            <button onClick={() => setSelected(new Set())} className="ml-auto text-gray-600 hover:text-gray-900">
+              Clear selection
+            </button>
+          </div>
+        )}
+        {bulkResult && (
+          <div className={`px-4 py-3 border-b text-sm ${
+            bulkResult.failures.length > 0 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-700'
+          }`}>
+            <div className="flex items-start justify-between">
+              <div>
+                {bulkResult.message}
+                {bulkResult.failures.length > 0 && (
+                  <>
+                    <div className="flex items-center font-medium mt-1">
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      {guestCount(bulkResult.failures.length)} couldn't be changed and are still selected:
+                    </div>
+                    <ul className="mt-1 list-disc list-inside">
+                      {bulkResult.failures.map((failure, index) => (
+                        <li key={index}>{failure.name}: {failure.message}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+              <button onClick={() => setBulkResult(null)} className="text-gray-500 hover:text-gray-700" title="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {!readOnly && (
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={pageSelected}
+                      onChange={(e) => toggleSelected(pageIds, e.target.checked)}
+                      className="rounded text-rose-600 focus:ring-rose-500"
+                      aria-label="Select every guest on this page"
+                    />
+                  </th>
+                )}
+                {COLUMNS.map(renderSortHeader)}
+              </tr>
+            </thead>
+            {filtered && page.length === 0 && (
+              <tbody>
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-4 text-sm text-gray-500">
+                    No guests match these filters.
+                  </td>
+                </tr>
+              </tbody>
+            )}
+            {groups.map(group => (
+              <tbody key={group.household?.id ?? 'individual'} className="bg-white divide-y divide-gray-200">
+                <tr className="bg-rose-50">
+                  <td colSpan={columnCount} className="px-6 py-3">
+                    {group.household ? (
+                      renderHouseholdHeader(group.household, members.get(group.household.id) ?? group.guests)
+                    ) : (
+                      <div className="font-semibold text-gray-900">Individual Invitations</div>
+                    )}
+                  </td>
+                </tr>
+                {group.guests.length === 0 ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-6 py-4 text-sm text-gray-500">
+                      No guests yet. Move guests here with the household menu on their row.
+                    </td>
+                  </tr>
+                ) : (
+                  group.guests.map(renderGuestRow)
+                )}
+              </tbody>
+            ))}
+          </table>
+        </div>
+        {total > 0 && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {(pageNumber - 1) * pageSize + 1}-{Math.min(pageNumber * pageSize, total)} of {total} {total === 1 ? 'guest' : 'guests'}
+            </span>
+            {pageCount > 1 && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => onQueryChange({ ...query, page: pageNumber - 1 })}
+                  disabled={pageNumber <= 1}
+                  className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Previous
+                </button>
+                <span>Page {pageNumber} of {pageCount}</span>
+                <button
+                  onClick={() => onQueryChange({ ...query, page: pageNumber + 1 })}
+                  disabled={pageNumber >= pageCount}
+                  className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { UserCheck } from 'lucide-react';
+import { formatDateTime } from '../lib/dates';
+
+interface PlannerUpdateLabelProps {
+  record: { updated_by_admin: boolean; updated_at: string | null };
+}
+
+// Shown on tasks, vendors and guests a planner last changed for the couple
+export default function PlannerUpdateLabel({ record }: PlannerUpdateLabelProps) {
+  if (!record.updated_by_admin) return null;
+
+  return (
+    <span
+      className="inline-flex items-center text-xs font-normal text-indigo-600"
+      title={record.updated_at ? formatDateTime(record.updated_at) : undefined}
+    >
+      <UserCheck className="w-3 h-3 mr-1" />
+      Updated by your planner
+    </span>
+  );
+}
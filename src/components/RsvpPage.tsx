@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { Heart, Calendar, CheckCircle2 } from 'lucide-react';
+import { rsvpFunctions, RsvpInvitation, RsvpResponse } from '../lib/supabase';
+import { formatDate } from '../lib/dates';
+import { DIETARY_TAGS } from '../lib/meals';
+
+interface RsvpPageProps {
+  token: string;
+}
+
+export default function RsvpPage({ token }: RsvpPageProps) {
+  const [invitation, setInvitation] = useState<RsvpInvitation | null>(null);
+  const [responses, setResponses] = useState<RsvpResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadInvitation();
+  }, [token]);
+
+  const loadInvitation = async () => {
+    try {
+      setLoading(true);
+      const data = await rsvpFunctions.getInvitation(token);
+      setInvitation(data);
+      setResponses((data?.guests ?? []).map(guest => ({
+        guest_id: guest.id,
+        rsvp_status: guest.rsvp_status === 'declined' ? 'declined' : 'attending',
+        plus_one: guest.plus_one ?? '',
+        dietary_restrictions: guest.dietary_restrictions ?? '',
+        dietary_tags: guest.dietary_tags ?? [],
+        meal_option_id: guest.meal_option_id,
+        plus_one_meal_option_id: guest.plus_one_meal_option_id
+      })));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateResponse = (guestId: string, updates: Partial<RsvpResponse>) => {
+    setResponses(prev => prev.map(response =>
+      response.guest_id === guestId ? { ...response, ...updates } : response
+    ));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await rsvpFunctions.submitResponses(token, responses.map(response =>
+        response.rsvp_status === 'declined'
+          ? { ...response, plus_one: '', dietary_restrictions: '', dietary_tags: [], meal_option_id: null, plus_one_meal_option_id: null }
+          : response
+      ));
+      setSubmitted(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send your RSVP');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleTag = (response: RsvpResponse, tag: string, checked: boolean) => {
+    updateResponse(response.guest_id, {
+      dietary_tags: checked ? [...response.dietary_tags, tag] : response.dietary_tags.filter(t => t !== tag)
+    });
+  };
+
+  const renderMealSelect = (label: string, value: string | null, onChange: (mealOptionId: string | null) => void) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+        <select
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className="mt-2 w-full px-4 py-3 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        >
+          <option value="">Choose a meal</option>
+          {(invitation?.meal_options ?? []).map(option => (
+            <option key={option.id} value={option.id}>
+              {option.description ? `${option.name} - ${option.description}` : option.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center">
+        <div className="text-center">
+          <Heart className="w-12 h-12 text-rose-600 animate-pulse mx-auto mb-4" />
+          <p className="text-gray-600">Loading your invitation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md text-center">
+          <div className="w-16 h-16 bg-rose-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Heart className="w-8 h-8 text-rose-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Invitation Not Found</h2>
+          <p className="text-gray-600">
+            {error || 'This RSVP link is not valid. Please check the link you were sent or contact the couple.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (submitted) {
+    const attending = responses.some(response => response.rsvp_status === 'attending');
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md text-center">
+          <div className="w-16 h-16 bg-rose-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <CheckCircle2 className="w-8 h-8 text-rose-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Thank You!</h2>
+          <p className="text-gray-600 mb-6">
+            {attending
+              ? `${invitation.couple_names} can't wait to celebrate with you.`
+              : `${invitation.couple_names} will miss you, and thank you for letting them know.`
+            }
+          </p>
+          <button
+            onClick={() => setSubmitted(false)}
+            className="text-rose-600 hover:text-rose-700 font-medium"
+          >
+            Change my response
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-lg">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-rose-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Heart className="w-8 h-8 text-rose-600" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{invitation.couple_names}</h1>
+          {invitation.wedding_date && (
+            <p className="flex items-center justify-center text-gray-600">
+              <Calendar className="w-4 h-4 mr-2" />
+              {formatDate(invitation.wedding_date)}
+            </p>
+          )}
+          {invitation.household_name && (
+            <p className="text-gray-800 font-medium mt-4">{invitation.household_name}</p>
+          )}
+          <p className="text-gray-600 mt-2">Please let us know if you can make it</p>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {invitation.guests.map(guest => {
+            const response = responses.find(r => r.guest_id === guest.id);
+            if (!response) return null;
+
+            return (
+              <div key={guest.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                <h3 className="font-semibold text-gray-900">{guest.first_name} {guest.last_name}</h3>
+
+                <div className="grid grid-cols-2 gap-3">
+                  {[
+                    { value: 'attending' as const, label: 'Joyfully accepts' },
+                    { value: 'declined' as const, label: 'Regretfully declines' },
+                  ].map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => updateResponse(guest.id, { rsvp_status: option.value })}
+                      className={`py-3 px-4 rounded-lg border font-medium transition-colors ${
+                        response.rsvp_status === option.value
+                          ? 'border-rose-500 bg-rose-50 text-rose-700'
+                          : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {response.rsvp_status === 'attending' && (
+                  <>
+                    {invitation.meal_options.length > 0 && renderMealSelect(
+                      'Meal',
+                      response.meal_option_id,
+                      mealOptionId => updateResponse(guest.id, { meal_option_id: mealOptionId })
+                    )}
+                    {guest.plus_one_allowed && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Plus-One Name (leave blank if coming alone)
+                        </label>
+                        <input
+                          type="text"
+                          value={response.plus_one}
+                          onChange={(e) => updateResponse(guest.id, { plus_one: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                        />
+                      </div>
+                    )}
+                    {guest.plus_one_allowed && response.plus_one.trim() && invitation.meal_options.length > 0 && renderMealSelect(
+                      `Meal for ${response.plus_one.trim()}`,
+                      response.plus_one_meal_option_id,
+                      mealOptionId => updateResponse(guest.id, { plus_one_meal_option_id: mealOptionId })
+                    )}
+                    <fieldset>
+                      <legend className="block text-sm font-medium text-gray-700 mb-2">
+                        Dietary Needs and Allergies
+                      </legend>
+                      <div className="grid grid-cols-2 gap-2">
+                        {DIETARY_TAGS.map(tag => (
+                          <label key={tag.value} className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={response.dietary_tags.includes(tag.value)}
+                              onChange={(e) => toggleTag(response, tag.value, e.target.checked)}
+                              className="mr-2 rounded text-rose-600 focus:ring-rose-500"
+                            />
+                            {tag.label}
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Anything Else the Kitchen Should Know
+                      </label>
+                      <input
+                        type="text"
+                        value={response.dietary_restrictions}
+                        onChange={(e) => updateResponse(guest.id, { dietary_restrictions: e.target.value })}
+                        placeholder="e.g., No mushrooms"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-rose-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-rose-700 focus:ring-2 focus:ring-rose-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? 'Please wait...' : 'Send RSVP'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
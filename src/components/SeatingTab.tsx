@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, AlertTriangle, Users } from 'lucide-react';
+import { dbFunctions, Guest, SeatingTable, SeatingRule } from '../lib/supabase';
+import { findSeatingConflicts, guestName, tableLabel, takesSeat, TABLE_SHAPES } from '../lib/seating';
+
+interface SeatingTabProps {
+  guests: Guest[];
+  tables: SeatingTable[];
+  rules: SeatingRule[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function SeatingTab({ guests, tables, rules, readOnly = false, onError }: SeatingTabProps) {
+  const [newTable, setNewTable] = useState({
+    name: '',
+    capacity: '8',
+    shape: 'round' as SeatingTable['shape']
+  });
+  const [newRule, setNewRule] = useState({
+    guest_id: '',
+    other_guest_id: '',
+    rule: 'together' as SeatingRule['rule']
+  });
+  const [dropTarget, setDropTarget] = useState<number | 'unseated' | null>(null);
+
+  const assignGuest = async (guestId: string, tableNumber: number | null) => {
+    const guest = guests.find(g => g.id === guestId);
+    if (!guest || guest.table_number === tableNumber) return;
+
+    try {
+      await dbFunctions.updateGuest(guestId, { table_number: tableNumber });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveTable = async () => {
+    const capacity = parseInt(newTable.capacity, 10);
+    if (!capacity || capacity < 1) return;
+
+    const tableNumber = tables.reduce((max, table) => Math.max(max, table.table_number), 0) + 1;
+
+    try {
+      await dbFunctions.addSeatingTable({
+        table_number: tableNumber,
+        name: newTable.name || `Table ${tableNumber}`,
+        capacity,
+        shape: newTable.shape
+      });
+      setNewTable(prev => ({ ...prev, name: '' }));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateTable = async (table: SeatingTable, updates: Partial<SeatingTable>) => {
+    try {
+      await dbFunctions.updateSeatingTable(table.id, updates);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteTable = async (table: SeatingTable) => {
+    try {
+      // Unseat everyone first so no guest points at a missing table
+      const seated = guests.filter(guest => guest.table_number === table.table_number);
+      for (const guest of seated) {
+        await dbFunctions.updateGuest(guest.id, { table_number: null });
+      }
+      await dbFunctions.deleteSeatingTable(table.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveRule = async () => {
+    if (!newRule.guest_id || !newRule.other_guest_id || newRule.guest_id === newRule.other_guest_id) return;
+
+    try {
+      await dbFunctions.addSeatingRule(newRule.guest_id, newRule.other_guest_id, newRule.rule);
+      setNewRule(prev => ({ ...prev, guest_id: '', other_guest_id: '' }));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      await dbFunctions.deleteSeatingRule(id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const dropProps = (target: number | 'unseated') => readOnly ? {} : ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      assignGuest(e.dataTransfer.getData('text/plain'), target === 'unseated' ? null : target);
+    }
+  });
+
+  const renderGuestChip = (guest: Guest, onRemove?: () => void) => (
+    <div
+      key={guest.id}
+      draggable={!readOnly}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', guest.id)}
+      className={`flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm ${readOnly ? '' : 'cursor-move'}`}
+    >
+      <span className={takesSeat(guest) ? 'text-gray-900' : 'text-gray-400 line-through'}>{guestName(guest)}</span>
+      {!takesSeat(guest) && <span className="ml-2 mr-auto text-xs text-gray-500">Declined</span>}
+      {onRemove && !readOnly && (
+        <button onClick={onRemove} className="text-gray-400 hover:text-red-600 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  const conflicts = findSeatingConflicts(tables, guests, rules);
+  const unseated = guests.filter(guest => guest.rsvp_status === 'attending' && guest.table_number == null);
+  const guestsById = new Map(guests.map(guest => [guest.id, guest]));
+  const seatedCount = guests.filter(guest => guest.table_number != null && takesSeat(guest)).length;
+  const totalCapacity = tables.reduce((sum, table) => sum + table.capacity, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Seating Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-900">{tables.length}</div>
+          <div className="text-sm text-gray-600">Tables</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-900">{totalCapacity}</div>
+          <div className="text-sm text-gray-600">Seats</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-green-600">{seatedCount}</div>
+          <div className="text-sm text-gray-600">Seated</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-yellow-600">{unseated.length}</div>
+          <div className="text-sm text-gray-600">Attending, Unseated</div>
+        </div>
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 space-y-1">
+          {conflicts.map((conflict, index) => (
+            <div
+              key={index}
+              className={`flex items-center text-sm ${conflict.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+            >
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {conflict.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add Table Form */}
+      {!readOnly && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Table</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              placeholder="Table Name (e.g., Family)"
+              value={newTable.name}
+              onChange={(e) => setNewTable(prev => ({ ...prev, name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              min="1"
+              placeholder="Capacity"
+              value={newTable.capacity}
+              onChange={(e) => setNewTable(prev => ({ ...prev, capacity: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <select
+              value={newTable.shape}
+              onChange={(e) => setNewTable(prev => ({ ...prev, shape: e.target.value as SeatingTable['shape'] }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              {TABLE_SHAPES.map(shape => (
+                <option key={shape.value} value={shape.value}>{shape.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={saveTable}
+            className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Table
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Unseated Guests */}
+        <div
+          {...dropProps('unseated')}
+          className={`bg-white rounded-lg shadow-sm border p-4 self-start ${
+            dropTarget === 'unseated' ? 'border-rose-400 bg-rose-50' : 'border-gray-200'
+          }`}
+        >
+          <h4 className="font-semibold text-gray-900 mb-1">Unseated</h4>
+          {!readOnly && <p className="text-sm text-gray-600 mb-3">Drag attending guests onto a table</p>}
+          <div className="space-y-2">
+            {unseated.map(guest => renderGuestChip(guest))}
+          </div>
+          {unseated.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">Everyone attending has a seat</p>
+          )}
+        </div>
+
+        {/* Tables */}
+        <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {tables.map(table => {
+            const assigned = guests.filter(guest => guest.table_number === table.table_number);
+            const seated = assigned.filter(takesSeat);
+            const full = seated.length >= table.capacity;
+
+            return (
+              <div
+                key={table.id}
+                {...dropProps(table.table_number)}
+                className={`bg-white shadow-sm border-2 p-4 ${
+                  table.shape === 'round' ? 'rounded-3xl' : 'rounded-lg'
+                } ${
+                  dropTarget === table.table_number
+                    ? 'border-rose-400 bg-rose-50'
+                    : seated.length > table.capacity
+                    ? 'border-red-300'
+                    : 'border-gray-200'
+                }`}
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <input
+                      key={`${table.id}-${table.name}`}
+                      type="text"
+                      defaultValue={tableLabel(table)}
+                      readOnly={readOnly}
+                      onBlur={(e) => e.target.value !== tableLabel(table) && updateTable(table, { name: e.target.value })}
+                      className="font-semibold text-gray-900 border-b border-transparent hover:border-gray-300 focus:border-rose-500 focus:outline-none"
+                    />
+                    <div className={`flex items-center text-sm ${full ? 'text-red-600' : 'text-gray-600'}`}>
+                      <Users className="w-4 h-4 mr-1" />
+                      {seated.length} /
+                      <input
+                        key={`${table.id}-${table.capacity}`}
+                        type="number"
+                        min="1"
+                        defaultValue={table.capacity}
+                        readOnly={readOnly}
+                        onBlur={(e) => {
+                          const capacity = parseInt(e.target.value, 10);
+                          if (capacity > 0 && capacity !== table.capacity) updateTable(table, { capacity });
+                        }}
+                        className="w-12 ml-1 border-b border-transparent hover:border-gray-300 focus:border-rose-500 focus:outline-none"
+                      />
+                      <span className="ml-1 capitalize">· {table.shape}</span>
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <button
+                      onClick={() => deleteTable(table)}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2 min-h-[3rem]">
+                  {assigned.map(guest => renderGuestChip(guest, () => assignGuest(guest.id, null)))}
+                </div>
+              </div>
+            );
+          })}
+          {tables.length === 0 && (
+            <div className="md:col-span-2 xl:col-span-3 text-center py-12 text-gray-600">
+              Add your first table to start seating guests
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Seating Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Seating Rules</h3>
+        {!readOnly && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <select
+              value={newRule.guest_id}
+              onChange={(e) => setNewRule(prev => ({ ...prev, guest_id: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              <option value="">Select guest</option>
+              {guests.map(guest => (
+                <option key={guest.id} value={guest.id}>{guestName(guest)}</option>
+              ))}
+            </select>
+            <select
+              value={newRule.rule}
+              onChange={(e) => setNewRule(prev => ({ ...prev, rule: e.target.value as SeatingRule['rule'] }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              <option value="together">must sit with</option>
+              <option value="apart">must be kept apart from</option>
+            </select>
+            <select
+              value={newRule.other_guest_id}
+              onChange={(e) => setNewRule(prev => ({ ...prev, other_guest_id: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              <option value="">Select guest</option>
+              {guests.filter(guest => guest.id !== newRule.guest_id).map(guest => (
+                <option key={guest.id} value={guest.id}>{guestName(guest)}</option>
+              ))}
+            </select>
+            <button
+              onClick={saveRule}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </button>
+          </div>
+        )}
+        <div className="mt-4 space-y-2">
+          {rules.map(rule => {
+            const guest = guestsById.get(rule.guest_id);
+            const other = guestsById.get(rule.other_guest_id);
+            if (!guest || !other) return null;
+
+            return (
+              <div key={rule.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900">
+                  {guestName(guest)}
+                  <span className={rule.rule === 'together' ? 'text-green-600' : 'text-red-600'}>
+                    {rule.rule === 'together' ? ' sits with ' : ' is kept apart from '}
+                  </span>
+                  {guestName(other)}
+                </span>
+                {!readOnly && (
+                  <button
+                    onClick={() => deleteRule(rule.id)}
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, UploadCloud } from 'lucide-react';
+import { syncFunctions } from '../lib/supabase';
+import { SyncConflict, SyncState, getSyncState, subscribeSyncState, updateSyncState } from '../lib/offline';
+import { fieldLabel, formatValue, recordNoun } from '../lib/activity';
+import { formatDateTime } from '../lib/dates';
+
+interface SyncStatusProps {
+  onError: (message: string) => void;
+}
+
+// Retry queued changes this often while the browser thinks it's online
+const RETRY_MS = 30 * 1000;
+
+const conflictTitle = (conflict: SyncConflict) => {
+  const { table, label } = conflict.mutation;
+  return `${recordNoun(table)}${label ? ` "${label}"` : ''}`;
+};
+
+export default function SyncStatus({ onError }: SyncStatusProps) {
+  const [state, setState] = useState<SyncState>(getSyncState());
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  useEffect(() => {
+    const stopListening = subscribeSyncState(setState);
+    const goOnline = () => {
+      updateSyncState({ online: true });
+      syncFunctions.sync();
+    };
+    const goOffline = () => updateSyncState({ online: false });
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    syncFunctions.sync();
+
+    const retry = window.setInterval(() => {
+      if (navigator.onLine && getSyncState().pending > 0) syncFunctions.sync();
+    }, RETRY_MS);
+
+    return () => {
+      stopListening();
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      window.clearInterval(retry);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (state.conflicts.length === 0) setShowConflicts(false);
+  }, [state.conflicts.length]);
+
+  const keepMine = async (conflict: SyncConflict) => {
+    try {
+      await syncFunctions.keepMine(conflict);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const renderStatus = () => {
+    if (state.conflicts.length > 0) {
+      return (
+        <button
+          onClick={() => setShowConflicts(show => !show)}
+          className="flex items-center text-amber-600 hover:text-amber-700"
+        >
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          {state.conflicts.length} {state.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+        </button>
+      );
+    }
+    if (!state.online) {
+      return (
+        <span className="flex items-center text-gray-500">
+          <CloudOff className="w-4 h-4 mr-1" />
+          Offline{state.pending > 0 && ` · ${state.pending} waiting`}
+        </span>
+      );
+    }
+    if (state.syncing) {
+      return (
+        <span className="flex items-center text-gray-500">
+          <RefreshCw className="w-4 h-4 mr-1 animate-spin" />
+          Syncing...
+        </span>
+      );
+    }
+    if (state.pending > 0) {
+      return (
+        <button
+          onClick={() => syncFunctions.sync()}
+          className="flex items-center text-gray-600 hover:text-gray-900"
+          title="Sync now"
+        >
+          <UploadCloud className="w-4 h-4 mr-1" />
+          {state.pending} waiting
+        </button>
+      );
+    }
+    return (
+      <span
+        className="flex items-center text-green-600"
+        title={state.lastSyncedAt ? `Last synced ${formatDateTime(state.lastSyncedAt)}` : undefined}
+      >
+        <Cloud className="w-4 h-4 mr-1" />
+        Saved
+      </span>
+    );
+  };
+
+  return (
+    <div className="relative text-sm">
+      {renderStatus()}
+
+      {showConflicts && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h4 className="font-medium text-gray-900">Changes that clashed</h4>
+            <p className="text-xs text-gray-600">
+              These were changed by someone else while you were offline. Their version was kept.
+            </p>
+          </div>
+          <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+            {state.conflicts.map(conflict => (
+              <div key={conflict.id} className="px-4 py-3">
+                <div className="text-gray-900">
+                  {conflict.message
+                    ? `Couldn't save your change to ${conflictTitle(conflict)}: ${conflict.message}`
+                    : `Your change to ${conflictTitle(conflict)}`}
+                </div>
+                {conflict.fields.length > 0 && (
+                  <ul className="mt-1 text-gray-600 space-y-0.5">
+                    {conflict.fields.map(field => (
+                      <li key={field.field}>
+                        {fieldLabel(field.field)}: yours {formatValue(field.mine)}, theirs {formatValue(field.theirs)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex justify-end space-x-3 mt-2">
+                  {conflict.fields.length > 0 && (
+                    <button
+                      onClick={() => keepMine(conflict)}
+                      className="text-rose-600 hover:text-rose-700 font-medium"
+                    >
+                      Keep mine
+                    </button>
+                  )}
+                  <button
+                    onClick={() => syncFunctions.dismiss(conflict)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    {conflict.fields.length > 0 ? 'Keep theirs' : 'Dismiss'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Save,
+  X,
+  Edit3,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  ChevronUp,
+  ChevronDown,
+  Send
+} from 'lucide-react';
+import { dbFunctions, ChecklistTemplate, ChecklistTemplateTask } from '../lib/supabase';
+import { TASK_PHASES } from '../lib/tasks';
+
+interface TemplateManagerProps {
+  templates: ChecklistTemplate[];
+  onTemplatesChange: () => void;
+  onError: (message: string) => void;
+}
+
+export default function TemplateManager({ templates, onTemplatesChange, onError }: TemplateManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [templateTasks, setTemplateTasks] = useState<ChecklistTemplateTask[]>([]);
+  const [newTemplate, setNewTemplate] = useState({ name: '', description: '' });
+  const [newTaskNames, setNewTaskNames] = useState<Record<string, string>>({});
+  const [editingTask, setEditingTask] = useState<string | null>(null);
+  const [taskForm, setTaskForm] = useState({ task_name: '', phase: '' });
+  const [syncMessage, setSyncMessage] = useState('');
+
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!selectedId && templates.length > 0) {
+      setSelectedId(templates[0].id);
+    }
+  }, [templates, selectedId]);
+
+  useEffect(() => {
+    setSyncMessage('');
+    if (selectedId) loadTemplateTasks(selectedId);
+  }, [selectedId]);
+
+  const loadTemplateTasks = async (templateId: string) => {
+    try {
+      setTemplateTasks(await dbFunctions.getTemplateTasks(templateId));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!newTemplate.name) return;
+
+    try {
+      const template = await dbFunctions.addChecklistTemplate(newTemplate.name, newTemplate.description);
+      setNewTemplate({ name: '', description: '' });
+      setSelectedId(template.id);
+      onTemplatesChange();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteTemplate = async (template: ChecklistTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template? Clients keep the tasks they already have.`)) return;
+
+    try {
+      await dbFunctions.deleteChecklistTemplate(template.id);
+      setSelectedId(null);
+      onTemplatesChange();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const pushTemplate = async (template: ChecklistTemplate) => {
+    try {
+      const count = await dbFunctions.syncChecklistTemplate(template.id);
+      setSyncMessage(`Pushed to ${count} ${count === 1 ? 'client' : 'clients'}`);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const addTask = async (phase: string) => {
+    const taskName = (newTaskNames[phase] ?? '').trim();
+    if (!selectedId || !taskName) return;
+
+    const position = templateTasks
+      .filter(t => t.phase === phase)
+      .reduce((max, t) => Math.max(max, t.position + 1), 0);
+
+    try {
+      await dbFunctions.addTemplateTask(selectedId, taskName, phase, position);
+      setNewTaskNames(prev => ({ ...prev, [phase]: '' }));
+      loadTemplateTasks(selectedId);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateTask = async (id: string, updates: Partial<ChecklistTemplateTask>) => {
+    try {
+      await dbFunctions.updateTemplateTask(id, updates);
+      if (selectedId) loadTemplateTasks(selectedId);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const saveTask = async (task: ChecklistTemplateTask) => {
+    if (!taskForm.task_name.trim()) return;
+
+    const updates: Partial<ChecklistTemplateTask> = { task_name: taskForm.task_name.trim() };
+    if (taskForm.phase !== task.phase) {
+      updates.phase = taskForm.phase;
+      updates.position = templateTasks
+        .filter(t => t.phase === taskForm.phase)
+        .reduce((max, t) => Math.max(max, t.position + 1), 0);
+    }
+
+    await updateTask(task.id, updates);
+    setEditingTask(null);
+  };
+
+  const moveTask = async (phaseTasks: ChecklistTemplateTask[], index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= phaseTasks.length) return;
+
+    const ids = phaseTasks.map(t => t.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    try {
+      await dbFunctions.reorderTemplateTasks(phaseTasks[index].phase, ids);
+      if (selectedId) loadTemplateTasks(selectedId);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Templates */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4 self-start">
+        <h3 className="text-lg font-semibold text-gray-900">Templates</h3>
+        <div className="space-y-1">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => setSelectedId(template.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                template.id === selectedId
+                  ? 'bg-rose-50 text-rose-700 font-medium'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {template.name}
+              {template.is_default && <span className="ml-2 text-xs text-gray-500">(default)</span>}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2 pt-4 border-t border-gray-200">
+          <input
+            type="text"
+            placeholder="Template name"
+            value={newTemplate.name}
+            onChange={(e) => setNewTemplate(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            placeholder="Description"
+            value={newTemplate.description}
+            onChange={(e) => setNewTemplate(prev => ({ ...prev, description: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <button
+            onClick={saveTemplate}
+            className="w-full bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center text-sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Template
+          </button>
+        </div>
+      </div>
+
+      {/* Template Tasks */}
+      {selected && (
+        <div className="lg:col-span-3 space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">{selected.name}</h3>
+              <p className="text-sm text-gray-600">{selected.description}</p>
+              {syncMessage && <p className="text-sm text-green-600 mt-1">{syncMessage}</p>}
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => pushTemplate(selected)}
+                className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                Push to Clients
+              </button>
+              {!selected.is_default && (
+                <button
+                  onClick={() => deleteTemplate(selected)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {TASK_PHASES.map(phase => {
+            const phaseTasks = templateTasks
+              .filter(task => task.phase === phase)
+              .sort((a, b) => a.position - b.position);
+
+            return (
+              <div key={phase} className="bg-white rounded-lg shadow-sm border border-gray-200">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h4 className="font-semibold text-gray-900">{phase}</h4>
+                  <p className="text-sm text-gray-600">
+                    {phaseTasks.filter(t => !t.retired).length} active tasks
+                  </p>
+                </div>
+                <div className="p-6 space-y-3">
+                  {phaseTasks.map((task, index) => editingTask === task.id ? (
+                    <div key={task.id} className="flex flex-col md:flex-row md:items-center gap-2">
+                      <input
+                        type="text"
+                        value={taskForm.task_name}
+                        onChange={(e) => setTaskForm(prev => ({ ...prev, task_name: e.target.value }))}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                      />
+                      <select
+                        value={taskForm.phase}
+                        onChange={(e) => setTaskForm(prev => ({ ...prev, phase: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                      >
+                        {TASK_PHASES.map(p => (
+                          <option key={p} value={p}>{p}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => saveTask(task)}
+                        className="text-rose-600 hover:text-rose-700"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingTask(null)}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div key={task.id} className="flex items-center">
+                      <div className="flex-1">
+                        <span className={task.retired ? 'line-through text-gray-400' : 'text-gray-900'}>
+                          {task.task_name}
+                        </span>
+                        {task.retired && <span className="ml-2 text-xs text-gray-500">Retired</span>}
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => moveTask(phaseTasks, index, -1)}
+                          disabled={index === 0}
+                          className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveTask(phaseTasks, index, 1)}
+                          disabled={index === phaseTasks.length - 1}
+                          className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingTask(task.id);
+                            setTaskForm({ task_name: task.task_name, phase: task.phase });
+                          }}
+                          className="text-gray-400 hover:text-rose-600 transition-colors"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => updateTask(task.id, { retired: !task.retired })}
+                          title={task.retired ? 'Restore' : 'Retire'}
+                          className="text-gray-400 hover:text-rose-600 transition-colors"
+                        >
+                          {task.retired ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center pt-2 space-x-2">
+                    <input
+                      type="text"
+                      placeholder="Add a task"
+                      value={newTaskNames[phase] ?? ''}
+                      onChange={(e) => setNewTaskNames(prev => ({ ...prev, [phase]: e.target.value }))}
+                      onKeyDown={(e) => e.key === 'Enter' && addTask(phase)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={() => addTask(phase)}
+                      className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit3, Save, X, AlertTriangle, Clock, MapPin, Users, Printer, Download } from 'lucide-react';
+import { dbFunctions, Wedding, TimelineEvent, TimelineEventVendor, Vendor } from '../lib/supabase';
+import { eventsForVendor, findVendorOverlaps, formatTimeRange, timelineToRows, vendorIdsByEvent } from '../lib/timeline';
+import { downloadFile, toDelimited } from '../lib/csv';
+import { formatDate } from '../lib/dates';
+
+interface TimelineTabProps {
+  wedding: Wedding | null;
+  events: TimelineEvent[];
+  eventVendors: TimelineEventVendor[];
+  vendors: Vendor[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+interface EventForm {
+  title: string;
+  start_time: string;
+  end_time: string;
+  location: string;
+  responsible: string;
+  notes: string;
+  vendor_ids: string[];
+}
+
+const emptyEvent: EventForm = {
+  title: '',
+  start_time: '',
+  end_time: '',
+  location: '',
+  responsible: '',
+  notes: '',
+  vendor_ids: []
+};
+
+export default function TimelineTab({ wedding, events, eventVendors, vendors, readOnly = false, onError }: TimelineTabProps) {
+  const [newEvent, setNewEvent] = useState<EventForm>(emptyEvent);
+  const [editingEvent, setEditingEvent] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EventForm>(emptyEvent);
+  const [vendorFilter, setVendorFilter] = useState('');
+
+  const vendorsByEvent = vendorIdsByEvent(eventVendors);
+  const vendorNames = new Map(vendors.map(vendor => [vendor.id, vendor.name]));
+
+  const toEventFields = (form: EventForm) => ({
+    title: form.title.trim(),
+    start_time: form.start_time,
+    end_time: form.end_time || null,
+    location: form.location,
+    responsible: form.responsible,
+    notes: form.notes
+  });
+
+  const saveNewEvent = async () => {
+    if (!newEvent.title.trim() || !newEvent.start_time) return;
+
+    try {
+      await dbFunctions.addTimelineEvent(toEventFields(newEvent), newEvent.vendor_ids);
+      setNewEvent(emptyEvent);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const startEditing = (event: TimelineEvent) => {
+    setEditingEvent(event.id);
+    setDraft({
+      title: event.title,
+      start_time: event.start_time.slice(0, 5),
+      end_time: event.end_time?.slice(0, 5) ?? '',
+      location: event.location ?? '',
+      responsible: event.responsible ?? '',
+      notes: event.notes ?? '',
+      vendor_ids: vendorsByEvent.get(event.id) ?? []
+    });
+  };
+
+  const saveEvent = async (event: TimelineEvent) => {
+    if (!draft.title.trim() || !draft.start_time) return;
+
+    try {
+      await dbFunctions.updateTimelineEvent(event.id, toEventFields(draft));
+      await dbFunctions.setTimelineEventVendors(event.id, draft.vendor_ids);
+      setEditingEvent(null);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteEvent = async (event: TimelineEvent) => {
+    if (!window.confirm(`Delete "${event.title}" from the timeline?`)) return;
+
+    try {
+      await dbFunctions.deleteTimelineEvent(event.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const selectedVendor = vendors.find(vendor => vendor.id === vendorFilter) ?? null;
+  const visibleEvents = eventsForVendor(events, eventVendors, selectedVendor?.id ?? null);
+  const conflicts = findVendorOverlaps(events, eventVendors, vendors)
+    .filter(conflict => !selectedVendor || conflict.vendorId === selectedVendor.id);
+  const conflictingEventIds = new Set(conflicts.flatMap(conflict => conflict.eventIds));
+
+  const exportTimeline = () => {
+    const name = selectedVendor ? selectedVendor.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') : 'full';
+    downloadFile(`wedding-timeline-${name}.csv`, toDelimited(timelineToRows(visibleEvents, eventVendors, vendors)));
+  };
+
+  const renderEventForm = (
+    form: EventForm,
+    setForm: (update: (prev: EventForm) => EventForm) => void
+  ) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <input
+          type="text"
+          placeholder="Event (e.g., First look)"
+          value={form.title}
+          onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+          className="lg:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="time"
+          value={form.start_time}
+          onChange={(e) => setForm(prev => ({ ...prev, start_time: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          title="Starts"
+        />
+        <input
+          type="time"
+          value={form.end_time}
+          onChange={(e) => setForm(prev => ({ ...prev, end_time: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          title="Ends (optional)"
+        />
+        <input
+          type="text"
+          placeholder="Location"
+          value={form.location}
+          onChange={(e) => setForm(prev => ({ ...prev, location: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          placeholder="Responsible (e.g., Best man)"
+          value={form.responsible}
+          onChange={(e) => setForm(prev => ({ ...prev, responsible: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          placeholder="Notes"
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          className="lg:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+      </div>
+      {vendors.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {vendors.map(vendor => {
+            const selected = form.vendor_ids.includes(vendor.id);
+            return (
+              <button
+                key={vendor.id}
+                type="button"
+                onClick={() => setForm(prev => ({
+                  ...prev,
+                  vendor_ids: selected
+                    ? prev.vendor_ids.filter(id => id !== vendor.id)
+                    : [...prev.vendor_ids, vendor.id]
+                }))}
+                className={`px-3 py-1 rounded-full border text-sm transition-colors ${
+                  selected
+                    ? 'border-rose-500 bg-rose-50 text-rose-700'
+                    : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                }`}
+              >
+                {vendor.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Add Event Form */}
+      {!readOnly && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 print:hidden">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Add Timeline Event</h3>
+          {renderEventForm(newEvent, setNewEvent)}
+          <button
+            onClick={saveNewEvent}
+            className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Event
+          </button>
+        </div>
+      )}
+
+      {/* Vendor View */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 print:hidden">
+        <select
+          value={vendorFilter}
+          onChange={(e) => setVendorFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        >
+          <option value="">Full timeline</option>
+          {vendors.map(vendor => (
+            <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+          ))}
+        </select>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => window.print()}
+            disabled={visibleEvents.length === 0}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </button>
+          <button
+            onClick={exportTimeline}
+            disabled={visibleEvents.length === 0}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 space-y-1 print:hidden">
+          {conflicts.map(conflict => (
+            <div key={`${conflict.vendorId}-${conflict.eventIds.join('-')}`} className="flex items-center text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {conflict.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 print:shadow-none print:border-0 print:p-0">
+        <div className="mb-6">
+          <h3 className="text-xl font-bold text-gray-900">
+            {selectedVendor ? `${selectedVendor.name} Schedule` : 'Wedding Day Timeline'}
+          </h3>
+          {wedding && (
+            <p className="text-gray-600">
+              {wedding.couple_names}
+              {wedding.wedding_date && ` · ${formatDate(wedding.wedding_date)}`}
+            </p>
+          )}
+        </div>
+
+        {visibleEvents.length === 0 ? (
+          <p className="text-gray-500">
+            {selectedVendor ? `${selectedVendor.name} isn't assigned to any events yet.` : 'No events yet. Add the first one above.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visibleEvents.map(event => {
+              // Vendors in the trash keep their assignments but aren't shown
+              const assigned = (vendorsByEvent.get(event.id) ?? []).filter(vendorId => vendorNames.has(vendorId));
+
+              if (editingEvent === event.id) {
+                return (
+                  <div key={event.id} className="border border-rose-200 rounded-lg p-4">
+                    {renderEventForm(draft, setDraft)}
+                    <div className="flex space-x-2 mt-4">
+                      <button
+                        onClick={() => saveEvent(event)}
+                        className="bg-rose-600 text-white px-3 py-1 rounded-lg hover:bg-rose-700 transition-colors flex items-center text-sm"
+                      >
+                        <Save className="w-4 h-4 mr-1" />
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingEvent(null)}
+                        className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center text-sm"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                );
+              }
+
+              return (
+                <div
+                  key={event.id}
+                  className={`flex gap-4 border-l-4 pl-4 py-2 break-inside-avoid ${
+                    conflictingEventIds.has(event.id) ? 'border-red-400' : 'border-rose-300'
+                  }`}
+                >
+                  <div className="w-36 flex-shrink-0 flex items-start text-sm font-semibold text-gray-900">
+                    <Clock className="w-4 h-4 mr-2 mt-0.5 text-rose-600 print:hidden" />
+                    {formatTimeRange(event)}
+                  </div>
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900">{event.title}</div>
+                    {event.location && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <MapPin className="w-4 h-4 mr-1" />
+                        {event.location}
+                      </div>
+                    )}
+                    {event.responsible && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <Users className="w-4 h-4 mr-1" />
+                        {event.responsible}
+                      </div>
+                    )}
+                    {assigned.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {assigned.map(vendorId => (
+                          <span key={vendorId} className="px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 text-xs">
+                            {vendorNames.get(vendorId)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {event.notes && <p className="text-sm text-gray-600 mt-1">{event.notes}</p>}
+                  </div>
+                  {!readOnly && (
+                    <div className="flex items-start space-x-2 print:hidden">
+                      <button
+                        onClick={() => startEditing(event)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteEvent(event)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, ArchiveRestore, RefreshCw } from 'lucide-react';
+import { trashFunctions, Trash, TrashTable, TRASH_RETENTION_DAYS } from '../lib/supabase';
+import { guestName } from '../lib/seating';
+import { formatDateTime } from '../lib/dates';
+
+interface TrashViewProps {
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+interface TrashRow {
+  table: TrashTable;
+  id: string;
+  label: string;
+  detail: string;
+  deletedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SECTIONS: { table: TrashTable; title: string }[] = [
+  { table: 'tasks', title: 'Tasks' },
+  { table: 'vendors', title: 'Vendors' },
+  { table: 'guests', title: 'Guests' }
+];
+
+const daysUntilPurge = (deletedAt: string) =>
+  Math.max(0, TRASH_RETENTION_DAYS - Math.floor((Date.now() - new Date(deletedAt).getTime()) / DAY_MS));
+
+// Plus-ones trashed along with their guest come back with them, so they are
+// listed under the guest rather than on their own
+const trashRows = (trash: Trash): TrashRow[] => {
+  const trashedGuestIds = new Set(trash.guests.map(guest => guest.id));
+
+  return [
+    ...trash.tasks.map(task => ({
+      table: 'tasks' as const, id: task.id, label: task.task_name, detail: task.phase, deletedAt: task.deleted_at!
+    })),
+    ...trash.vendors.map(vendor => ({
+      table: 'vendors' as const, id: vendor.id, label: vendor.name, detail: vendor.type, deletedAt: vendor.deleted_at!
+    })),
+    ...trash.guests
+      .filter(guest => !guest.plus_one_of || !trashedGuestIds.has(guest.plus_one_of))
+      .map(guest => {
+        const plusOne = trash.guests.find(g => g.plus_one_of === guest.id && g.deleted_at === guest.deleted_at);
+        return {
+          table: 'guests' as const,
+          id: guest.id,
+          label: guestName(guest),
+          detail: guest.plus_one_of ? 'Plus-one' : plusOne ? `With plus-one ${guestName(plusOne)}` : guest.group_name,
+          deletedAt: guest.deleted_at!
+        };
+      })
+  ];
+};
+
+export default function TrashView({ readOnly = false, onError }: TrashViewProps) {
+  const [rows, setRows] = useState<TrashRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      setRows(trashRows(await trashFunctions.getTrash()));
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restore = async (row: TrashRow) => {
+    try {
+      await trashFunctions.restore(row.table, row.id);
+      await loadTrash();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const purge = async (row: TrashRow) => {
+    if (!window.confirm(`Permanently delete "${row.label}"? This can't be undone.`)) return;
+
+    try {
+      await trashFunctions.purge(row.table, row.id);
+      await loadTrash();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <div className="flex items-center">
+            <Trash2 className="w-5 h-5 text-rose-600 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Trash</h3>
+          </div>
+          <p className="text-sm text-gray-600">
+            Deleted tasks, vendors and guests are kept for {TRASH_RETENTION_DAYS} days before they are removed for good
+          </p>
+        </div>
+        <button
+          onClick={loadTrash}
+          className="text-gray-500 hover:text-gray-700 flex items-center text-sm"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {SECTIONS.map(section => {
+        const sectionRows = rows.filter(row => row.table === section.table);
+        if (sectionRows.length === 0) return null;
+
+        return (
+          <div key={section.table}>
+            <div className="px-6 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {section.title}
+            </div>
+            <div className="divide-y divide-gray-200">
+              {sectionRows.map(row => (
+                <div key={row.id} className="px-6 py-4 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{row.label}</div>
+                    {row.detail && <div className="text-sm text-gray-600">{row.detail}</div>}
+                    <div className="text-xs text-gray-500 mt-1">
+                      Deleted {formatDateTime(row.deletedAt)} · removed in {daysUntilPurge(row.deletedAt)} days
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <div className="flex items-center space-x-4 ml-4">
+                      <button
+                        onClick={() => restore(row)}
+                        className="flex items-center text-sm text-gray-700 hover:text-rose-600"
+                      >
+                        <ArchiveRestore className="w-4 h-4 mr-1" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => purge(row)}
+                        className="flex items-center text-sm text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete forever
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {!loading && rows.length === 0 && (
+        <p className="text-center text-gray-600 py-12">The trash is empty</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { trashFunctions, TrashedRecord } from '../lib/supabase';
+
+interface UndoToastProps {
+  record: TrashedRecord;
+  onDismiss: () => void;
+  onError: (message: string) => void;
+}
+
+const UNDO_SECONDS = 8;
+
+// Offered right after a delete; after that the record is still in the Trash tab
+export default function UndoToast({ record, onDismiss, onError }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, UNDO_SECONDS * 1000);
+    return () => window.clearTimeout(timer);
+  }, [record]);
+
+  const undo = async () => {
+    try {
+      await trashFunctions.restore(record.table, record.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+    onDismiss();
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3 text-sm print:hidden">
+      <span>"{record.label}" moved to the trash</span>
+      <button
+        onClick={undo}
+        className="ml-4 flex items-center font-medium text-rose-300 hover:text-rose-200"
+      >
+        <Undo2 className="w-4 h-4 mr-1" />
+        Undo
+      </button>
+      <button onClick={onDismiss} className="ml-3 text-gray-400 hover:text-gray-200">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Clock, MapPin, X } from 'lucide-react';
+import { dbFunctions, Vendor, VendorAppointment } from '../lib/supabase';
+import { formatDateTime } from '../lib/dates';
+
+interface VendorAppointmentsProps {
+  vendor: Vendor;
+  appointments: VendorAppointment[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function VendorAppointments({ vendor, appointments, readOnly = false, onError }: VendorAppointmentsProps) {
+  const [adding, setAdding] = useState(false);
+  const [newAppointment, setNewAppointment] = useState({
+    title: '',
+    starts_at: '',
+    ends_at: '',
+    location: ''
+  });
+
+  const saveAppointment = async () => {
+    if (!newAppointment.title || !newAppointment.starts_at) return;
+
+    // datetime-local values have no zone; Date reads them as local time
+    const startsAt = new Date(newAppointment.starts_at);
+    const endsAt = newAppointment.ends_at ? new Date(newAppointment.ends_at) : null;
+    if (endsAt && endsAt < startsAt) {
+      onError('An appointment cannot end before it starts');
+      return;
+    }
+
+    try {
+      await dbFunctions.addVendorAppointment({
+        vendor_id: vendor.id,
+        title: newAppointment.title,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt ? endsAt.toISOString() : null,
+        location: newAppointment.location,
+        notes: ''
+      });
+      setNewAppointment({ title: '', starts_at: '', ends_at: '', location: '' });
+      setAdding(false);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deleteAppointment = async (id: string) => {
+    try {
+      await dbFunctions.deleteVendorAppointment(id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h5 className="text-sm font-semibold text-gray-900 mb-2">Appointments</h5>
+
+      <div className="space-y-2">
+        {appointments.map(appointment => {
+          const past = new Date(appointment.starts_at) < now;
+
+          return (
+            <div key={appointment.id} className="flex items-start text-sm">
+              <Clock className={`w-4 h-4 mr-2 mt-0.5 ${past ? 'text-gray-300' : 'text-rose-600'}`} />
+              <div className="flex-1">
+                <span className={past ? 'text-gray-500' : 'text-gray-900'}>
+                  {appointment.title}
+                </span>
+                <div className="text-xs text-gray-500">{formatDateTime(appointment.starts_at)}</div>
+                {appointment.location && (
+                  <div className="flex items-center text-xs text-gray-500">
+                    <MapPin className="w-3 h-3 mr-1" />
+                    {appointment.location}
+                  </div>
+                )}
+              </div>
+              {!readOnly && (
+                <button
+                  onClick={() => deleteAppointment(appointment.id)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {readOnly ? null : adding ? (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            placeholder="What (e.g., Menu tasting)"
+            value={newAppointment.title}
+            onChange={(e) => setNewAppointment(prev => ({ ...prev, title: e.target.value }))}
+            className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="datetime-local"
+              value={newAppointment.starts_at}
+              onChange={(e) => setNewAppointment(prev => ({ ...prev, starts_at: e.target.value }))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+              title="Starts"
+            />
+            <input
+              type="datetime-local"
+              value={newAppointment.ends_at}
+              onChange={(e) => setNewAppointment(prev => ({ ...prev, ends_at: e.target.value }))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+              title="Ends (optional)"
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Location"
+            value={newAppointment.location}
+            onChange={(e) => setNewAppointment(prev => ({ ...prev, location: e.target.value }))}
+            className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={saveAppointment}
+              className="bg-rose-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Save
+            </button>
+            <button
+              onClick={() => setAdding(false)}
+              className="text-gray-600 hover:text-gray-900 px-3 py-1 text-sm flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="mt-3 text-rose-600 hover:text-rose-700 text-sm font-medium flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add appointment
+        </button>
+      )}
+    </div>
+  );
+}
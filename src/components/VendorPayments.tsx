@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, CheckCircle2, Circle, AlertTriangle, X } from 'lucide-react';
+import { dbFunctions, Vendor, VendorPayment } from '../lib/supabase';
+import { formatCurrency, parseAmount, isPaymentOverdue, summarizePayments, PAYMENT_KINDS } from '../lib/budget';
+import { formatDate, today } from '../lib/dates';
+
+interface VendorPaymentsProps {
+  vendor: Vendor;
+  payments: VendorPayment[];
+  readOnly?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function VendorPayments({ vendor, payments, readOnly = false, onError }: VendorPaymentsProps) {
+  const [adding, setAdding] = useState(false);
+  const [newPayment, setNewPayment] = useState({
+    kind: 'deposit' as VendorPayment['kind'],
+    amount: '',
+    due_date: ''
+  });
+
+  const savePayment = async () => {
+    const amount = parseAmount(newPayment.amount);
+    if (amount == null) return;
+
+    try {
+      await dbFunctions.addVendorPayment({
+        vendor_id: vendor.id,
+        kind: newPayment.kind,
+        amount,
+        due_date: newPayment.due_date || null,
+        status: 'scheduled',
+        paid_date: null,
+        notes: ''
+      });
+      setNewPayment({ kind: 'installment', amount: '', due_date: '' });
+      setAdding(false);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const togglePaid = async (payment: VendorPayment) => {
+    const paid = payment.status !== 'paid';
+
+    try {
+      await dbFunctions.updateVendorPayment(payment.id, {
+        status: paid ? 'paid' : 'scheduled',
+        paid_date: paid ? today() : null
+      });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const deletePayment = async (id: string) => {
+    try {
+      await dbFunctions.deleteVendorPayment(id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const summary = summarizePayments(payments);
+  const kindLabel = (kind: VendorPayment['kind']) => PAYMENT_KINDS.find(k => k.value === kind)?.label ?? kind;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex justify-between items-center mb-2">
+        <h5 className="text-sm font-semibold text-gray-900">Payments</h5>
+        {summary.owed > 0 && (
+          <span className="text-sm text-gray-600">{formatCurrency(summary.owed)} owed</span>
+        )}
+      </div>
+
+      {summary.overdueCount > 0 && (
+        <div className="flex items-center text-sm text-red-600 mb-2">
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          {summary.overdueCount} overdue ({formatCurrency(summary.overdue)})
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {payments.map(payment => {
+          const overdue = isPaymentOverdue(payment);
+
+          return (
+            <div key={payment.id} className="flex items-center text-sm">
+              <button
+                onClick={() => togglePaid(payment)}
+                disabled={readOnly}
+                className="mr-2 transition-colors disabled:cursor-default"
+              >
+                {payment.status === 'paid' ? (
+                  <CheckCircle2 className="w-4 h-4 text-rose-600" />
+                ) : (
+                  <Circle className="w-4 h-4 text-gray-400 hover:text-rose-600" />
+                )}
+              </button>
+              <div className="flex-1">
+                <span className={payment.status === 'paid' ? 'text-gray-500' : 'text-gray-900'}>
+                  {kindLabel(payment.kind)} · {formatCurrency(Number(payment.amount))}
+                </span>
+                <div className={`text-xs ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                  {payment.status === 'paid'
+                    ? `Paid${payment.paid_date ? ` ${formatDate(payment.paid_date)}` : ''}`
+                    : payment.due_date
+                    ? `${overdue ? 'Overdue since' : 'Due'} ${formatDate(payment.due_date)}`
+                    : 'No due date'
+                  }
+                </div>
+              </div>
+              {!readOnly && (
+                <button
+                  onClick={() => deletePayment(payment.id)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {readOnly ? null : adding ? (
+        <div className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={newPayment.kind}
+              onChange={(e) => setNewPayment(prev => ({ ...prev, kind: e.target.value as VendorPayment['kind'] }))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              {PAYMENT_KINDS.map(kind => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={newPayment.amount}
+              onChange={(e) => setNewPayment(prev => ({ ...prev, amount: e.target.value }))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+          </div>
+          <input
+            type="date"
+            value={newPayment.due_date}
+            onChange={(e) => setNewPayment(prev => ({ ...prev, due_date: e.target.value }))}
+            className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={savePayment}
+              className="bg-rose-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-rose-700 transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Save
+            </button>
+            <button
+              onClick={() => setAdding(false)}
+              className="text-gray-600 hover:text-gray-900 px-3 py-1 text-sm flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="mt-3 text-rose-600 hover:text-rose-700 text-sm font-medium flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add payment
+        </button>
+      )}
+    </div>
+  );
+}
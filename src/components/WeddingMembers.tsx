@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Mail, Trash2, UserPlus, Users } from 'lucide-react';
+import { weddingFunctions, Wedding, WeddingInvite, WeddingMember, WeddingRole } from '../lib/supabase';
+import { isValidEmail } from '../lib/guests';
+
+interface WeddingMembersProps {
+  wedding: Wedding;
+  role: WeddingRole;
+  userId: string;
+  onLeave: () => void;
+  onError: (message: string) => void;
+}
+
+const ROLES: { value: WeddingRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Can change everything and manage who has access' },
+  { value: 'editor', label: 'Editor', description: 'Can change everything' },
+  { value: 'viewer', label: 'Viewer', description: 'Can look but not change anything' }
+];
+
+const roleLabel = (role: WeddingRole) => ROLES.find(option => option.value === role)?.label ?? role;
+
+export default function WeddingMembers({ wedding, role, userId, onLeave, onError }: WeddingMembersProps) {
+  const [members, setMembers] = useState<WeddingMember[]>([]);
+  const [invites, setInvites] = useState<WeddingInvite[]>([]);
+  const [newInvite, setNewInvite] = useState<{ email: string; role: WeddingRole }>({ email: '', role: 'editor' });
+  const [copiedInvite, setCopiedInvite] = useState<string | null>(null);
+
+  const isOwner = role === 'owner';
+
+  useEffect(() => {
+    loadMembers();
+  }, [wedding.id]);
+
+  const loadMembers = async () => {
+    try {
+      const [membersData, invitesData] = await Promise.all([
+        weddingFunctions.getMembers(),
+        isOwner ? weddingFunctions.getInvites() : Promise.resolve([])
+      ]);
+      setMembers(membersData);
+      setInvites(invitesData);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const sendInvite = async () => {
+    const email = newInvite.email.trim();
+    if (!isValidEmail(email)) {
+      onError('Enter a valid email address to invite');
+      return;
+    }
+    if (members.some(member => member.email.toLowerCase() === email.toLowerCase())) {
+      onError(`${email} already has access to this wedding`);
+      return;
+    }
+
+    try {
+      await weddingFunctions.inviteMember(email, newInvite.role);
+      setNewInvite(prev => ({ ...prev, email: '' }));
+      await loadMembers();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const copyInviteLink = async (invite: WeddingInvite) => {
+    try {
+      await navigator.clipboard.writeText(weddingFunctions.getInviteUrl(invite.token));
+      setCopiedInvite(invite.id);
+      setTimeout(() => setCopiedInvite(null), 2000);
+    } catch (err: any) {
+      onError('Could not copy the invite link');
+    }
+  };
+
+  const inviteMailto = (invite: WeddingInvite) => {
+    const subject = `Help us plan ${wedding.couple_names}'s wedding`;
+    const body = `You're invited to join our wedding plan on Adorist as ${roleLabel(invite.role).toLowerCase()}.\n\n` +
+      `Create your account here: ${weddingFunctions.getInviteUrl(invite.token)}`;
+    return `mailto:${invite.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  };
+
+  const deleteInvite = async (invite: WeddingInvite) => {
+    try {
+      await weddingFunctions.deleteInvite(invite.id);
+      await loadMembers();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const updateRole = async (member: WeddingMember, newRole: WeddingRole) => {
+    try {
+      await weddingFunctions.updateMemberRole(member.user_id, newRole);
+      await loadMembers();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const removeMember = async (member: WeddingMember) => {
+    const leaving = member.user_id === userId;
+    if (!window.confirm(leaving
+      ? `Leave ${wedding.couple_names}'s wedding? You will need a new invite to get back in.`
+      : `Remove ${member.email} from this wedding?`
+    )) return;
+
+    try {
+      await weddingFunctions.removeMember(member.user_id);
+      if (leaving) {
+        onLeave();
+      } else {
+        await loadMembers();
+      }
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center mb-2">
+          <Users className="w-5 h-5 text-rose-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">People planning this wedding</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Everyone here sees the same checklist, vendors and guest list.
+        </p>
+
+        <div className="divide-y divide-gray-200">
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {member.name}
+                  {member.user_id === userId && <span className="text-gray-500 font-normal"> (you)</span>}
+                </div>
+                <div className="text-sm text-gray-500">{member.email}</div>
+              </div>
+              <div className="flex items-center space-x-3">
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => updateRole(member, e.target.value as WeddingRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                  >
+                    {ROLES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-600">{roleLabel(member.role)}</span>
+                )}
+                {(isOwner || member.user_id === userId) && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    title={member.user_id === userId ? 'Leave this wedding' : 'Remove'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isOwner && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-2">
+            <UserPlus className="w-5 h-5 text-rose-600 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Invite someone</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Your partner, family or planner signs up from the invite link and joins this wedding.
+            If they already have an account, they sign in from the same link.
+          </p>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="email"
+              placeholder="Email"
+              value={newInvite.email}
+              onChange={(e) => setNewInvite(prev => ({ ...prev, email: e.target.value }))}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <select
+              value={newInvite.role}
+              onChange={(e) => setNewInvite(prev => ({ ...prev, role: e.target.value as WeddingRole }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              {ROLES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={sendInvite}
+              className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {ROLES.find(option => option.value === newInvite.role)?.description}
+          </p>
+
+          {invites.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Waiting to join</h4>
+              <div className="divide-y divide-gray-200">
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <div className="text-sm text-gray-900">{invite.email}</div>
+                      <div className="text-sm text-gray-500">{roleLabel(invite.role)}</div>
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      <a
+                        href={inviteMailto(invite)}
+                        className="text-rose-600 hover:text-rose-700 flex items-center"
+                      >
+                        <Mail className="w-4 h-4 mr-1" />
+                        Email
+                      </a>
+                      <button
+                        onClick={() => copyInviteLink(invite)}
+                        className="text-rose-600 hover:text-rose-700 flex items-center"
+                      >
+                        <Link className="w-4 h-4 mr-1" />
+                        {copiedInvite === invite.id ? 'Copied' : 'Copy link'}
+                      </button>
+                      <button
+                        onClick={() => deleteInvite(invite)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title="Cancel invite"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
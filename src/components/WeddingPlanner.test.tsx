@@ -0,0 +1,332 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import WeddingPlanner from './WeddingPlanner';
+import { repository } from '../lib/repository';
+
+// Runs against the demo couple from the in-memory backend (see src/test/setup.ts)
+const renderPlanner = async () => {
+  const user = userEvent.setup();
+  render(<WeddingPlanner onSignOut={() => {}} />);
+  await screen.findByRole('heading', { name: 'Adorist' });
+  return user;
+};
+
+describe('WeddingPlanner', () => {
+  it('opens on the checklist with progress', async () => {
+    await renderPlanner();
+
+    expect(screen.getByText('Alex & Sam')).toBeInTheDocument();
+    expect(screen.getByText('Book the venue')).toBeInTheDocument();
+    expect(screen.getByText('33% Complete')).toBeInTheDocument();
+  });
+
+  it('toggles a task', async () => {
+    const user = await renderPlanner();
+
+    const task = screen.getByText('Book the venue').closest('div.flex')! as HTMLElement;
+    await user.click(within(task).getByTitle('Mark as done'));
+
+    expect(await screen.findByText('67% Complete')).toBeInTheDocument();
+    expect(within(task).getByTitle('Mark as not done')).toBeInTheDocument();
+  });
+
+  it('adds and deletes a vendor', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Vendors' }));
+
+    await user.type(screen.getByPlaceholderText('Vendor Name'), 'Lens & Light');
+    await user.type(screen.getByPlaceholderText('Type (e.g., Photographer)'), 'Photographer');
+    await user.type(screen.getByPlaceholderText('Estimated Cost'), '3200');
+    await user.click(screen.getByRole('button', { name: 'Add Vendor' }));
+
+    const card = (await screen.findByRole('heading', { name: 'Lens & Light' })).closest('div.bg-white')! as HTMLElement;
+    expect(within(card).getByText('$3,200.00 estimated')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Vendor Name')).toHaveValue('');
+
+    await user.click(within(card).getByTitle('Delete vendor'));
+
+    expect(await screen.findByText('"Lens & Light" moved to the trash')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Lens & Light' })).not.toBeInTheDocument();
+  });
+
+  it('brings a deleted vendor back with undo', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Vendors' }));
+
+    const card = screen.getByRole('heading', { name: 'Rosewood Hall' }).closest('div.bg-white')! as HTMLElement;
+    await user.click(within(card).getByTitle('Delete vendor'));
+    await user.click(await screen.findByRole('button', { name: 'Undo' }));
+
+    expect(await screen.findByRole('heading', { name: 'Rosewood Hall' })).toBeInTheDocument();
+  });
+
+  it('restores from the trash or deletes for good, and logs both', async () => {
+    const user = await renderPlanner();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    await user.click(screen.getByRole('button', { name: 'Vendors' }));
+    for (const name of ['Rosewood Hall', 'Petal & Stem']) {
+      const card = screen.getByRole('heading', { name }).closest('div.bg-white')! as HTMLElement;
+      await user.click(within(card).getByTitle('Delete vendor'));
+      await waitFor(() => expect(screen.queryByRole('heading', { name })).not.toBeInTheDocument());
+    }
+
+    await user.click(screen.getByRole('button', { name: 'Trash' }));
+    const row = (name: string) => screen.getByText(name).closest('div.justify-between')! as HTMLElement;
+    await screen.findByText('Petal & Stem');
+    await user.click(within(row('Rosewood Hall')).getByRole('button', { name: 'Restore' }));
+    await user.click(within(row('Petal & Stem')).getByRole('button', { name: 'Delete forever' }));
+
+    expect(await screen.findByText('The trash is empty')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Activity' }));
+    expect(await screen.findByText('Permanently deleted vendor "Petal & Stem"')).toBeInTheDocument();
+    expect(screen.getByText('Restored vendor "Rosewood Hall"')).toBeInTheDocument();
+  });
+
+  it('does not add a vendor without a name and type', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Vendors' }));
+
+    await user.type(screen.getByPlaceholderText('Vendor Name'), 'Nameless');
+    await user.click(screen.getByRole('button', { name: 'Add Vendor' }));
+
+    expect(screen.queryByRole('heading', { name: 'Nameless' })).not.toBeInTheDocument();
+  });
+
+  it('adds and deletes a guest', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    await user.type(screen.getByPlaceholderText('First Name'), 'Jamie');
+    await user.type(screen.getByPlaceholderText('Last Name'), 'Rivera');
+    await user.click(screen.getByRole('button', { name: 'Add Guest' }));
+
+    const row = (await screen.findByText('Jamie Rivera')).closest('tr')!;
+    expect(screen.getByPlaceholderText('First Name')).toHaveValue('');
+
+    await user.click(within(row).getByTitle('Delete guest'));
+
+    expect(await screen.findByText('"Jamie Rivera" moved to the trash')).toBeInTheDocument();
+    expect(screen.queryByText('Jamie Rivera')).not.toBeInTheDocument();
+  });
+
+  it('filters guests from the RSVP cards and keeps the filter in the address bar', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+    expect(await screen.findByText('Priya Shah')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Pending/ }));
+
+    await waitFor(() => expect(screen.queryByText('Jordan Lee')).not.toBeInTheDocument());
+    expect(screen.getByText('Priya Shah')).toBeInTheDocument();
+    expect(window.location.search).toBe('?rsvp=pending');
+
+    await user.type(screen.getByPlaceholderText('Search name, email or phone'), 'nobody');
+    expect(await screen.findByText('No guests match these filters.')).toBeInTheDocument();
+    expect(window.location.search).toBe('?q=nobody&rsvp=pending');
+
+    await user.click(screen.getByRole('button', { name: 'Clear filters' }));
+    expect(await screen.findByText('Jordan Lee')).toBeInTheDocument();
+    expect(window.location.search).toBe('');
+  });
+
+  it('opens the guest list filtered from a link', async () => {
+    window.history.replaceState(null, '', '/?group=Family');
+    await renderPlanner();
+
+    expect(await screen.findByText('Jordan Lee')).toBeInTheDocument();
+    expect(screen.queryByText('Priya Shah')).not.toBeInTheDocument();
+    expect(screen.getByTitle('Group')).toHaveValue('Family');
+  });
+
+  it('reads the guest list a page at a time and patches edits into it', async () => {
+    const list = vi.spyOn(repository().guests, 'list');
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    const row = (await screen.findByText('Priya Shah')).closest('tr')!;
+    expect(list.mock.calls.every(([, query]) => query?.page === 1)).toBe(true);
+    const reads = list.mock.calls.length;
+
+    await user.click(within(row).getByTitle('Edit guest'));
+    const form = screen.getByDisplayValue('Priya').closest('td')!;
+    await user.type(within(form).getByPlaceholderText('Email'), 'priya@example.com');
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('priya@example.com')).toBeInTheDocument();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(list).toHaveBeenCalledTimes(reads);
+  });
+
+  it('updates the selected guests in one go', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+    await screen.findByText('Priya Shah');
+
+    await user.click(screen.getByLabelText('Select every guest on this page'));
+    expect(screen.getByText('2 guests selected')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByTitle('Set RSVP'), 'declined');
+
+    expect(await screen.findByText('Updated 2 guests')).toBeInTheDocument();
+    expect(screen.queryByText('2 guests selected')).not.toBeInTheDocument();
+    await waitFor(() => expect(screen.getAllByText('declined')).toHaveLength(2));
+  });
+
+  it('edits a vendor once its details are valid', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Vendors' }));
+
+    const card = screen.getByRole('heading', { name: 'Petal & Stem' }).closest('div.bg-white')! as HTMLElement;
+    await user.click(within(card).getByTitle('Edit vendor'));
+
+    const form = screen.getByRole('heading', { name: 'Edit Petal & Stem' }).parentElement!;
+    await user.type(within(form).getByPlaceholderText('Phone'), 'call us');
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+    expect(within(form).getByText('Invalid phone number "call us"')).toBeInTheDocument();
+
+    await user.clear(within(form).getByPlaceholderText('Phone'));
+    await user.type(within(form).getByPlaceholderText('Phone'), '(555) 010-2030');
+    await user.clear(within(form).getByPlaceholderText('Vendor Name'));
+    await user.type(within(form).getByPlaceholderText('Vendor Name'), 'Petal & Stem Florals');
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByRole('heading', { name: 'Petal & Stem Florals' })).toBeInTheDocument();
+    expect(screen.getByText('(555) 010-2030')).toBeInTheDocument();
+  });
+
+  it('adds a guest with a table, dietary needs and a named plus-one', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    await user.type(screen.getByPlaceholderText('First Name'), 'Jamie');
+    await user.type(screen.getByPlaceholderText('Last Name'), 'Rivera');
+    await user.type(screen.getByPlaceholderText('Email'), 'jamie@');
+    await user.click(screen.getByRole('button', { name: 'Add Guest' }));
+    expect(screen.getByText('Invalid email "jamie@"')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText('Email'), 'example.com');
+    await user.type(screen.getByPlaceholderText('Table Number'), '4');
+    await user.click(screen.getByLabelText('Vegan'));
+    await user.click(screen.getByLabelText('Sesame allergy'));
+    await user.type(screen.getByPlaceholderText('Other dietary needs'), 'No mushrooms');
+    await user.click(screen.getByLabelText('Allow a plus-one'));
+    await user.type(screen.getByPlaceholderText("Plus-one's name (optional)"), 'Casey Rivera');
+    await user.click(screen.getByRole('button', { name: 'Add Guest' }));
+
+    const row = (await screen.findByText('Casey Rivera')).closest('tr')!;
+    expect(within(row).getByText('Guest of Jamie Rivera')).toBeInTheDocument();
+    expect(within(row).getByText('Table 4')).toBeInTheDocument();
+
+    const guestRow = screen.getByText('Jamie Rivera').closest('tr')!;
+    expect(within(guestRow).getByText('Vegan')).toBeInTheDocument();
+    expect(within(guestRow).getByText('Sesame allergy')).toBeInTheDocument();
+    expect(within(guestRow).getByText('No mushrooms')).toBeInTheDocument();
+    expect(screen.getByTitle('Dietary needs')).toHaveTextContent('Sesame allergy');
+  });
+
+  it('edits a guest in the list', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    const row = (await screen.findByText('Priya Shah')).closest('tr')!;
+    await user.click(within(row).getByTitle('Edit guest'));
+
+    const form = screen.getByDisplayValue('Priya').closest('td')!;
+    await user.clear(within(form).getByPlaceholderText('Last Name'));
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+    expect(within(form).getByText('Last name is required')).toBeInTheDocument();
+
+    await user.type(within(form).getByPlaceholderText('Last Name'), 'Shah-Patel');
+    await user.selectOptions(within(form).getByTitle('RSVP status'), 'attending');
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+
+    const updated = (await screen.findByText('Priya Shah-Patel')).closest('tr')!;
+    expect(within(updated).getByText('attending')).toBeInTheDocument();
+  });
+
+  it('reports the headcount and dietary needs by table for the caterer', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    const row = (await screen.findByText('Jordan Lee')).closest('tr')!;
+    await user.click(within(row).getByTitle('Edit guest'));
+    const form = screen.getByDisplayValue('Jordan').closest('td')!;
+    await user.type(within(form).getByPlaceholderText('Table Number'), '2');
+    await user.click(within(form).getByLabelText('Peanut allergy'));
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+    await waitFor(() => expect(within(screen.getByText('Jordan Lee').closest('tr')!).getByText('Peanut allergy')).toBeInTheDocument());
+
+    await user.click(screen.getByRole('button', { name: 'Catering' }));
+
+    const headcount = screen.getByText('Total Headcount').parentElement!;
+    expect(headcount).toHaveTextContent('1');
+    expect(screen.getByText('Awaiting RSVP').parentElement).toHaveTextContent('1');
+    expect(screen.getByText('No meal chosen').closest('tr')).toHaveTextContent('1');
+
+    const byTable = screen.getByRole('heading', { name: 'Allergies and Dietary Needs by Table' }).parentElement!;
+    expect(within(byTable).getByText('Table 2')).toBeInTheDocument();
+    expect(within(byTable).getByText('Jordan Lee').closest('li')).toHaveTextContent('Peanut allergy');
+  });
+
+  it('adds seating tables', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Seating' }));
+    expect(screen.getByText('Add your first table to start seating guests')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText('Table Name (e.g., Family)'), 'Family');
+    await user.click(screen.getByRole('button', { name: 'Add Table' }));
+    expect(await screen.findByDisplayValue('Family')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Add Table' }));
+    expect(await screen.findByDisplayValue('Table 2')).toBeInTheDocument();
+  });
+
+  it('adds a meal to the menu and renames it', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Catering' }));
+    const menu = screen.getByRole('heading', { name: 'Menu' }).parentElement!;
+
+    await user.type(within(menu).getByPlaceholderText('Meal (e.g., Braised short rib)'), 'Mushroom risotto');
+    await user.click(within(menu).getByRole('button', { name: 'Add Meal' }));
+
+    const meal = (await within(menu).findByText('Mushroom risotto')).closest('li')!;
+    await user.click(within(meal).getByTitle('Edit meal'));
+    await user.clear(within(meal).getByPlaceholderText('Meal (e.g., Braised short rib)'));
+    await user.type(within(meal).getByPlaceholderText('Meal (e.g., Braised short rib)'), 'Wild mushroom risotto');
+    await user.click(within(meal).getByRole('button', { name: 'Save' }));
+
+    expect(await within(menu).findByText('Wild mushroom risotto')).toBeInTheDocument();
+    expect(within(menu).queryByText('Mushroom risotto')).not.toBeInTheDocument();
+  });
+
+  it('records a gift, edits it and marks its thank-you note sent', async () => {
+    const user = await renderPlanner();
+    await user.click(screen.getByRole('button', { name: 'Gifts' }));
+
+    expect(screen.getByText('No gifts recorded yet.')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText('Gift (e.g., Stand mixer)'), 'Stand mixer');
+    await user.click(screen.getByRole('button', { name: 'Add Gift' }));
+    expect(screen.getByText('Choose who the gift is from')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByTitle('From guest'), 'Jordan Lee');
+    await user.click(screen.getByRole('button', { name: 'Add Gift' }));
+
+    const row = (await screen.findByText('Stand mixer')).closest('tr')!;
+    expect(within(row).getByText('Jordan Lee')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Thank-You Notes (1)' })).toBeInTheDocument();
+
+    await user.click(within(row).getByTitle('Edit gift'));
+    const form = screen.getByDisplayValue('Stand mixer').closest('td')!;
+    await user.clear(within(form).getByPlaceholderText('Gift (e.g., Stand mixer)'));
+    await user.type(within(form).getByPlaceholderText('Gift (e.g., Stand mixer)'), 'Red stand mixer');
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+
+    await user.selectOptions(await screen.findByTitle('Thank-you note for Red stand mixer'), 'sent');
+
+    expect(await screen.findByRole('button', { name: 'Thank-You Notes (0)' })).toBeInTheDocument();
+    expect(screen.getByTitle('Thank-you note for Red stand mixer')).toHaveValue('sent');
+  });
+});
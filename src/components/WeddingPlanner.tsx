@@ -2,7 +2,6 @@ import React, { useState, useEffect } from 'react';
 import { 
   Heart, 
   CheckCircle2, 
-  Circle, 
   Plus, 
   Trash2, 
   Users, 
@@ -16,80 +15,393 @@ import {
   X,
   LogOut,
   Settings,
-  BarChart3
+  BarChart3,
+  Wallet,
+  LayoutGrid,
+  Clock,
+  UserPlus,
+  ArrowLeft,
+  History,
+  Trash,
+  UtensilsCrossed,
+  Gift as GiftIcon
 } from 'lucide-react';
-import { authFunctions, dbFunctions, subscriptions, Task, Vendor, Guest, Profile } from '../lib/supabase';
+import {
+  authFunctions,
+  dbFunctions,
+  weddingFunctions,
+  subscriptions,
+  Task,
+  Vendor,
+  Guest,
+  GuestOverview,
+  GuestQuery,
+  Household,
+  Wedding,
+  WeddingMembership,
+  BudgetCategory,
+  VendorPayment,
+  VendorAppointment,
+  SeatingTable,
+  SeatingRule,
+  MealOption,
+  Gift,
+  TimelineEvent,
+  TimelineEventVendor,
+  TrashedRecord
+} from '../lib/supabase';
+import { formatCurrency, parseAmount, summarizePayments } from '../lib/budget';
+import BudgetTab from './BudgetTab';
+import VendorPayments from './VendorPayments';
+import VendorAppointments from './VendorAppointments';
+import CalendarSync from './CalendarSync';
+import ChecklistTab from './ChecklistTab';
+import SeatingTab from './SeatingTab';
+import TimelineTab from './TimelineTab';
+import CateringTab from './CateringTab';
+import GiftsTab from './GiftsTab';
+import GuestList from './GuestList';
+import GuestImport from './GuestImport';
+import GuestFields from './GuestFields';
+import WeddingMembers from './WeddingMembers';
+import PlannerUpdateLabel from './PlannerUpdateLabel';
+import ActivityFeed from './ActivityFeed';
+import TrashView from './TrashView';
+import UndoToast from './UndoToast';
+import SyncStatus from './SyncStatus';
+import { plusOneFor } from '../lib/households';
+import { contactErrors, emptyGuestForm, guestQueryToSearch, parseGuestForm, parseGuestQuery, patchGuestPage, summarizeGuests, GuestForm, GuestPage, GUEST_PAGE_SIZE } from '../lib/guests';
+import { getSyncState } from '../lib/offline';
+import { getTaskProgress } from '../lib/tasks';
+
+type VendorForm = Record<'name' | 'type' | 'email' | 'phone' | 'estimated_cost' | 'actual_cost' | 'category_id' | 'notes', string>;
+
+const emptyVendorForm: VendorForm = {
+  name: '',
+  type: '',
+  email: '',
+  phone: '',
+  estimated_cost: '',
+  actual_cost: '',
+  category_id: '',
+  notes: ''
+};
+
+const vendorToForm = (vendor: Vendor): VendorForm => ({
+  name: vendor.name,
+  type: vendor.type,
+  email: vendor.email ?? '',
+  phone: vendor.phone ?? '',
+  estimated_cost: vendor.estimated_cost != null ? String(vendor.estimated_cost) : '',
+  actual_cost: vendor.actual_cost != null ? String(vendor.actual_cost) : '',
+  category_id: vendor.category_id ?? '',
+  notes: vendor.notes ?? ''
+});
+
+// The form as vendor fields, with everything wrong with it
+const parseVendorForm = (form: VendorForm) => {
+  const vendor = {
+    name: form.name.trim(),
+    type: form.type.trim(),
+    email: form.email.trim(),
+    phone: form.phone.trim(),
+    estimated_cost: parseAmount(form.estimated_cost),
+    actual_cost: parseAmount(form.actual_cost),
+    category_id: form.category_id || null,
+    notes: form.notes.trim()
+  };
+
+  const errors: string[] = [];
+  if (!vendor.name) errors.push('Vendor name is required');
+  if (!vendor.type) errors.push('Vendor type is required');
+  errors.push(...contactErrors(vendor.email, vendor.phone));
+  if (form.estimated_cost.trim() && !(vendor.estimated_cost !== null && vendor.estimated_cost >= 0)) {
+    errors.push(`Invalid estimated cost "${form.estimated_cost.trim()}"`);
+  }
+  if (form.actual_cost.trim() && !(vendor.actual_cost !== null && vendor.actual_cost >= 0)) {
+    errors.push(`Invalid actual cost "${form.actual_cost.trim()}"`);
+  }
+
+  return { vendor, errors };
+};
+
+interface GuestPageState extends GuestPage {
+  // Changes arriving while the page is read aren't patched into the old rows
+  reading: boolean;
+  // Changed in ways it couldn't take in place
+  outdated: boolean;
+}
+
+// Realtime changes to guests are read once they settle, not one by one
+const GUEST_REREAD_DELAY_MS = 250;
+
+// Tabs that work from every guest rather than a page of them
+const ALL_GUEST_TABS = ['seating', 'catering', 'gifts'];
 
 interface WeddingPlannerProps {
   onSignOut: () => void;
+  // Set when an admin looks at a client's plan; it opens read-only with a way back
+  clientWedding?: Wedding;
+  onBack?: () => void;
 }
 
-export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
-  const [activeTab, setActiveTab] = useState('checklist');
+export default function WeddingPlanner({ onSignOut, clientWedding, onBack }: WeddingPlannerProps) {
+  // Guest filters live in the address bar; a link with them opens the guest list
+  const [guestQuery, setGuestQuery] = useState<GuestQuery>(() => parseGuestQuery(window.location.search));
+  const [activeTab, setActiveTab] = useState(() => guestQueryToSearch(guestQuery) ? 'guests' : 'checklist');
   const [tasks, setTasks] = useState<Task[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const [guests, setGuests] = useState<Guest[]>([]);
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const [guestPage, setGuestPage] = useState<GuestPageState>({ guests: [], related: [], total: 0, reading: false, outdated: false });
+  const [guestOverview, setGuestOverview] = useState<GuestOverview>(() => summarizeGuests([]));
+  const [guestChanges, setGuestChanges] = useState(0);
+  const [guestReads, setGuestReads] = useState({ page: 0, overview: 0 });
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [budgetCategories, setBudgetCategories] = useState<BudgetCategory[]>([]);
+  const [vendorPayments, setVendorPayments] = useState<VendorPayment[]>([]);
+  const [vendorAppointments, setVendorAppointments] = useState<VendorAppointment[]>([]);
+  const [seatingTables, setSeatingTables] = useState<SeatingTable[]>([]);
+  const [seatingRules, setSeatingRules] = useState<SeatingRule[]>([]);
+  const [mealOptions, setMealOptions] = useState<MealOption[]>([]);
+  const [gifts, setGifts] = useState<Gift[]>([]);
+  const [timelineEvents, setTimelineEvents] = useState<TimelineEvent[]>([]);
+  const [timelineEventVendors, setTimelineEventVendors] = useState<TimelineEventVendor[]>([]);
+  const [memberships, setMemberships] = useState<WeddingMembership[]>([]);
+  const [weddingId, setWeddingId] = useState<string | null>(null);
+  const [userId, setUserId] = useState('');
+  const [plannerEditing, setPlannerEditing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [trashed, setTrashed] = useState<TrashedRecord | null>(null);
 
   // Form states
-  const [newVendor, setNewVendor] = useState({
-    name: '',
-    type: '',
-    email: '',
-    phone: '',
-    cost: '',
-    notes: ''
-  });
-
-  const [newGuest, setNewGuest] = useState({
-    first_name: '',
-    last_name: '',
-    email: '',
-    phone: '',
-    group_name: '',
-    rsvp_status: 'pending',
-    plus_one: '',
-    table_number: null as number | null,
-    dietary_restrictions: ''
-  });
+  const [newVendor, setNewVendor] = useState<VendorForm>(emptyVendorForm);
+
+  const [newWedding, setNewWedding] = useState({ couple_names: '', wedding_date: '' });
+
+  const [newGuest, setNewGuest] = useState<GuestForm>(emptyGuestForm);
+  const [newGuestErrors, setNewGuestErrors] = useState<string[]>([]);
+  const [newVendorErrors, setNewVendorErrors] = useState<string[]>([]);
 
   const [editingVendor, setEditingVendor] = useState<string | null>(null);
-  const [editingGuest, setEditingGuest] = useState<string | null>(null);
+  const [vendorDraft, setVendorDraft] = useState<VendorForm>(emptyVendorForm);
+  const [vendorDraftErrors, setVendorDraftErrors] = useState<string[]>([]);
 
   // Load initial data
   useEffect(() => {
-    loadData();
+    loadWeddings();
   }, []);
 
-  // Set up real-time subscriptions
+  // Set up real-time subscriptions for the selected wedding
   useEffect(() => {
-    const tasksSub = subscriptions.subscribeTasks(setTasks);
-    const vendorsSub = subscriptions.subscribeVendors(setVendors);
-    const guestsSub = subscriptions.subscribeGuests(setGuests);
+    if (!weddingId) return;
+
+    const tasksSub = subscriptions.subscribeTasks(weddingId, setTasks);
+    const vendorsSub = subscriptions.subscribeVendors(weddingId, setVendors);
+    const householdsSub = subscriptions.subscribeHouseholds(weddingId, setHouseholds);
+    const budgetCategoriesSub = subscriptions.subscribeBudgetCategories(weddingId, setBudgetCategories);
+    const vendorPaymentsSub = subscriptions.subscribeVendorPayments(weddingId, setVendorPayments);
+    const vendorAppointmentsSub = subscriptions.subscribeVendorAppointments(weddingId, setVendorAppointments);
+    const seatingTablesSub = subscriptions.subscribeSeatingTables(weddingId, setSeatingTables);
+    const seatingRulesSub = subscriptions.subscribeSeatingRules(weddingId, setSeatingRules);
+    const mealOptionsSub = subscriptions.subscribeMealOptions(weddingId, setMealOptions);
+    const giftsSub = subscriptions.subscribeGifts(weddingId, setGifts);
+    const timelineEventsSub = subscriptions.subscribeTimelineEvents(weddingId, setTimelineEvents);
+    const timelineEventVendorsSub = subscriptions.subscribeTimelineEventVendors(weddingId, setTimelineEventVendors);
 
     return () => {
       tasksSub.unsubscribe();
       vendorsSub.unsubscribe();
+      householdsSub.unsubscribe();
+      budgetCategoriesSub.unsubscribe();
+      vendorPaymentsSub.unsubscribe();
+      vendorAppointmentsSub.unsubscribe();
+      seatingTablesSub.unsubscribe();
+      seatingRulesSub.unsubscribe();
+      mealOptionsSub.unsubscribe();
+      giftsSub.unsubscribe();
+      timelineEventsSub.unsubscribe();
+      timelineEventVendorsSub.unsubscribe();
+    };
+  }, [weddingId]);
+
+  useEffect(() => {
+    const search = activeTab === 'guests' ? guestQueryToSearch(guestQuery) : '';
+    if (search !== window.location.search) {
+      window.history.replaceState(null, '', `${window.location.pathname}${search}`);
+    }
+  }, [activeTab, guestQuery]);
+
+  // The guest table shows one page from the server
+  useEffect(() => {
+    if (!weddingId || activeTab !== 'guests') return;
+
+    let current = true;
+    const query = { ...guestQuery, page: guestQuery.page ?? 1, pageSize: GUEST_PAGE_SIZE };
+    setGuestPage(prev => ({ ...prev, reading: true, outdated: false }));
+
+    Promise.all([dbFunctions.getGuests(query), dbFunctions.countGuests(query)])
+      .then(async ([page, total]) => {
+        if (!current) return;
+        // Deleting the last guests on the final page steps back a page
+        if (page.length === 0 && query.page > 1 && total > 0) {
+          setGuestQuery(prev => ({ ...prev, page: Math.ceil(total / GUEST_PAGE_SIZE) }));
+          return;
+        }
+        const related = await dbFunctions.getRelatedGuests(page);
+        if (current) setGuestPage(prev => ({ guests: page, related, total, reading: false, outdated: prev.outdated }));
+      })
+      .catch((err: any) => current && setError(err.message));
+
+    return () => {
+      current = false;
+    };
+  }, [weddingId, activeTab, guestQuery, guestReads.page]);
+
+  // RSVP counts and filter choices cover every guest, so they come from the server too
+  useEffect(() => {
+    if (!weddingId || activeTab !== 'guests') return;
+
+    let current = true;
+    dbFunctions.getGuestOverview()
+      .then(overview => current && setGuestOverview(overview))
+      .catch((err: any) => current && setError(err.message));
+
+    return () => {
+      current = false;
+    };
+  }, [weddingId, activeTab, guestReads.overview]);
+
+  // Edits to guests on the page are patched in; other changes mark it outdated
+  useEffect(() => {
+    if (!weddingId || activeTab !== 'guests') return;
+
+    const guestsSub = subscriptions.subscribeGuestChanges(weddingId, guest => {
+      setGuestPage(prev => {
+        const patched = guest && !prev.reading && patchGuestPage(prev, guest, guestQuery);
+        if (patched) return { ...prev, ...patched };
+
+        // Guests moved to the trash leave at once; the next read fills the gap
+        const trashed = guest?.deleted_at ? guest.id : null;
+        return { ...prev, guests: prev.guests.filter(g => g.id !== trashed), outdated: true };
+      });
+      setGuestChanges(count => count + 1);
+    });
+
+    return () => {
       guestsSub.unsubscribe();
     };
-  }, []);
+  }, [weddingId, activeTab, guestQuery]);
+
+  // Once changes settle, the overview is read again, and the page if it is outdated
+  useEffect(() => {
+    if (guestChanges === 0) return;
+
+    const timer = setTimeout(() => {
+      setGuestReads(prev => ({ page: prev.page + (guestPage.outdated ? 1 : 0), overview: prev.overview + 1 }));
+    }, GUEST_REREAD_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [guestChanges]);
+
+  // The full guest list is only read while a tab that needs it is open
+  const needsAllGuests = ALL_GUEST_TABS.includes(activeTab);
+  useEffect(() => {
+    if (!weddingId || !needsAllGuests) return;
+
+    let current = true;
+    const guestsSub = subscriptions.subscribeGuests(weddingId, setGuests);
+    dbFunctions.getGuests()
+      .then(rows => current && setGuests(rows))
+      .catch((err: any) => current && setError(err.message));
+
+    return () => {
+      current = false;
+      guestsSub.unsubscribe();
+    };
+  }, [weddingId, needsAllGuests]);
+
+  // Picks up the last wedding used here, or the first one the user belongs to
+  const loadWeddings = async () => {
+    if (clientWedding) {
+      weddingFunctions.selectWedding(clientWedding.id);
+      setMemberships([{ wedding: clientWedding, role: 'viewer' }]);
+      setWeddingId(clientWedding.id);
+      await loadData();
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [user, membershipsData] = await Promise.all([
+        authFunctions.getCurrentUser(),
+        weddingFunctions.getMyWeddings()
+      ]);
+
+      const savedId = weddingFunctions.getCurrentWeddingId();
+      const selected = membershipsData.find(membership => membership.wedding.id === savedId) ?? membershipsData[0];
+      weddingFunctions.selectWedding(selected?.wedding.id ?? null);
+
+      setUserId(user?.id ?? '');
+      setMemberships(membershipsData);
+      setWeddingId(selected?.wedding.id ?? null);
+      if (selected) await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchWedding = async (id: string) => {
+    weddingFunctions.selectWedding(id);
+    setWeddingId(id);
+    await loadData();
+  };
 
   const loadData = async () => {
     try {
       setLoading(true);
-      const [profileData, tasksData, vendorsData, guestsData] = await Promise.all([
-        authFunctions.getCurrentProfile(),
+      const [
+        tasksData,
+        vendorsData,
+        householdsData,
+        budgetCategoriesData,
+        vendorPaymentsData,
+        vendorAppointmentsData,
+        seatingTablesData,
+        seatingRulesData,
+        mealOptionsData,
+        giftsData,
+        timelineEventsData,
+        timelineEventVendorsData
+      ] = await Promise.all([
         dbFunctions.getTasks(),
         dbFunctions.getVendors(),
-        dbFunctions.getGuests()
+        dbFunctions.getHouseholds(),
+        dbFunctions.getBudgetCategories(),
+        dbFunctions.getVendorPayments(),
+        dbFunctions.getVendorAppointments(),
+        dbFunctions.getSeatingTables(),
+        dbFunctions.getSeatingRules(),
+        dbFunctions.getMealOptions(),
+        dbFunctions.getGifts(),
+        dbFunctions.getTimelineEvents(),
+        dbFunctions.getTimelineEventVendors()
       ]);
 
-      setProfile(profileData);
       setTasks(tasksData);
       setVendors(vendorsData);
-      setGuests(guestsData);
+      setHouseholds(householdsData);
+      setBudgetCategories(budgetCategoriesData);
+      setVendorPayments(vendorPaymentsData);
+      setVendorAppointments(vendorAppointmentsData);
+      setSeatingTables(seatingTablesData);
+      setSeatingRules(seatingRulesData);
+      setMealOptions(mealOptionsData);
+      setGifts(giftsData);
+      setTimelineEvents(timelineEventsData);
+      setTimelineEventVendors(timelineEventVendorsData);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -98,6 +410,9 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
   };
 
   const handleSignOut = async () => {
+    const { pending } = getSyncState();
+    if (pending > 0 && !window.confirm(`${pending} changes made offline haven't been saved yet and will be lost. Sign out anyway?`)) return;
+
     try {
       await authFunctions.signOut();
       onSignOut();
@@ -106,89 +421,158 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
     }
   };
 
-  const toggleTask = async (taskId: string, completed: boolean) => {
+  const saveVendor = async () => {
+    const { vendor, errors } = parseVendorForm(newVendor);
+    setNewVendorErrors(errors);
+    if (errors.length > 0) return;
+
     try {
-      await dbFunctions.updateTask(taskId, completed);
+      await dbFunctions.addVendor(vendor);
+      setNewVendor(emptyVendorForm);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const saveVendor = async () => {
-    if (!newVendor.name || !newVendor.type) return;
+  const startEditingVendor = (vendor: Vendor) => {
+    setEditingVendor(vendor.id);
+    setVendorDraft(vendorToForm(vendor));
+    setVendorDraftErrors([]);
+  };
+
+  const updateVendor = async (id: string) => {
+    const { vendor, errors } = parseVendorForm(vendorDraft);
+    setVendorDraftErrors(errors);
+    if (errors.length > 0) return;
 
     try {
-      await dbFunctions.addVendor(newVendor);
-      setNewVendor({
-        name: '',
-        type: '',
-        email: '',
-        phone: '',
-        cost: '',
-        notes: ''
-      });
+      await dbFunctions.updateVendor(id, vendor);
+      setEditingVendor(null);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const deleteVendor = async (id: string) => {
+  const renderVendorFields = (form: VendorForm, setForm: (update: (prev: VendorForm) => VendorForm) => void, errors: string[]) => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input
+          type="text"
+          placeholder="Vendor Name"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          placeholder="Type (e.g., Photographer)"
+          value={form.type}
+          onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="email"
+          placeholder="Email"
+          value={form.email}
+          onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="tel"
+          placeholder="Phone"
+          value={form.phone}
+          onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Estimated Cost"
+          value={form.estimated_cost}
+          onChange={(e) => setForm(prev => ({ ...prev, estimated_cost: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Actual Cost"
+          value={form.actual_cost}
+          onChange={(e) => setForm(prev => ({ ...prev, actual_cost: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+        <select
+          value={form.category_id}
+          onChange={(e) => setForm(prev => ({ ...prev, category_id: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        >
+          <option value="">Budget Category</option>
+          {budgetCategories.map(category => (
+            <option key={category.id} value={category.id}>{category.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Notes"
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-700 space-y-1">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </>
+  );
+
+  const deleteVendor = async (vendor: Vendor) => {
     try {
-      await dbFunctions.deleteVendor(id);
+      await dbFunctions.deleteVendor(vendor.id);
+      setTrashed({ table: 'vendors', id: vendor.id, label: vendor.name });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
   const saveGuest = async () => {
-    if (!newGuest.first_name || !newGuest.last_name) return;
+    const { guest, errors } = parseGuestForm(newGuest);
+    setNewGuestErrors(errors);
+    if (errors.length > 0) return;
 
     try {
-      await dbFunctions.addGuest(newGuest);
-      setNewGuest({
-        first_name: '',
-        last_name: '',
-        email: '',
-        phone: '',
-        group_name: '',
-        rsvp_status: 'pending',
-        plus_one: '',
-        table_number: null,
-        dietary_restrictions: ''
-      });
+      const added = await dbFunctions.addGuest({ ...guest, plus_one_of: null });
+      const plusOne = plusOneFor(added, newGuest.plus_one_name);
+      if (guest.plus_one_allowed && plusOne.first_name) await dbFunctions.addGuest(plusOne);
+
+      // The next guest is likely from the same household
+      setNewGuest({ ...emptyGuestForm, household_id: newGuest.household_id });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const deleteGuest = async (id: string) => {
+  const createWedding = async () => {
+    if (!newWedding.couple_names.trim()) return;
+
     try {
-      await dbFunctions.deleteGuest(id);
+      const id = await weddingFunctions.createWedding(newWedding.couple_names.trim(), newWedding.wedding_date);
+      weddingFunctions.selectWedding(id);
+      setNewWedding({ couple_names: '', wedding_date: '' });
+      await loadWeddings();
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const updateProgress = () => {
-    const completed = tasks.filter(task => task.completed).length;
-    const total = tasks.length;
-    return total > 0 ? Math.round((completed / total) * 100) : 0;
-  };
-
-  const getTasksByPhase = () => {
-    const phases = [
-      '12+ Months Before',
-      '8-12 Months Before',
-      '4-8 Months Before',
-      '2-4 Months Before',
-      '1-2 Months Before',
-      '1 Week Before'
-    ];
-
-    return phases.map(phase => ({
-      phase,
-      tasks: tasks.filter(task => task.phase === phase)
-    }));
+  const handleWeddingChange = (updates: Partial<Wedding>) => {
+    setMemberships(prev => prev.map(membership =>
+      membership.wedding.id === weddingId
+        ? { ...membership, wedding: { ...membership.wedding, ...updates } }
+        : membership
+    ));
   };
 
   if (loading) {
@@ -202,23 +586,114 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
     );
   }
 
-  const progress = updateProgress();
+  const membership = memberships.find(m => m.wedding.id === weddingId);
+
+  if (!membership) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 bg-rose-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Heart className="w-8 h-8 text-rose-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">No wedding yet</h2>
+            <p className="text-gray-600">
+              Start planning your own, or ask the couple to send you an invite link.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Couple Names"
+              value={newWedding.couple_names}
+              onChange={(e) => setNewWedding(prev => ({ ...prev, couple_names: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <input
+              type="date"
+              value={newWedding.wedding_date}
+              onChange={(e) => setNewWedding(prev => ({ ...prev, wedding_date: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            />
+            <button
+              onClick={createWedding}
+              className="w-full bg-rose-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-rose-700 transition-colors"
+            >
+              Start Planning
+            </button>
+          </div>
+
+          <button
+            onClick={handleSignOut}
+            className="mt-6 mx-auto flex items-center text-gray-600 hover:text-gray-900 transition-colors text-sm"
+          >
+            <LogOut className="w-4 h-4 mr-1" />
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { wedding, role } = membership;
+  const readOnly = role === 'viewer';
+  // Planners in edit mode may change a client's tasks, vendors, guests, menus and gifts; everything else stays view only
+  const recordsReadOnly = readOnly && !plannerEditing;
+  const progress = getTaskProgress(tasks).percentage;
+  // Payments and appointments stay put while their vendor is in the trash
+  const vendorIds = new Set(vendors.map(vendor => vendor.id));
+  const livePayments = vendorPayments.filter(payment => vendorIds.has(payment.vendor_id));
+  const liveAppointments = vendorAppointments.filter(appointment => vendorIds.has(appointment.vendor_id));
+  const paymentSummary = summarizePayments(livePayments);
 
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
-      <header className="bg-white shadow-sm border-b border-gray-200">
+      <header className="bg-white shadow-sm border-b border-gray-200 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <div className="flex items-center">
               <Heart className="w-8 h-8 text-rose-600 mr-3" />
               <div>
                 <h1 className="text-xl font-bold text-gray-900">Adorist</h1>
-                <p className="text-sm text-gray-600">{profile?.couple_names}</p>
+                <div className="flex items-center text-sm text-gray-600">
+                  {memberships.length > 1 ? (
+                    <select
+                      value={wedding.id}
+                      onChange={(e) => switchWedding(e.target.value)}
+                      className="text-sm text-gray-600 bg-transparent border-none p-0 pr-8 focus:ring-0"
+                      title="Switch wedding"
+                    >
+                      {memberships.map(m => (
+                        <option key={m.wedding.id} value={m.wedding.id}>{m.wedding.couple_names}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span>{wedding.couple_names}</span>
+                  )}
+                  {plannerEditing ? (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-700">
+                      Editing as planner
+                    </span>
+                  ) : readOnly && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+                      View only
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
             
             <div className="flex items-center space-x-4">
+              <SyncStatus onError={setError} />
+
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">{progress}% Complete</p>
                 <div className="w-32 bg-gray-200 rounded-full h-2">
@@ -229,27 +704,59 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
                 </div>
               </div>
               
-              <button
-                onClick={handleSignOut}
-                className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
-              >
-                <LogOut className="w-5 h-5 mr-1" />
-                Sign Out
-              </button>
+              {clientWedding && (
+                <button
+                  onClick={() => setPlannerEditing(editing => !editing)}
+                  className={`flex items-center px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                    plannerEditing
+                      ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                      : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {plannerEditing ? <Save className="w-4 h-4 mr-1" /> : <Edit3 className="w-4 h-4 mr-1" />}
+                  {plannerEditing ? 'Done editing' : 'Edit plan'}
+                </button>
+              )}
+
+              {onBack ? (
+                <button
+                  onClick={onBack}
+                  className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 mr-1" />
+                  Back to clients
+                </button>
+              ) : (
+                <button
+                  onClick={handleSignOut}
+                  className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+                >
+                  <LogOut className="w-5 h-5 mr-1" />
+                  Sign Out
+                </button>
+              )}
             </div>
           </div>
         </div>
       </header>
 
       {/* Navigation */}
-      <nav className="bg-white border-b border-gray-200">
+      <nav className="bg-white border-b border-gray-200 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex space-x-8">
             {[
               { id: 'checklist', label: 'Checklist', icon: CheckCircle2 },
               { id: 'vendors', label: 'Vendors', icon: DollarSign },
               { id: 'guests', label: 'Guest List', icon: Users },
-            ].map(tab => (
+              { id: 'seating', label: 'Seating', icon: LayoutGrid },
+              { id: 'catering', label: 'Catering', icon: UtensilsCrossed },
+              { id: 'timeline', label: 'Timeline', icon: Clock },
+              { id: 'budget', label: 'Budget', icon: Wallet },
+              { id: 'gifts', label: 'Gifts', icon: GiftIcon },
+              { id: 'activity', label: 'Activity', icon: History },
+              { id: 'trash', label: 'Trash', icon: Trash },
+              { id: 'sharing', label: 'Sharing', icon: UserPlus },
+            ].filter(tab => !clientWedding || tab.id !== 'sharing').map(tab => (
               <button
                 key={tab.id}
                 onClick={() => setActiveTab(tab.id)}
@@ -270,7 +777,7 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {error && (
-          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 print:hidden">
             {error}
             <button onClick={() => setError('')} className="float-right">
               <X className="w-4 h-4" />
@@ -280,38 +787,28 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
 
         {/* Checklist Tab */}
         {activeTab === 'checklist' && (
-          <div className="space-y-8">
-            {getTasksByPhase().map(({ phase, tasks: phaseTasks }) => (
-              <div key={phase} className="bg-white rounded-lg shadow-sm border border-gray-200">
-                <div className="px-6 py-4 border-b border-gray-200">
-                  <h3 className="text-lg font-semibold text-gray-900">{phase}</h3>
-                  <p className="text-sm text-gray-600">
-                    {phaseTasks.filter(t => t.completed).length} of {phaseTasks.length} completed
-                  </p>
-                </div>
-                <div className="p-6">
-                  <div className="space-y-3">
-                    {phaseTasks.map(task => (
-                      <div key={task.id} className="flex items-center">
-                        <button
-                          onClick={() => toggleTask(task.id, !task.completed)}
-                          className="mr-3 transition-colors"
-                        >
-                          {task.completed ? (
-                            <CheckCircle2 className="w-5 h-5 text-rose-600" />
-                          ) : (
-                            <Circle className="w-5 h-5 text-gray-400 hover:text-rose-600" />
-                          )}
-                        </button>
-                        <span className={`flex-1 ${task.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>
-                          {task.task_name}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            ))}
+          <div className="space-y-6">
+            <ChecklistTab
+              tasks={tasks}
+              wedding={wedding}
+              vendorPayments={livePayments}
+              readOnly={recordsReadOnly}
+              dateReadOnly={readOnly}
+              onWeddingChange={handleWeddingChange}
+              onNavigate={setActiveTab}
+              onDeleted={setTrashed}
+              onError={setError}
+            />
+            <CalendarSync
+              wedding={wedding}
+              tasks={tasks}
+              vendors={vendors}
+              payments={livePayments}
+              appointments={liveAppointments}
+              readOnly={readOnly}
+              onWeddingChange={handleWeddingChange}
+              onError={setError}
+            />
           </div>
         )}
 
@@ -319,78 +816,82 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
         {activeTab === 'vendors' && (
           <div className="space-y-6">
             {/* Add Vendor Form */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Vendor</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <input
-                  type="text"
-                  placeholder="Vendor Name"
-                  value={newVendor.name}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, name: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="text"
-                  placeholder="Type (e.g., Photographer)"
-                  value={newVendor.type}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, type: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="email"
-                  placeholder="Email"
-                  value={newVendor.email}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, email: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="tel"
-                  placeholder="Phone"
-                  value={newVendor.phone}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, phone: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="text"
-                  placeholder="Cost"
-                  value={newVendor.cost}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, cost: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="text"
-                  placeholder="Notes"
-                  value={newVendor.notes}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, notes: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
+            {!recordsReadOnly && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Vendor</h3>
+                {renderVendorFields(newVendor, setNewVendor, newVendorErrors)}
+                <button
+                  onClick={saveVendor}
+                  className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Vendor
+                </button>
               </div>
-              <button
-                onClick={saveVendor}
-                className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Add Vendor
-              </button>
-            </div>
+            )}
+
+            {paymentSummary.scheduledCount > 0 && (
+              <div className={`border px-4 py-3 rounded-lg ${
+                paymentSummary.overdueCount > 0
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : 'bg-white border-gray-200 text-gray-700'
+              }`}>
+                {formatCurrency(paymentSummary.owed)} still owed across {paymentSummary.scheduledCount} scheduled payments
+                {paymentSummary.overdueCount > 0 && `, ${formatCurrency(paymentSummary.overdue)} overdue`}
+              </div>
+            )}
 
             {/* Vendors List */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {vendors.map(vendor => (
+              {vendors.map(vendor => editingVendor === vendor.id && !recordsReadOnly ? (
+                <div key={vendor.id} className="bg-white rounded-lg shadow-sm border border-rose-300 p-6 md:col-span-2 lg:col-span-3">
+                  <h4 className="font-semibold text-gray-900 mb-4">Edit {vendor.name}</h4>
+                  {renderVendorFields(vendorDraft, setVendorDraft, vendorDraftErrors)}
+                  <div className="flex space-x-2 mt-4">
+                    <button
+                      onClick={() => updateVendor(vendor.id)}
+                      className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingVendor(null)}
+                      className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
                 <div key={vendor.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                   <div className="flex justify-between items-start mb-4">
                     <div>
                       <h4 className="font-semibold text-gray-900">{vendor.name}</h4>
                       <p className="text-sm text-gray-600">{vendor.type}</p>
+                      <PlannerUpdateLabel record={vendor} />
                     </div>
-                    <button
-                      onClick={() => deleteVendor(vendor.id)}
-                      className="text-gray-400 hover:text-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {!recordsReadOnly && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => startEditingVendor(vendor)}
+                          title="Edit vendor"
+                          className="text-gray-400 hover:text-rose-600 transition-colors"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteVendor(vendor)}
+                          title="Delete vendor"
+                          className="text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
                   </div>
-                  
+                
                   <div className="space-y-2 text-sm">
                     {vendor.email && (
                       <div className="flex items-center text-gray-600">
@@ -404,7 +905,15 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
                         {vendor.phone}
                       </div>
                     )}
-                    {vendor.cost && (
+                    {(vendor.estimated_cost != null || vendor.actual_cost != null) ? (
+                      <div className="flex items-center text-gray-600">
+                        <DollarSign className="w-4 h-4 mr-2" />
+                        {vendor.actual_cost != null
+                          ? `${formatCurrency(Number(vendor.actual_cost))} actual`
+                          : `${formatCurrency(Number(vendor.estimated_cost))} estimated`
+                        }
+                      </div>
+                    ) : vendor.cost && (
                       <div className="flex items-center text-gray-600">
                         <DollarSign className="w-4 h-4 mr-2" />
                         {vendor.cost}
@@ -414,6 +923,20 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
                       <p className="text-gray-600 mt-2">{vendor.notes}</p>
                     )}
                   </div>
+
+                  <VendorPayments
+                    vendor={vendor}
+                    payments={vendorPayments.filter(payment => payment.vendor_id === vendor.id)}
+                    readOnly={readOnly}
+                    onError={setError}
+                  />
+
+                  <VendorAppointments
+                    vendor={vendor}
+                    appointments={vendorAppointments.filter(appointment => appointment.vendor_id === vendor.id)}
+                    readOnly={readOnly}
+                    onError={setError}
+                  />
                 </div>
               ))}
             </div>
@@ -424,155 +947,178 @@ export default function WeddingPlanner({ onSignOut }: WeddingPlannerProps) {
         {activeTab === 'guests' && (
           <div className="space-y-6">
             {/* Add Guest Form */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Guest</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                <input
-                  type="text"
-                  placeholder="First Name"
-                  value={newGuest.first_name}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, first_name: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="text"
-                  placeholder="Last Name"
-                  value={newGuest.last_name}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, last_name: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="email"
-                  placeholder="Email"
-                  value={newGuest.email}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, email: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            {!recordsReadOnly && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Guest</h3>
+                <GuestFields
+                  form={newGuest}
+                  onChange={setNewGuest}
+                  households={households}
+                  mealOptions={mealOptions}
+                  errors={newGuestErrors}
+                  isNew
                 />
-                <input
-                  type="tel"
-                  placeholder="Phone"
-                  value={newGuest.phone}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, phone: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <input
-                  type="text"
-                  placeholder="Group (e.g., Family)"
-                  value={newGuest.group_name}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, group_name: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
-                />
-                <select
-                  value={newGuest.rsvp_status}
-                  onChange={(e) => setNewGuest(prev => ({ ...prev, rsvp_status: e.target.value }))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                <button
+                  onClick={saveGuest}
+                  className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
                 >
-                  <option value="pending">Pending</option>
-                  <option value="attending">Attending</option>
-                  <option value="declined">Declined</option>
-                </select>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Guest
+                </button>
               </div>
-              <button
-                onClick={saveGuest}
-                className="mt-4 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors flex items-center"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Add Guest
-              </button>
-            </div>
+            )}
 
             {/* Guest Statistics */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-                <div className="text-2xl font-bold text-gray-900">{guests.length}</div>
-                <div className="text-sm text-gray-600">Total Guests</div>
-              </div>
-              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-                <div className="text-2xl font-bold text-green-600">
-                  {guests.filter(g => g.rsvp_status === 'attending').length}
-                </div>
-                <div className="text-sm text-gray-600">Attending</div>
+                <div className="text-2xl font-bold text-gray-900">{guestOverview.invitations}</div>
+                <div className="text-sm text-gray-600">Invitations</div>
               </div>
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-                <div className="text-2xl font-bold text-red-600">
-                  {guests.filter(g => g.rsvp_status === 'declined').length}
+                <div className="text-2xl font-bold text-gray-900">{guestOverview.headcount}</div>
+                <div className="text-sm text-gray-600">
+                  Headcount
+                  {guestOverview.openPlusOnes > 0 && ` (${guestOverview.openPlusOnes} unnamed plus-ones)`}
                 </div>
-                <div className="text-sm text-gray-600">Declined</div>
-              </div>
-              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-                <div className="text-2xl font-bold text-yellow-600">
-                  {guests.filter(g => g.rsvp_status === 'pending').length}
-                </div>
-                <div className="text-sm text-gray-600">Pending</div>
               </div>
+              {([
+                { status: 'attending', label: 'Attending', count: guestOverview.attending, color: 'text-green-600' },
+                { status: 'declined', label: 'Declined', count: guestOverview.declined, color: 'text-red-600' },
+                { status: 'pending', label: 'Pending', count: guestOverview.pending, color: 'text-yellow-600' }
+              ]).map(card => {
+                const active = guestQuery.rsvp_status === card.status;
+                return (
+                  <button
+                    key={card.status}
+                    onClick={() => setGuestQuery(prev => ({ ...prev, rsvp_status: active ? undefined : card.status, page: undefined }))}
+                    aria-pressed={active}
+                    title={active ? 'Show every RSVP' : `Show only ${card.label.toLowerCase()} guests`}
+                    className={`bg-white rounded-lg shadow-sm border p-4 text-left transition-colors hover:border-rose-300 ${
+                      active ? 'border-rose-500 ring-2 ring-rose-200' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className={`text-2xl font-bold ${card.color}`}>{card.count}</div>
+                    <div className="text-sm text-gray-600">{card.label}</div>
+                  </button>
+                );
+              })}
             </div>
 
-            {/* Guests List */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Name
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Contact
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Group
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        RSVP
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {guests.map(guest => (
-                      <tr key={guest.id}>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">
-                            {guest.first_name} {guest.last_name}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{guest.email}</div>
-                          <div className="text-sm text-gray-500">{guest.phone}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {guest.group_name}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            guest.rsvp_status === 'attending' 
-                              ? 'bg-green-100 text-green-800'
-                              : guest.rsvp_status === 'declined'
-                              ? 'bg-red-100 text-red-800'
-                              : 'bg-yellow-100 text-yellow-800'
-                          }`}>
-                            {guest.rsvp_status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <button
-                            onClick={() => deleteGuest(guest.id)}
-                            className="text-red-600 hover:text-red-900"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
+            <GuestImport
+              query={guestQuery}
+              total={guestPage.total}
+              households={households}
+              mealOptions={mealOptions}
+              readOnly={recordsReadOnly}
+              onError={setError}
+            />
+
+            <GuestList
+              page={guestPage.guests}
+              related={guestPage.related}
+              total={guestPage.total}
+              overview={guestOverview}
+              query={guestQuery}
+              onQueryChange={setGuestQuery}
+              households={households}
+              tables={seatingTables}
+              mealOptions={mealOptions}
+              readOnly={recordsReadOnly}
+              householdsReadOnly={readOnly}
+              onDeleted={setTrashed}
+              onError={setError}
+            />
           </div>
         )}
+
+        {/* Seating Tab */}
+        {activeTab === 'seating' && (
+          <SeatingTab
+            guests={guests}
+            tables={seatingTables}
+            rules={seatingRules}
+            readOnly={readOnly}
+            onError={setError}
+          />
+        )}
+
+        {/* Catering Tab */}
+        {activeTab === 'catering' && (
+          <CateringTab
+            wedding={wedding}
+            guests={guests}
+            mealOptions={mealOptions}
+            tables={seatingTables}
+            readOnly={recordsReadOnly}
+            onError={setError}
+          />
+        )}
+
+        {/* Timeline Tab */}
+        {activeTab === 'timeline' && (
+          <TimelineTab
+            wedding={wedding}
+            events={timelineEvents}
+            eventVendors={timelineEventVendors}
+            vendors={vendors}
+            readOnly={readOnly}
+            onError={setError}
+          />
+        )}
+
+        {/* Budget Tab */}
+        {activeTab === 'budget' && (
+          <BudgetTab
+            wedding={wedding}
+            categories={budgetCategories}
+            vendors={vendors}
+            readOnly={readOnly}
+            onWeddingChange={handleWeddingChange}
+            onError={setError}
+          />
+        )}
+
+        {/* Gifts Tab */}
+        {activeTab === 'gifts' && (
+          <GiftsTab
+            wedding={wedding}
+            gifts={gifts}
+            guests={guests}
+            households={households}
+            readOnly={recordsReadOnly}
+            onError={setError}
+          />
+        )}
+
+        {/* Activity Tab */}
+        {activeTab === 'activity' && (
+          <ActivityFeed onError={setError} />
+        )}
+
+        {/* Trash Tab */}
+        {activeTab === 'trash' && (
+          <TrashView readOnly={recordsReadOnly} onError={setError} />
+        )}
+
+        {/* Sharing Tab */}
+        {activeTab === 'sharing' && !clientWedding && (
+          <WeddingMembers
+            wedding={wedding}
+            role={role}
+            userId={userId}
+            onLeave={loadWeddings}
+            onError={setError}
+          />
+        )}
       </main>
+
+      {trashed && (
+        <UndoToast
+          record={trashed}
+          onDismiss={() => setTrashed(null)}
+          onError={setError}
+        />
+      )}
     </div>
   );
 }
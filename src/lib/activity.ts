@@ -0,0 +1,101 @@
+import { AuditEntry } from './supabase';
+import { formatDietaryTags } from './meals';
+
+export interface ActivityChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+const RECORD_NOUNS: Record<AuditEntry['table_name'], string> = {
+  tasks: 'task',
+  vendors: 'vendor',
+  guests: 'guest'
+};
+
+// Columns worth showing in the feed; anything else (ids, tokens, stamps) is left out
+const FIELD_LABELS: Record<string, string> = {
+  task_name: 'Name',
+  phase: 'Phase',
+  completed: 'Done',
+  due_date: 'Due date',
+  notes: 'Notes',
+  position: 'Order',
+  name: 'Name',
+  type: 'Type',
+  email: 'Email',
+  phone: 'Phone',
+  estimated_cost: 'Estimated cost',
+  actual_cost: 'Actual cost',
+  category_id: 'Budget category',
+  first_name: 'First name',
+  last_name: 'Last name',
+  group_name: 'Group',
+  rsvp_status: 'RSVP',
+  plus_one_allowed: 'Plus-one',
+  household_id: 'Household',
+  table_number: 'Table',
+  meal_option_id: 'Meal',
+  dietary_tags: 'Dietary tags',
+  dietary_restrictions: 'Dietary needs'
+};
+
+// References and ordering only say that they changed, not to what
+const OPAQUE_FIELDS = new Set(['category_id', 'household_id', 'meal_option_id', 'position']);
+
+export const recordNoun = (table: AuditEntry['table_name']) => RECORD_NOUNS[table];
+
+export const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+export const formatValue = (value: unknown) => {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Tags show by name, e.g. "Vegan; Peanut allergy"
+const formatField = (key: string, value: unknown) =>
+  formatValue(key === 'dietary_tags' && Array.isArray(value) ? formatDietaryTags(value) : value);
+
+export const activityChanges = (entry: AuditEntry): ActivityChange[] => {
+  if (entry.action !== 'update' || !entry.new_values) return [];
+
+  return Object.keys(entry.new_values)
+    .filter(key => key in FIELD_LABELS)
+    .map(key => OPAQUE_FIELDS.has(key)
+      ? { field: FIELD_LABELS[key], from: null, to: null }
+      : { field: FIELD_LABELS[key], from: formatField(key, entry.old_values?.[key]), to: formatField(key, entry.new_values?.[key]) }
+    );
+};
+
+// e.g. Checked off task "Book the venue", Updated guest "Sam Lee"
+export const describeActivity = (entry: AuditEntry) => {
+  const noun = RECORD_NOUNS[entry.table_name];
+  const label = entry.row_label ? ` "${entry.row_label}"` : '';
+
+  if (entry.action === 'insert') return `Added ${noun}${label}`;
+  if (entry.action === 'delete') return `Permanently deleted ${noun}${label}`;
+
+  if (entry.new_values && 'deleted_at' in entry.new_values) {
+    return entry.new_values.deleted_at ? `Moved ${noun}${label} to the trash` : `Restored ${noun}${label}`;
+  }
+
+  if (entry.table_name === 'tasks' && entry.new_values && 'completed' in entry.new_values) {
+    return `${entry.new_values.completed ? 'Checked off' : 'Reopened'} ${noun}${label}`;
+  }
+  if (entry.table_name === 'guests' && entry.new_values && 'rsvp_status' in entry.new_values) {
+    return `RSVP for${label} set to ${formatValue(entry.new_values.rsvp_status)}`;
+  }
+
+  return `Updated ${noun}${label}`;
+};
+
+// Who made the change; rows without a signed-in user came from an RSVP link or the system
+export const activityActor = (entry: AuditEntry) => {
+  if (!entry.actor_id && !entry.actor_name) {
+    return entry.table_name === 'guests' ? 'RSVP link' : 'Automatic';
+  }
+
+  const name = entry.actor_name ?? 'Former member';
+  return entry.actor_is_admin ? `${name} (planner)` : name;
+};
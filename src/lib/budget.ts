@@ -0,0 +1,93 @@
+import { BudgetCategory, Vendor, VendorPayment } from './supabase';
+import { today } from './dates';
+
+export interface CategorySummary {
+  id: string | null;
+  name: string;
+  planned: number;
+  estimated: number;
+  actual: number;
+  remaining: number;
+  vendorCount: number;
+}
+
+export const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 2
+  }).format(amount);
+};
+
+// Parses a money input, returning null for blank or invalid values
+export const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+// Planned vs. actual spend per category, with vendors lacking a category grouped as "Uncategorized"
+export const summarizeBudget = (categories: BudgetCategory[], vendors: Vendor[]) => {
+  const summarize = (id: string | null, name: string, planned: number, categoryVendors: Vendor[]): CategorySummary => {
+    const estimated = categoryVendors.reduce((sum, vendor) => sum + (Number(vendor.estimated_cost) || 0), 0);
+    const actual = categoryVendors.reduce((sum, vendor) => sum + (Number(vendor.actual_cost) || 0), 0);
+
+    return {
+      id,
+      name,
+      planned,
+      estimated,
+      actual,
+      remaining: planned - actual,
+      vendorCount: categoryVendors.length
+    };
+  };
+
+  const knownIds = new Set(categories.map(category => category.id));
+  const rows = categories.map(category =>
+    summarize(
+      category.id,
+      category.name,
+      Number(category.planned_amount) || 0,
+      vendors.filter(vendor => vendor.category_id === category.id)
+    )
+  );
+
+  const uncategorized = vendors.filter(vendor => !vendor.category_id || !knownIds.has(vendor.category_id));
+  if (uncategorized.length > 0) {
+    rows.push(summarize(null, 'Uncategorized', 0, uncategorized));
+  }
+
+  const planned = rows.reduce((sum, row) => sum + row.planned, 0);
+  const estimated = rows.reduce((sum, row) => sum + row.estimated, 0);
+  const actual = rows.reduce((sum, row) => sum + row.actual, 0);
+
+  return { rows, planned, estimated, actual };
+};
+
+export const PAYMENT_KINDS: { value: VendorPayment['kind']; label: string }[] = [
+  { value: 'deposit', label: 'Deposit' },
+  { value: 'installment', label: 'Installment' },
+  { value: 'final', label: 'Final balance' }
+];
+
+export const isPaymentOverdue = (payment: VendorPayment, asOf = today()) => {
+  return payment.status === 'scheduled' && !!payment.due_date && payment.due_date < asOf;
+};
+
+// Paid, still owed and overdue totals for a set of scheduled payments
+export const summarizePayments = (payments: VendorPayment[], asOf = today()) => {
+  const scheduled = payments.filter(payment => payment.status === 'scheduled');
+  const overdue = scheduled.filter(payment => isPaymentOverdue(payment, asOf));
+  const total = (list: VendorPayment[]) => list.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+
+  return {
+    paid: total(payments.filter(payment => payment.status === 'paid')),
+    owed: total(scheduled),
+    overdue: total(overdue),
+    scheduledCount: scheduled.length,
+    overdueCount: overdue.length
+  };
+};
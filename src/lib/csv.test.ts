@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseDelimited, toDelimited } from './csv';
+
+describe('delimited text', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    expect(toDelimited([['Name', 'Notes'], ['Lee, Jordan', 'Said "yes"\nby phone']])).toBe(
+      'Name,Notes\r\n"Lee, Jordan","Said ""yes""\nby phone"\r\n'
+    );
+  });
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const rows = [['=HYPERLINK("http://example.com","Click")', '+1 555 0100', '-2', '@SUM(A1)', '\tTab', 'Plain']];
+
+    expect(toDelimited(rows)).toBe(
+      `"'=HYPERLINK(""http://example.com"",""Click"")",'+1 555 0100,'-2,'@SUM(A1),'\tTab,Plain\r\n`
+    );
+  });
+
+  it('reads its own exports back unchanged', () => {
+    const rows = [['Name', 'Phone'], ['=cmd|calc', '+1 555 0100'], ["Rock 'n' roll", "'quoted'"]];
+
+    expect(parseDelimited(toDelimited(rows))).toEqual(rows);
+    expect(parseDelimited(toDelimited(rows, '\t'), '\t')).toEqual(rows);
+  });
+
+  it('detects tab-separated files', () => {
+    expect(detectDelimiter('Name\tEmail\nJordan\tj@example.com')).toBe('\t');
+    expect(detectDelimiter('Name,Email')).toBe(',');
+  });
+});
@@ -0,0 +1,83 @@
+export type Delimiter = ',' | '\t';
+
+// Tab-separated if the first line has more tabs than commas
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const tabs = firstLine.split('\t').length - 1;
+  const commas = firstLine.split(',').length - 1;
+  return tabs > commas ? '\t' : ',';
+};
+
+// Spreadsheets run cells starting with these as formulas, so exports put an
+// apostrophe in front; imports take it off again
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const unprotectFormula = (value: string) =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+// RFC 4180 style parsing: quoted fields may contain delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(unprotectFormula(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(unprotectFormula(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(unprotectFormula(field));
+    rows.push(row);
+  }
+
+  // Spreadsheets often leave blank trailing lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const escapeField = (value: string, delimiter: Delimiter) => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /["\r\n]/.test(safe) || safe.includes(delimiter)
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+};
+
+export const toDelimited = (rows: string[][], delimiter: Delimiter = ',') =>
+  rows.map(row => row.map(value => escapeField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+export const downloadFile = (filename: string, content: string, type = 'text/csv;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
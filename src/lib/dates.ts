@@ -0,0 +1,36 @@
+// Date-only values (e.g. `due_date`) come back from Postgres as 'YYYY-MM-DD'.
+// `new Date('YYYY-MM-DD')` parses those as UTC midnight, which shifts the day
+// for anyone west of Greenwich, so they are handled in local time here.
+
+export const toISODate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseISODate = (dateString: string) => {
+  const [year, month, day] = dateString.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const today = () => toISODate(new Date());
+
+export const formatDate = (dateString: string) => {
+  return parseISODate(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+// Timestamps (e.g. `starts_at`) carry their own time zone and are shown in local time
+export const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
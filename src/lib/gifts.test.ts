@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { Gift, Household } from './supabase';
+import { emptyGiftForm, giftGiver, outstandingThankYous, parseGiftForm, summarizeGifts, thankYousToRows } from './gifts';
+import { guest } from '../test/fixtures';
+
+const gift = (changes: Partial<Gift>): Gift => ({
+  id: crypto.randomUUID(),
+  wedding_id: 'wedding',
+  user_id: null,
+  guest_id: null,
+  household_id: null,
+  description: 'Gift',
+  value: null,
+  from_registry: false,
+  received_date: null,
+  thank_you_status: 'not_written',
+  notes: '',
+  created_at: '2026-01-01T00:00:00Z',
+  ...changes
+});
+
+const riveras: Household = {
+  id: 'riveras',
+  wedding_id: 'wedding',
+  user_id: null,
+  name: 'The Riveras',
+  address_line1: '12 Elm St',
+  address_line2: '',
+  city: 'Portland',
+  state: 'OR',
+  postal_code: '97201',
+  country: '',
+  primary_contact_id: 'jamie',
+  rsvp_token: '',
+  created_at: '2026-01-01T00:00:00Z'
+};
+
+const jamie = guest({ id: 'jamie', first_name: 'Jamie', last_name: 'Rivera', email: 'jamie@example.com', household_id: 'riveras' });
+const casey = guest({ id: 'casey', first_name: 'Casey', last_name: 'Rivera', household_id: 'riveras' });
+const sam = guest({ id: 'sam', first_name: 'Sam', last_name: 'Okafor', email: 'sam@example.com' });
+
+describe('gift form', () => {
+  it('needs a description and a giver', () => {
+    const { errors } = parseGiftForm({ ...emptyGiftForm(), value: '-5' });
+
+    expect(errors).toEqual(['Describe the gift', 'Choose who the gift is from', 'Invalid value "-5"']);
+  });
+
+  it('reads the value as an amount', () => {
+    const { gift, errors } = parseGiftForm({ ...emptyGiftForm(), guest_id: 'sam', description: ' Stand mixer ', value: '$1,200.50' });
+
+    expect(errors).toEqual([]);
+    expect(gift).toMatchObject({ guest_id: 'sam', household_id: null, description: 'Stand mixer', value: 1200.5 });
+  });
+});
+
+describe('gift givers', () => {
+  it('names the guest, then the household', () => {
+    expect(giftGiver(gift({ guest_id: 'jamie', household_id: 'riveras' }), [jamie], [riveras])).toBe('Jamie Rivera');
+    expect(giftGiver(gift({ household_id: 'riveras' }), [jamie], [riveras])).toBe('The Riveras');
+    expect(giftGiver(gift({}), [jamie], [riveras])).toBe('Unknown giver');
+  });
+});
+
+describe('gift summary', () => {
+  it('totals values and counts notes still to do', () => {
+    const summary = summarizeGifts([
+      gift({ value: 100, from_registry: true }),
+      gift({ value: 25.5, thank_you_status: 'written' }),
+      gift({ thank_you_status: 'sent' })
+    ]);
+
+    expect(summary).toEqual({ count: 3, totalValue: 125.5, fromRegistry: 1, notWritten: 1, toSend: 1 });
+  });
+});
+
+describe('outstanding thank-you notes', () => {
+  const gifts = [
+    gift({ description: 'Vase', guest_id: 'sam', received_date: '2026-06-10' }),
+    gift({ description: 'Stand mixer', guest_id: 'jamie', household_id: 'riveras', received_date: '2026-06-20' }),
+    gift({ description: 'Towels', guest_id: 'casey', received_date: '2026-06-05', thank_you_status: 'written' }),
+    gift({ description: 'Toaster', guest_id: 'sam', received_date: '2026-06-01', thank_you_status: 'sent' })
+  ];
+
+  it('groups a household\'s gifts into one note, oldest first, leaving out sent notes', () => {
+    const notes = outstandingThankYous(gifts, [jamie, casey, sam], [riveras]);
+
+    expect(notes.map(note => note.name)).toEqual(['The Riveras', 'Sam Okafor']);
+    expect(notes[0].gifts.map(g => g.description)).toEqual(['Stand mixer', 'Towels']);
+    expect(notes[0].received_date).toBe('2026-06-05');
+    expect(notes[1].gifts.map(g => g.description)).toEqual(['Vase']);
+  });
+
+  it('includes mailing details', () => {
+    const [riverasNote, samNote] = outstandingThankYous(gifts, [jamie, casey, sam], [riveras]);
+
+    expect(riverasNote.address).toEqual(['12 Elm St', 'Portland, OR 97201']);
+    expect(riverasNote.email).toBe('jamie@example.com');
+    expect(samNote.address).toEqual([]);
+    expect(samNote.email).toBe('sam@example.com');
+  });
+
+  it('exports a row per note', () => {
+    const rows = thankYousToRows(outstandingThankYous(gifts, [jamie, casey, sam], [riveras]));
+
+    expect(rows[1]).toEqual([
+      'The Riveras', '12 Elm St, Portland, OR 97201', 'jamie@example.com', 'Stand mixer; Towels', '2026-06-05', 'Not written'
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { Gift, Guest, Household, NewGift, ThankYouStatus } from './supabase';
+import { parseAmount } from './budget';
+import { today } from './dates';
+import { formatAddress } from './households';
+import { guestName } from './seating';
+
+export const THANK_YOU_STATUSES: { value: ThankYouStatus; label: string }[] = [
+  { value: 'not_written', label: 'Not written' },
+  { value: 'written', label: 'Written' },
+  { value: 'sent', label: 'Sent' }
+];
+
+export const thankYouStatusLabel = (status: ThankYouStatus) =>
+  THANK_YOU_STATUSES.find(option => option.value === status)?.label ?? status;
+
+export interface GiftForm {
+  guest_id: string;
+  household_id: string;
+  description: string;
+  value: string;
+  from_registry: boolean;
+  received_date: string;
+  thank_you_status: ThankYouStatus;
+  notes: string;
+}
+
+export const emptyGiftForm = (): GiftForm => ({
+  guest_id: '',
+  household_id: '',
+  description: '',
+  value: '',
+  from_registry: false,
+  received_date: today(),
+  thank_you_status: 'not_written',
+  notes: ''
+});
+
+export const giftToForm = (gift: Gift): GiftForm => ({
+  guest_id: gift.guest_id ?? '',
+  household_id: gift.household_id ?? '',
+  description: gift.description,
+  value: gift.value != null ? String(gift.value) : '',
+  from_registry: gift.from_registry,
+  received_date: gift.received_date ?? '',
+  thank_you_status: gift.thank_you_status,
+  notes: gift.notes ?? ''
+});
+
+// The form as gift fields, with everything wrong with it
+export const parseGiftForm = (form: GiftForm) => {
+  const gift: NewGift = {
+    guest_id: form.guest_id || null,
+    household_id: form.household_id || null,
+    description: form.description.trim(),
+    value: parseAmount(form.value),
+    from_registry: form.from_registry,
+    received_date: form.received_date || null,
+    thank_you_status: form.thank_you_status,
+    notes: form.notes.trim()
+  };
+
+  const errors: string[] = [];
+  if (!gift.description) errors.push('Describe the gift');
+  if (!gift.guest_id && !gift.household_id) errors.push('Choose who the gift is from');
+  if (form.value.trim() && !(gift.value !== null && gift.value >= 0)) {
+    errors.push(`Invalid value "${form.value.trim()}"`);
+  }
+
+  return { gift, errors };
+};
+
+// "Jordan Lee", or the household's name for a gift from the whole household
+export const giftGiver = (gift: Gift, guests: Guest[], households: Household[]) => {
+  const guest = gift.guest_id ? guests.find(g => g.id === gift.guest_id) : undefined;
+  if (guest) return guestName(guest);
+
+  const household = gift.household_id ? households.find(h => h.id === gift.household_id) : undefined;
+  return household?.name ?? 'Unknown giver';
+};
+
+export interface GiftSummary {
+  count: number;
+  totalValue: number;
+  fromRegistry: number;
+  notWritten: number;
+  // Written but not yet in the post
+  toSend: number;
+}
+
+export const summarizeGifts = (gifts: Gift[]): GiftSummary => ({
+  count: gifts.length,
+  totalValue: gifts.reduce((sum, gift) => sum + (Number(gift.value) || 0), 0),
+  fromRegistry: gifts.filter(gift => gift.from_registry).length,
+  notWritten: gifts.filter(gift => gift.thank_you_status === 'not_written').length,
+  toSend: gifts.filter(gift => gift.thank_you_status === 'written').length
+});
+
+// One thank-you note, covering everything a guest or household gave that
+// hasn't been thanked for yet
+export interface ThankYouNote {
+  key: string;
+  name: string;
+  guest: Guest | null;
+  household: Household | null;
+  gifts: Gift[];
+  // Mailing address lines; empty when none is on file
+  address: string[];
+  email: string;
+  // The earliest gift's received date, for working oldest first
+  received_date: string | null;
+}
+
+// Notes still to write or send, oldest gift first. Gifts from a household
+// share one note; the address is always the household's.
+export const outstandingThankYous = (gifts: Gift[], guests: Guest[], households: Household[]): ThankYouNote[] => {
+  const guestsById = new Map(guests.map(guest => [guest.id, guest]));
+  const householdsById = new Map(households.map(household => [household.id, household]));
+  const notes = new Map<string, ThankYouNote>();
+
+  gifts
+    .filter(gift => gift.thank_you_status !== 'sent')
+    .forEach(gift => {
+      const guest = (gift.guest_id && guestsById.get(gift.guest_id)) || null;
+      const household = (gift.household_id && householdsById.get(gift.household_id)) ||
+        (guest?.household_id && householdsById.get(guest.household_id)) || null;
+      const key = household ? `household:${household.id}` : guest ? `guest:${guest.id}` : `gift:${gift.id}`;
+
+      const note = notes.get(key);
+      if (note) {
+        note.gifts.push(gift);
+        return;
+      }
+
+      const contact = household?.primary_contact_id ? guestsById.get(household.primary_contact_id) : undefined;
+
+      notes.set(key, {
+        key,
+        name: household?.name ?? (guest ? guestName(guest) : 'Unknown giver'),
+        guest,
+        household,
+        gifts: [gift],
+        address: household ? formatAddress(household) : [],
+        email: (contact?.email || guest?.email) ?? '',
+        received_date: null
+      });
+    });
+
+  return [...notes.values()]
+    .map(note => {
+      const dates = note.gifts.map(gift => gift.received_date).filter((date): date is string => !!date).sort();
+      return { ...note, received_date: dates[0] ?? null };
+    })
+    .sort((a, b) =>
+      a.received_date === b.received_date ? a.name.localeCompare(b.name)
+        : a.received_date == null ? 1
+        : b.received_date == null ? -1
+        : a.received_date.localeCompare(b.received_date)
+    );
+};
+
+// One row per outstanding note, for printing envelopes or a mail merge
+export const thankYousToRows = (notes: ThankYouNote[]) => [
+  ['Name', 'Address', 'Email', 'Gifts', 'Received', 'Note'],
+  ...notes.map(note => [
+    note.name,
+    note.address.join(', '),
+    note.email,
+    note.gifts.map(gift => gift.description).join('; '),
+    note.received_date ?? '',
+    note.gifts.every(gift => gift.thank_you_status === 'written') ? 'Written' : 'Not written'
+  ])
+];
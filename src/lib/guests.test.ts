@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { groupGuestsByHousehold } from './households';
+import { buildGuestImport, emptyGuestForm, filterGuests, guestQueryToSearch, guestSearchPattern, guestSearchTerms, isFiltered, isValidPhone, parseGuestForm, parseGuestQuery, patchGuestPage, relatedGuests, summarizeGuests } from './guests';
+import { Household } from './supabase';
+import { guest } from '../test/fixtures';
+
+describe('guest filters in the address bar', () => {
+  it('round-trips a query', () => {
+    const query = { search: 'lee', rsvp_status: 'pending', group_name: 'Work & Friends', table: 3, dietary: 'any', sort: 'name' as const, descending: true, page: 2 };
+
+    expect(parseGuestQuery(guestQueryToSearch(query))).toEqual(query);
+    expect(parseGuestQuery('?table=none').table).toBe('none');
+  });
+
+  it('leaves defaults and unknown values out', () => {
+    expect(guestQueryToSearch({ sort: 'added', page: 1, search: '  ' })).toBe('');
+    expect(parseGuestQuery('?rsvp=maybe&table=0&sort=age&page=-1&diet=keto')).toEqual({});
+    expect(isFiltered(parseGuestQuery('?sort=-table'))).toBe(false);
+    expect(isFiltered(parseGuestQuery('?table=none'))).toBe(true);
+  });
+
+  it('drops characters with a meaning in server filters from searches', () => {
+    expect(guestSearchTerms(' (555)  Lee,Ann% ')).toEqual(['555', 'leeann']);
+  });
+
+  it('matches underscores literally on the server, as in memory', () => {
+    const [term] = guestSearchTerms('Jo_Lee');
+
+    expect(guestSearchPattern(term)).toBe('"%jo\\\\_lee%"');
+    expect(filterGuests([guest({ email: 'jo_lee@example.com' }), guest({ email: 'jonlee@example.com' })], { search: 'jo_lee' }))
+      .toHaveLength(1);
+  });
+});
+
+describe('groupGuestsByHousehold on part of the list', () => {
+  const households = [{ id: 'h1', name: 'The Lees' }, { id: 'h2', name: 'The Shahs' }] as Household[];
+
+  it('keeps plus-ones whose host is on another page', () => {
+    const groups = groupGuestsByHousehold([guest({ id: 'casey', plus_one_of: 'jamie', household_id: 'h1' })], households, false);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].household?.id).toBe('h1');
+    expect(groups[0].guests.map(g => g.id)).toEqual(['casey']);
+  });
+
+  it('still lists empty households by default', () => {
+    expect(groupGuestsByHousehold([], households).map(group => group.guests.length)).toEqual([0, 0]);
+  });
+});
+
+describe('a page of the guest list', () => {
+  const jamie = guest({ id: 'jamie', last_name: 'Rivera', household_id: 'h1', rsvp_status: 'attending' });
+  const casey = guest({ id: 'casey', plus_one_of: 'jamie', household_id: 'h1' });
+  const sky = guest({ id: 'sky', household_id: 'h1' });
+  const robin = guest({ id: 'robin' });
+  const page = { guests: [casey, robin], related: [jamie, sky], total: 4 };
+
+  it('shows hosts, plus-ones and household members alongside it', () => {
+    expect(relatedGuests([jamie, casey, sky, robin], [jamie]).map(g => g.id)).toEqual(['casey', 'sky']);
+    expect(relatedGuests([jamie, casey, sky, robin], [robin])).toEqual([]);
+  });
+
+  it('takes edits to its guests in place', () => {
+    const patched = patchGuestPage(page, { ...robin, email: 'robin@example.com' }, { sort: 'name' });
+
+    expect(patched?.guests.map(g => g.email)).toEqual(['', 'robin@example.com']);
+    expect(patched?.total).toBe(4);
+  });
+
+  it('is read again when guests may have moved onto, off or around it', () => {
+    expect(patchGuestPage(page, { ...sky, email: 'sky@example.com' }, {})).toBeNull();
+    expect(patchGuestPage(page, { ...robin, rsvp_status: 'declined' }, { rsvp_status: 'pending' })).toBeNull();
+    expect(patchGuestPage(page, { ...robin, last_name: 'Adams' }, { sort: 'name' })).toBeNull();
+    expect(patchGuestPage(page, { ...robin, household_id: 'h1' }, {})).toBeNull();
+    expect(patchGuestPage(page, { ...robin, deleted_at: '2026-06-01T00:00:00Z' }, {})).toBeNull();
+  });
+
+  it('sums up every guest like the server does', () => {
+    const overview = summarizeGuests([
+      { ...jamie, plus_one_allowed: true, group_name: 'Family', table_number: 2, dietary_tags: ['vegan'] },
+      { ...casey, rsvp_status: 'attending', group_name: 'Family', dietary_tags: [] },
+      { ...robin, plus_one_allowed: true, rsvp_status: 'pending', group_name: ' Friends ', dietary_tags: ['kosher', 'vegan'] }
+    ]);
+
+    expect(overview).toEqual({
+      invitations: 2, headcount: 4, openPlusOnes: 1, attending: 2, declined: 0, pending: 1,
+      groupNames: ['Family', 'Friends'], tableNumbers: [2], dietaryTags: ['kosher', 'vegan'], householdsInUse: ['h1']
+    });
+  });
+});
+
+describe('guest form validation', () => {
+  it('accepts common phone formats', () => {
+    ['555-0101', '(555) 010-2030', '+44 20 7946 0958', '555.010.2030 ext. 12'].forEach(phone =>
+      expect(isValidPhone(phone)).toBe(true)
+    );
+    ['call me', '12345', '+1 (555) 010-2030-4040-5050', '555-0101 ext'].forEach(phone =>
+      expect(isValidPhone(phone)).toBe(false)
+    );
+  });
+
+  it('trims the form and lists everything wrong with it', () => {
+    const { guest, errors } = parseGuestForm({
+      ...emptyGuestForm, first_name: ' Jamie ', email: 'jamie@', phone: 'none', rsvp_status: 'maybe', table_number: '0'
+    });
+
+    expect(guest.first_name).toBe('Jamie');
+    expect(guest.table_number).toBeNull();
+    expect(errors).toEqual([
+      'Last name is required',
+      'Invalid email "jamie@"',
+      'Invalid phone number "none"',
+      'Unknown RSVP status "maybe"',
+      'Invalid table number "0"'
+    ]);
+  });
+});
+
+describe('buildGuestImport', () => {
+  it('takes dietary tags from their own column and from the restrictions', () => {
+    const [ok, bad] = buildGuestImport(
+      [['Ana', 'Cruz', 'Vegan; Peanut allergy', 'Shellfish'], ['Ben', 'Hale', 'Keto', '']],
+      ['first_name', 'last_name', 'dietary_tags', 'dietary_restrictions'],
+      []
+    );
+
+    expect(ok.guest.dietary_tags).toEqual(['vegan', 'peanut_allergy', 'shellfish_allergy']);
+    expect(ok.guest.dietary_restrictions).toBe('Shellfish');
+    expect(ok.errors).toEqual([]);
+    expect(bad.errors).toEqual(['Unknown dietary tag "Keto"']);
+  });
+});
@@ -0,0 +1,432 @@
+import { Guest, GuestOverview, GuestQuery, GuestSort, Household, MealOption, NewGuest } from './supabase';
+import { guestName } from './seating';
+import { summarizeInvitations } from './households';
+import { DIETARY_TAGS, dietaryTagsFromText, formatDietaryTags, hasDietaryNeeds, normalizeDietaryTags, parseDietaryTags } from './meals';
+
+export const RSVP_STATUSES = ['pending', 'attending', 'declined'];
+
+export type ImportField =
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'phone'
+  | 'group_name'
+  | 'rsvp_status'
+  | 'table_number'
+  | 'dietary_tags'
+  | 'dietary_restrictions'
+  | 'plus_one_allowed';
+
+// Guest fields a spreadsheet column can map to, with header names we recognise
+export const IMPORT_FIELDS: { key: ImportField; label: string; aliases: string[] }[] = [
+  { key: 'first_name', label: 'First Name', aliases: ['first name', 'first', 'firstname', 'given name'] },
+  { key: 'last_name', label: 'Last Name', aliases: ['last name', 'last', 'lastname', 'surname', 'family name'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'e-mail', 'email address'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'cell'] },
+  { key: 'group_name', label: 'Group', aliases: ['group', 'group name', 'side', 'category'] },
+  { key: 'rsvp_status', label: 'RSVP', aliases: ['rsvp', 'rsvp status', 'status', 'response'] },
+  { key: 'table_number', label: 'Table', aliases: ['table', 'table number', 'table #'] },
+  { key: 'dietary_tags', label: 'Dietary Tags', aliases: ['dietary tags', 'diet tags', 'tags'] },
+  { key: 'dietary_restrictions', label: 'Dietary Restrictions', aliases: ['dietary restrictions', 'dietary', 'diet', 'allergies'] },
+  { key: 'plus_one_allowed', label: 'Plus-One Allowed', aliases: ['plus one', 'plus-one', 'plus one allowed', 'plus-one allowed', '+1'] }
+];
+
+export type ColumnMapping = (ImportField | '')[];
+
+export interface ImportRow {
+  line: number;
+  guest: NewGuest;
+  errors: string[];
+  duplicateOf: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Digits with the usual separators, an optional leading + and an extension
+const PHONE_PATTERN = /^\+?[\d\s().-]+((x|ext\.?)\s*\d+)?$/i;
+const PHONE_EXTENSION = /(x|ext\.?)\s*\d+$/i;
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const nameKey = (firstName: string, lastName: string) => `${normalize(firstName)}|${normalize(lastName)}`;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+// 7 to 15 digits, the most E.164 allows, not counting an extension
+export const isValidPhone = (phone: string) => {
+  const value = phone.trim();
+  const digits = value.replace(PHONE_EXTENSION, '').replace(/\D/g, '');
+  return PHONE_PATTERN.test(value) && digits.length >= 7 && digits.length <= 15;
+};
+
+// Blank contact details are fine; filled-in ones have to look real
+export const contactErrors = (email: string, phone: string) => {
+  const errors: string[] = [];
+  if (email.trim() && !isValidEmail(email)) errors.push(`Invalid email "${email.trim()}"`);
+  if (phone.trim() && !isValidPhone(phone)) errors.push(`Invalid phone number "${phone.trim()}"`);
+  return errors;
+};
+
+// The add and edit forms, as typed
+export interface GuestForm {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  group_name: string;
+  rsvp_status: string;
+  household_id: string;
+  table_number: string;
+  meal_option_id: string;
+  dietary_tags: string[];
+  dietary_restrictions: string;
+  plus_one_allowed: boolean;
+  // Only on the add form; names the plus-one guest added alongside
+  plus_one_name: string;
+}
+
+export const emptyGuestForm: GuestForm = {
+  first_name: '',
+  last_name: '',
+  email: '',
+  phone: '',
+  group_name: '',
+  rsvp_status: 'pending',
+  household_id: '',
+  table_number: '',
+  meal_option_id: '',
+  dietary_tags: [],
+  dietary_restrictions: '',
+  plus_one_allowed: false,
+  plus_one_name: ''
+};
+
+export const guestToForm = (guest: Guest): GuestForm => ({
+  first_name: guest.first_name,
+  last_name: guest.last_name,
+  email: guest.email ?? '',
+  phone: guest.phone ?? '',
+  group_name: guest.group_name ?? '',
+  rsvp_status: guest.rsvp_status,
+  household_id: guest.household_id ?? '',
+  table_number: guest.table_number != null ? String(guest.table_number) : '',
+  meal_option_id: guest.meal_option_id ?? '',
+  dietary_tags: guest.dietary_tags ?? [],
+  dietary_restrictions: guest.dietary_restrictions ?? '',
+  plus_one_allowed: guest.plus_one_allowed,
+  plus_one_name: ''
+});
+
+// The form as guest fields, trimmed, with everything wrong with it
+export const parseGuestForm = (form: GuestForm) => {
+  const table = form.table_number.trim();
+  const tableNumber = table ? Number(table) : null;
+  const validTable = tableNumber === null || (Number.isInteger(tableNumber) && tableNumber > 0);
+
+  const guest: Omit<NewGuest, 'plus_one_of'> = {
+    first_name: form.first_name.trim(),
+    last_name: form.last_name.trim(),
+    email: form.email.trim(),
+    phone: form.phone.trim(),
+    group_name: form.group_name.trim(),
+    rsvp_status: form.rsvp_status,
+    household_id: form.household_id || null,
+    table_number: validTable ? tableNumber : null,
+    meal_option_id: form.meal_option_id || null,
+    dietary_tags: normalizeDietaryTags(form.dietary_tags),
+    dietary_restrictions: form.dietary_restrictions.trim(),
+    plus_one_allowed: form.plus_one_allowed
+  };
+
+  const errors: string[] = [];
+  if (!guest.first_name) errors.push('First name is required');
+  if (!guest.last_name) errors.push('Last name is required');
+  errors.push(...contactErrors(guest.email, guest.phone));
+  if (!RSVP_STATUSES.includes(guest.rsvp_status)) errors.push(`Unknown RSVP status "${guest.rsvp_status}"`);
+  if (!validTable) errors.push(`Invalid table number "${table}"`);
+
+  return { guest, errors };
+};
+
+// Match spreadsheet headers to guest fields, each field used at most once
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+
+  return headers.map(header => {
+    const field = IMPORT_FIELDS.find(f => !used.has(f.key) && f.aliases.includes(normalize(header)));
+    if (!field) return '';
+    used.add(field.key);
+    return field.key;
+  });
+};
+
+// Anything but a blank or an explicit "no" counts, so a column of plus-one names still grants the allowance
+const parseAllowance = (value: string) => !['', 'no', 'n', 'false', '0'].includes(normalize(value));
+
+// Turn mapped spreadsheet rows into guests, flagging bad values and likely duplicates
+export const buildGuestImport = (rows: string[][], mapping: ColumnMapping, existing: Guest[]): ImportRow[] => {
+  const seenNames = new Map<string, string>();
+  const seenEmails = new Map<string, string>();
+
+  existing.forEach(guest => {
+    seenNames.set(nameKey(guest.first_name, guest.last_name), `${guestName(guest)} (already on your list)`);
+    if (guest.email) seenEmails.set(normalize(guest.email), `${guestName(guest)} (already on your list)`);
+  });
+
+  return rows.map((cells, index) => {
+    const line = index + 2; // 1-based, after the header row
+    const value = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column === -1 ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const email = value('email');
+    const phone = value('phone');
+    errors.push(...contactErrors(email, phone));
+
+    const rsvpStatus = normalize(value('rsvp_status')) || 'pending';
+    if (!RSVP_STATUSES.includes(rsvpStatus)) errors.push(`Unknown RSVP status "${value('rsvp_status')}"`);
+
+    const table = value('table_number');
+    const tableNumber = table ? Number(table) : null;
+    const validTable = tableNumber === null || (Number.isInteger(tableNumber) && tableNumber > 0);
+    if (!validTable) errors.push(`Invalid table number "${table}"`);
+
+    // Tags named outright, plus any the restrictions mention
+    const restrictions = value('dietary_restrictions');
+    const { tags, unknown } = parseDietaryTags(value('dietary_tags'));
+    unknown.forEach(tag => errors.push(`Unknown dietary tag "${tag}"`));
+
+    const guest: NewGuest = {
+      first_name: value('first_name'),
+      last_name: value('last_name'),
+      email,
+      phone,
+      group_name: value('group_name'),
+      rsvp_status: rsvpStatus,
+      plus_one_allowed: parseAllowance(value('plus_one_allowed')),
+      plus_one_of: null,
+      household_id: null,
+      table_number: validTable ? tableNumber : null,
+      meal_option_id: null,
+      dietary_tags: normalizeDietaryTags([...tags, ...dietaryTagsFromText(restrictions)]),
+      dietary_restrictions: restrictions
+    };
+
+    if (!guest.first_name) errors.push('First name is required');
+    if (!guest.last_name) errors.push('Last name is required');
+
+    const key = nameKey(guest.first_name, guest.last_name);
+    const duplicateOf =
+      (guest.first_name && seenNames.get(key)) ||
+      (email && seenEmails.get(normalize(email))) ||
+      null;
+
+    const label = `${guest.first_name} ${guest.last_name} (row ${line})`;
+    if (!seenNames.has(key)) seenNames.set(key, label);
+    if (email && !seenEmails.has(normalize(email))) seenEmails.set(normalize(email), label);
+
+    return { line, guest, errors, duplicateOf };
+  });
+};
+
+// Spreadsheet rows for the given guests, header first. Plus-ones are matched
+// to their host among `everyone`, in case the host was filtered out.
+export const guestsToRows = (guests: Guest[], households: Household[], mealOptions: MealOption[], everyone = guests) => {
+  const householdsById = new Map(households.map(household => [household.id, household]));
+  const guestsById = new Map(everyone.map(guest => [guest.id, guest]));
+  const mealNames = new Map(mealOptions.map(option => [option.id, option.name]));
+
+  return [
+    ['First Name', 'Last Name', 'Email', 'Phone', 'Group', 'RSVP', 'Table', 'Meal', 'Dietary Tags', 'Dietary Restrictions', 'Household', 'Plus-One Allowed', 'Plus-One Of'],
+    ...guests.map(guest => {
+      const host = guest.plus_one_of ? guestsById.get(guest.plus_one_of) : undefined;
+
+      return [
+        guest.first_name,
+        guest.last_name,
+        guest.email ?? '',
+        guest.phone ?? '',
+        guest.group_name ?? '',
+        guest.rsvp_status,
+        guest.table_number != null ? String(guest.table_number) : '',
+        (guest.meal_option_id && mealNames.get(guest.meal_option_id)) || '',
+        formatDietaryTags(guest.dietary_tags ?? []),
+        guest.dietary_restrictions ?? '',
+        guest.household_id ? householdsById.get(guest.household_id)?.name ?? '' : '',
+        guest.plus_one_allowed ? 'Yes' : 'No',
+        host ? guestName(host) : ''
+      ];
+    })
+  ];
+};
+
+export const GUEST_PAGE_SIZE = 25;
+
+const SEARCH_FIELDS = ['first_name', 'last_name', 'email', 'phone'] as const;
+
+// Sort columns, each falling back to the order guests were added
+const SORT_KEYS: Record<GuestSort, (keyof Guest)[]> = {
+  name: ['last_name', 'first_name'],
+  group: ['group_name'],
+  rsvp: ['rsvp_status'],
+  table: ['table_number'],
+  added: []
+};
+
+// Lowercased words to look for. Characters PostgREST filters give a meaning
+// to (separators, quotes and wildcards) are dropped so both backends agree.
+export const guestSearchTerms = (search = '') =>
+  search.toLowerCase().replace(/[,()"\\%*]/g, '').split(/\s+/).filter(Boolean);
+
+// A quoted PostgREST ilike value finding the term anywhere. `_` would match any
+// character there, so it is escaped to match only itself, as it does in memory.
+export const guestSearchPattern = (term: string) => `"%${term.replace(/_/g, '\\\\_')}%"`;
+
+export const isFiltered = (query: GuestQuery) =>
+  !!(query.search?.trim() || query.rsvp_status || query.group_name || query.table != null || query.dietary);
+
+const matchesDietary = (guest: Guest, dietary: string) => {
+  if (dietary === 'any') return hasDietaryNeeds(guest);
+  if (dietary === 'none') return !hasDietaryNeeds(guest);
+  return (guest.dietary_tags ?? []).includes(dietary);
+};
+
+export const matchesGuestQuery = (guest: Guest, query: GuestQuery) =>
+  guestSearchTerms(query.search).every(term =>
+    SEARCH_FIELDS.some(field => (guest[field] ?? '').toLowerCase().includes(term))
+  ) &&
+  (!query.rsvp_status || guest.rsvp_status === query.rsvp_status) &&
+  (!query.group_name || guest.group_name === query.group_name) &&
+  (query.table == null || (query.table === 'none' ? guest.table_number == null : guest.table_number === query.table)) &&
+  (!query.dietary || matchesDietary(guest, query.dietary));
+
+// Guests without a table go last either way, as the server sorts them
+const compareGuests = (sort: GuestSort, descending: boolean) => (a: Guest, b: Guest) => {
+  for (const key of SORT_KEYS[sort]) {
+    const x = a[key];
+    const y = b[key];
+    if (x === y) continue;
+    if (x == null) return 1;
+    if (y == null) return -1;
+    const order = typeof x === 'string' ? x.localeCompare(y as string) : x < y ? -1 : 1;
+    if (order !== 0) return descending ? -order : order;
+  }
+  return sort === 'added' && descending
+    ? b.created_at.localeCompare(a.created_at)
+    : a.created_at.localeCompare(b.created_at);
+};
+
+// Every guest matching the query, sorted, ignoring the page
+export const filterGuests = (guests: Guest[], query: GuestQuery) =>
+  guests
+    .filter(guest => matchesGuestQuery(guest, query))
+    .sort(compareGuests(query.sort ?? 'added', !!query.descending));
+
+// The requested page of matches, for backends that filter in memory
+export const queryGuests = (guests: Guest[], query: GuestQuery) => {
+  const matches = filterGuests(guests, query);
+  if (!query.page) return matches;
+
+  const size = query.pageSize ?? GUEST_PAGE_SIZE;
+  return matches.slice((query.page - 1) * size, query.page * size);
+};
+
+// One page of the list, with the guests shown alongside it
+export interface GuestPage {
+  guests: Guest[];
+  // Hosts, plus-ones and household members of the page's guests
+  related: Guest[];
+  // How many guests match across all pages
+  total: number;
+}
+
+// The guests shown alongside a page of them, out of everyone
+export const relatedGuests = (everyone: Guest[], guests: Guest[]) => {
+  const ids = new Set(guests.map(guest => guest.id));
+  const hostIds = new Set(guests.map(guest => guest.plus_one_of));
+  const householdIds = new Set(guests.map(guest => guest.household_id));
+
+  return everyone.filter(guest => !ids.has(guest.id) && (
+    hostIds.has(guest.id) ||
+    (guest.plus_one_of != null && ids.has(guest.plus_one_of)) ||
+    (guest.household_id != null && householdIds.has(guest.household_id))
+  ));
+};
+
+// Swaps a changed guest into the page, or returns null when the page has to
+// be read again because guests may have moved onto, off or around it
+export const patchGuestPage = (page: GuestPage, changed: Guest, query: GuestQuery): GuestPage | null => {
+  const current = page.guests.find(guest => guest.id === changed.id);
+  if (!current || changed.deleted_at || !matchesGuestQuery(changed, query)) return null;
+
+  const moved = SORT_KEYS[query.sort ?? 'added'].some(key => changed[key] !== current[key]);
+  const regrouped = changed.household_id !== current.household_id || changed.plus_one_of !== current.plus_one_of;
+  if (moved || regrouped) return null;
+
+  return { ...page, guests: page.guests.map(guest => guest.id === changed.id ? changed : guest) };
+};
+
+// The overview guest_list_overview() reads on the server, for guests already loaded
+export const summarizeGuests = (guests: Guest[]): GuestOverview => ({
+  ...summarizeInvitations(guests),
+  groupNames: [...new Set(guests.map(guest => guest.group_name?.trim()).filter(Boolean))].sort(),
+  tableNumbers: [...new Set(guests.flatMap(guest => guest.table_number != null ? [guest.table_number] : []))].sort((a, b) => a - b),
+  dietaryTags: [...new Set(guests.flatMap(guest => guest.dietary_tags ?? []))].sort(),
+  householdsInUse: [...new Set(guests.flatMap(guest => guest.household_id ? [guest.household_id] : []))]
+});
+
+const SORTS: GuestSort[] = ['name', 'group', 'rsvp', 'table', 'added'];
+
+// Guest filters as address bar parameters, e.g. ?q=lee&rsvp=pending&sort=-name&page=2
+export const parseGuestQuery = (search: string): GuestQuery => {
+  const params = new URLSearchParams(search);
+  const query: GuestQuery = {};
+
+  const text = params.get('q');
+  if (text) query.search = text;
+
+  const rsvp = params.get('rsvp');
+  if (rsvp && RSVP_STATUSES.includes(rsvp)) query.rsvp_status = rsvp;
+
+  const group = params.get('group');
+  if (group) query.group_name = group;
+
+  const table = params.get('table');
+  if (table === 'none') query.table = 'none';
+  else if (table && Number.isInteger(Number(table)) && Number(table) > 0) query.table = Number(table);
+
+  const dietary = params.get('diet');
+  if (dietary && ['any', 'none', ...DIETARY_TAGS.map(tag => tag.value)].includes(dietary)) query.dietary = dietary;
+
+  const sort = params.get('sort') ?? '';
+  const sortKey = sort.replace(/^-/, '') as GuestSort;
+  if (SORTS.includes(sortKey)) {
+    query.sort = sortKey;
+    if (sort.startsWith('-')) query.descending = true;
+  }
+
+  const page = Number(params.get('page'));
+  if (Number.isInteger(page) && page > 1) query.page = page;
+
+  return query;
+};
+
+// '' when nothing is set; the first page and the default order are left out
+export const guestQueryToSearch = (query: GuestQuery) => {
+  const params = new URLSearchParams();
+
+  if (query.search?.trim()) params.set('q', query.search.trim());
+  if (query.rsvp_status) params.set('rsvp', query.rsvp_status);
+  if (query.group_name) params.set('group', query.group_name);
+  if (query.table != null) params.set('table', String(query.table));
+  if (query.dietary) params.set('diet', query.dietary);
+  if (query.sort && (query.sort !== 'added' || query.descending)) {
+    params.set('sort', `${query.descending ? '-' : ''}${query.sort}`);
+  }
+  if (query.page && query.page > 1) params.set('page', String(query.page));
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
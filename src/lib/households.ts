@@ -0,0 +1,116 @@
+import { Guest, Household, NewGuest } from './supabase';
+
+export interface InvitationGroup {
+  household: Household | null;
+  guests: Guest[];
+}
+
+export interface InvitationSummary {
+  invitations: number;
+  headcount: number;
+  openPlusOnes: number;
+  attending: number;
+  declined: number;
+  pending: number;
+}
+
+export const emptyAddress = {
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  country: ''
+};
+
+// Mailing address as display lines, skipping blank parts
+export const formatAddress = (household: Household) => {
+  const cityLine = [
+    household.city,
+    [household.state, household.postal_code].filter(Boolean).join(' ')
+  ].filter(Boolean).join(', ');
+
+  return [household.address_line1, household.address_line2, cityLine, household.country]
+    .filter(Boolean);
+};
+
+// "Jamie Lee Doe" -> first "Jamie", last "Lee Doe"
+export const splitName = (fullName: string) => {
+  const [firstName = '', ...rest] = fullName.trim().split(/\s+/);
+  return { first_name: firstName, last_name: rest.join(' ') };
+};
+
+export const findPlusOne = (guests: Guest[], guest: Guest) =>
+  guests.find(g => g.plus_one_of === guest.id) ?? null;
+
+// A plus-one shares their guest's invitation, group and table, and is only
+// counted as attending once their guest is
+export const plusOneFor = (
+  host: Pick<Guest, 'id' | 'group_name' | 'rsvp_status' | 'household_id' | 'table_number'>,
+  fullName: string
+): NewGuest => ({
+  ...splitName(fullName),
+  email: '',
+  phone: '',
+  group_name: host.group_name,
+  rsvp_status: host.rsvp_status === 'attending' ? 'attending' : 'pending',
+  plus_one_allowed: false,
+  plus_one_of: host.id,
+  household_id: host.household_id,
+  table_number: host.table_number,
+  meal_option_id: null,
+  dietary_tags: [],
+  dietary_restrictions: ''
+});
+
+// Invited guests each followed by their plus-one
+const withPlusOnes = (invitees: Guest[], guests: Guest[]) =>
+  invitees.flatMap(guest => {
+    const plusOne = findPlusOne(guests, guest);
+    return plusOne ? [guest, plusOne] : [guest];
+  });
+
+// One group per household, then guests invited on their own. Given part of
+// the list, plus-ones whose host isn't in it stand on their own, and
+// households with none of the guests can be left out.
+export const groupGuestsByHousehold = (guests: Guest[], households: Household[], includeEmpty = true): InvitationGroup[] => {
+  const guestIds = new Set(guests.map(guest => guest.id));
+  const invitees = guests.filter(guest => !guest.plus_one_of || !guestIds.has(guest.plus_one_of));
+  const householdIds = new Set(households.map(household => household.id));
+
+  const groups: InvitationGroup[] = households
+    .map(household => ({
+      household,
+      guests: withPlusOnes(invitees.filter(guest => guest.household_id === household.id), guests)
+    }))
+    .filter(group => includeEmpty || group.guests.length > 0);
+
+  const unassigned = invitees.filter(guest => !guest.household_id || !householdIds.has(guest.household_id));
+  if (unassigned.length > 0) {
+    groups.push({ household: null, guests: withPlusOnes(unassigned, guests) });
+  }
+
+  return groups;
+};
+
+// Invitations sent vs. people invited, counting plus-ones nobody has named yet.
+// Deleting a household clears it from its guests, so every household id counts.
+export const summarizeInvitations = (guests: Guest[]): InvitationSummary => {
+  const invitees = guests.filter(guest => !guest.plus_one_of);
+
+  const usedHouseholds = new Set(invitees.flatMap(guest => guest.household_id ? [guest.household_id] : []));
+  const standalone = invitees.filter(guest => !guest.household_id);
+
+  const openPlusOnes = invitees.filter(guest =>
+    guest.plus_one_allowed && guest.rsvp_status !== 'declined' && !findPlusOne(guests, guest)
+  ).length;
+
+  return {
+    invitations: usedHouseholds.size + standalone.length,
+    headcount: guests.length + openPlusOnes,
+    openPlusOnes,
+    attending: guests.filter(guest => guest.rsvp_status === 'attending').length,
+    declined: guests.filter(guest => guest.rsvp_status === 'declined').length,
+    pending: guests.filter(guest => guest.rsvp_status === 'pending').length
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, buildWeddingCalendar, CalendarSource } from './ical';
+
+const now = new Date('2026-05-01T12:00:00Z');
+
+// Unfolded lines, so assertions don't depend on where long lines wrap
+const lines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+const source: CalendarSource = {
+  wedding: { id: 'w1', couple_names: 'Alex & Sam', wedding_date: '2026-09-12' },
+  tasks: [
+    { id: 't1', task_name: 'Book the venue', phase: '12 months before', due_date: '2026-01-31', completed: true, notes: 'Ask about parking' },
+    { id: 't2', task_name: 'Write vows', phase: '1 month before', due_date: null, completed: false }
+  ],
+  vendors: [{ id: 'v1', name: 'Lens & Light' }],
+  payments: [
+    { id: 'p1', vendor_id: 'v1', kind: 'deposit', amount: '500', due_date: '2026-03-01', status: 'paid' },
+    { id: 'p2', vendor_id: 'trashed', kind: 'final', amount: 900, due_date: '2026-08-01', status: 'pending' }
+  ],
+  appointments: [
+    { id: 'a1', vendor_id: 'v1', title: 'Engagement shoot', starts_at: '2026-04-04T17:00:00Z', ends_at: null, location: 'Rose Garden' }
+  ]
+};
+
+describe('calendar export', () => {
+  it('writes all-day and timed events', () => {
+    const calendar = buildWeddingCalendar(source, now);
+    const all = lines(calendar);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(all).toContain('X-WR-CALNAME:Alex & Sam Wedding');
+    expect(all).toContain('DTSTART;VALUE=DATE:20260912');
+    expect(all).toContain('DTEND;VALUE=DATE:20260913');
+    expect(all).toContain('SUMMARY:✓ Book the venue');
+    expect(all).toContain('DESCRIPTION:Checklist: 12 months before\\nAsk about parking');
+    expect(all).toContain('DTSTART:20260404T170000Z');
+    expect(all).toContain('DTEND:20260404T180000Z');
+    expect(all.filter(line => line.startsWith('DTSTAMP:'))).toEqual(Array(4).fill('DTSTAMP:20260501T120000Z'));
+  });
+
+  it('keeps UIDs stable and leaves out undated tasks and trashed vendors', () => {
+    const uids = lines(buildWeddingCalendar(source, now)).filter(line => line.startsWith('UID:'));
+
+    expect(uids).toEqual([
+      'UID:wedding-w1@adorist-wedding-planner',
+      'UID:task-t1@adorist-wedding-planner',
+      'UID:payment-p1@adorist-wedding-planner',
+      'UID:appointment-a1@adorist-wedding-planner'
+    ]);
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    const summary = 'Cake tasting; bring notes, ask about 🎂 '.repeat(3);
+    const calendar = buildCalendar('Test', [{ uid: 'x', summary, start: '2026-09-12', allDay: true }], now);
+
+    expect(lines(calendar)).toContain(`SUMMARY:${'Cake tasting\\; bring notes\\, ask about 🎂 '.repeat(3)}`);
+    calendar.split('\r\n').forEach(line => {
+      const octets = new TextEncoder().encode(line);
+      expect(octets.length).toBeLessThanOrEqual(75);
+      // A split emoji would leave a lone surrogate that doesn't survive UTF-8
+      expect(new TextDecoder().decode(octets)).toBe(line);
+    });
+  });
+});
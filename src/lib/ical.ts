@@ -0,0 +1,3 @@
+// The builder lives with the edge functions so the in-app download and the
+// `calendar-feed` function produce identical calendars.
+export * from '../../supabase/functions/_shared/ical';
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MealOption, SeatingTable } from './supabase';
+import { buildCateringReport, cateringToRows, dietaryTagsFromText, parseDietaryTags } from './meals';
+import { guest } from '../test/fixtures';
+
+const meal = (id: string, name: string): MealOption => ({
+  id, wedding_id: 'wedding', user_id: null, name, description: '', created_at: '2026-01-01T00:00:00Z'
+});
+
+const table = (table_number: number, name: string): SeatingTable => ({
+  id: crypto.randomUUID(), wedding_id: 'wedding', user_id: null, table_number, name, capacity: 8, shape: 'round',
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+describe('dietary tags', () => {
+  it('finds tags in free text without mistaking one allergy for another', () => {
+    expect(dietaryTagsFromText('Vegan, nut allergy')).toEqual(['vegan', 'tree_nut_allergy']);
+    expect(dietaryTagsFromText('Peanuts and shellfish')).toEqual(['peanut_allergy', 'shellfish_allergy']);
+    expect(dietaryTagsFromText('Loves eggplant')).toEqual([]);
+  });
+
+  it('reads a list of tag names and reports the ones it does not know', () => {
+    expect(parseDietaryTags('Gluten-free; Peanut allergy, keto')).toEqual({
+      tags: ['gluten_free', 'peanut_allergy'],
+      unknown: ['keto']
+    });
+  });
+});
+
+describe('buildCateringReport', () => {
+  const chicken = meal('chicken', 'Chicken');
+  const risotto = meal('risotto', 'Risotto');
+
+  it('counts meals, tags and dietary needs by table for attending guests only', () => {
+    const report = buildCateringReport([
+      guest({ first_name: 'Ana', meal_option_id: 'chicken', table_number: 2, dietary_tags: ['vegetarian', 'sesame_allergy'] }),
+      guest({ first_name: 'Ben', meal_option_id: 'chicken', table_number: 1 }),
+      guest({ first_name: 'Cleo', table_number: null, dietary_restrictions: 'No mushrooms' }),
+      guest({ first_name: 'Dev', rsvp_status: 'declined', meal_option_id: 'risotto', dietary_tags: ['vegan'] })
+    ], [chicken, risotto], [table(2, 'Family')]);
+
+    expect(report.headcount).toBe(3);
+    expect(report.meals.map(m => [m.option?.name ?? null, m.count])).toEqual([['Chicken', 2], ['Risotto', 0], [null, 1]]);
+    expect(report.tags.map(t => [t.tag.value, t.count])).toEqual([['sesame_allergy', 1], ['vegetarian', 1]]);
+    expect(report.tables.map(t => [t.label, t.guests.map(g => g.first_name)])).toEqual([
+      ['Family', ['Ana']],
+      ['No table yet', ['Cleo']]
+    ]);
+  });
+
+  it('writes one row per attending guest by table', () => {
+    const rows = cateringToRows([
+      guest({ first_name: 'Cleo', last_name: 'Hale', meal_option_id: 'risotto' }),
+      guest({ first_name: 'Ana', last_name: 'Cruz', table_number: 3, meal_option_id: 'chicken', dietary_tags: ['peanut_allergy', 'halal'] })
+    ], [chicken, risotto], []);
+
+    expect(rows).toEqual([
+      ['Table', 'Guest', 'Meal', 'Dietary', 'Allergies', 'Notes'],
+      ['Table 3', 'Ana Cruz', 'Chicken', 'Halal', 'Peanut allergy', ''],
+      ['', 'Cleo Hale', 'Risotto', '', '', '']
+    ]);
+  });
+});
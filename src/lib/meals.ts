@@ -0,0 +1,150 @@
+import { Guest, MealOption, SeatingTable } from './supabase';
+import { guestName, tableLabel } from './seating';
+
+export interface DietaryTag {
+  value: string;
+  label: string;
+  allergy: boolean;
+  // Words in free text that mean this tag, for imports and older guests
+  keywords: RegExp;
+}
+
+// Kept in step with guests_dietary_tags_check and the backfill in 20261019192748_add_meal_selection.sql
+export const DIETARY_TAGS: DietaryTag[] = [
+  { value: 'vegetarian', label: 'Vegetarian', allergy: false, keywords: /vegetarian|veggie/i },
+  { value: 'vegan', label: 'Vegan', allergy: false, keywords: /vegan/i },
+  { value: 'pescatarian', label: 'Pescatarian', allergy: false, keywords: /pesc[ae]tarian/i },
+  { value: 'gluten_free', label: 'Gluten-free', allergy: false, keywords: /gluten|coeliac|celiac/i },
+  { value: 'dairy_free', label: 'Dairy-free', allergy: false, keywords: /dairy|lactose/i },
+  { value: 'kosher', label: 'Kosher', allergy: false, keywords: /kosher/i },
+  { value: 'halal', label: 'Halal', allergy: false, keywords: /halal/i },
+  { value: 'peanut_allergy', label: 'Peanut allergy', allergy: true, keywords: /peanut/i },
+  { value: 'tree_nut_allergy', label: 'Tree nut allergy', allergy: true, keywords: /tree nut|\bnuts?\b|almond|cashew|walnut|pecan|hazelnut|pistachio/i },
+  { value: 'shellfish_allergy', label: 'Shellfish allergy', allergy: true, keywords: /shellfish|shrimp|prawn|crab|lobster/i },
+  { value: 'fish_allergy', label: 'Fish allergy', allergy: true, keywords: /\bfish\b/i },
+  { value: 'egg_allergy', label: 'Egg allergy', allergy: true, keywords: /\beggs?\b/i },
+  { value: 'soy_allergy', label: 'Soy allergy', allergy: true, keywords: /\bsoy|\bsoya\b/i },
+  { value: 'sesame_allergy', label: 'Sesame allergy', allergy: true, keywords: /sesame/i }
+];
+
+const tagsByValue = new Map(DIETARY_TAGS.map(tag => [tag.value, tag]));
+
+export const dietaryTagLabel = (value: string) => tagsByValue.get(value)?.label ?? value;
+
+export const isAllergy = (value: string) => !!tagsByValue.get(value)?.allergy;
+
+// Known tags only, each once, in list order
+export const normalizeDietaryTags = (values: string[]) =>
+  DIETARY_TAGS.filter(tag => values.includes(tag.value)).map(tag => tag.value);
+
+// The tags free text mentions, e.g. "Vegan, nut allergy"
+export const dietaryTagsFromText = (text: string) =>
+  DIETARY_TAGS.filter(tag => tag.keywords.test(text)).map(tag => tag.value);
+
+// "Vegan; Peanut allergy" back into tags; parts that name no tag come back as unknown
+export const parseDietaryTags = (text: string) => {
+  const tags: string[] = [];
+  const unknown: string[] = [];
+
+  text.split(/[,;]/).map(part => part.trim()).filter(Boolean).forEach(part => {
+    const exact = DIETARY_TAGS.find(tag => tag.label.toLowerCase() === part.toLowerCase() || tag.value === part.toLowerCase());
+    const found = exact ? [exact.value] : dietaryTagsFromText(part);
+    if (found.length === 0) unknown.push(part);
+    tags.push(...found);
+  });
+
+  return { tags: normalizeDietaryTags(tags), unknown };
+};
+
+export const formatDietaryTags = (values: string[]) => normalizeDietaryTags(values).map(dietaryTagLabel).join('; ');
+
+export const hasDietaryNeeds = (guest: Guest) =>
+  (guest.dietary_tags ?? []).length > 0 || !!guest.dietary_restrictions?.trim();
+
+export interface MealCount {
+  // null for attending guests who haven't chosen
+  option: MealOption | null;
+  count: number;
+}
+
+export interface TableDietaryNeeds {
+  table_number: number | null;
+  label: string;
+  guests: Guest[];
+}
+
+export interface CateringReport {
+  headcount: number;
+  meals: MealCount[];
+  // How many attending guests have each tag, allergies first
+  tags: { tag: DietaryTag; count: number }[];
+  // Attending guests with any dietary needs, by table; unseated guests last
+  tables: TableDietaryNeeds[];
+}
+
+// Plus-ones are guest rows of their own, so everyone attending is counted once
+export const buildCateringReport = (guests: Guest[], options: MealOption[], tables: SeatingTable[]): CateringReport => {
+  const attending = guests.filter(guest => guest.rsvp_status === 'attending');
+  const optionIds = new Set(options.map(option => option.id));
+  const unchosen = attending.filter(guest => !guest.meal_option_id || !optionIds.has(guest.meal_option_id)).length;
+
+  const meals: MealCount[] = options.map(option => ({
+    option,
+    count: attending.filter(guest => guest.meal_option_id === option.id).length
+  }));
+  if (unchosen > 0) meals.push({ option: null, count: unchosen });
+
+  const tags = [...DIETARY_TAGS]
+    .sort((a, b) => Number(b.allergy) - Number(a.allergy))
+    .map(tag => ({ tag, count: attending.filter(guest => (guest.dietary_tags ?? []).includes(tag.value)).length }))
+    .filter(({ count }) => count > 0);
+
+  const tablesByNumber = new Map(tables.map(table => [table.table_number, table]));
+  const withNeeds = attending.filter(hasDietaryNeeds);
+  const numbers = [...new Set(withNeeds.map(guest => guest.table_number))]
+    .sort((a, b) => a == null ? 1 : b == null ? -1 : a - b);
+
+  return {
+    headcount: attending.length,
+    meals,
+    tags,
+    tables: numbers.map(number => {
+      const table = number != null ? tablesByNumber.get(number) : undefined;
+      return {
+        table_number: number,
+        label: number == null ? 'No table yet' : table ? tableLabel(table) : `Table ${number}`,
+        guests: withNeeds
+          .filter(guest => guest.table_number === number)
+          .sort((a, b) => guestName(a).localeCompare(guestName(b)))
+      };
+    })
+  };
+};
+
+// One row per attending guest, by table, for the caterer's spreadsheet
+export const cateringToRows = (guests: Guest[], options: MealOption[], tables: SeatingTable[]) => {
+  const optionNames = new Map(options.map(option => [option.id, option.name]));
+  const tablesByNumber = new Map(tables.map(table => [table.table_number, table]));
+  const attending = guests
+    .filter(guest => guest.rsvp_status === 'attending')
+    .sort((a, b) =>
+      (a.table_number ?? Infinity) - (b.table_number ?? Infinity) || guestName(a).localeCompare(guestName(b))
+    );
+
+  return [
+    ['Table', 'Guest', 'Meal', 'Dietary', 'Allergies', 'Notes'],
+    ...attending.map(guest => {
+      const tags = normalizeDietaryTags(guest.dietary_tags ?? []);
+      const table = guest.table_number != null ? tablesByNumber.get(guest.table_number) : undefined;
+
+      return [
+        guest.table_number == null ? '' : table ? tableLabel(table) : `Table ${guest.table_number}`,
+        guestName(guest),
+        (guest.meal_option_id && optionNames.get(guest.meal_option_id)) || '',
+        tags.filter(tag => !isAllergy(tag)).map(dietaryTagLabel).join('; '),
+        tags.filter(isAllergy).map(dietaryTagLabel).join('; '),
+        guest.dietary_restrictions ?? ''
+      ];
+    })
+  ];
+};
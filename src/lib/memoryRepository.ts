@@ -0,0 +1,654 @@
+import {
+  AuditEntry, BudgetCategory, Gift, Guest, GuestBulkFailure, GuestQuery, Household, MealOption, NewBudgetCategory, NewGift, NewGuest,
+  NewHousehold, NewMealOption, NewSeatingRule, NewSeatingTable, NewTask, NewTimelineEvent, NewVendor, NewVendorAppointment,
+  NewVendorPayment, Profile, SeatingRule, SeatingTable, Task, TimelineEvent, TimelineEventVendor, TrashTable, Vendor,
+  VendorAppointment, VendorPayment, Wedding, WeddingRole
+} from './supabase';
+import { AuthUser, Repository, RowHandlers, orderBy } from './repository';
+import { filterGuests, queryGuests, relatedGuests, summarizeGuests } from './guests';
+
+// Runs the planner with no network: everything lives in this module's memory
+// and is gone on reload. Changes are reported to subscribers the way Supabase
+// realtime reports them, including to the tab that made them.
+
+interface MemoryUser extends AuthUser {
+  email: string;
+  password: string;
+}
+
+export interface MemorySeed {
+  users?: MemoryUser[];
+  profiles?: Profile[];
+  weddings?: Wedding[];
+  members?: { wedding_id: string; user_id: string; role: WeddingRole; created_at: string }[];
+  tasks?: Task[];
+  vendors?: Vendor[];
+  guests?: Guest[];
+  vendorPayments?: VendorPayment[];
+  vendorAppointments?: VendorAppointment[];
+  households?: Household[];
+  timelineEvents?: TimelineEvent[];
+  timelineEventVendors?: TimelineEventVendor[];
+  seatingTables?: SeatingTable[];
+  seatingRules?: SeatingRule[];
+  mealOptions?: MealOption[];
+  gifts?: Gift[];
+  budgetCategories?: BudgetCategory[];
+  // Starts signed in as this user
+  signedInUserId?: string;
+}
+
+type MemoryTable =
+  | 'tasks' | 'vendors' | 'guests' | 'vendor_payments' | 'vendor_appointments' | 'households'
+  | 'timeline_events' | 'seating_tables' | 'seating_rules' | 'meal_options' | 'gifts' | 'budget_categories';
+
+// Only tasks, vendors and guests have a trash
+type MemoryRow = { id: string; wedding_id: string; deleted_at?: string | null };
+
+// The foreign keys between the tables, and what deleting the row they point at does
+const FOREIGN_KEYS: { table: MemoryTable | 'timeline_event_vendors'; column: string; references: MemoryTable; onDelete: 'cascade' | 'set null' }[] = [
+  { table: 'guests', column: 'plus_one_of', references: 'guests', onDelete: 'cascade' },
+  { table: 'guests', column: 'household_id', references: 'households', onDelete: 'set null' },
+  { table: 'guests', column: 'meal_option_id', references: 'meal_options', onDelete: 'set null' },
+  { table: 'vendors', column: 'category_id', references: 'budget_categories', onDelete: 'set null' },
+  { table: 'vendor_payments', column: 'vendor_id', references: 'vendors', onDelete: 'cascade' },
+  { table: 'vendor_appointments', column: 'vendor_id', references: 'vendors', onDelete: 'cascade' },
+  { table: 'households', column: 'primary_contact_id', references: 'guests', onDelete: 'set null' },
+  { table: 'timeline_event_vendors', column: 'event_id', references: 'timeline_events', onDelete: 'cascade' },
+  { table: 'timeline_event_vendors', column: 'vendor_id', references: 'vendors', onDelete: 'cascade' },
+  { table: 'seating_rules', column: 'guest_id', references: 'guests', onDelete: 'cascade' },
+  { table: 'seating_rules', column: 'other_guest_id', references: 'guests', onDelete: 'cascade' },
+  { table: 'gifts', column: 'guest_id', references: 'guests', onDelete: 'set null' },
+  { table: 'gifts', column: 'household_id', references: 'households', onDelete: 'set null' }
+];
+
+const now = () => new Date().toISOString();
+
+export const createMemoryRepository = (seed: MemorySeed = {}): Repository => {
+  const users = [...(seed.users ?? [])];
+  const profiles = [...(seed.profiles ?? [])];
+  const weddings = [...(seed.weddings ?? [])];
+  const members = [...(seed.members ?? [])];
+  const rows: Record<MemoryTable, MemoryRow[]> = {
+    tasks: [...(seed.tasks ?? [])],
+    vendors: [...(seed.vendors ?? [])],
+    guests: [...(seed.guests ?? [])],
+    vendor_payments: [...(seed.vendorPayments ?? [])],
+    vendor_appointments: [...(seed.vendorAppointments ?? [])],
+    households: [...(seed.households ?? [])],
+    timeline_events: [...(seed.timelineEvents ?? [])],
+    seating_tables: [...(seed.seatingTables ?? [])],
+    seating_rules: [...(seed.seatingRules ?? [])],
+    meal_options: [...(seed.mealOptions ?? [])],
+    gifts: [...(seed.gifts ?? [])],
+    budget_categories: [...(seed.budgetCategories ?? [])]
+  };
+  // Links have no id of their own, so they are kept apart
+  const eventVendors = [...(seed.timelineEventVendors ?? [])];
+
+  let signedIn = users.find(user => user.id === seed.signedInUserId) ?? null;
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  const auditLog: AuditEntry[] = [];
+  const rowListeners = new Set<{ table: string; weddingId: string; handlers: RowHandlers<object> }>();
+
+  const publicUser = (user: MemoryUser | null): AuthUser | null => user && { id: user.id, email: user.email };
+
+  const setSignedIn = (user: MemoryUser | null) => {
+    signedIn = user;
+    authListeners.forEach(listener => listener(publicUser(user)));
+  };
+
+  const requireUser = () => {
+    if (!signedIn) throw new Error('Not authenticated');
+    return signedIn;
+  };
+
+  // Listeners run after the write returns, like realtime events arriving later;
+  // removes carry only the primary key
+  const emit = (table: MemoryTable | 'timeline_event_vendors', row: MemoryRow | TimelineEventVendor, event: 'upsert' | 'remove' = 'upsert') => {
+    const key = 'id' in row ? { id: row.id } : { event_id: row.event_id, vendor_id: row.vendor_id };
+    const copy = event === 'upsert' ? { ...row } : key;
+    queueMicrotask(() => rowListeners.forEach(({ table: t, weddingId, handlers }) => {
+      if (t === table && weddingId === row.wedding_id) handlers[event](copy);
+    }));
+  };
+
+  const find = (table: MemoryTable, weddingId: string, id: string) => {
+    const row = rows[table].find(r => r.id === id && r.wedding_id === weddingId);
+    if (!row) throw new Error('Record not found');
+    return row;
+  };
+
+  const insert = <T>(table: MemoryTable, weddingId: string, values: object, defaults: object) => {
+    const user = requireUser();
+    const row = {
+      ...defaults,
+      ...values,
+      id: crypto.randomUUID(),
+      wedding_id: weddingId,
+      user_id: user.id,
+      updated_by: null,
+      updated_by_admin: false,
+      updated_at: null,
+      deleted_at: null,
+      created_at: now()
+    };
+    rows[table].push(row);
+    emit(table, row);
+    return { ...row } as unknown as T;
+  };
+
+  const update = (table: MemoryTable, weddingId: string, id: string, changes: object) => {
+    const user = requireUser();
+    const row = find(table, weddingId, id);
+    Object.assign(row, changes, { id, wedding_id: weddingId, updated_by: user.id, updated_by_admin: false, updated_at: now() });
+    emit(table, row);
+  };
+
+  // Mirrors record_audit_log(): updates keep only the columns that changed, other
+  // than the change stamps, and are skipped when nothing else changed
+  const log = (table: TrashTable, action: AuditEntry['action'], before: MemoryRow | null, after: MemoryRow | null) => {
+    const row = (after ?? before) as MemoryRow & Record<string, unknown>;
+    let oldValues = before as Record<string, unknown> | null;
+    let newValues = after as Record<string, unknown> | null;
+
+    if (oldValues && newValues) {
+      const old = oldValues, changed = newValues;
+      const keys = Object.keys(changed).filter(key =>
+        !['updated_by', 'updated_by_admin', 'updated_at'].includes(key) &&
+        JSON.stringify(old[key] ?? null) !== JSON.stringify(changed[key] ?? null));
+      if (!keys.length) return;
+
+      oldValues = Object.fromEntries(keys.map(key => [key, old[key] ?? null]));
+      newValues = Object.fromEntries(keys.map(key => [key, changed[key] ?? null]));
+    }
+
+    const actor = signedIn && profiles.find(profile => profile.id === signedIn!.id);
+    auditLog.push({
+      id: crypto.randomUUID(),
+      wedding_id: row.wedding_id,
+      table_name: table,
+      row_id: row.id,
+      row_label: (row.task_name ?? row.name ?? [row.first_name, row.last_name].filter(Boolean).join(' ')) as string,
+      action,
+      actor_id: signedIn?.id ?? null,
+      actor_name: actor ? actor.couple_names || actor.email : null,
+      actor_is_admin: false,
+      old_values: oldValues,
+      new_values: newValues,
+      created_at: now()
+    });
+  };
+
+  // Logs an edit the user made; what follows from it, like plus-ones going to
+  // the trash with their guest, isn't logged, as the trigger skips it too
+  const logChange = (table: TrashTable, weddingId: string, id: string, change: () => void) => {
+    const before = { ...find(table, weddingId, id) };
+    change();
+    log(table, 'update', before, { ...find(table, weddingId, id) });
+  };
+
+  const unlink = (link: TimelineEventVendor) => {
+    eventVendors.splice(eventVendors.indexOf(link), 1);
+    emit('timeline_event_vendors', link, 'remove');
+  };
+
+  // Deletes for good and does what the foreign keys do: rows that belong to it
+  // go too, and rows that only point at it are left pointing at nothing
+  const destroy = (table: MemoryTable, row: MemoryRow) => {
+    rows[table].splice(rows[table].indexOf(row), 1);
+    emit(table, row, 'remove');
+
+    FOREIGN_KEYS.filter(key => key.references === table).forEach(({ table: from, column, onDelete }) => {
+      if (from === 'timeline_event_vendors') {
+        eventVendors.filter(link => link[column as keyof TimelineEventVendor] === row.id).forEach(unlink);
+        return;
+      }
+
+      rows[from]
+        .filter(r => (r as Record<string, unknown>)[column] === row.id)
+        .forEach(r => {
+          if (onDelete === 'cascade') {
+            destroy(from, r);
+          } else if (from === 'tasks' || from === 'vendors' || from === 'guests') {
+            update(from, r.wedding_id, r.id, { [column]: null });
+          } else {
+            Object.assign(r, { [column]: null });
+            emit(from, r);
+          }
+        });
+    });
+  };
+
+  const list = <T>(table: MemoryTable, weddingId: string, sort: (a: T, b: T) => number) =>
+    (rows[table].filter(row => row.wedding_id === weddingId && !row.deleted_at) as unknown as T[])
+      .map(row => ({ ...row }))
+      .sort(sort);
+
+  const records = <T, New>(table: TrashTable, sort: (a: T, b: T) => number, defaults: (weddingId: string, record: New) => object) => ({
+    async list(weddingId: string) {
+      return list<T>(table, weddingId, sort);
+    },
+
+    async add(weddingId: string, record: New) {
+      const row = insert<T>(table, weddingId, record as object, defaults(weddingId, record));
+      log(table, 'insert', null, row as unknown as MemoryRow);
+      return row;
+    },
+
+    async update(weddingId: string, id: string, changes: Partial<T>) {
+      logChange(table, weddingId, id, () => update(table, weddingId, id, changes));
+    },
+
+    async remove(weddingId: string, id: string) {
+      logChange(table, weddingId, id, () => update(table, weddingId, id, { deleted_at: now() }));
+    }
+  });
+
+  // For tables without a trash or change stamps, whose deletes are for good
+  const plainRecords = <T, New>(table: MemoryTable, sort: (a: T, b: T) => number, defaults: (weddingId: string, record: New) => object = () => ({})) => ({
+    async list(weddingId: string) {
+      return list<T>(table, weddingId, sort);
+    },
+
+    async add(weddingId: string, record: New) {
+      const user = requireUser();
+      const row = { ...defaults(weddingId, record), ...record, id: crypto.randomUUID(), wedding_id: weddingId, user_id: user.id, created_at: now() };
+      rows[table].push(row);
+      emit(table, row);
+      return { ...row } as unknown as T;
+    },
+
+    async update(weddingId: string, id: string, changes: Partial<T>) {
+      requireUser();
+      const row = find(table, weddingId, id);
+      Object.assign(row, changes, { id, wedding_id: weddingId });
+      emit(table, row);
+    },
+
+    async remove(weddingId: string, id: string) {
+      requireUser();
+      destroy(table, find(table, weddingId, id));
+    }
+  });
+
+  const trashGuest = (weddingId: string, id: string, deletedAt: string) => {
+    logChange('guests', weddingId, id, () => (rows.guests as unknown as Guest[])
+      .filter(guest => guest.id === id || (guest.plus_one_of === id && !guest.deleted_at))
+      .forEach(guest => update('guests', weddingId, guest.id, { deleted_at: deletedAt })));
+  };
+
+  // Plus-ones that went to the trash with their guest come back with them, as
+  // sync_plus_one_deleted_at() does
+  const restoreGuest = (weddingId: string, id: string) => {
+    const deletedAt = find('guests', weddingId, id).deleted_at;
+    logChange('guests', weddingId, id, () => (rows.guests as unknown as Guest[])
+      .filter(guest => guest.id === id || (guest.plus_one_of === id && guest.deleted_at === deletedAt))
+      .forEach(guest => update('guests', weddingId, guest.id, { deleted_at: null })));
+  };
+
+
+  const guests = records<Guest, NewGuest>('guests', orderBy<Guest>('created_at'), () => ({
+    plus_one: '',
+    rsvp_token: crypto.randomUUID(),
+    rsvp_responded_at: null
+  }));
+
+  const seatingTables = plainRecords<SeatingTable, NewSeatingTable>('seating_tables', orderBy<SeatingTable>('table_number'));
+
+  // Mirrors the unique (wedding_id, table_number) constraint
+  const checkTableNumber = (weddingId: string, tableNumber: number, id?: string) => {
+    const taken = (rows.seating_tables as unknown as SeatingTable[])
+      .some(table => table.wedding_id === weddingId && table.table_number === tableNumber && table.id !== id);
+    if (taken) throw new Error('duplicate key value violates unique constraint "seating_tables_wedding_id_table_number_key"');
+  };
+
+  const gifts = plainRecords<Gift, NewGift>('gifts', orderBy<Gift>('received_date', 'created_at'));
+
+  // Mirrors check_gift_giver(): a guest's gift is filed under their household, or none
+  const fileUnderGiver = <T extends Partial<Gift>>(gift: T, current?: Gift): T => {
+    const guestId = gift.guest_id !== undefined ? gift.guest_id : current?.guest_id;
+    const guest = (rows.guests as unknown as Guest[]).find(g => g.id === guestId);
+    if (!guest) return gift;
+
+    const newGiver = !current || guestId !== current.guest_id;
+    const given = gift.household_id !== undefined ? gift.household_id : current?.household_id ?? null;
+    const householdId = newGiver ? given ?? guest.household_id : given;
+    if (householdId && householdId !== guest.household_id && (newGiver || householdId !== current?.household_id)) {
+      throw new Error("That guest isn't in that household");
+    }
+
+    return { ...gift, household_id: householdId };
+  };
+
+  return {
+    kind: 'memory',
+
+    auth: {
+      async signUp(email, password) {
+        if (users.some(user => user.email === email)) throw new Error('User already registered');
+
+        const user = { id: crypto.randomUUID(), email, password };
+        users.push(user);
+        setSignedIn(user);
+        return publicUser(user);
+      },
+
+      async signIn(email, password) {
+        const user = users.find(u => u.email === email && u.password === password);
+        if (!user) throw new Error('Invalid login credentials');
+
+        setSignedIn(user);
+        return publicUser(user)!;
+      },
+
+      async signOut() {
+        setSignedIn(null);
+      },
+
+      async resetPassword() {
+        // There is no mail to send
+      },
+
+      async getCurrentUser() {
+        return publicUser(signedIn);
+      },
+
+      async getSessionUserId() {
+        return signedIn?.id ?? null;
+      },
+
+      onAuthStateChange(callback) {
+        authListeners.add(callback);
+        return () => {
+          authListeners.delete(callback);
+        };
+      }
+    },
+
+    profiles: {
+      async get(userId) {
+        const profile = profiles.find(p => p.id === userId);
+        if (!profile) throw new Error('Profile not found');
+        return { ...profile };
+      },
+
+      async create(profile) {
+        profiles.push({ ...profile, is_admin: false, created_at: now() });
+      }
+    },
+
+    weddings: {
+      async getMemberships(userId) {
+        return members
+          .filter(member => member.user_id === userId)
+          .sort(orderBy('created_at'))
+          .map(member => ({
+            role: member.role,
+            wedding: { ...weddings.find(wedding => wedding.id === member.wedding_id)! }
+          }));
+      },
+
+      // Checklist templates and default budget categories live in the database,
+      // so the checklist and budget start empty
+      async create(coupleNames, weddingDate) {
+        const user = requireUser();
+        const wedding: Wedding = {
+          id: crypto.randomUUID(),
+          couple_names: coupleNames,
+          wedding_date: weddingDate || null,
+          total_budget: null,
+          template_id: null,
+          template_synced_at: null,
+          calendar_token: crypto.randomUUID(),
+          created_by: user.id,
+          created_at: now()
+        };
+        weddings.push(wedding);
+        members.push({ wedding_id: wedding.id, user_id: user.id, role: 'owner', created_at: now() });
+        return wedding.id;
+      },
+
+      // Task due dates don't follow the wedding date here; the database computes them
+      async update(weddingId, changes) {
+        requireUser();
+        const wedding = weddings.find(w => w.id === weddingId);
+        if (!wedding) throw new Error('Wedding not found');
+        Object.assign(wedding, changes, { id: weddingId });
+      }
+    },
+
+    tasks: {
+      ...records<Task, NewTask>('tasks', orderBy<Task>('position', 'created_at'), (weddingId, task) => ({
+        completed: false,
+        due_date: null,
+        due_date_overridden: false,
+        // The end of its phase
+        position: (rows.tasks as unknown as Task[])
+          .filter(t => t.wedding_id === weddingId && t.phase === task.phase)
+          .reduce((max, t) => Math.max(max, t.position + 1), 0),
+        template_task_id: null
+      })),
+
+      async reorder(phase, taskIds) {
+        const tasks = rows.tasks as unknown as Task[];
+        taskIds.forEach((id, position) => {
+          const task = tasks.find(t => t.id === id);
+          if (task) logChange('tasks', task.wedding_id, id, () => update('tasks', task.wedding_id, id, { phase, position }));
+        });
+      }
+    },
+
+    vendors: records<Vendor, NewVendor>('vendors', orderBy<Vendor>('created_at'), () => ({ cost: '' })),
+
+    guests: {
+      ...guests,
+
+      async list(weddingId, query?: GuestQuery) {
+        const all = await guests.list(weddingId);
+        return query ? queryGuests(all, query) : all;
+      },
+
+      async count(weddingId, query: GuestQuery = {}) {
+        return filterGuests(await guests.list(weddingId), query).length;
+      },
+
+      async overview(weddingId) {
+        return summarizeGuests(await guests.list(weddingId));
+      },
+
+      async related(weddingId, page) {
+        return relatedGuests(await guests.list(weddingId), page);
+      },
+
+      async addMany(weddingId, newGuests) {
+        return Promise.all(newGuests.map(guest => guests.add(weddingId, guest)));
+      },
+
+      // Plus-ones go to the trash with their guest, as the database trigger does
+      async remove(weddingId, id) {
+        trashGuest(weddingId, id, now());
+      },
+
+      // Mirrors update_guests(): one failure per guest that isn't in the wedding's list
+      async updateMany(weddingId, ids, changes) {
+        const failures: GuestBulkFailure[] = [];
+
+        ids.forEach(id => {
+          const guest = (rows.guests as unknown as Guest[]).find(g => g.id === id && g.wedding_id === weddingId);
+
+          if (!guest || guest.deleted_at) {
+            // Unless it is a plus-one that followed its guest into the trash
+            if (!(guest && changes.deleted_at)) failures.push({ id, message: "Guest not found, or you can't edit it" });
+          } else if (changes.deleted_at) {
+            trashGuest(weddingId, id, changes.deleted_at);
+          } else {
+            logChange('guests', weddingId, id, () => update('guests', weddingId, id, changes));
+          }
+        });
+
+        return failures;
+      }
+    },
+
+    vendorPayments: plainRecords<VendorPayment, NewVendorPayment>('vendor_payments', orderBy<VendorPayment>('due_date', 'created_at')),
+
+    vendorAppointments: plainRecords<VendorAppointment, NewVendorAppointment>('vendor_appointments', orderBy<VendorAppointment>('starts_at')),
+
+    households: plainRecords<Household, NewHousehold>('households', orderBy<Household>('name'), () => ({ rsvp_token: crypto.randomUUID() })),
+
+    timeline: {
+      ...plainRecords<TimelineEvent, NewTimelineEvent>('timeline_events', orderBy<TimelineEvent>('start_time')),
+
+      async vendors(weddingId) {
+        return eventVendors.filter(link => link.wedding_id === weddingId).map(link => ({ ...link }));
+      },
+
+      async setVendors(weddingId, eventId, vendorIds) {
+        const user = requireUser();
+        eventVendors.filter(link => link.wedding_id === weddingId && link.event_id === eventId).forEach(unlink);
+        vendorIds.forEach(vendorId => {
+          const link = { event_id: eventId, vendor_id: vendorId, wedding_id: weddingId, user_id: user.id, created_at: now() };
+          eventVendors.push(link);
+          emit('timeline_event_vendors', link);
+        });
+      }
+    },
+
+    seatingTables: {
+      ...seatingTables,
+
+      async add(weddingId, table) {
+        checkTableNumber(weddingId, table.table_number);
+        return seatingTables.add(weddingId, table);
+      },
+
+      async update(weddingId, id, changes) {
+        if (changes.table_number !== undefined) checkTableNumber(weddingId, changes.table_number, id);
+        await seatingTables.update(weddingId, id, changes);
+      }
+    },
+
+    seatingRules: plainRecords<SeatingRule, NewSeatingRule>('seating_rules', orderBy<SeatingRule>('created_at')),
+
+    mealOptions: plainRecords<MealOption, NewMealOption>('meal_options', orderBy<MealOption>('created_at')),
+
+    gifts: {
+      ...gifts,
+
+      async add(weddingId, gift) {
+        return gifts.add(weddingId, fileUnderGiver(gift));
+      },
+
+      async update(weddingId, id, changes) {
+        await gifts.update(weddingId, id, fileUnderGiver(changes, find('gifts', weddingId, id) as unknown as Gift));
+      }
+    },
+
+    budgetCategories: plainRecords<BudgetCategory, NewBudgetCategory>('budget_categories', orderBy<BudgetCategory>('created_at')),
+
+    trash: {
+      async list(weddingId) {
+        const trashed = <T>(table: TrashTable) => (rows[table]
+          .filter(row => row.wedding_id === weddingId && row.deleted_at) as unknown as T[])
+          .map(row => ({ ...row }))
+          .sort((a, b) => orderBy<MemoryRow>('deleted_at')(b as MemoryRow, a as MemoryRow));
+
+        return { tasks: trashed<Task>('tasks'), vendors: trashed<Vendor>('vendors'), guests: trashed<Guest>('guests') };
+      },
+
+      async restore(weddingId, table, id) {
+        requireUser();
+        if (table === 'guests') {
+          restoreGuest(weddingId, id);
+        } else {
+          logChange(table, weddingId, id, () => update(table, weddingId, id, { deleted_at: null }));
+        }
+      },
+
+      async purge(weddingId, table, id) {
+        requireUser();
+        const row = find(table, weddingId, id);
+        destroy(table, row);
+        log(table, 'delete', { ...row }, null);
+      }
+    },
+
+    activity: {
+      async list(weddingId, limit) {
+        return auditLog
+          .filter(entry => entry.wedding_id === weddingId)
+          .reverse()
+          .slice(0, limit)
+          .map(entry => ({ ...entry }));
+      }
+    },
+
+    subscriptions: {
+      subscribe<T extends object>(table: string, weddingId: string, handlers: RowHandlers<T>) {
+        // Listeners only get rows from the table they subscribed to, so those rows are Ts
+        const listener = {
+          table,
+          weddingId,
+          handlers: {
+            upsert: (row: object) => handlers.upsert(row as T),
+            remove: (key: object) => handlers.remove(key as Partial<T>),
+            reload: handlers.reload
+          }
+        };
+        rowListeners.add(listener);
+        return () => {
+          rowListeners.delete(listener);
+        };
+      }
+    }
+  };
+};
+
+// A signed-in couple with a few of everything, for demos
+export const demoSeed = (): MemorySeed => {
+  const userId = crypto.randomUUID();
+  const weddingId = crypto.randomUUID();
+  const created = now();
+  const stamp = { wedding_id: weddingId, user_id: userId, updated_by: null, updated_by_admin: false, updated_at: null, deleted_at: null, created_at: created };
+
+  const task = (task_name: string, phase: string, position: number, completed = false): Task => ({
+    ...stamp, id: crypto.randomUUID(), task_name, phase, position, completed,
+    due_date: null, due_date_overridden: false, notes: '', template_task_id: null
+  });
+
+  const vendor = (name: string, type: string, estimated_cost: number): Vendor => ({
+    ...stamp, id: crypto.randomUUID(), name, type, email: '', phone: '', cost: '',
+    estimated_cost, actual_cost: null, category_id: null, notes: ''
+  });
+
+  const guest = (first_name: string, last_name: string, group_name: string, rsvp_status: string): Guest => ({
+    ...stamp, id: crypto.randomUUID(), first_name, last_name, email: '', phone: '', group_name, rsvp_status,
+    plus_one: '', plus_one_allowed: false, plus_one_of: null, household_id: null, table_number: null,
+    meal_option_id: null, dietary_tags: [], dietary_restrictions: '', rsvp_token: crypto.randomUUID(), rsvp_responded_at: null
+  });
+
+  return {
+    users: [{ id: userId, email: 'demo@example.com', password: 'demo-password' }],
+    profiles: [{ id: userId, couple_names: 'Alex & Sam', email: 'demo@example.com', is_admin: false, created_at: created }],
+    weddings: [{
+      id: weddingId, couple_names: 'Alex & Sam', wedding_date: null, total_budget: 25000, template_id: null,
+      template_synced_at: null, calendar_token: crypto.randomUUID(), created_by: userId, created_at: created
+    }],
+    members: [{ wedding_id: weddingId, user_id: userId, role: 'owner', created_at: created }],
+    tasks: [
+      task('Set a budget', '12+ Months Before', 0, true),
+      task('Book the venue', '12+ Months Before', 1),
+      task('Send save-the-dates', '8-12 Months Before', 0)
+    ],
+    vendors: [
+      vendor('Rosewood Hall', 'Venue', 12000),
+      vendor('Petal & Stem', 'Florist', 2500)
+    ],
+    guests: [
+      guest('Jordan', 'Lee', 'Family', 'attending'),
+      guest('Priya', 'Shah', 'Friends', 'pending')
+    ],
+    signedInUserId: userId
+  };
+};
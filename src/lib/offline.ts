@@ -0,0 +1,263 @@
+// Tasks, vendors and guests are kept in IndexedDB so the planner still works
+// without a connection. Changes made offline wait in a queue, are applied to
+// the cached rows straight away, and are replayed in order by
+// `syncFunctions.sync()` once the connection is back.
+
+export type OfflineTable = 'tasks' | 'vendors' | 'guests';
+
+type Row = { id: string } & Record<string, unknown>;
+
+export interface QueuedMutation {
+  seq?: number; // queue order, assigned by IndexedDB
+  weddingId: string;
+  table: OfflineTable;
+  op: 'insert' | 'update';
+  recordId: string;
+  // What is sent to Supabase
+  values: Record<string, unknown>;
+  // The changed fields as they were before, to spot the same fields changed elsewhere meanwhile
+  base: Record<string, unknown>;
+  // Inserts only: the full row shown until the server's copy arrives
+  row?: Row;
+  label: string;
+  queuedAt: string;
+}
+
+export interface ConflictField {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface SyncConflict {
+  id: string;
+  mutation: QueuedMutation;
+  // Fields someone else changed while this device was offline; their value was kept
+  fields: ConflictField[];
+  // Set instead when the change could not be saved at all
+  message?: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+const DB_NAME = 'adorist-offline';
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const cacheKey = (weddingId: string, table: OfflineTable) => `${weddingId}:${table}`;
+
+// supabase-js reports a dropped connection as a "TypeError: Failed to fetch"
+// style error with status 0 rather than throwing
+export const isNetworkError = (err: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = err && typeof err === 'object' && 'message' in err ? String(err.message) : '';
+  return /^(TypeError|FetchError)\b|Failed to fetch|NetworkError|Load failed/.test(message);
+};
+
+// The same names the audit log uses
+export const recordLabel = (table: OfflineTable, row: Record<string, unknown>) => {
+  if (table === 'tasks') return String(row.task_name ?? '');
+  if (table === 'vendors') return String(row.name ?? '');
+  return [row.first_name, row.last_name].filter(Boolean).join(' ');
+};
+
+export const applyMutation = <T extends { id: string }>(rows: T[], mutation: QueuedMutation): T[] => {
+  if (mutation.op === 'insert') {
+    if (!mutation.row || rows.some(row => row.id === mutation.recordId)) return rows;
+    return [...rows, mutation.row as unknown as T];
+  }
+  return rows.map(row => row.id === mutation.recordId ? { ...row, ...mutation.values } : row);
+};
+
+// Splits a queued update against the server's current row: fields nobody else
+// touched are applied, fields changed on both sides keep the server's value
+export const mergeUpdate = (server: Record<string, unknown>, mutation: QueuedMutation) => {
+  const apply: Record<string, unknown> = {};
+  const conflicts: ConflictField[] = [];
+
+  Object.entries(mutation.values).forEach(([field, mine]) => {
+    const theirs = server[field];
+    if (sameValue(theirs, mine)) return;
+    if (sameValue(theirs, mutation.base[field])) {
+      apply[field] = mine;
+    } else {
+      conflicts.push({ field, mine, theirs });
+    }
+  });
+
+  return { apply, conflicts };
+};
+
+// Postgres hands back numerics and timestamps in its own formats
+const sameValue = (a: unknown, b: unknown) => {
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  const time = (value: unknown) => typeof value === 'string' && /^\d{4}-\d\d-\d\dT/.test(value) ? Date.parse(value) : NaN;
+  if (!isNaN(time(a)) && !isNaN(time(b))) return time(a) === time(b);
+  return a === b;
+};
+
+// Cached rows
+export const offlineCache = {
+  async rows<T extends { id: string }>(table: OfflineTable, weddingId: string) {
+    const db = await openDb();
+    const rows = await requestResult(db.transaction(CACHE_STORE).objectStore(CACHE_STORE).get(cacheKey(weddingId, table)));
+    return (rows ?? []) as T[];
+  },
+
+  async row<T extends { id: string }>(table: OfflineTable, weddingId: string, id: string) {
+    const rows = await this.rows<T>(table, weddingId);
+    return rows.find(row => row.id === id) ?? null;
+  },
+
+  // Applies a realtime change to the cached rows
+  async update<T extends { id: string }>(table: OfflineTable, weddingId: string, change: (rows: T[]) => T[]) {
+    const db = await openDb();
+    const tx = db.transaction(CACHE_STORE, 'readwrite');
+    const cache = tx.objectStore(CACHE_STORE);
+    const key = cacheKey(weddingId, table);
+
+    const rows = await requestResult(cache.get(key)) as T[] | undefined;
+    if (rows) cache.put(change(rows), key);
+    await transactionDone(tx);
+  },
+
+  // Stores fresh rows from the server with any changes still waiting in the
+  // queue applied on top, and returns what should be shown
+  async refresh<T extends { id: string }>(table: OfflineTable, weddingId: string, serverRows: T[]) {
+    const queued = (await offlineQueue.all()).filter(m => m.table === table && m.weddingId === weddingId);
+    const rows = queued.reduce((current, mutation) => applyMutation(current, mutation), serverRows);
+
+    const db = await openDb();
+    const tx = db.transaction(CACHE_STORE, 'readwrite');
+    tx.objectStore(CACHE_STORE).put(rows, cacheKey(weddingId, table));
+    await transactionDone(tx);
+
+    return rows;
+  }
+};
+
+// Changes waiting to be sent
+export const offlineQueue = {
+  async all() {
+    const db = await openDb();
+    return await requestResult(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll()) as QueuedMutation[];
+  },
+
+  async count() {
+    const db = await openDb();
+    return await requestResult(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).count());
+  },
+
+  // Queues the change and applies it to the cached rows in one go
+  async add(mutation: QueuedMutation) {
+    const db = await openDb();
+    const tx = db.transaction([QUEUE_STORE, CACHE_STORE], 'readwrite');
+    const cache = tx.objectStore(CACHE_STORE);
+    const key = cacheKey(mutation.weddingId, mutation.table);
+
+    tx.objectStore(QUEUE_STORE).add(mutation);
+    const rows = await requestResult(cache.get(key)) as Row[] | undefined;
+    cache.put(applyMutation(rows ?? [], mutation), key);
+    await transactionDone(tx);
+
+    updateSyncState({ pending: await this.count() });
+    notifyCacheChange(mutation.table);
+  },
+
+  async remove(seq: number) {
+    const db = await openDb();
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    tx.objectStore(QUEUE_STORE).delete(seq);
+    await transactionDone(tx);
+
+    updateSyncState({ pending: await this.count() });
+  }
+};
+
+// On sign out, so the next person on this device neither sees the rows nor
+// sends the changes
+export const clearOfflineData = async () => {
+  const db = await openDb();
+  const tx = db.transaction([QUEUE_STORE, CACHE_STORE], 'readwrite');
+  tx.objectStore(QUEUE_STORE).clear();
+  tx.objectStore(CACHE_STORE).clear();
+  await transactionDone(tx);
+
+  updateSyncState({ pending: 0, conflicts: [] });
+};
+
+// Sync status shown in the header
+let syncState: SyncState = {
+  online: navigator.onLine,
+  syncing: false,
+  pending: 0,
+  conflicts: [],
+  lastSyncedAt: null
+};
+
+const syncListeners = new Set<(state: SyncState) => void>();
+
+export const getSyncState = () => syncState;
+
+export const updateSyncState = (changes: Partial<SyncState>) => {
+  syncState = { ...syncState, ...changes };
+  syncListeners.forEach(listener => listener(syncState));
+};
+
+export const subscribeSyncState = (listener: (state: SyncState) => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+// Local changes, so lists update while realtime is unreachable
+const cacheListeners = new Map<OfflineTable, Set<() => void>>();
+
+export const onCacheChange = (table: OfflineTable, listener: () => void) => {
+  const listeners = cacheListeners.get(table) ?? new Set();
+  listeners.add(listener);
+  cacheListeners.set(table, listeners);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifyCacheChange = (table: OfflineTable) => {
+  cacheListeners.get(table)?.forEach(listener => listener());
+};
@@ -0,0 +1,143 @@
+import {
+  AuditEntry, BudgetCategory, Gift, Guest, GuestBulkChanges, GuestBulkFailure, GuestOverview, GuestQuery, Household, MealOption,
+  NewBudgetCategory, NewGift, NewGuest, NewHousehold, NewMealOption, NewSeatingRule, NewSeatingTable, NewTask, NewTimelineEvent,
+  NewVendor, NewVendorAppointment, NewVendorPayment, Profile, SeatingRule, SeatingTable, Task, TimelineEvent, TimelineEventVendor,
+  Trash, TrashTable, Vendor, VendorAppointment, VendorPayment, Wedding, WeddingMembership
+} from './supabase';
+
+// The data access behind dbFunctions, authFunctions and subscriptions for the
+// core of the planner. Supabase is the real backend; the in-memory one
+// (./memoryRepository) runs the app for demos and tests with no network.
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthRepository {
+  signUp(email: string, password: string): Promise<AuthUser | null>;
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  resetPassword(email: string): Promise<void>;
+  getCurrentUser(): Promise<AuthUser | null>;
+  // From the stored session, without asking the server; works offline
+  getSessionUserId(): Promise<string | null>;
+  onAuthStateChange(callback: (user: AuthUser | null) => void): () => void;
+}
+
+export interface ProfileRepository {
+  get(userId: string): Promise<Profile>;
+  create(profile: Pick<Profile, 'id' | 'couple_names' | 'email'>): Promise<void>;
+}
+
+export interface WeddingRepository {
+  getMemberships(userId: string): Promise<WeddingMembership[]>;
+  // Returns the new wedding's id; the creator becomes its owner
+  create(coupleNames: string, weddingDate?: string, templateId?: string): Promise<string>;
+  update(weddingId: string, changes: Partial<Wedding>): Promise<void>;
+}
+
+// The records of one wedding
+export interface RecordRepository<T, New> {
+  list(weddingId: string): Promise<T[]>;
+  add(weddingId: string, record: New): Promise<T>;
+  update(weddingId: string, id: string, changes: Partial<T>): Promise<void>;
+  // Tasks, vendors and guests move to the trash; other records are deleted
+  remove(weddingId: string, id: string): Promise<void>;
+}
+
+export interface TaskRepository extends RecordRepository<Task, NewTask> {
+  // Moves the tasks into the phase in this order
+  reorder(phase: string, taskIds: string[]): Promise<void>;
+}
+
+export interface GuestRepository extends RecordRepository<Guest, NewGuest> {
+  // Every guest, or with a query the matching page
+  list(weddingId: string, query?: GuestQuery): Promise<Guest[]>;
+  // How many guests match, across all pages
+  count(weddingId: string, query?: GuestQuery): Promise<number>;
+  // RSVP counts and filter choices across every guest
+  overview(weddingId: string): Promise<GuestOverview>;
+  // The hosts, plus-ones and household members of these guests
+  related(weddingId: string, guests: Guest[]): Promise<Guest[]>;
+  addMany(weddingId: string, guests: NewGuest[]): Promise<Guest[]>;
+  // Saves each guest separately and reports the ones that failed
+  updateMany(weddingId: string, ids: string[], changes: GuestBulkChanges): Promise<GuestBulkFailure[]>;
+}
+
+export interface TimelineRepository extends RecordRepository<TimelineEvent, NewTimelineEvent> {
+  // Which vendors work which events
+  vendors(weddingId: string): Promise<TimelineEventVendor[]>;
+  // Replaces the vendors assigned to an event
+  setVendors(weddingId: string, eventId: string, vendorIds: string[]): Promise<void>;
+}
+
+export interface TrashRepository {
+  // Tasks, vendors and guests in the trash, most recently deleted first
+  list(weddingId: string): Promise<Trash>;
+  restore(weddingId: string, table: TrashTable, id: string): Promise<void>;
+  // Deletes for good; there is no undo
+  purge(weddingId: string, table: TrashTable, id: string): Promise<void>;
+}
+
+export interface ActivityRepository {
+  // The latest changes to the wedding's tasks, vendors and guests, newest first
+  list(weddingId: string, limit: number): Promise<AuditEntry[]>;
+}
+
+export interface RowHandlers<T> {
+  upsert: (row: T) => void;
+  // Deletes only carry the primary key
+  remove: (key: Partial<T>) => void;
+  // Changes the backend made without an event, e.g. ones queued offline
+  reload?: () => void;
+}
+
+export interface SubscriptionRepository {
+  // Reports inserts, updates and deletes on one wedding's rows; returns an unsubscribe
+  subscribe<T extends object>(table: string, weddingId: string, handlers: RowHandlers<T>): () => void;
+}
+
+export interface Repository {
+  kind: 'supabase' | 'memory';
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  weddings: WeddingRepository;
+  tasks: TaskRepository;
+  vendors: RecordRepository<Vendor, NewVendor>;
+  guests: GuestRepository;
+  vendorPayments: RecordRepository<VendorPayment, NewVendorPayment>;
+  vendorAppointments: RecordRepository<VendorAppointment, NewVendorAppointment>;
+  households: RecordRepository<Household, NewHousehold>;
+  timeline: TimelineRepository;
+  seatingTables: RecordRepository<SeatingTable, NewSeatingTable>;
+  seatingRules: RecordRepository<SeatingRule, NewSeatingRule>;
+  mealOptions: RecordRepository<MealOption, NewMealOption>;
+  gifts: RecordRepository<Gift, NewGift>;
+  budgetCategories: RecordRepository<BudgetCategory, NewBudgetCategory>;
+  trash: TrashRepository;
+  activity: ActivityRepository;
+  subscriptions: SubscriptionRepository;
+}
+
+let active: Repository | null = null;
+
+export const setRepository = (next: Repository) => {
+  active = next;
+};
+
+export const repository = () => {
+  if (!active) throw new Error('No data backend has been set');
+  return active;
+};
+
+// Matches the `.order()` calls on the Supabase side; nulls sort last like Postgres
+export const orderBy = <T>(...keys: (keyof T)[]) => (a: T, b: T) => {
+  for (const key of keys) {
+    if (a[key] === b[key]) continue;
+    if (a[key] == null) return 1;
+    if (b[key] == null) return -1;
+    return a[key] < b[key] ? -1 : 1;
+  }
+  return 0;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SeatingRule, SeatingTable } from './supabase';
+import { findSeatingConflicts } from './seating';
+import { guest } from '../test/fixtures';
+
+const table = (table_number: number, capacity: number, name = ''): SeatingTable => ({
+  id: crypto.randomUUID(), wedding_id: 'wedding', user_id: null, table_number, name, capacity, shape: 'round',
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+const rule = (guest_id: string, other_guest_id: string, kind: SeatingRule['rule']): SeatingRule => ({
+  id: crypto.randomUUID(), wedding_id: 'wedding', user_id: null, guest_id, other_guest_id, rule: kind,
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+const messages = (...args: Parameters<typeof findSeatingConflicts>) => findSeatingConflicts(...args).map(c => c.message);
+
+describe('findSeatingConflicts', () => {
+  it('flags tables with more guests than seats', () => {
+    const guests = [guest({ first_name: 'Jamie', table_number: 1 }), guest({ first_name: 'Casey', table_number: 1 })];
+
+    expect(findSeatingConflicts([table(1, 1, 'Family')], guests, [])).toEqual([
+      { severity: 'error', message: 'Family has 2 guests but only seats 1' }
+    ]);
+    expect(messages([table(1, 2)], guests, [])).toEqual([]);
+  });
+
+  it("doesn't count declined guests against a table's seats", () => {
+    const guests = [
+      guest({ first_name: 'Jamie', last_name: 'Rivera', table_number: 1 }),
+      guest({ first_name: 'Robin', last_name: 'Hale', table_number: 1, rsvp_status: 'declined' })
+    ];
+
+    expect(findSeatingConflicts([table(1, 1)], guests, [])).toEqual([
+      { severity: 'warning', message: 'Robin Hale declined but still has a seat' }
+    ]);
+  });
+
+  it('warns about guests at tables that no longer exist', () => {
+    expect(messages([table(1, 8)], [guest({ first_name: 'Sky', last_name: 'Adams', table_number: 4 })], [])).toEqual([
+      "Sky Adams is assigned to table 4, which doesn't exist"
+    ]);
+  });
+
+  it('checks who should sit together or apart', () => {
+    const jamie = guest({ first_name: 'Jamie', last_name: 'Rivera', table_number: 1 });
+    const casey = guest({ first_name: 'Casey', last_name: 'Rivera', table_number: 2 });
+    const sky = guest({ first_name: 'Sky', last_name: 'Adams' });
+    const robin = guest({ first_name: 'Robin', last_name: 'Hale', table_number: 1 });
+    const tables = [table(1, 8), table(2, 8)];
+
+    expect(messages(tables, [jamie, casey, sky, robin], [
+      rule(jamie.id, casey.id, 'together'),
+      rule(sky.id, jamie.id, 'together'),
+      rule(jamie.id, robin.id, 'apart')
+    ])).toEqual([
+      'Jamie Rivera and Casey Rivera should sit together but are at different tables',
+      'Jamie Rivera is seated but Sky Adams, who should sit with them, is not',
+      'Jamie Rivera and Robin Hale should be kept apart but share table 1'
+    ]);
+  });
+});
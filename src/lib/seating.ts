@@ -0,0 +1,81 @@
+import { Guest, SeatingRule, SeatingTable } from './supabase';
+
+export interface SeatingConflict {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export const TABLE_SHAPES: { value: SeatingTable['shape']; label: string }[] = [
+  { value: 'round', label: 'Round' },
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'square', label: 'Square' }
+];
+
+export const guestName = (guest: Guest) => `${guest.first_name} ${guest.last_name}`;
+
+export const tableLabel = (table: SeatingTable) => table.name || `Table ${table.table_number}`;
+
+// Declined guests keep their table until someone unseats them, but don't fill a seat
+export const takesSeat = (guest: Guest) => guest.rsvp_status !== 'declined';
+
+// Capacity, must-sit-together and keep-apart problems in the current assignments
+export const findSeatingConflicts = (tables: SeatingTable[], guests: Guest[], rules: SeatingRule[]) => {
+  const conflicts: SeatingConflict[] = [];
+  const guestsById = new Map(guests.map(guest => [guest.id, guest]));
+
+  tables.forEach(table => {
+    const seated = guests.filter(guest => guest.table_number === table.table_number && takesSeat(guest)).length;
+    if (seated > table.capacity) {
+      conflicts.push({
+        severity: 'error',
+        message: `${tableLabel(table)} has ${seated} guests but only seats ${table.capacity}`
+      });
+    }
+  });
+
+  const tableNumbers = new Set(tables.map(table => table.table_number));
+  guests.forEach(guest => {
+    if (guest.table_number == null) return;
+
+    if (!tableNumbers.has(guest.table_number)) {
+      conflicts.push({
+        severity: 'warning',
+        message: `${guestName(guest)} is assigned to table ${guest.table_number}, which doesn't exist`
+      });
+    }
+    if (guest.rsvp_status === 'declined') {
+      conflicts.push({
+        severity: 'warning',
+        message: `${guestName(guest)} declined but still has a seat`
+      });
+    }
+  });
+
+  rules.forEach(rule => {
+    const guest = guestsById.get(rule.guest_id);
+    const other = guestsById.get(rule.other_guest_id);
+    if (!guest || !other) return;
+
+    if (rule.rule === 'together') {
+      if (guest.table_number != null && other.table_number != null && guest.table_number !== other.table_number) {
+        conflicts.push({
+          severity: 'error',
+          message: `${guestName(guest)} and ${guestName(other)} should sit together but are at different tables`
+        });
+      } else if ((guest.table_number == null) !== (other.table_number == null)) {
+        const [seated, unseated] = guest.table_number != null ? [guest, other] : [other, guest];
+        conflicts.push({
+          severity: 'warning',
+          message: `${guestName(seated)} is seated but ${guestName(unseated)}, who should sit with them, is not`
+        });
+      }
+    } else if (guest.table_number != null && guest.table_number === other.table_number) {
+      conflicts.push({
+        severity: 'error',
+        message: `${guestName(guest)} and ${guestName(other)} should be kept apart but share table ${guest.table_number}`
+      });
+    }
+  });
+
+  return conflicts;
+};
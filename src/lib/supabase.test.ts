@@ -0,0 +1,374 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { authFunctions, dbFunctions, weddingFunctions, subscriptions, trashFunctions, Task } from './supabase';
+import { setRepository } from './repository';
+import { createMemoryRepository } from './memoryRepository';
+import { TASK_PHASES } from './tasks';
+
+const selectFirstWedding = async () => {
+  const [membership] = await weddingFunctions.getMyWeddings();
+  weddingFunctions.selectWedding(membership.wedding.id);
+  return membership;
+};
+
+// Realtime-style events arrive after the write returns
+const nextEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const guest = {
+  first_name: 'Jamie',
+  last_name: 'Rivera',
+  email: '',
+  phone: '',
+  group_name: 'Friends',
+  rsvp_status: 'pending',
+  plus_one_allowed: true,
+  plus_one_of: null,
+  household_id: null,
+  table_number: null,
+  meal_option_id: null,
+  dietary_tags: [],
+  dietary_restrictions: ''
+};
+
+describe('authFunctions', () => {
+  beforeEach(() => {
+    setRepository(createMemoryRepository());
+  });
+
+  it('creates the profile and a wedding on sign-up', async () => {
+    const user = await authFunctions.signUp('new@example.com', 'secret-password', 'Ana & Ben', '2027-09-04');
+
+    const profile = await authFunctions.getCurrentProfile();
+    expect(profile).toMatchObject({ id: user!.id, couple_names: 'Ana & Ben', email: 'new@example.com', is_admin: false });
+
+    const memberships = await weddingFunctions.getMyWeddings();
+    expect(memberships).toHaveLength(1);
+    expect(memberships[0]).toMatchObject({ role: 'owner', wedding: { couple_names: 'Ana & Ben', wedding_date: '2027-09-04' } });
+    expect(weddingFunctions.getCurrentWeddingId()).toBe(memberships[0].wedding.id);
+  });
+
+  it('rejects a wrong password', async () => {
+    await authFunctions.signUp('new@example.com', 'secret-password', 'Ana & Ben');
+    await authFunctions.signOut();
+
+    await expect(authFunctions.signIn('new@example.com', 'wrong')).rejects.toThrow('Invalid login credentials');
+    expect(await authFunctions.getCurrentUser()).toBeNull();
+
+    const user = await authFunctions.signIn('new@example.com', 'secret-password');
+    expect(user.email).toBe('new@example.com');
+  });
+
+  it('forgets the selected wedding on sign-out', async () => {
+    await authFunctions.signUp('new@example.com', 'secret-password', 'Ana & Ben');
+    await authFunctions.signOut();
+
+    expect(weddingFunctions.getCurrentWeddingId()).toBeNull();
+    expect(await authFunctions.getCurrentProfile()).toBeNull();
+  });
+
+  it('reports sign-in and sign-out to listeners', async () => {
+    const seen: (string | null)[] = [];
+    const unsubscribe = authFunctions.onAuthStateChange(user => seen.push(user?.email ?? null));
+
+    await authFunctions.signUp('new@example.com', 'secret-password', 'Ana & Ben');
+    await authFunctions.signOut();
+    unsubscribe();
+    await authFunctions.signIn('new@example.com', 'secret-password');
+
+    expect(seen).toEqual(['new@example.com', null]);
+  });
+});
+
+describe('dbFunctions', () => {
+  beforeEach(async () => {
+    await selectFirstWedding();
+  });
+
+  it('needs a selected wedding', async () => {
+    weddingFunctions.selectWedding(null);
+    await expect(dbFunctions.getTasks()).rejects.toThrow('No wedding selected');
+  });
+
+  it('adds tasks at the end of their phase', async () => {
+    const existing = (await dbFunctions.getTasks()).filter(task => task.phase === TASK_PHASES[0]);
+    const task = await dbFunctions.addTask('Hire a planner', TASK_PHASES[0]);
+
+    expect(task).toMatchObject({ task_name: 'Hire a planner', completed: false, position: existing.length });
+    expect((await dbFunctions.getTasks()).map(t => t.id)).toContain(task.id);
+  });
+
+  it('toggles a task and stamps who changed it', async () => {
+    const [task] = await dbFunctions.getTasks();
+    await dbFunctions.updateTask(task.id, { completed: !task.completed });
+
+    const updated = (await dbFunctions.getTasks()).find(t => t.id === task.id)!;
+    expect(updated.completed).toBe(!task.completed);
+    expect(updated.updated_by).toBe((await authFunctions.getCurrentUser())!.id);
+    expect(updated.updated_at).not.toBeNull();
+  });
+
+  it('reorders tasks within a phase', async () => {
+    const first = await dbFunctions.addTask('First', TASK_PHASES[5]);
+    const second = await dbFunctions.addTask('Second', TASK_PHASES[5]);
+    await dbFunctions.reorderTasks(TASK_PHASES[5], [second.id, first.id]);
+
+    const phase = (await dbFunctions.getTasks()).filter(task => task.phase === TASK_PHASES[5]);
+    expect(phase.map(task => task.task_name)).toEqual(['Second', 'First']);
+  });
+
+  it('moves deleted tasks, vendors and guests out of the lists', async () => {
+    const [task] = await dbFunctions.getTasks();
+    const [vendor] = await dbFunctions.getVendors();
+    const [firstGuest] = await dbFunctions.getGuests();
+
+    await dbFunctions.deleteTask(task.id);
+    await dbFunctions.deleteVendor(vendor.id);
+    await dbFunctions.deleteGuest(firstGuest.id);
+
+    expect((await dbFunctions.getTasks()).map(t => t.id)).not.toContain(task.id);
+    expect((await dbFunctions.getVendors()).map(v => v.id)).not.toContain(vendor.id);
+    expect((await dbFunctions.getGuests()).map(g => g.id)).not.toContain(firstGuest.id);
+  });
+
+  it('adds vendors with their costs', async () => {
+    const vendor = await dbFunctions.addVendor({
+      name: 'Lens & Light',
+      type: 'Photographer',
+      email: 'hello@lens.test',
+      phone: '',
+      estimated_cost: 3200,
+      actual_cost: null,
+      category_id: null,
+      notes: ''
+    });
+
+    expect(vendor).toMatchObject({ name: 'Lens & Light', estimated_cost: 3200, cost: '' });
+    expect((await dbFunctions.getVendors()).map(v => v.name)).toContain('Lens & Light');
+  });
+
+  it('gives each new guest an RSVP link', async () => {
+    const added = await dbFunctions.addGuest(guest);
+    const imported = await dbFunctions.addGuests([{ ...guest, first_name: 'Sky' }, { ...guest, first_name: 'Robin' }]);
+
+    expect(added.rsvp_token).toMatch(/^[0-9a-f-]{36}$/);
+    expect(imported.map(g => g.first_name)).toEqual(['Sky', 'Robin']);
+    expect(new Set([added, ...imported].map(g => g.rsvp_token)).size).toBe(3);
+  });
+
+  it('takes plus-ones to the trash with their guest', async () => {
+    const main = await dbFunctions.addGuest(guest);
+    const plusOne = await dbFunctions.addGuest({ ...guest, first_name: 'Casey', plus_one_allowed: false, plus_one_of: main.id });
+
+    await dbFunctions.deleteGuest(main.id);
+
+    const ids = (await dbFunctions.getGuests()).map(g => g.id);
+    expect(ids).not.toContain(main.id);
+    expect(ids).not.toContain(plusOne.id);
+  });
+
+  it('restores a guest from the trash with their plus-one, or deletes them for good', async () => {
+    const main = await dbFunctions.addGuest(guest);
+    const plusOne = await dbFunctions.addGuest({ ...guest, first_name: 'Casey', plus_one_allowed: false, plus_one_of: main.id });
+    const [vendor] = await dbFunctions.getVendors();
+
+    await dbFunctions.deleteGuest(main.id);
+    await dbFunctions.deleteVendor(vendor.id);
+    const trash = await trashFunctions.getTrash();
+    expect(trash.guests.map(g => g.id).sort()).toEqual([main.id, plusOne.id].sort());
+    expect(trash.vendors.map(v => v.id)).toEqual([vendor.id]);
+
+    await trashFunctions.restore('guests', main.id);
+    await trashFunctions.purge('vendors', vendor.id);
+
+    expect((await dbFunctions.getGuests()).map(g => g.id)).toEqual(expect.arrayContaining([main.id, plusOne.id]));
+    expect(await trashFunctions.getTrash()).toEqual({ tasks: [], vendors: [], guests: [] });
+  });
+
+  it('logs who changed what, newest first', async () => {
+    const [task] = await dbFunctions.getTasks();
+    const added = await dbFunctions.addGuest(guest);
+
+    await dbFunctions.updateTask(task.id, { completed: !task.completed });
+    await dbFunctions.updateGuest(added.id, { rsvp_status: 'pending' });
+    await dbFunctions.deleteGuest(added.id);
+
+    const activity = await dbFunctions.getActivity();
+    expect(activity.map(entry => [entry.action, entry.row_label, entry.new_values])).toEqual([
+      ['update', 'Jamie Rivera', { deleted_at: expect.any(String) }],
+      ['update', task.task_name, { completed: !task.completed }],
+      ['insert', 'Jamie Rivera', expect.objectContaining({ first_name: 'Jamie' })]
+    ]);
+    expect(activity[0]).toMatchObject({ table_name: 'guests', actor_name: 'Alex & Sam', old_values: { deleted_at: null } });
+  });
+
+  it('searches, filters, sorts and pages guests', async () => {
+    await dbFunctions.addGuests([
+      { ...guest, first_name: 'Sky', last_name: 'Adams', email: 'sky@example.com', table_number: 2, dietary_tags: ['vegan'] },
+      { ...guest, first_name: 'Robin', last_name: 'Rivera', phone: '555-0101', rsvp_status: 'attending' }
+    ]);
+
+    const names = async (query: Parameters<typeof dbFunctions.getGuests>[0]) =>
+      (await dbFunctions.getGuests(query)).map(g => g.first_name);
+
+    expect(await names({ search: 'rivera' })).toEqual(['Robin']);
+    expect(await names({ search: 'sky example' })).toEqual(['Sky']);
+    expect(await names({ search: '0101' })).toEqual(['Robin']);
+    expect(await names({ rsvp_status: 'attending', sort: 'name' })).toEqual(['Jordan', 'Robin']);
+    expect(await names({ group_name: 'Friends', table: 'none' })).toEqual(['Priya', 'Robin']);
+    expect(await names({ table: 2 })).toEqual(['Sky']);
+    expect(await names({ dietary: 'any' })).toEqual(['Sky']);
+    expect(await names({ dietary: 'vegan' })).toEqual(['Sky']);
+    expect(await names({ dietary: 'none', rsvp_status: 'attending' })).toEqual(['Jordan', 'Robin']);
+    expect(await names({ sort: 'name', descending: true })).toEqual(['Priya', 'Robin', 'Jordan', 'Sky']);
+
+    expect(await names({ sort: 'name', page: 2, pageSize: 3 })).toEqual(['Priya']);
+    expect(await dbFunctions.countGuests({ group_name: 'Friends' })).toBe(3);
+    expect(await dbFunctions.getGuests()).toHaveLength(4);
+  });
+
+  it('changes guests in bulk and reports the ones it could not', async () => {
+    const main = await dbFunctions.addGuest(guest);
+    const plusOne = await dbFunctions.addGuest({ ...guest, first_name: 'Casey', plus_one_allowed: false, plus_one_of: main.id });
+    const [jordan] = await dbFunctions.getGuests({ search: 'jordan' });
+
+    expect(await dbFunctions.updateGuests([main.id, jordan.id, 'missing'], { rsvp_status: 'declined', table_number: 3 }))
+      .toEqual([{ id: 'missing', message: "Guest not found, or you can't edit it" }]);
+    expect(await dbFunctions.countGuests({ rsvp_status: 'declined', table: 3 })).toBe(2);
+
+    expect(await dbFunctions.deleteGuests([main.id, plusOne.id])).toEqual([]);
+    expect((await dbFunctions.getGuests()).map(g => g.first_name)).toEqual(['Jordan', 'Priya']);
+  });
+
+  it('clears a removed meal from the guests who chose it', async () => {
+    const option = await dbFunctions.addMealOption('Braised short rib', 'With polenta');
+    const chosen = await dbFunctions.addGuest({ ...guest, meal_option_id: option.id });
+    await dbFunctions.updateMealOption(option.id, { name: 'Short rib' });
+
+    expect((await dbFunctions.getMealOptions()).map(o => o.name)).toEqual(['Short rib']);
+
+    await dbFunctions.deleteMealOption(option.id);
+
+    expect(await dbFunctions.getMealOptions()).toEqual([]);
+    expect((await dbFunctions.getGuests()).find(g => g.id === chosen.id)?.meal_option_id).toBeNull();
+  });
+
+  it("files a guest's gift under their household", async () => {
+    const giver = await dbFunctions.addGuest({ ...guest, household_id: 'riveras' });
+    const gift = { guest_id: giver.id, household_id: null, description: 'Stand mixer', value: 349.99,
+      from_registry: true, received_date: '2026-06-01', thank_you_status: 'not_written' as const, notes: '' };
+
+    const added = await dbFunctions.addGift(gift);
+    expect(added.household_id).toBe('riveras');
+
+    await expect(dbFunctions.addGift({ ...gift, household_id: 'kims' })).rejects.toThrow("That guest isn't in that household");
+    await expect(dbFunctions.updateGift(added.id, { household_id: 'kims' })).rejects.toThrow("That guest isn't in that household");
+
+    await dbFunctions.updateGift(added.id, { thank_you_status: 'sent' });
+    expect((await dbFunctions.getGifts()).map(g => [g.household_id, g.thank_you_status])).toEqual([['riveras', 'sent']]);
+  });
+
+  it("keeps other weddings' records apart", async () => {
+    const otherId = await weddingFunctions.createWedding('Other couple');
+    weddingFunctions.selectWedding(otherId);
+
+    expect(await dbFunctions.getTasks()).toEqual([]);
+    expect(await dbFunctions.getVendors()).toEqual([]);
+    expect(await dbFunctions.getGuests()).toEqual([]);
+  });
+
+  it("takes a vendor's payments, appointments and timeline slots with it when it is deleted for good", async () => {
+    const [vendor, other] = await dbFunctions.getVendors();
+    const category = await dbFunctions.addBudgetCategory('Venue', 12000);
+    await dbFunctions.updateVendor(other.id, { category_id: category.id });
+    await dbFunctions.addVendorPayment({ vendor_id: vendor.id, kind: 'deposit', amount: 2000, due_date: null, status: 'paid', paid_date: '2026-10-01', notes: '' });
+    await dbFunctions.addVendorAppointment({ vendor_id: vendor.id, title: 'Walkthrough', starts_at: '2026-11-02T15:00:00Z', ends_at: null, location: '', notes: '' });
+    const event = await dbFunctions.addTimelineEvent({ title: 'Ceremony', start_time: '16:00', end_time: null, location: '', responsible: '', notes: '' }, [vendor.id, other.id]);
+
+    await dbFunctions.deleteVendor(vendor.id);
+    expect(await dbFunctions.getVendorPayments()).toHaveLength(1);
+
+    await trashFunctions.purge('vendors', vendor.id);
+    await dbFunctions.deleteBudgetCategory(category.id);
+
+    expect(await dbFunctions.getVendorPayments()).toEqual([]);
+    expect(await dbFunctions.getVendorAppointments()).toEqual([]);
+    expect((await dbFunctions.getTimelineEventVendors()).map(link => [link.event_id, link.vendor_id])).toEqual([[event.id, other.id]]);
+    expect((await dbFunctions.getVendors()).find(v => v.id === other.id)?.category_id).toBeNull();
+  });
+
+  it("leaves a household's guests without it, and drops a guest's seating rules with them", async () => {
+    const household = await dbFunctions.addHousehold({
+      name: 'The Riveras', address_line1: '', address_line2: '', city: '', state: '', postal_code: '', country: '', primary_contact_id: null
+    });
+    const member = await dbFunctions.addGuest({ ...guest, household_id: household.id });
+    const [other] = await dbFunctions.getGuests();
+    await dbFunctions.addSeatingRule(member.id, other.id, 'together');
+
+    expect(household.rsvp_token).toMatch(/^[0-9a-f-]{36}$/);
+
+    await dbFunctions.deleteHousehold(household.id);
+    expect((await dbFunctions.getGuests()).find(g => g.id === member.id)?.household_id).toBeNull();
+
+    await dbFunctions.deleteGuest(member.id);
+    expect(await dbFunctions.getSeatingRules()).toHaveLength(1);
+    await trashFunctions.purge('guests', member.id);
+    expect(await dbFunctions.getSeatingRules()).toEqual([]);
+  });
+
+  it('numbers seating tables once per wedding', async () => {
+    await dbFunctions.addSeatingTable({ table_number: 1, name: 'Table 1', capacity: 8, shape: 'round' });
+    const second = await dbFunctions.addSeatingTable({ table_number: 2, name: 'Table 2', capacity: 10, shape: 'rectangle' });
+
+    await expect(dbFunctions.addSeatingTable({ table_number: 2, name: 'Head table', capacity: 6, shape: 'rectangle' }))
+      .rejects.toThrow('duplicate key');
+    await expect(dbFunctions.updateSeatingTable(second.id, { table_number: 1 })).rejects.toThrow('duplicate key');
+    expect((await dbFunctions.getSeatingTables()).map(t => t.name)).toEqual(['Table 1', 'Table 2']);
+  });
+
+  it('keeps the budget total on the wedding', async () => {
+    await dbFunctions.updateWedding({ total_budget: 30000 });
+
+    expect((await weddingFunctions.getMyWeddings())[0].wedding.total_budget).toBe(30000);
+  });
+});
+
+describe('subscriptions', () => {
+  it("applies changes to the wedding's rows as they happen", async () => {
+    const { wedding } = await selectFirstWedding();
+    let tasks: Task[] = await dbFunctions.getTasks();
+    const subscription = subscriptions.subscribeTasks(wedding.id, change => {
+      tasks = change(tasks);
+    });
+
+    const added = await dbFunctions.addTask('Book a cake tasting', TASK_PHASES[2]);
+    await nextEvents();
+    expect(tasks.map(task => task.id)).toContain(added.id);
+
+    await dbFunctions.updateTask(added.id, { completed: true });
+    await nextEvents();
+    expect(tasks.find(task => task.id === added.id)?.completed).toBe(true);
+
+    await dbFunctions.deleteTask(added.id);
+    await nextEvents();
+    expect(tasks.map(task => task.id)).not.toContain(added.id);
+
+    subscription.unsubscribe();
+    await dbFunctions.addTask('Unheard', TASK_PHASES[2]);
+    await nextEvents();
+    expect(tasks.map(task => task.task_name)).not.toContain('Unheard');
+  });
+
+  it('ignores changes to other weddings', async () => {
+    const { wedding } = await selectFirstWedding();
+    let tasks: Task[] = [];
+    const subscription = subscriptions.subscribeTasks(wedding.id, change => {
+      tasks = change(tasks);
+    });
+
+    weddingFunctions.selectWedding(await weddingFunctions.createWedding('Other couple'));
+    await dbFunctions.addTask('Elsewhere', TASK_PHASES[0]);
+    await nextEvents();
+
+    expect(tasks).toEqual([]);
+    subscription.unsubscribe();
+  });
+});
@@ -1,319 +1,1976 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  OfflineTable,
+  QueuedMutation,
+  SyncConflict,
+  offlineCache,
+  offlineQueue,
+  getSyncState,
+  updateSyncState,
+  onCacheChange,
+  notifyCacheChange,
+  isNetworkError,
+  mergeUpdate,
+  recordLabel,
+  clearOfflineData
+} from './offline';
+import { AuthUser, RecordRepository, Repository, RowHandlers, orderBy, repository, setRepository } from './repository';
+import { createMemoryRepository, demoSeed } from './memoryRepository';
+import { taskProgress, TaskProgress } from './tasks';
+import { filterGuests, guestSearchPattern, guestSearchTerms, queryGuests, relatedGuests, summarizeGuests, GUEST_PAGE_SIZE } from './guests';
+import { InvitationSummary } from './households';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// Created on first use, so the app can load without Supabase configured when
+// it runs against the in-memory backend
+export const getSupabase = () => {
+  if (!client) {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// The wedding dbFunctions reads and writes; remembered across visits
+const CURRENT_WEDDING_KEY = 'adorist.currentWedding';
+let currentWeddingId: string | null = localStorage.getItem(CURRENT_WEDDING_KEY);
+
+const requireWedding = () => {
+  if (!currentWeddingId) throw new Error('No wedding selected');
+  return currentWeddingId;
+};
 
 // Database types
 export interface Profile {
   id: string;
   couple_names: string;
-  wedding_date: string | null;
   email: string;
   is_admin: boolean;
   created_at: string;
 }
 
-export interface Task {
+export interface Wedding {
   id: string;
+  couple_names: string;
+  wedding_date: string | null;
+  total_budget: number | null;
+  template_id: string | null;
+  template_synced_at: string | null;
+  calendar_token: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type WeddingRole = 'owner' | 'editor' | 'viewer';
+
+// A wedding the signed-in user belongs to, with their role in it
+export interface WeddingMembership {
+  wedding: Wedding;
+  role: WeddingRole;
+}
+
+export interface WeddingMember {
   user_id: string;
+  email: string;
+  name: string;
+  role: WeddingRole;
+  created_at: string;
+}
+
+export interface WeddingInvite {
+  id: string;
+  wedding_id: string;
+  email: string;
+  role: WeddingRole;
+  token: string;
+  invited_by: string | null;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+// What the sign-up page shows before the invite is accepted
+export interface WeddingInvitePreview {
+  couple_names: string;
+  email: string;
+  role: WeddingRole;
+}
+
+// A wedding as listed on the admin dashboard
+export interface ClientWedding extends Wedding {
+  owner_email: string | null;
+  progress: TaskProgress;
+}
+
+// A weddings row with what getAllWeddings embeds for the client list
+type ClientWeddingRow = Wedding & {
+  wedding_members: { role: WeddingRole; profiles: { email: string } | null }[];
+  tasks: { count: number }[];
+  completed_tasks: { count: number }[];
+};
+
+export interface Task {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
   task_name: string;
   phase: string;
   completed: boolean;
+  due_date: string | null;
+  due_date_overridden: boolean;
+  notes: string;
+  position: number;
+  template_task_id: string | null;
+  updated_by: string | null;
+  updated_by_admin: boolean; // last changed by a planner rather than the couple
+  updated_at: string | null;
+  deleted_at: string | null; // in the trash since
+  created_at: string;
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface ChecklistTemplateTask {
+  id: string;
+  template_id: string;
+  task_name: string;
+  phase: string;
+  position: number;
+  notes: string;
+  retired: boolean;
   created_at: string;
 }
 
 export interface Vendor {
   id: string;
-  user_id: string;
+  wedding_id: string;
+  user_id: string | null;
   name: string;
   type: string;
   email: string;
   phone: string;
-  cost: string;
+  cost: string; // legacy free-text cost, superseded by estimated_cost / actual_cost
+  estimated_cost: number | null;
+  actual_cost: number | null;
+  category_id: string | null;
+  notes: string;
+  updated_by: string | null;
+  updated_by_admin: boolean;
+  updated_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+export interface VendorPayment {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  vendor_id: string;
+  kind: 'deposit' | 'installment' | 'final';
+  amount: number;
+  due_date: string | null;
+  status: 'scheduled' | 'paid';
+  paid_date: string | null;
+  notes: string;
+  created_at: string;
+}
+
+export type NewVendorPayment = Omit<VendorPayment, 'id' | 'wedding_id' | 'user_id' | 'created_at'>;
+
+export interface VendorAppointment {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  vendor_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string | null;
+  location: string;
   notes: string;
   created_at: string;
 }
 
+export type NewVendorAppointment = Omit<VendorAppointment, 'id' | 'wedding_id' | 'user_id' | 'created_at'>;
+
+export interface BudgetCategory {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  name: string;
+  planned_amount: number;
+  created_at: string;
+}
+
+export type NewBudgetCategory = Pick<BudgetCategory, 'name' | 'planned_amount'>;
+
 export interface Guest {
   id: string;
-  user_id: string;
+  wedding_id: string;
+  user_id: string | null;
   first_name: string;
   last_name: string;
   email: string;
   phone: string;
   group_name: string;
   rsvp_status: string;
-  plus_one: string;
+  plus_one: string; // legacy free-text plus-one, superseded by plus-one guest rows
+  plus_one_allowed: boolean;
+  plus_one_of: string | null;
+  household_id: string | null;
   table_number: number | null;
-  dietary_restrictions: string;
+  meal_option_id: string | null;
+  dietary_tags: string[]; // see DIETARY_TAGS in ./meals
+  dietary_restrictions: string; // anything the tags don't cover
+  rsvp_token: string;
+  rsvp_responded_at: string | null;
+  updated_by: string | null;
+  updated_by_admin: boolean;
+  updated_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+// Columns the database fills in when a planner or the couple saves a row
+type UpdateStamp = 'updated_by' | 'updated_by_admin' | 'updated_at';
+
+export type NewTask = Pick<Task, 'task_name' | 'phase' | 'notes'>;
+
+export type NewVendor = Omit<Vendor, 'id' | 'wedding_id' | 'user_id' | 'cost' | UpdateStamp | 'deleted_at' | 'created_at'>;
+
+export type NewGuest = Omit<Guest, 'id' | 'wedding_id' | 'user_id' | 'plus_one' | 'rsvp_token' | 'rsvp_responded_at' | UpdateStamp | 'deleted_at' | 'created_at'>;
+
+// What can be set on many guests at once; deleted_at moves them to the trash
+export type GuestBulkChanges = Partial<Pick<Guest, 'rsvp_status' | 'group_name' | 'table_number' | 'deleted_at'>>;
+
+// A guest a bulk change couldn't be saved for, and why
+export interface GuestBulkFailure {
+  id: string;
+  message: string;
+}
+
+export type GuestSort = 'name' | 'group' | 'rsvp' | 'table' | 'added';
+
+// Narrows and orders the guest list; see ../lib/guests for the matching rules
+export interface GuestQuery {
+  // Every word has to appear in the name, email or phone
+  search?: string;
+  rsvp_status?: string;
+  group_name?: string;
+  // A table number, or 'none' for guests without a seat
+  table?: number | 'none';
+  // 'any' or 'none' for any dietary needs at all, otherwise a dietary tag
+  dietary?: string;
+  sort?: GuestSort;
+  descending?: boolean;
+  // 1-based; without one every match comes back
+  page?: number;
+  pageSize?: number;
+}
+
+// What the guest list shows about every guest while it loads one page of them
+export interface GuestOverview extends InvitationSummary {
+  // Choices for the filter menus
+  groupNames: string[];
+  tableNumbers: number[];
+  dietaryTags: string[];
+  // Households with at least one guest
+  householdsInUse: string[];
+}
+
+export interface Household {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  name: string;
+  address_line1: string;
+  address_line2: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  primary_contact_id: string | null;
+  rsvp_token: string;
+  created_at: string;
+}
+
+export type NewHousehold = Omit<Household, 'id' | 'wedding_id' | 'user_id' | 'rsvp_token' | 'created_at'>;
+
+// One dish on the wedding's menu
+export interface MealOption {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  name: string;
+  description: string;
+  created_at: string;
+}
+
+export type NewMealOption = Pick<MealOption, 'name' | 'description'>;
+
+export type ThankYouStatus = 'not_written' | 'written' | 'sent';
+
+// A gift from a guest or household, and where its thank-you note is up to
+export interface Gift {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  // Cleared if the guest or household is deleted
+  guest_id: string | null;
+  household_id: string | null;
+  description: string;
+  value: number | null;
+  from_registry: boolean;
+  received_date: string | null;
+  thank_you_status: ThankYouStatus;
+  notes: string;
+  created_at: string;
+}
+
+export type NewGift = Omit<Gift, 'id' | 'wedding_id' | 'user_id' | 'created_at'>;
+
+export interface SeatingTable {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  table_number: number;
+  name: string;
+  capacity: number;
+  shape: 'round' | 'rectangle' | 'square';
+  created_at: string;
+}
+
+export type NewSeatingTable = Omit<SeatingTable, 'id' | 'wedding_id' | 'user_id' | 'created_at'>;
+
+export interface SeatingRule {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  guest_id: string;
+  other_guest_id: string;
+  rule: 'together' | 'apart';
+  created_at: string;
+}
+
+export type NewSeatingRule = Pick<SeatingRule, 'guest_id' | 'other_guest_id' | 'rule'>;
+
+export interface TimelineEvent {
+  id: string;
+  wedding_id: string;
+  user_id: string | null;
+  title: string;
+  start_time: string;
+  end_time: string | null;
+  location: string;
+  responsible: string;
+  notes: string;
+  created_at: string;
+}
+
+export type NewTimelineEvent = Omit<TimelineEvent, 'id' | 'wedding_id' | 'user_id' | 'created_at'>;
+
+export interface TimelineEventVendor {
+  event_id: string;
+  vendor_id: string;
+  wedding_id: string;
+  user_id: string | null;
+  created_at: string;
+}
+
+// One change to a task, vendor or guest, written by a database trigger.
+// Updates carry only the columns that changed.
+export interface AuditEntry {
+  id: string;
+  wedding_id: string;
+  table_name: 'tasks' | 'vendors' | 'guests';
+  row_id: string;
+  row_label: string | null;
+  action: 'insert' | 'update' | 'delete';
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_is_admin: boolean;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
   created_at: string;
 }
 
+// An audit entry on the admin dashboard's cross-client feed
+export interface ClientAuditEntry extends AuditEntry {
+  wedding: { couple_names: string } | null;
+}
+
+export interface RsvpGuest {
+  id: string;
+  first_name: string;
+  last_name: string;
+  rsvp_status: string;
+  dietary_restrictions: string;
+  dietary_tags: string[];
+  meal_option_id: string | null;
+  plus_one_allowed: boolean;
+  plus_one: string;
+  plus_one_meal_option_id: string | null;
+}
+
+export interface RsvpInvitation {
+  couple_names: string;
+  wedding_date: string | null;
+  household_name: string | null;
+  meal_options: Pick<MealOption, 'id' | 'name' | 'description'>[];
+  guests: RsvpGuest[];
+}
+
+export interface RsvpResponse {
+  guest_id: string;
+  rsvp_status: 'attending' | 'declined';
+  plus_one: string;
+  dietary_restrictions: string;
+  dietary_tags: string[];
+  meal_option_id: string | null;
+  plus_one_meal_option_id: string | null;
+}
+
 // Auth functions
 export const authFunctions = {
-  async signUp(email: string, password: string, coupleNames: string, weddingDate?: string) {
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-    });
+  // With an invite token the new account joins that wedding instead of starting its own
+  async signUp(email: string, password: string, coupleNames: string, weddingDate?: string, templateId?: string, inviteToken?: string) {
+    const user = await repository().auth.signUp(email, password);
 
-    if (error) throw error;
-
-    if (data.user) {
-      // Create profile
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          id: data.user.id,
-          couple_names: coupleNames,
-          wedding_date: weddingDate || null,
-          email,
-        });
+    if (user) {
+      await repository().profiles.create({ id: user.id, couple_names: coupleNames, email });
 
-      if (profileError) throw profileError;
+      const weddingId = inviteToken
+        ? await weddingFunctions.acceptInvite(inviteToken)
+        : await weddingFunctions.createWedding(coupleNames, weddingDate, templateId);
+      weddingFunctions.selectWedding(weddingId);
     }
 
-    return data;
+    return user;
   },
 
   async signIn(email: string, password: string) {
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) throw error;
-    return data;
+    return repository().auth.signIn(email, password);
   },
 
   async signOut() {
-    const { error } = await supabase.auth.signOut();
-    if (error) throw error;
+    await repository().auth.signOut();
+    weddingFunctions.selectWedding(null);
+    if (repository().kind === 'supabase') await clearOfflineData();
   },
 
   async resetPassword(email: string) {
-    const { error } = await supabase.auth.resetPasswordForEmail(email);
-    if (error) throw error;
+    await repository().auth.resetPassword(email);
   },
 
   async getCurrentUser() {
-    const { data: { user } } = await supabase.auth.getUser();
-    return user;
+    return repository().auth.getCurrentUser();
   },
 
   async getCurrentProfile() {
     const user = await this.getCurrentUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', user.id)
-      .single();
+    return repository().profiles.get(user.id);
+  },
 
-    if (error) throw error;
-    return data as Profile;
+  // Returns an unsubscribe
+  onAuthStateChange(callback: (user: AuthUser | null) => void) {
+    return repository().auth.onAuthStateChange(callback);
   }
 };
 
-// Database functions
-export const dbFunctions = {
-  // Tasks
-  async getTasks() {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .order('created_at');
-
-    if (error) throw error;
-    return data as Task[];
-  },
+// Offline support for tasks, vendors and guests (see ./offline)
 
-  async updateTask(id: string, completed: boolean) {
-    const { error } = await supabase
-      .from('tasks')
-      .update({ completed })
-      .eq('id', id);
+// Reads fall back to the cached rows when the server can't be reached
+const readThroughCache = async <T extends { id: string; deleted_at: string | null }>(
+  table: OfflineTable,
+  weddingId: string,
+  read: () => Promise<T[]>
+) => {
+  let rows: T[];
 
-    if (error) throw error;
-  },
+  try {
+    rows = await offlineCache.refresh(table, weddingId, await read());
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    updateSyncState({ online: false });
+    rows = await offlineCache.rows<T>(table, weddingId);
+  }
 
-  async addTask(taskName: string, phase: string) {
-    const user = await authFunctions.getCurrentUser();
-    if (!user) throw new Error('Not authenticated');
+  // Deletes still waiting in the queue are applied to the rows too
+  return rows.filter(row => !row.deleted_at);
+};
 
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert({
-        user_id: user.id,
-        task_name: taskName,
-        phase,
-      })
-      .select()
-      .single();
+// Filtered guest reads run on the server. Offline, or while changes are still
+// queued, they run over the cached guests so those changes show up.
+const queryOrCache = async <R>(weddingId: string, local: (guests: Guest[]) => R, read: () => Promise<R>) => {
+  if (navigator.onLine && (await offlineQueue.count()) === 0) {
+    try {
+      return await read();
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      updateSyncState({ online: false });
+    }
+  }
 
-    if (error) throw error;
-    return data as Task;
-  },
+  const cached = await offlineCache.rows<Guest>('guests', weddingId);
+  return local(cached.filter(guest => !guest.deleted_at));
+};
 
-  async deleteTask(id: string) {
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', id);
+const selectGuests = (weddingId: string, query: GuestQuery, countOnly = false) => {
+  let request = getSupabase()
+    .from('guests')
+    .select('*', countOnly ? { count: 'exact', head: true } : undefined)
+    .eq('wedding_id', weddingId)
+    .is('deleted_at', null);
 
-    if (error) throw error;
-  },
+  // Each word narrows the list further
+  for (const term of guestSearchTerms(query.search)) {
+    request = request.or(['first_name', 'last_name', 'email', 'phone'].map(field => `${field}.ilike.${guestSearchPattern(term)}`).join(','));
+  }
+  if (query.rsvp_status) request = request.eq('rsvp_status', query.rsvp_status);
+  if (query.group_name) request = request.eq('group_name', query.group_name);
+  if (query.table === 'none') request = request.is('table_number', null);
+  else if (query.table != null) request = request.eq('table_number', query.table);
+  if (query.dietary === 'any') request = request.or('dietary_tags.neq.{},dietary_restrictions.neq.');
+  else if (query.dietary === 'none') request = request.eq('dietary_tags', '{}').eq('dietary_restrictions', '');
+  else if (query.dietary) request = request.contains('dietary_tags', [query.dietary]);
 
-  // Vendors
-  async getVendors() {
-    const { data, error } = await supabase
-      .from('vendors')
-      .select('*')
-      .order('created_at');
+  return request;
+};
 
-    if (error) throw error;
-    return data as Vendor[];
-  },
+// Mirrors the in-memory sort in ./guests
+const GUEST_SORT_COLUMNS: Record<GuestSort, string[]> = {
+  name: ['last_name', 'first_name'],
+  group: ['group_name'],
+  rsvp: ['rsvp_status'],
+  table: ['table_number'],
+  added: []
+};
 
-  async addVendor(vendor: Omit<Vendor, 'id' | 'user_id' | 'created_at'>) {
-    const user = await authFunctions.getCurrentUser();
-    if (!user) throw new Error('Not authenticated');
+const orderGuests = (request: ReturnType<typeof selectGuests>, { sort = 'added', descending = false }: GuestQuery) => {
+  for (const column of GUEST_SORT_COLUMNS[sort]) {
+    request = request.order(column, { ascending: !descending, nullsFirst: false });
+  }
+  return request.order('created_at', { ascending: sort !== 'added' || !descending });
+};
 
-    const { data, error } = await supabase
-      .from('vendors')
-      .insert({
-        user_id: user.id,
-        ...vendor,
-      })
-      .select()
-      .single();
+// Writes are queued when offline, and also while earlier changes are still
+// queued so everything reaches the server in the order it was made
+const writeOrQueue = async (write: () => Promise<void>, mutation: () => Promise<Omit<QueuedMutation, 'queuedAt'>>) => {
+  if (navigator.onLine && (await offlineQueue.count()) === 0) {
+    try {
+      await write();
+      return;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
 
-    if (error) throw error;
-    return data as Vendor;
-  },
+  await offlineQueue.add({ ...await mutation(), queuedAt: new Date().toISOString() });
+  if (navigator.onLine) syncFunctions.sync();
+};
 
-  async updateVendor(id: string, vendor: Partial<Vendor>) {
-    const { error } = await supabase
-      .from('vendors')
-      .update(vendor)
+const updateOrQueue = async (table: OfflineTable, weddingId: string, id: string, values: Record<string, unknown>) => {
+  await writeOrQueue(async () => {
+    const { error } = await getSupabase()
+      .from(table)
+      .update(values)
       .eq('id', id);
 
     if (error) throw error;
-  },
+  }, async () => {
+    const cached = await offlineCache.row<{ id: string } & Record<string, unknown>>(table, weddingId, id);
+    return {
+      weddingId,
+      table,
+      op: 'update',
+      recordId: id,
+      values,
+      base: Object.fromEntries(Object.keys(values).map(key => [key, cached?.[key] ?? null])),
+      label: cached ? recordLabel(table, cached) : ''
+    };
+  });
+};
 
-  async deleteVendor(id: string) {
-    const { error } = await supabase
-      .from('vendors')
-      .delete()
-      .eq('id', id);
+// Ids are made here so a row added offline can be edited before it is synced
+const insertOrQueue = async <T>(table: OfflineTable, weddingId: string, values: object, localDefaults: Record<string, unknown>) => {
+  const userId = await supabaseRepository.auth.getSessionUserId();
+  if (!userId) throw new Error('Not authenticated');
+
+  const record = {
+    id: crypto.randomUUID(),
+    wedding_id: weddingId,
+    user_id: userId,
+    ...values,
+  };
+  const row = {
+    ...localDefaults,
+    ...record,
+    updated_by: null,
+    updated_by_admin: false,
+    updated_at: null,
+    deleted_at: null,
+    created_at: new Date().toISOString()
+  };
+  let inserted = null as T | null;
+
+  await writeOrQueue(async () => {
+    const { data, error } = await getSupabase()
+      .from(table)
+      .insert(record)
+      .select()
+      .single();
 
     if (error) throw error;
-  },
+    inserted = data as T;
+  }, async () => ({
+    weddingId: record.wedding_id,
+    table,
+    op: 'insert',
+    recordId: record.id,
+    values: record,
+    base: {},
+    row,
+    label: recordLabel(table, row)
+  }));
 
-  // Guests
-  async getGuests() {
-    const { data, error } = await supabase
-      .from('guests')
+  return inserted ?? row as unknown as T;
+};
+
+// A table without a trash or offline copy, read in this order; deletes are for good
+const plainTable = <T, New>(table: string, ...order: string[]): RecordRepository<T, New> => ({
+  async list(weddingId) {
+    let query = getSupabase()
+      .from(table)
       .select('*')
-      .order('created_at');
+      .eq('wedding_id', weddingId);
+    for (const column of order) query = query.order(column, { nullsFirst: false });
 
+    const { data, error } = await query;
     if (error) throw error;
-    return data as Guest[];
+    return data as T[];
   },
 
-  async addGuest(guest: Omit<Guest, 'id' | 'user_id' | 'created_at'>) {
-    const user = await authFunctions.getCurrentUser();
+  async add(weddingId, record) {
+    const user = await supabaseRepository.auth.getCurrentUser();
     if (!user) throw new Error('Not authenticated');
 
-    const { data, error } = await supabase
-      .from('guests')
+    const { data, error } = await getSupabase()
+      .from(table)
       .insert({
+        ...record,
+        wedding_id: weddingId,
         user_id: user.id,
-        ...guest,
       })
       .select()
       .single();
 
     if (error) throw error;
-    return data as Guest;
+    return data as T;
   },
 
-  async updateGuest(id: string, guest: Partial<Guest>) {
-    const { error } = await supabase
-      .from('guests')
-      .update(guest)
+  async update(weddingId, id, changes) {
+    const { error } = await getSupabase()
+      .from(table)
+      .update(changes as Record<string, unknown>)
       .eq('id', id);
 
     if (error) throw error;
   },
 
-  async deleteGuest(id: string) {
-    const { error } = await supabase
-      .from('guests')
+  async remove(weddingId, id) {
+    const { error } = await getSupabase()
+      .from(table)
       .delete()
       .eq('id', id);
 
     if (error) throw error;
-  },
+  }
+});
 
-  // Admin functions
-  async getAllProfiles() {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .order('created_at', { ascending: false });
+// The Supabase backend (see ./repository)
+export const supabaseRepository: Repository = {
+  kind: 'supabase',
 
-    if (error) throw error;
-    return data as Profile[];
-  },
+  auth: {
+    async signUp(email, password) {
+      const { data, error } = await getSupabase().auth.signUp({
+        email,
+        password,
+      });
 
-  async getProfileProgress(userId: string) {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('completed')
-      .eq('user_id', userId);
+      if (error) throw error;
+      return data.user;
+    },
 
-    if (error) throw error;
+    async signIn(email, password) {
+      const { data, error } = await getSupabase().auth.signInWithPassword({
+        email,
+        password,
+      });
 
-    const total = data.length;
-    const completed = data.filter(task => task.completed).length;
-    return { total, completed, percentage: total > 0 ? Math.round((completed / total) * 100) : 0 };
-  }
-};
+      if (error) throw error;
+      return data.user;
+    },
 
-// Real-time subscriptions
-export const subscriptions = {
-  subscribeTasks(callback: (tasks: Task[]) => void) {
-    return supabase
-      .channel('tasks')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, () => {
-        dbFunctions.getTasks().then(callback);
-      })
-      .subscribe();
-  },
+    async signOut() {
+      const { error } = await getSupabase().auth.signOut();
+      if (error) throw error;
+    },
 
-  subscribeVendors(callback: (vendors: Vendor[]) => void) {
-    return supabase
-      .channel('vendors')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'vendors' }, () => {
-        dbFunctions.getVendors().then(callback);
-      })
-      .subscribe();
+    async resetPassword(email) {
+      const { error } = await getSupabase().auth.resetPasswordForEmail(email);
+      if (error) throw error;
+    },
+
+    async getCurrentUser() {
+      const { data: { user } } = await getSupabase().auth.getUser();
+      return user;
+    },
+
+    async getSessionUserId() {
+      const { data: { session } } = await getSupabase().auth.getSession();
+      return session?.user.id ?? null;
+    },
+
+    onAuthStateChange(callback) {
+      const { data: { subscription } } = getSupabase().auth.onAuthStateChange((_event, session) => {
+        callback(session?.user ?? null);
+      });
+      return () => subscription.unsubscribe();
+    }
   },
 
-  subscribeGuests(callback: (guests: Guest[]) => void) {
-    return supabase
-      .channel('guests')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'guests' }, () => {
-        dbFunctions.getGuests().then(callback);
+  profiles: {
+    async get(userId) {
+      const { data, error } = await getSupabase()
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+      return data as Profile;
+    },
+
+    async create(profile) {
+      const { error } = await getSupabase()
+        .from('profiles')
+        .insert(profile);
+
+      if (error) throw error;
+    }
+  },
+
+  weddings: {
+    async getMemberships(userId) {
+      const { data, error } = await getSupabase()
+        .from('wedding_members')
+        .select('role, wedding:weddings(*)')
+        .eq('user_id', userId)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as unknown as WeddingMembership[];
+    },
+
+    async create(coupleNames, weddingDate, templateId) {
+      const { data, error } = await getSupabase().rpc('create_wedding', {
+        p_couple_names: coupleNames,
+        p_wedding_date: weddingDate || null,
+        p_template_id: templateId || null,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+
+    async update(weddingId, changes) {
+      const { error } = await getSupabase()
+        .from('weddings')
+        .update(changes)
+        .eq('id', weddingId);
+
+      if (error) throw error;
+    }
+  },
+
+  tasks: {
+    async list(weddingId) {
+      return readThroughCache<Task>('tasks', weddingId, async () => {
+        const { data, error } = await getSupabase()
+          .from('tasks')
+          .select('*')
+          .eq('wedding_id', weddingId)
+          .is('deleted_at', null)
+          .order('position')
+          .order('created_at');
+
+        if (error) throw error;
+        return data as Task[];
+      });
+    },
+
+    async add(weddingId, task) {
+      // Offline the task goes to the end of its phase until the server orders it
+      const cached = await offlineCache.rows<Task>('tasks', weddingId);
+      const position = cached.filter(t => t.phase === task.phase).reduce((max, t) => Math.max(max, t.position + 1), 0);
+
+      return insertOrQueue<Task>('tasks', weddingId, task, {
+        completed: false,
+        due_date: null,
+        due_date_overridden: false,
+        position,
+        template_task_id: null
+      });
+    },
+
+    async update(weddingId, id, changes) {
+      await updateOrQueue('tasks', weddingId, id, changes);
+    },
+
+    async remove(weddingId, id) {
+      await updateOrQueue('tasks', weddingId, id, { deleted_at: new Date().toISOString() });
+    },
+
+    async reorder(phase, taskIds) {
+      const { error } = await getSupabase().rpc('reorder_tasks', {
+        p_phase: phase,
+        p_task_ids: taskIds,
+      });
+
+      if (error) throw error;
+    }
+  },
+
+  vendors: {
+    async list(weddingId) {
+      return readThroughCache<Vendor>('vendors', weddingId, async () => {
+        const { data, error } = await getSupabase()
+          .from('vendors')
+          .select('*')
+          .eq('wedding_id', weddingId)
+          .is('deleted_at', null)
+          .order('created_at');
+
+        if (error) throw error;
+        return data as Vendor[];
+      });
+    },
+
+    async add(weddingId, vendor) {
+      return insertOrQueue<Vendor>('vendors', weddingId, vendor, { cost: '' });
+    },
+
+    async update(weddingId, id, changes) {
+      await updateOrQueue('vendors', weddingId, id, changes);
+    },
+
+    async remove(weddingId, id) {
+      await updateOrQueue('vendors', weddingId, id, { deleted_at: new Date().toISOString() });
+    }
+  },
+
+  guests: {
+    async list(weddingId, query?: GuestQuery) {
+      if (query) {
+        return queryOrCache(weddingId, all => queryGuests(all, query), async () => {
+          const size = query.pageSize ?? GUEST_PAGE_SIZE;
+          let request = orderGuests(selectGuests(weddingId, query), query);
+          if (query.page) request = request.range((query.page - 1) * size, query.page * size - 1);
+
+          const { data, error } = await request;
+          if (error) throw error;
+          return data as Guest[];
+        });
+      }
+
+      return readThroughCache<Guest>('guests', weddingId, async () => {
+        const { data, error } = await getSupabase()
+          .from('guests')
+          .select('*')
+          .eq('wedding_id', weddingId)
+          .is('deleted_at', null)
+          .order('created_at');
+
+        if (error) throw error;
+        return data as Guest[];
+      });
+    },
+
+    async count(weddingId, query = {}) {
+      return queryOrCache(weddingId, all => filterGuests(all, query).length, async () => {
+        const { count, error } = await selectGuests(weddingId, query, true);
+        if (error) throw error;
+        return count ?? 0;
+      });
+    },
+
+    async overview(weddingId) {
+      return queryOrCache(weddingId, summarizeGuests, async () => {
+        const { data, error } = await getSupabase().rpc('guest_list_overview', { p_wedding_id: weddingId });
+        if (error) throw error;
+
+        const [row] = data as {
+          invitations: number;
+          headcount: number;
+          open_plus_ones: number;
+          attending: number;
+          declined: number;
+          pending: number;
+          group_names: string[];
+          table_numbers: number[];
+          dietary_tags: string[];
+          households_in_use: string[];
+        }[];
+        return {
+          invitations: row.invitations,
+          headcount: row.headcount,
+          openPlusOnes: row.open_plus_ones,
+          attending: row.attending,
+          declined: row.declined,
+          pending: row.pending,
+          groupNames: row.group_names,
+          tableNumbers: row.table_numbers,
+          dietaryTags: row.dietary_tags,
+          householdsInUse: row.households_in_use
+        };
+      });
+    },
+
+    async related(weddingId, guests) {
+      if (guests.length === 0) return [];
+
+      return queryOrCache(weddingId, all => relatedGuests(all, guests), async () => {
+        const ids = guests.map(guest => guest.id);
+        const hostIds = guests.flatMap(guest => guest.plus_one_of ? [guest.plus_one_of] : []);
+        const householdIds = [...new Set(guests.flatMap(guest => guest.household_id ? [guest.household_id] : []))];
+
+        const { data, error } = await getSupabase()
+          .from('guests')
+          .select('*')
+          .eq('wedding_id', weddingId)
+          .is('deleted_at', null)
+          .or([
+            `plus_one_of.in.(${ids.join(',')})`,
+            ...hostIds.length > 0 ? [`id.in.(${hostIds.join(',')})`] : [],
+            ...householdIds.length > 0 ? [`household_id.in.(${householdIds.join(',')})`] : []
+          ].join(','))
+          .order('created_at');
+
+        if (error) throw error;
+        return (data as Guest[]).filter(guest => !ids.includes(guest.id));
+      });
+    },
+
+    // The RSVP link only exists once the guest reaches the server
+    async add(weddingId, guest) {
+      return insertOrQueue<Guest>('guests', weddingId, guest, { plus_one: '', rsvp_token: '', rsvp_responded_at: null });
+    },
+
+    // Imports need a connection
+    async addMany(weddingId, guests) {
+      const user = await supabaseRepository.auth.getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await getSupabase()
+        .from('guests')
+        .insert(guests.map(guest => ({
+          wedding_id: weddingId,
+          user_id: user.id,
+          ...guest,
+        })))
+        .select();
+
+      if (error) throw error;
+      return data as Guest[];
+    },
+
+    async update(weddingId, id, changes) {
+      await updateOrQueue('guests', weddingId, id, changes);
+    },
+
+    // Like imports, bulk changes need a connection. Changes queued offline are
+    // sent first, so the bulk change can't be undone by one replayed after it.
+    async updateMany(weddingId, ids, changes) {
+      await syncFunctions.sync();
+      if ((await offlineQueue.count()) > 0) {
+        throw new Error("Changes made offline haven't been saved yet. Try again once they are.");
+      }
+
+      const { data, error } = await getSupabase().rpc('update_guests', {
+        p_guest_ids: ids,
+        p_changes: changes,
+      });
+
+      if (error) throw error;
+      return (data as { guest_id: string; message: string }[]).map(row => ({ id: row.guest_id, message: row.message }));
+    },
+
+    async remove(weddingId, id) {
+      await updateOrQueue('guests', weddingId, id, { deleted_at: new Date().toISOString() });
+    }
+  },
+
+  vendorPayments: plainTable<VendorPayment, NewVendorPayment>('vendor_payments', 'due_date', 'created_at'),
+
+  vendorAppointments: plainTable<VendorAppointment, NewVendorAppointment>('vendor_appointments', 'starts_at'),
+
+  households: plainTable<Household, NewHousehold>('households', 'name'),
+
+  timeline: {
+    ...plainTable<TimelineEvent, NewTimelineEvent>('timeline_events', 'start_time'),
+
+    async vendors(weddingId) {
+      const { data, error } = await getSupabase()
+        .from('timeline_event_vendors')
+        .select('*')
+        .eq('wedding_id', weddingId);
+
+      if (error) throw error;
+      return data as TimelineEventVendor[];
+    },
+
+    async setVendors(weddingId, eventId, vendorIds) {
+      const user = await supabaseRepository.auth.getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error: deleteError } = await getSupabase()
+        .from('timeline_event_vendors')
+        .delete()
+        .eq('event_id', eventId);
+
+      if (deleteError) throw deleteError;
+      if (vendorIds.length === 0) return;
+
+      const { error } = await getSupabase()
+        .from('timeline_event_vendors')
+        .insert(vendorIds.map(vendorId => ({
+          event_id: eventId,
+          vendor_id: vendorId,
+          wedding_id: weddingId,
+          user_id: user.id,
+        })));
+
+      if (error) throw error;
+    }
+  },
+
+  seatingTables: plainTable<SeatingTable, NewSeatingTable>('seating_tables', 'table_number'),
+
+  seatingRules: plainTable<SeatingRule, NewSeatingRule>('seating_rules', 'created_at'),
+
+  mealOptions: plainTable<MealOption, NewMealOption>('meal_options', 'created_at'),
+
+  gifts: plainTable<Gift, NewGift>('gifts', 'received_date', 'created_at'),
+
+  budgetCategories: plainTable<BudgetCategory, NewBudgetCategory>('budget_categories', 'created_at'),
+
+  trash: {
+    async list(weddingId) {
+      const [tasks, vendors, guests] = await Promise.all(
+        (['tasks', 'vendors', 'guests'] as TrashTable[]).map(table => getSupabase()
+          .from(table)
+          .select('*')
+          .eq('wedding_id', weddingId)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false })
+        )
+      );
+
+      for (const result of [tasks, vendors, guests]) {
+        if (result.error) throw result.error;
+      }
+
+      return {
+        tasks: tasks.data as Task[],
+        vendors: vendors.data as Vendor[],
+        guests: guests.data as Guest[]
+      };
+    },
+
+    async restore(weddingId, table, id) {
+      const { error } = await getSupabase()
+        .from(table)
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async purge(weddingId, table, id) {
+      const { error } = await getSupabase()
+        .from(table)
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }
+  },
+
+  activity: {
+    async list(weddingId, limit) {
+      const { data, error } = await getSupabase()
+        .from('audit_log')
+        .select('*')
+        .eq('wedding_id', weddingId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as AuditEntry[];
+    }
+  },
+
+  subscriptions: {
+    subscribe(table, weddingId, { upsert, remove, reload }) {
+      const cached = OFFLINE_TABLES.find(t => t === table);
+      const filter = `wedding_id=eq.${weddingId}`;
+
+      // Realtime changes also go into the offline cache
+      const cache = (change: (rows: { id: string }[]) => { id: string }[]) => {
+        if (cached) offlineCache.update(cached, weddingId, change);
+      };
+
+      // supabase-js hands back the existing channel for a name it already knows,
+      // so every subscriber gets its own name
+      const channel = getSupabase()
+        .channel(`${table}:${weddingId}:${crypto.randomUUID()}`)
+        .on<{ id: string }>('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, payload => {
+          upsert(payload.new as never);
+          cache(rows => [...rows.filter(row => row.id !== payload.new.id), payload.new]);
+        })
+        .on<{ id: string }>('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, payload => {
+          upsert(payload.new as never);
+          cache(rows => [...rows.filter(row => row.id !== payload.new.id), payload.new]);
+        })
+        // Deletes can't be filtered and only carry the primary key; ids from other
+        // weddings simply match nothing
+        .on<{ id: string }>('postgres_changes', { event: 'DELETE', schema: 'public', table }, payload => {
+          remove(payload.old as never);
+          cache(rows => rows.filter(row => row.id !== payload.old.id));
+        })
+        .subscribe();
+
+      // Changes made offline never come through realtime
+      const stopListening = cached && reload ? onCacheChange(cached, reload) : () => {};
+
+      return () => {
+        stopListening();
+        channel.unsubscribe();
+      };
+    }
+  }
+};
+
+const OFFLINE_TABLES: OfflineTable[] = ['tasks', 'vendors', 'guests'];
+
+// Database functions
+export const dbFunctions = {
+  // Tasks
+  async getTasks() {
+    return repository().tasks.list(requireWedding());
+  },
+
+  async updateTask(id: string, task: Partial<Task>) {
+    await repository().tasks.update(requireWedding(), id, task);
+  },
+
+  // Passing null clears the override so the date follows the phase again
+  async updateTaskDueDate(id: string, dueDate: string | null) {
+    await repository().tasks.update(requireWedding(), id, dueDate
+      ? { due_date: dueDate, due_date_overridden: true }
+      : { due_date_overridden: false });
+  },
+
+  async addTask(taskName: string, phase: string, notes = '') {
+    return repository().tasks.add(requireWedding(), { task_name: taskName, phase, notes });
+  },
+
+  // Moves the task to the trash; trashFunctions restores or purges it
+  async deleteTask(id: string) {
+    await repository().tasks.remove(requireWedding(), id);
+  },
+
+  // Moves the tasks into the phase and persists their order
+  async reorderTasks(phase: string, taskIds: string[]) {
+    await repository().tasks.reorder(phase, taskIds);
+  },
+
+  // Vendors
+  async getVendors() {
+    return repository().vendors.list(requireWedding());
+  },
+
+  async addVendor(vendor: NewVendor) {
+    return repository().vendors.add(requireWedding(), vendor);
+  },
+
+  async updateVendor(id: string, vendor: Partial<Vendor>) {
+    await repository().vendors.update(requireWedding(), id, vendor);
+  },
+
+  // Moves the vendor to the trash; trashFunctions restores or purges it
+  async deleteVendor(id: string) {
+    await repository().vendors.remove(requireWedding(), id);
+  },
+
+  // Vendor payments
+  async getVendorPayments() {
+    return repository().vendorPayments.list(requireWedding());
+  },
+
+  async addVendorPayment(payment: NewVendorPayment) {
+    return repository().vendorPayments.add(requireWedding(), payment);
+  },
+
+  async updateVendorPayment(id: string, payment: Partial<VendorPayment>) {
+    await repository().vendorPayments.update(requireWedding(), id, payment);
+  },
+
+  async deleteVendorPayment(id: string) {
+    await repository().vendorPayments.remove(requireWedding(), id);
+  },
+
+  // Vendor appointments
+  async getVendorAppointments() {
+    return repository().vendorAppointments.list(requireWedding());
+  },
+
+  async addVendorAppointment(appointment: NewVendorAppointment) {
+    return repository().vendorAppointments.add(requireWedding(), appointment);
+  },
+
+  async deleteVendorAppointment(id: string) {
+    await repository().vendorAppointments.remove(requireWedding(), id);
+  },
+
+  // Guests
+  // Every guest, or with a query the matching page in its order
+  async getGuests(query?: GuestQuery) {
+    return repository().guests.list(requireWedding(), query);
+  },
+
+  async countGuests(query?: GuestQuery) {
+    return repository().guests.count(requireWedding(), query);
+  },
+
+  async getGuestOverview() {
+    return repository().guests.overview(requireWedding());
+  },
+
+  async getRelatedGuests(guests: Guest[]) {
+    return repository().guests.related(requireWedding(), guests);
+  },
+
+  async addGuest(guest: NewGuest) {
+    return repository().guests.add(requireWedding(), guest);
+  },
+
+  async addGuests(guests: NewGuest[]) {
+    return repository().guests.addMany(requireWedding(), guests);
+  },
+
+  async updateGuest(id: string, guest: Partial<Guest>) {
+    await repository().guests.update(requireWedding(), id, guest);
+  },
+
+  // Moves the guest to the trash; trashFunctions restores or purges it
+  async deleteGuest(id: string) {
+    await repository().guests.remove(requireWedding(), id);
+  },
+
+  // One call for the whole selection; returns the guests that couldn't be changed
+  async updateGuests(ids: string[], changes: GuestBulkChanges) {
+    return repository().guests.updateMany(requireWedding(), ids, changes);
+  },
+
+  async deleteGuests(ids: string[]) {
+    return repository().guests.updateMany(requireWedding(), ids, { deleted_at: new Date().toISOString() });
+  },
+
+  // Households
+  async getHouseholds() {
+    return repository().households.list(requireWedding());
+  },
+
+  async addHousehold(household: NewHousehold) {
+    return repository().households.add(requireWedding(), household);
+  },
+
+  async updateHousehold(id: string, household: Partial<Household>) {
+    await repository().households.update(requireWedding(), id, household);
+  },
+
+  // Its guests and gifts are left without a household
+  async deleteHousehold(id: string) {
+    await repository().households.remove(requireWedding(), id);
+  },
+
+  // Timeline
+  async getTimelineEvents() {
+    return repository().timeline.list(requireWedding());
+  },
+
+  async addTimelineEvent(event: NewTimelineEvent, vendorIds: string[]) {
+    const added = await repository().timeline.add(requireWedding(), event);
+    await dbFunctions.setTimelineEventVendors(added.id, vendorIds);
+    return added;
+  },
+
+  async updateTimelineEvent(id: string, event: Partial<TimelineEvent>) {
+    await repository().timeline.update(requireWedding(), id, event);
+  },
+
+  async deleteTimelineEvent(id: string) {
+    await repository().timeline.remove(requireWedding(), id);
+  },
+
+  async getTimelineEventVendors() {
+    return repository().timeline.vendors(requireWedding());
+  },
+
+  // Replaces the vendors assigned to an event
+  async setTimelineEventVendors(eventId: string, vendorIds: string[]) {
+    await repository().timeline.setVendors(requireWedding(), eventId, vendorIds);
+  },
+
+  // Seating
+  async getSeatingTables() {
+    return repository().seatingTables.list(requireWedding());
+  },
+
+  async addSeatingTable(table: NewSeatingTable) {
+    return repository().seatingTables.add(requireWedding(), table);
+  },
+
+  async updateSeatingTable(id: string, table: Partial<SeatingTable>) {
+    await repository().seatingTables.update(requireWedding(), id, table);
+  },
+
+  async deleteSeatingTable(id: string) {
+    await repository().seatingTables.remove(requireWedding(), id);
+  },
+
+  async getSeatingRules() {
+    return repository().seatingRules.list(requireWedding());
+  },
+
+  async addSeatingRule(guestId: string, otherGuestId: string, rule: SeatingRule['rule']) {
+    return repository().seatingRules.add(requireWedding(), { guest_id: guestId, other_guest_id: otherGuestId, rule });
+  },
+
+  async deleteSeatingRule(id: string) {
+    await repository().seatingRules.remove(requireWedding(), id);
+  },
+
+  // Meal options
+  async getMealOptions() {
+    return repository().mealOptions.list(requireWedding());
+  },
+
+  async addMealOption(name: string, description = '') {
+    return repository().mealOptions.add(requireWedding(), { name, description });
+  },
+
+  async updateMealOption(id: string, option: Partial<MealOption>) {
+    await repository().mealOptions.update(requireWedding(), id, option);
+  },
+
+  // Guests who chose it are left without a meal
+  async deleteMealOption(id: string) {
+    await repository().mealOptions.remove(requireWedding(), id);
+  },
+
+  // Gifts
+  async getGifts() {
+    return repository().gifts.list(requireWedding());
+  },
+
+  // A guest's gift is filed under their household if none is given
+  async addGift(gift: NewGift) {
+    return repository().gifts.add(requireWedding(), gift);
+  },
+
+  async updateGift(id: string, gift: Partial<Gift>) {
+    await repository().gifts.update(requireWedding(), id, gift);
+  },
+
+  async deleteGift(id: string) {
+    await repository().gifts.remove(requireWedding(), id);
+  },
+
+  // Budget
+  async updateWedding(wedding: Partial<Wedding>) {
+    await repository().weddings.update(requireWedding(), wedding);
+  },
+
+  async getBudgetCategories() {
+    return repository().budgetCategories.list(requireWedding());
+  },
+
+  async addBudgetCategory(name: string, plannedAmount: number) {
+    return repository().budgetCategories.add(requireWedding(), { name, planned_amount: plannedAmount });
+  },
+
+  async updateBudgetCategory(id: string, category: Partial<BudgetCategory>) {
+    await repository().budgetCategories.update(requireWedding(), id, category);
+  },
+
+  // Vendors in it are left without a category
+  async deleteBudgetCategory(id: string) {
+    await repository().budgetCategories.remove(requireWedding(), id);
+  },
+
+  // Checklist templates
+  async getChecklistTemplates() {
+    const { data, error } = await getSupabase()
+      .from('checklist_templates')
+      .select('*')
+      .order('created_at');
+
+    if (error) throw error;
+    return data as ChecklistTemplate[];
+  },
+
+  async addChecklistTemplate(name: string, description = '') {
+    const { data, error } = await getSupabase()
+      .from('checklist_templates')
+      .insert({ name, description })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as ChecklistTemplate;
+  },
+
+  async updateChecklistTemplate(id: string, template: Partial<ChecklistTemplate>) {
+    const { error } = await getSupabase()
+      .from('checklist_templates')
+      .update(template)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async deleteChecklistTemplate(id: string) {
+    const { error } = await getSupabase()
+      .from('checklist_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getTemplateTasks(templateId: string) {
+    const { data, error } = await getSupabase()
+      .from('checklist_template_tasks')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('position')
+      .order('created_at');
+
+    if (error) throw error;
+    return data as ChecklistTemplateTask[];
+  },
+
+  async addTemplateTask(templateId: string, taskName: string, phase: string, position: number) {
+    const { data, error } = await getSupabase()
+      .from('checklist_template_tasks')
+      .insert({
+        template_id: templateId,
+        task_name: taskName,
+        phase,
+        position,
       })
-      .subscribe();
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as ChecklistTemplateTask;
+  },
+
+  async updateTemplateTask(id: string, task: Partial<ChecklistTemplateTask>) {
+    const { error } = await getSupabase()
+      .from('checklist_template_tasks')
+      .update(task)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async reorderTemplateTasks(phase: string, taskIds: string[]) {
+    const { error } = await getSupabase().rpc('reorder_template_tasks', {
+      p_phase: phase,
+      p_task_ids: taskIds,
+    });
+
+    if (error) throw error;
+  },
+
+  // Pushes template changes to its clients; completed tasks are left untouched
+  async syncChecklistTemplate(templateId: string, weddingId?: string) {
+    const { data, error } = await getSupabase().rpc('sync_checklist_template', {
+      p_template_id: templateId,
+      p_wedding_id: weddingId ?? null,
+    });
+
+    if (error) throw error;
+    return data as number;
+  },
+
+  async assignChecklistTemplate(weddingId: string, templateId: string) {
+    const { error } = await getSupabase().rpc('assign_checklist_template', {
+      p_wedding_id: weddingId,
+      p_template_id: templateId,
+    });
+
+    if (error) throw error;
+  },
+
+  async getActivity(limit = 50) {
+    return repository().activity.list(requireWedding(), limit);
+  },
+
+  // Admin functions
+  async getAllActivity(limit = 100) {
+    const { data, error } = await getSupabase()
+      .from('audit_log')
+      .select('*, wedding:weddings(couple_names)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as ClientAuditEntry[];
+  },
+
+  // Every client with their checklist progress, counted by the server in the same query
+  async getAllWeddings(): Promise<ClientWedding[]> {
+    const { data, error } = await getSupabase()
+      .from('weddings')
+      .select('*, wedding_members(role, profiles(email)), tasks(count), completed_tasks:tasks(count)')
+      .is('tasks.deleted_at', null)
+      .is('completed_tasks.deleted_at', null)
+      .eq('completed_tasks.completed', true)
+      .order('created_at', { ascending: false })
+      .overrideTypes<ClientWeddingRow[], { merge: false }>();
+
+    if (error) throw error;
+    return data.map(({ wedding_members, tasks, completed_tasks, ...wedding }) => ({
+      ...wedding,
+      owner_email: wedding_members.find(member => member.role === 'owner')?.profiles?.email ?? null,
+      progress: taskProgress(tasks[0]?.count ?? 0, completed_tasks[0]?.count ?? 0),
+    }));
   }
 };
+
+// Wedding membership functions
+export const weddingFunctions = {
+  getCurrentWeddingId() {
+    return currentWeddingId;
+  },
+
+  selectWedding(weddingId: string | null) {
+    currentWeddingId = weddingId;
+    if (weddingId) localStorage.setItem(CURRENT_WEDDING_KEY, weddingId);
+    else localStorage.removeItem(CURRENT_WEDDING_KEY);
+  },
+
+  async getMyWeddings() {
+    const user = await authFunctions.getCurrentUser();
+    if (!user) throw new Error('Not authenticated');
+
+    return repository().weddings.getMemberships(user.id);
+  },
+
+  async createWedding(coupleNames: string, weddingDate?: string, templateId?: string) {
+    return repository().weddings.create(coupleNames, weddingDate, templateId);
+  },
+
+  async getMembers() {
+    const { data, error } = await getSupabase().rpc('get_wedding_members', {
+      p_wedding_id: requireWedding(),
+    });
+
+    if (error) throw error;
+    return data as WeddingMember[];
+  },
+
+  async updateMemberRole(userId: string, role: WeddingRole) {
+    const { error } = await getSupabase()
+      .from('wedding_members')
+      .update({ role })
+      .eq('wedding_id', requireWedding())
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  // Also how members leave a wedding themselves
+  async removeMember(userId: string) {
+    const { error } = await getSupabase()
+      .from('wedding_members')
+      .delete()
+      .eq('wedding_id', requireWedding())
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  async getInvites() {
+    const { data, error } = await getSupabase()
+      .from('wedding_invites')
+      .select('*')
+      .eq('wedding_id', requireWedding())
+      .is('accepted_at', null)
+      .order('created_at');
+
+    if (error) throw error;
+    return data as WeddingInvite[];
+  },
+
+  async inviteMember(email: string, role: WeddingRole) {
+    const { data, error } = await getSupabase()
+      .from('wedding_invites')
+      .insert({
+        wedding_id: requireWedding(),
+        email,
+        role,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as WeddingInvite;
+  },
+
+  async deleteInvite(id: string) {
+    const { error } = await getSupabase()
+      .from('wedding_invites')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Public: the sign-up page reads this before there is an account
+  async getInvite(token: string) {
+    const { data, error } = await getSupabase().rpc('get_wedding_invite', { p_token: token });
+
+    if (error) throw error;
+    return data as WeddingInvitePreview | null;
+  },
+
+  async acceptInvite(token: string) {
+    const { data, error } = await getSupabase().rpc('accept_wedding_invite', { p_token: token });
+
+    if (error) throw error;
+    return data as string;
+  },
+
+  getInviteUrl(token: string) {
+    return `${window.location.origin}/invite/${token}`;
+  }
+};
+
+// Public RSVP functions (no login required)
+export const rsvpFunctions = {
+  async getInvitation(token: string) {
+    const { data, error } = await getSupabase().rpc('get_rsvp', { p_token: token });
+
+    if (error) throw error;
+    return data as RsvpInvitation | null;
+  },
+
+  async submitResponses(token: string, responses: RsvpResponse[]) {
+    const { error } = await getSupabase().rpc('submit_rsvp', {
+      p_token: token,
+      p_responses: responses,
+    });
+
+    if (error) throw error;
+  },
+
+  getRsvpUrl(token: string) {
+    return `${window.location.origin}/rsvp/${token}`;
+  }
+};
+
+// Calendar feed functions
+export const calendarFunctions = {
+  getFeedUrl(token: string) {
+    return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+  },
+
+  // Issues a new token so the old feed URL stops working
+  async resetFeedToken() {
+    const calendarToken = crypto.randomUUID();
+    await dbFunctions.updateWedding({ calendar_token: calendarToken });
+    return calendarToken;
+  }
+};
+
+// Trash functions
+// Deleted tasks, vendors and guests wait here until restored, purged by hand
+// or emptied by the nightly `purge_trash` job
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashTable = 'tasks' | 'vendors' | 'guests';
+
+// Something just moved to the trash, named for the undo toast
+export interface TrashedRecord {
+  table: TrashTable;
+  id: string;
+  label: string;
+}
+
+export interface Trash {
+  tasks: Task[];
+  vendors: Vendor[];
+  guests: Guest[];
+}
+
+export const trashFunctions = {
+  async getTrash() {
+    return repository().trash.list(requireWedding());
+  },
+
+  async restore(table: TrashTable, id: string) {
+    await repository().trash.restore(requireWedding(), table, id);
+  },
+
+  // Deletes for good; there is no undo
+  async purge(table: TrashTable, id: string) {
+    await repository().trash.purge(requireWedding(), table, id);
+  }
+};
+
+// Sync functions
+// Replays changes queued offline, in order, once the connection is back
+let syncing: Promise<void> | null = null;
+
+const newConflict = (mutation: QueuedMutation, changes: Partial<SyncConflict>): SyncConflict => ({
+  id: crypto.randomUUID(),
+  mutation,
+  fields: [],
+  ...changes
+});
+
+// Sends one queued change; returns a conflict when the server's copy was changed
+// or removed in the meantime
+const replayMutation = async (mutation: QueuedMutation) => {
+  if (mutation.op === 'insert') {
+    // Sent already if the connection dropped before the reply came back
+    const { error } = await getSupabase()
+      .from(mutation.table)
+      .upsert(mutation.values, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw error;
+    return null;
+  }
+
+  const { data: server, error } = await getSupabase()
+    .from(mutation.table)
+    .select('*')
+    .eq('id', mutation.recordId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!server) return newConflict(mutation, { message: 'It was permanently deleted' });
+
+  const { apply, conflicts } = mergeUpdate(server, mutation);
+
+  if (Object.keys(apply).length > 0) {
+    const { error: updateError } = await getSupabase()
+      .from(mutation.table)
+      .update(apply)
+      .eq('id', mutation.recordId);
+
+    if (updateError) throw updateError;
+  }
+
+  return conflicts.length > 0 ? newConflict(mutation, { fields: conflicts }) : null;
+};
+
+const replayQueue = async () => {
+  const changed = new Set<OfflineTable>();
+  const addConflict = (conflict: SyncConflict) =>
+    updateSyncState({ conflicts: [...getSyncState().conflicts, conflict] });
+
+  updateSyncState({ syncing: true, pending: await offlineQueue.count() });
+
+  try {
+    for (const mutation of await offlineQueue.all()) {
+      try {
+        const conflict = await replayMutation(mutation);
+        if (conflict) addConflict(conflict);
+      } catch (err: any) {
+        // Still offline; the rest waits for the next attempt
+        if (isNetworkError(err)) {
+          updateSyncState({ online: false });
+          return;
+        }
+        addConflict(newConflict(mutation, { message: err.message }));
+      }
+
+      await offlineQueue.remove(mutation.seq!);
+      changed.add(mutation.table);
+    }
+
+    updateSyncState({ online: true, lastSyncedAt: new Date().toISOString() });
+  } finally {
+    updateSyncState({ syncing: false });
+    changed.forEach(notifyCacheChange);
+  }
+};
+
+export const syncFunctions = {
+  // Safe to call repeatedly; a sync already under way is shared
+  sync() {
+    // Nothing is ever queued with the in-memory backend
+    if (repository().kind === 'memory') return Promise.resolve();
+
+    if (!syncing) {
+      syncing = replayQueue().finally(() => {
+        syncing = null;
+      });
+    }
+    return syncing;
+  },
+
+  // Sends this device's values for the conflicting fields after all
+  async keepMine(conflict: SyncConflict) {
+    const { table, recordId } = conflict.mutation;
+    const { error } = await getSupabase()
+      .from(table)
+      .update(Object.fromEntries(conflict.fields.map(field => [field.field, field.mine])))
+      .eq('id', recordId);
+
+    if (error) throw error;
+    this.dismiss(conflict);
+  },
+
+  dismiss(conflict: SyncConflict) {
+    updateSyncState({ conflicts: getSyncState().conflicts.filter(c => c.id !== conflict.id) });
+  }
+};
+
+// Real-time subscriptions
+// Each subscription listens to one wedding and hands back a change to apply to
+// the rows already loaded, so a busy table isn't reloaded on every edit.
+// Callbacks take the same updater functions as a React state setter.
+export type RowsChange<T> = (rows: T[]) => T[];
+
+interface RowSubscription<T> {
+  table: string;
+  sort: (a: T, b: T) => number;
+  key?: (row: T) => string;
+  // Rows that stay in the table but drop out of the list, like ones in the trash
+  hidden?: (row: T) => boolean;
+  // Reads the whole list again, for changes made while offline
+  reload?: () => Promise<T[]>;
+}
+
+const byId = (row: { id: string }) => row.id;
+const inTrash = (row: { deleted_at: string | null }) => !!row.deleted_at;
+
+const subscribeRows = <T extends object>(
+  weddingId: string,
+  callback: (change: RowsChange<T>) => void,
+  { table, sort, key = byId as unknown as (row: T) => string, hidden, reload }: RowSubscription<T>
+) => {
+  const handlers: RowHandlers<T> = {
+    upsert: row => callback(rows => {
+      const others = rows.filter(r => key(r) !== key(row));
+      return hidden?.(row) ? others : [...others, row].sort(sort);
+    }),
+    remove: removed => callback(rows => rows.filter(row => key(row) !== key(removed as T))),
+    reload: reload && (() => {
+      reload().then(rows => callback(() => rows));
+    })
+  };
+
+  const unsubscribe = repository().subscriptions.subscribe(table, weddingId, handlers);
+  return { unsubscribe };
+};
+
+export const subscriptions = {
+  subscribeTasks(weddingId: string, callback: (change: RowsChange<Task>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'tasks', sort: orderBy<Task>('position', 'created_at'), hidden: inTrash, reload: dbFunctions.getTasks });
+  },
+
+  subscribeVendors(weddingId: string, callback: (change: RowsChange<Vendor>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'vendors', sort: orderBy<Vendor>('created_at'), hidden: inTrash, reload: dbFunctions.getVendors });
+  },
+
+  subscribeGuests(weddingId: string, callback: (change: RowsChange<Guest>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'guests', sort: orderBy<Guest>('created_at'), hidden: inTrash, reload: dbFunctions.getGuests });
+  },
+
+  // For views that read guests a page at a time: hands over each changed guest,
+  // or null when guests were removed or reloaded and the view should read again
+  subscribeGuestChanges(weddingId: string, callback: (guest: Guest | null) => void) {
+    const unsubscribe = repository().subscriptions.subscribe<Guest>('guests', weddingId, {
+      upsert: callback,
+      remove: () => callback(null),
+      reload: () => callback(null)
+    });
+    return { unsubscribe };
+  },
+
+  subscribeHouseholds(weddingId: string, callback: (change: RowsChange<Household>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'households', sort: orderBy<Household>('name') });
+  },
+
+  subscribeVendorPayments(weddingId: string, callback: (change: RowsChange<VendorPayment>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'vendor_payments', sort: orderBy<VendorPayment>('due_date', 'created_at') });
+  },
+
+  subscribeVendorAppointments(weddingId: string, callback: (change: RowsChange<VendorAppointment>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'vendor_appointments', sort: orderBy<VendorAppointment>('starts_at') });
+  },
+
+  subscribeTimelineEvents(weddingId: string, callback: (change: RowsChange<TimelineEvent>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'timeline_events', sort: orderBy<TimelineEvent>('start_time') });
+  },
+
+  subscribeTimelineEventVendors(weddingId: string, callback: (change: RowsChange<TimelineEventVendor>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'timeline_event_vendors', sort: orderBy<TimelineEventVendor>('created_at'), key: link => `${link.event_id}:${link.vendor_id}` });
+  },
+
+  subscribeSeatingTables(weddingId: string, callback: (change: RowsChange<SeatingTable>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'seating_tables', sort: orderBy<SeatingTable>('table_number') });
+  },
+
+  subscribeSeatingRules(weddingId: string, callback: (change: RowsChange<SeatingRule>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'seating_rules', sort: orderBy<SeatingRule>('created_at') });
+  },
+
+  subscribeMealOptions(weddingId: string, callback: (change: RowsChange<MealOption>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'meal_options', sort: orderBy<MealOption>('created_at') });
+  },
+
+  subscribeGifts(weddingId: string, callback: (change: RowsChange<Gift>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'gifts', sort: orderBy<Gift>('received_date', 'created_at') });
+  },
+
+  subscribeBudgetCategories(weddingId: string, callback: (change: RowsChange<BudgetCategory>) => void) {
+    return subscribeRows(weddingId, callback, { table: 'budget_categories', sort: orderBy<BudgetCategory>('created_at') });
+  }
+};
+
+// VITE_DATA_BACKEND=memory runs the app on sample data with no network
+setRepository(import.meta.env.VITE_DATA_BACKEND === 'memory' ? createMemoryRepository(demoSeed()) : supabaseRepository);
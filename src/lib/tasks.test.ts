@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from './supabase';
+import { TASK_PHASES, getTaskProgress, getTasksByDueDate, getTasksByPhase } from './tasks';
+
+const task = (changes: Partial<Task>): Task => ({
+  id: crypto.randomUUID(),
+  wedding_id: 'wedding',
+  user_id: null,
+  task_name: 'Task',
+  phase: TASK_PHASES[0],
+  completed: false,
+  due_date: null,
+  due_date_overridden: false,
+  notes: '',
+  position: 0,
+  template_task_id: null,
+  updated_by: null,
+  updated_by_admin: false,
+  updated_at: null,
+  deleted_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  ...changes
+});
+
+describe('getTasksByPhase', () => {
+  it('lists every phase in order, including empty ones', () => {
+    expect(getTasksByPhase([]).map(group => group.phase)).toEqual(TASK_PHASES);
+  });
+
+  it('groups tasks by phase in their saved order', () => {
+    const groups = getTasksByPhase([
+      task({ task_name: 'Second', phase: TASK_PHASES[1], position: 1 }),
+      task({ task_name: 'Venue', phase: TASK_PHASES[0], position: 0 }),
+      task({ task_name: 'First', phase: TASK_PHASES[1], position: 0 })
+    ]);
+
+    expect(groups[0].tasks.map(t => t.task_name)).toEqual(['Venue']);
+    expect(groups[1].tasks.map(t => t.task_name)).toEqual(['First', 'Second']);
+    expect(groups.slice(2).every(group => group.tasks.length === 0)).toBe(true);
+  });
+
+  it('leaves out tasks in phases the checklist no longer has', () => {
+    const groups = getTasksByPhase([task({ phase: 'Someday' })]);
+    expect(groups.flatMap(group => group.tasks)).toEqual([]);
+  });
+});
+
+describe('getTaskProgress', () => {
+  it('is zero with no tasks', () => {
+    expect(getTaskProgress([])).toEqual({ total: 0, completed: 0, percentage: 0 });
+  });
+
+  it('rounds to a whole percentage', () => {
+    expect(getTaskProgress([{ completed: true }, { completed: false }, { completed: false }]))
+      .toEqual({ total: 3, completed: 1, percentage: 33 });
+    expect(getTaskProgress([{ completed: true }, { completed: true }, { completed: false }]).percentage).toBe(67);
+  });
+
+  it('is 100 only when everything is done', () => {
+    expect(getTaskProgress([{ completed: true }, { completed: true }]).percentage).toBe(100);
+  });
+});
+
+describe('getTasksByDueDate', () => {
+  it('splits open tasks into overdue, this month and upcoming', () => {
+    const views = getTasksByDueDate([
+      task({ task_name: 'Late', due_date: '2026-03-01' }),
+      task({ task_name: 'Soon', due_date: '2026-03-20' }),
+      task({ task_name: 'Later', due_date: '2026-05-01' }),
+      task({ task_name: 'Done', due_date: '2026-03-01', completed: true }),
+      task({ task_name: 'Undated' })
+    ], '2026-03-10');
+
+    expect(views.overdue.map(t => t.task_name)).toEqual(['Late']);
+    expect(views.dueThisMonth.map(t => t.task_name)).toEqual(['Soon']);
+    expect(views.upcoming.map(t => t.task_name)).toEqual(['Later']);
+  });
+});
@@ -0,0 +1,49 @@
+import { Task } from './supabase';
+import { parseISODate, toISODate, today } from './dates';
+
+export const TASK_PHASES = [
+  '12+ Months Before',
+  '8-12 Months Before',
+  '4-8 Months Before',
+  '2-4 Months Before',
+  '1-2 Months Before',
+  '1 Week Before'
+];
+
+const byDueDate = (a: Task, b: Task) => (a.due_date ?? '').localeCompare(b.due_date ?? '');
+
+// Splits open tasks into overdue, due this month and upcoming, each sorted by due date
+export const getTasksByDueDate = (tasks: Task[], asOf = today()) => {
+  const date = parseISODate(asOf);
+  const endOfMonth = toISODate(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+  const open = tasks.filter(task => !task.completed && task.due_date).sort(byDueDate);
+
+  return {
+    overdue: open.filter(task => task.due_date! < asOf),
+    dueThisMonth: open.filter(task => task.due_date! >= asOf && task.due_date! <= endOfMonth),
+    upcoming: open.filter(task => task.due_date! > endOfMonth)
+  };
+};
+
+// Every phase in checklist order, each with its tasks in their saved order
+export const getTasksByPhase = (tasks: Task[]) =>
+  TASK_PHASES.map(phase => ({
+    phase,
+    tasks: tasks
+      .filter(task => task.phase === phase)
+      .sort((a, b) => a.position - b.position)
+  }));
+
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  percentage: number;
+}
+
+// Share of tasks done, rounded to a whole percentage
+export const taskProgress = (total: number, completed: number): TaskProgress => ({
+  total, completed, percentage: total > 0 ? Math.round((completed / total) * 100) : 0
+});
+
+export const getTaskProgress = (tasks: Pick<Task, 'completed'>[]) =>
+  taskProgress(tasks.length, tasks.filter(task => task.completed).length);
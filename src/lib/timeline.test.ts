@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { TimelineEvent, TimelineEventVendor, Vendor } from './supabase';
+import { eventsOverlap, findVendorOverlaps, formatTime, sortEvents, timelineToRows } from './timeline';
+
+const event = (id: string, start_time: string, end_time: string | null = null): TimelineEvent => ({
+  id, wedding_id: 'wedding', user_id: null, title: id, start_time, end_time, location: '', responsible: '', notes: '',
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+const link = (event_id: string, vendor_id: string): TimelineEventVendor => ({
+  event_id, vendor_id, wedding_id: 'wedding', user_id: null, created_at: '2026-01-01T00:00:00Z'
+});
+
+const band = { id: 'band', name: 'The Swing Set' } as Vendor;
+
+describe('the day-of timeline', () => {
+  it('formats Postgres times for people', () => {
+    expect(formatTime('00:30:00')).toBe('12:30 AM');
+    expect(formatTime('17:05')).toBe('5:05 PM');
+  });
+
+  it('finds events that share any time', () => {
+    expect(eventsOverlap(event('ceremony', '16:00', '16:45'), event('photos', '16:30', '17:30'))).toBe(true);
+    expect(eventsOverlap(event('ceremony', '16:00', '16:45'), event('cocktails', '16:45', '18:00'))).toBe(false);
+    expect(eventsOverlap(event('toast', '19:00'), event('dinner', '18:30', '20:00'))).toBe(true);
+  });
+
+  it('follows the reception past midnight', () => {
+    const dancing = event('dancing', '23:00', '01:00');
+
+    expect(eventsOverlap(dancing, event('after-party', '00:30', '01:30'))).toBe(true);
+    expect(eventsOverlap(dancing, event('send-off', '01:00', '01:15'))).toBe(false);
+    expect(eventsOverlap(event('send-off', '01:00'), event('after-party', '00:30', '01:30'))).toBe(true);
+    expect(eventsOverlap(event('hair', '07:00', '09:00'), event('after-party', '00:30', '01:30'))).toBe(false);
+  });
+
+  it('lists events after midnight at the end of the day', () => {
+    const events = [event('after-party', '00:30'), event('hair', '07:00'), event('dancing', '21:00')];
+
+    expect(sortEvents(events).map(e => e.id)).toEqual(['hair', 'dancing', 'after-party']);
+    expect(timelineToRows(events, [], []).slice(1).map(row => row[0])).toEqual(['7:00 AM', '9:00 PM', '12:30 AM']);
+  });
+
+  it('warns when a vendor is booked for two events at once', () => {
+    const events = [event('dancing', '23:00', '01:00'), event('after-party', '00:30', '01:30'), event('toast', '20:00')];
+    const links = [link('dancing', 'band'), link('after-party', 'band'), link('toast', 'band')];
+
+    expect(findVendorOverlaps(events, links, [band])).toEqual([{
+      vendorId: 'band',
+      eventIds: ['dancing', 'after-party'],
+      message: 'The Swing Set is booked for "dancing" (11:00 PM – 1:00 AM) and "after-party" (12:30 AM – 1:30 AM) at the same time'
+    }]);
+  });
+});
@@ -0,0 +1,105 @@
+import { TimelineEvent, TimelineEventVendor, Vendor } from './supabase';
+
+export interface TimelineConflict {
+  vendorId: string;
+  eventIds: [string, string];
+  message: string;
+}
+
+// 'HH:MM[:SS]' from Postgres -> minutes after midnight
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+export const formatTimeRange = (event: TimelineEvent) =>
+  event.end_time ? `${formatTime(event.start_time)} – ${formatTime(event.end_time)}` : formatTime(event.start_time);
+
+// The schedule runs from the morning into the small hours: times before this
+// belong to the night after the reception, not the start of the day
+const DAY_STARTS_AT = 5 * 60;
+
+// Minutes into the wedding day, with times after midnight following the evening
+export const toDayMinutes = (time: string) => {
+  const minutes = toMinutes(time);
+  return minutes < DAY_STARTS_AT ? minutes + 24 * 60 : minutes;
+};
+
+// Events without an end count as one minute; an end before the start runs past midnight
+const eventSpan = (event: TimelineEvent) => {
+  const start = toDayMinutes(event.start_time);
+  if (!event.end_time) return [start, start + 1];
+
+  const end = toDayMinutes(event.end_time);
+  return [start, end <= start ? end + 24 * 60 : end];
+};
+
+export const eventsOverlap = (a: TimelineEvent, b: TimelineEvent) => {
+  const [aStart, aEnd] = eventSpan(a);
+  const [bStart, bEnd] = eventSpan(b);
+  return aStart < bEnd && bStart < aEnd;
+};
+
+export const sortEvents = (events: TimelineEvent[]) =>
+  [...events].sort((a, b) => toDayMinutes(a.start_time) - toDayMinutes(b.start_time) || a.title.localeCompare(b.title));
+
+export const vendorIdsByEvent = (links: TimelineEventVendor[]) => {
+  const byEvent = new Map<string, string[]>();
+  links.forEach(link => byEvent.set(link.event_id, [...(byEvent.get(link.event_id) ?? []), link.vendor_id]));
+  return byEvent;
+};
+
+// A vendor's slice of the day, or every event when no vendor is given
+export const eventsForVendor = (events: TimelineEvent[], links: TimelineEventVendor[], vendorId: string | null) => {
+  if (!vendorId) return sortEvents(events);
+
+  const eventIds = new Set(links.filter(link => link.vendor_id === vendorId).map(link => link.event_id));
+  return sortEvents(events.filter(event => eventIds.has(event.id)));
+};
+
+// The same vendor booked for two events at once
+export const findVendorOverlaps = (events: TimelineEvent[], links: TimelineEventVendor[], vendors: Vendor[]) => {
+  const conflicts: TimelineConflict[] = [];
+
+  vendors.forEach(vendor => {
+    const vendorEvents = eventsForVendor(events, links, vendor.id);
+
+    vendorEvents.forEach((event, index) => {
+      vendorEvents.slice(index + 1).forEach(other => {
+        if (!eventsOverlap(event, other)) return;
+        conflicts.push({
+          vendorId: vendor.id,
+          eventIds: [event.id, other.id],
+          message: `${vendor.name} is booked for "${event.title}" (${formatTimeRange(event)}) and "${other.title}" (${formatTimeRange(other)}) at the same time`
+        });
+      });
+    });
+  });
+
+  return conflicts;
+};
+
+// Spreadsheet rows for the given events, header first
+export const timelineToRows = (events: TimelineEvent[], links: TimelineEventVendor[], vendors: Vendor[]) => {
+  const vendorNames = new Map(vendors.map(vendor => [vendor.id, vendor.name]));
+  const byEvent = vendorIdsByEvent(links);
+
+  return [
+    ['Start', 'End', 'Event', 'Location', 'Responsible', 'Vendors', 'Notes'],
+    ...sortEvents(events).map(event => [
+      formatTime(event.start_time),
+      event.end_time ? formatTime(event.end_time) : '',
+      event.title,
+      event.location ?? '',
+      event.responsible ?? '',
+      (byEvent.get(event.id) ?? []).map(id => vendorNames.get(id) ?? '').filter(Boolean).join(', '),
+      event.notes ?? ''
+    ])
+  ];
+};
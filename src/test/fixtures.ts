@@ -0,0 +1,30 @@
+import { Guest } from '../lib/supabase';
+
+// A complete guest row for unit tests; pass only the fields a test cares about
+export const guest = (changes: Partial<Guest> = {}): Guest => ({
+  id: crypto.randomUUID(),
+  wedding_id: 'wedding',
+  user_id: null,
+  first_name: 'Guest',
+  last_name: 'Name',
+  email: '',
+  phone: '',
+  group_name: '',
+  rsvp_status: 'attending',
+  plus_one: '',
+  plus_one_allowed: false,
+  plus_one_of: null,
+  household_id: null,
+  table_number: null,
+  meal_option_id: null,
+  dietary_tags: [],
+  dietary_restrictions: '',
+  rsvp_token: '',
+  rsvp_responded_at: null,
+  updated_by: null,
+  updated_by_admin: false,
+  updated_at: null,
+  deleted_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  ...changes
+});
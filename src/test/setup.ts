@@ -0,0 +1,20 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { setRepository } from '../lib/repository';
+import { createMemoryRepository, demoSeed } from '../lib/memoryRepository';
+import { weddingFunctions } from '../lib/supabase';
+
+// Every test starts signed in as the demo couple on a fresh in-memory backend;
+// tests that need other data call setRepository themselves
+beforeEach(() => {
+  localStorage.clear();
+  window.history.replaceState(null, '', '/');
+  weddingFunctions.selectWedding(null);
+  setRepository(createMemoryRepository(demoSeed()));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
@@ -0,0 +1,170 @@
+// RFC 5545 calendar generation. Shared by the planner's .ics download and the
+// `calendar-feed` edge function, so it must stay free of imports.
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: string; // 'YYYY-MM-DD' for all-day events, otherwise an ISO timestamp
+  end?: string | null;
+  allDay: boolean;
+  busy?: boolean;
+}
+
+// The planner rows a wedding calendar is built from
+export interface CalendarSource {
+  wedding: { id: string; couple_names: string; wedding_date: string | null };
+  tasks: { id: string; task_name: string; phase: string; due_date: string | null; completed: boolean; notes?: string | null }[];
+  vendors: { id: string; name: string }[];
+  payments: { id: string; vendor_id: string; kind: string; amount: number | string; due_date: string | null; status: string }[];
+  appointments: { id: string; vendor_id: string; title: string; starts_at: string; ends_at: string | null; location?: string | null; notes?: string | null }[];
+}
+
+const UID_DOMAIN = 'adorist-wedding-planner';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+// Long lines are split into CRLF + space continuations without breaking a UTF-8 character
+const foldLine = (line: string) => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatDateValue = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+
+const eventLines = (event: CalendarEvent, stamp: string) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(event.end ?? nextDay(event.start))}`);
+  } else {
+    const end = event.end ?? new Date(new Date(event.start).getTime() + 60 * 60 * 1000).toISOString();
+    lines.push(`DTSTART:${formatDateTime(event.start)}`);
+    lines.push(`DTEND:${formatDateTime(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  lines.push(`TRANSP:${event.busy ? 'OPAQUE' : 'TRANSPARENT'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now = new Date()) => {
+  const stamp = formatDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Adorist//Wedding Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// UIDs come from row ids, so re-importing or refreshing updates events in place
+export const weddingCalendarEvents = ({ wedding, tasks, vendors, payments, appointments }: CalendarSource) => {
+  const vendorNames = new Map(vendors.map(vendor => [vendor.id, vendor.name]));
+  const events: CalendarEvent[] = [];
+
+  if (wedding.wedding_date) {
+    events.push({
+      uid: `wedding-${wedding.id}`,
+      summary: `${wedding.couple_names} Wedding`,
+      start: wedding.wedding_date,
+      allDay: true,
+      busy: true
+    });
+  }
+
+  tasks.forEach(task => {
+    if (!task.due_date) return;
+    events.push({
+      uid: `task-${task.id}`,
+      summary: `${task.completed ? '✓ ' : ''}${task.task_name}`,
+      description: [`Checklist: ${task.phase}`, task.notes].filter(Boolean).join('\n'),
+      start: task.due_date,
+      allDay: true
+    });
+  });
+
+  // Vendors in the trash are left out, along with their payments and appointments
+  payments.forEach(payment => {
+    const vendor = vendorNames.get(payment.vendor_id);
+    if (!payment.due_date || !vendor) return;
+    events.push({
+      uid: `payment-${payment.id}`,
+      summary: `${payment.status === 'paid' ? '✓ ' : ''}${vendor} ${payment.kind} payment due`,
+      description: `Amount: $${Number(payment.amount).toFixed(2)}`,
+      start: payment.due_date,
+      allDay: true
+    });
+  });
+
+  appointments.forEach(appointment => {
+    const vendor = vendorNames.get(appointment.vendor_id);
+    if (!vendor) return;
+    events.push({
+      uid: `appointment-${appointment.id}`,
+      summary: `${appointment.title} (${vendor})`,
+      description: appointment.notes ?? undefined,
+      location: appointment.location ?? undefined,
+      start: appointment.starts_at,
+      end: appointment.ends_at,
+      allDay: false,
+      busy: true
+    });
+  });
+
+  return events;
+};
+
+export const buildWeddingCalendar = (source: CalendarSource, now = new Date()) =>
+  buildCalendar(`${source.wedding.couple_names} Wedding`, weddingCalendarEvents(source), now);
@@ -0,0 +1,70 @@
+// Serves a couple's private iCalendar feed:
+//   GET /functions/v1/calendar-feed?token=<weddings.calendar_token>
+//
+// Calendar apps can't send a Supabase JWT, so this function is deployed with
+// `supabase functions deploy calendar-feed --no-verify-jwt` and the token is
+// the only credential. Rows are read with the service role, scoped to the
+// wedding the token belongs to.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildWeddingCalendar } from '../_shared/ical.ts';
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const notFound = () => new Response('Calendar not found', { status: 404 });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+  }
+
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!TOKEN_PATTERN.test(token)) return notFound();
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: wedding, error } = await supabase
+      .from('weddings')
+      .select('id, couple_names, wedding_date')
+      .eq('calendar_token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!wedding) return notFound();
+
+    const [tasks, vendors, payments, appointments] = await Promise.all([
+      supabase.from('tasks').select('id, task_name, phase, due_date, completed, notes').eq('wedding_id', wedding.id).is('deleted_at', null),
+      supabase.from('vendors').select('id, name').eq('wedding_id', wedding.id).is('deleted_at', null),
+      supabase.from('vendor_payments').select('id, vendor_id, kind, amount, due_date, status').eq('wedding_id', wedding.id),
+      supabase.from('vendor_appointments').select('id, vendor_id, title, starts_at, ends_at, location, notes').eq('wedding_id', wedding.id)
+    ]);
+
+    for (const result of [tasks, vendors, payments, appointments]) {
+      if (result.error) throw result.error;
+    }
+
+    const calendar = buildWeddingCalendar({
+      wedding,
+      tasks: tasks.data ?? [],
+      vendors: vendors.data ?? [],
+      payments: payments.data ?? [],
+      appointments: appointments.data ?? []
+    });
+
+    return new Response(req.method === 'HEAD' ? null : calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="wedding.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Could not build calendar', { status: 500 });
+  }
+});
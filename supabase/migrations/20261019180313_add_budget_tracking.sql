@@ -0,0 +1,143 @@
+/*
+  # Budget Tracking
+
+  1. New Tables
+    - `budget_categories`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text)
+      - `planned_amount` (numeric)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `profiles`
+      - `total_budget` (numeric) - overall wedding budget
+    - `vendors`
+      - `estimated_cost` (numeric)
+      - `actual_cost` (numeric)
+      - `category_id` (uuid, references budget_categories)
+    - Existing free-text `vendors.cost` values are parsed into `estimated_cost`
+      where they hold a single amount such as "$2,500" or "2.5k". Ranges and
+      other notes are left in `cost` untouched.
+    - Existing vendors are linked to a default category based on their type.
+
+  3. Security
+    - Enable RLS on `budget_categories`
+    - Users manage their own categories, admins can read all
+*/
+
+-- Overall budget on the profile
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS total_budget numeric(12,2);
+
+-- Budget categories table
+CREATE TABLE IF NOT EXISTS budget_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  planned_amount numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE budget_categories ENABLE ROW LEVEL SECURITY;
+
+-- Numeric vendor costs
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS estimated_cost numeric(12,2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS actual_cost numeric(12,2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES budget_categories(id) ON DELETE SET NULL;
+
+-- RLS Policies for budget categories
+CREATE POLICY "Users can manage own budget categories"
+  ON budget_categories
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all budget categories"
+  ON budget_categories
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Insert default budget categories for new users (trigger function)
+CREATE OR REPLACE FUNCTION create_default_budget_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO budget_categories (user_id, name) VALUES
+    (NEW.id, 'Venue'),
+    (NEW.id, 'Catering'),
+    (NEW.id, 'Photography'),
+    (NEW.id, 'Videography'),
+    (NEW.id, 'Attire'),
+    (NEW.id, 'Flowers & Decor'),
+    (NEW.id, 'Music & Entertainment'),
+    (NEW.id, 'Cake'),
+    (NEW.id, 'Stationery'),
+    (NEW.id, 'Transportation'),
+    (NEW.id, 'Hair & Makeup'),
+    (NEW.id, 'Rings'),
+    (NEW.id, 'Officiant'),
+    (NEW.id, 'Honeymoon'),
+    (NEW.id, 'Other');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to add default budget categories when profile is created
+CREATE OR REPLACE TRIGGER create_default_budget_categories_trigger
+  AFTER INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_budget_categories();
+
+-- Backfill default categories for existing profiles
+INSERT INTO budget_categories (user_id, name)
+SELECT p.id, c.name
+FROM profiles p
+CROSS JOIN (VALUES
+  ('Venue'), ('Catering'), ('Photography'), ('Videography'), ('Attire'),
+  ('Flowers & Decor'), ('Music & Entertainment'), ('Cake'), ('Stationery'),
+  ('Transportation'), ('Hair & Makeup'), ('Rings'), ('Officiant'),
+  ('Honeymoon'), ('Other')
+) AS c(name)
+WHERE NOT EXISTS (
+  SELECT 1 FROM budget_categories bc WHERE bc.user_id = p.id
+);
+
+-- Parse single amounts out of the legacy free-text cost
+UPDATE vendors
+SET estimated_cost =
+  replace(substring(cost FROM '\d[\d,]*(?:\.\d+)?'), ',', '')::numeric
+  * CASE WHEN cost ~* 'k\s*$' THEN 1000 ELSE 1 END
+WHERE estimated_cost IS NULL
+  AND cost ~* '^\s*\$?\s*\d[\d,]*(\.\d+)?\s*k?\s*$';
+
+-- Link existing vendors to a category based on their type
+UPDATE vendors v
+SET category_id = bc.id
+FROM budget_categories bc
+WHERE v.category_id IS NULL
+  AND bc.user_id = v.user_id
+  AND bc.name = CASE
+    WHEN v.type ~* 'venue' THEN 'Venue'
+    WHEN v.type ~* 'cater|food' THEN 'Catering'
+    WHEN v.type ~* 'photo' THEN 'Photography'
+    WHEN v.type ~* 'video' THEN 'Videography'
+    WHEN v.type ~* 'dress|attire|tux|suit' THEN 'Attire'
+    WHEN v.type ~* 'flor|flower|decor' THEN 'Flowers & Decor'
+    WHEN v.type ~* 'dj|band|music|entertain' THEN 'Music & Entertainment'
+    WHEN v.type ~* 'cake|baker' THEN 'Cake'
+    WHEN v.type ~* 'invit|station' THEN 'Stationery'
+    WHEN v.type ~* 'transport|limo|shuttle' THEN 'Transportation'
+    WHEN v.type ~* 'hair|makeup' THEN 'Hair & Makeup'
+    WHEN v.type ~* 'ring|jewel' THEN 'Rings'
+    WHEN v.type ~* 'officiant' THEN 'Officiant'
+    ELSE 'Other'
+  END;
+
+-- Budget changes from a partner or planner show up without a reload
+ALTER PUBLICATION supabase_realtime ADD TABLE budget_categories;
@@ -0,0 +1,59 @@
+/*
+  # Vendor Payment Schedules
+
+  1. New Tables
+    - `vendor_payments`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `vendor_id` (uuid, references vendors)
+      - `kind` (text) - 'deposit', 'installment' or 'final'
+      - `amount` (numeric)
+      - `due_date` (date)
+      - `status` (text) - 'scheduled' or 'paid'
+      - `paid_date` (date)
+      - `notes` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `vendor_payments`
+    - Users manage their own payments, admins can read all
+*/
+
+-- Vendor payments table
+CREATE TABLE IF NOT EXISTS vendor_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL DEFAULT 'installment' CHECK (kind IN ('deposit', 'installment', 'final')),
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  due_date date,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'paid')),
+  paid_date date,
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vendor_payments_vendor_id_idx ON vendor_payments(vendor_id);
+
+ALTER TABLE vendor_payments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for vendor payments
+CREATE POLICY "Users can manage own vendor payments"
+  ON vendor_payments
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all vendor payments"
+  ON vendor_payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- A payment marked paid on one device updates the budget on the others
+ALTER PUBLICATION supabase_realtime ADD TABLE vendor_payments;
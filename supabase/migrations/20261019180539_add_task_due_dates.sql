@@ -0,0 +1,77 @@
+/*
+  # Task Due Dates
+
+  1. Changes
+    - `tasks`
+      - `due_date` (date) - computed from the phase and the wedding date
+      - `due_date_overridden` (boolean) - set when the couple picks their own date
+
+  2. Functions
+    - `phase_due_date(phase, wedding_date)` maps a checklist phase to the date
+      its window closes, e.g. '4-8 Months Before' is due 4 months out
+    - `set_task_due_date()` fills in `due_date` on insert and when the phase
+      changes, unless the date has been overridden
+    - `recompute_task_due_dates()` refreshes every non-overridden task when
+      `profiles.wedding_date` changes
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_date date;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_date_overridden boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION phase_due_date(p_phase text, p_wedding_date date)
+RETURNS date AS $$
+  SELECT CASE p_phase
+    WHEN '12+ Months Before' THEN (p_wedding_date - interval '12 months')::date
+    WHEN '8-12 Months Before' THEN (p_wedding_date - interval '8 months')::date
+    WHEN '4-8 Months Before' THEN (p_wedding_date - interval '4 months')::date
+    WHEN '2-4 Months Before' THEN (p_wedding_date - interval '2 months')::date
+    WHEN '1-2 Months Before' THEN (p_wedding_date - interval '1 month')::date
+    WHEN '1 Week Before' THEN p_wedding_date - 7
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fill in due dates for new tasks and tasks moved to another phase
+CREATE OR REPLACE FUNCTION set_task_due_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.due_date_overridden THEN
+    NEW.due_date := phase_due_date(
+      NEW.phase,
+      (SELECT wedding_date FROM profiles WHERE id = NEW.user_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER set_task_due_date_trigger
+  BEFORE INSERT OR UPDATE OF phase, due_date_overridden ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_due_date();
+
+-- Recompute due dates when the wedding date changes
+CREATE OR REPLACE FUNCTION recompute_task_due_dates()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tasks
+  SET due_date = phase_due_date(phase, NEW.wedding_date)
+  WHERE user_id = NEW.id
+    AND NOT due_date_overridden;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER recompute_task_due_dates_trigger
+  AFTER UPDATE OF wedding_date ON profiles
+  FOR EACH ROW
+  WHEN (OLD.wedding_date IS DISTINCT FROM NEW.wedding_date)
+  EXECUTE FUNCTION recompute_task_due_dates();
+
+-- Backfill existing tasks
+UPDATE tasks t
+SET due_date = phase_due_date(t.phase, p.wedding_date)
+FROM profiles p
+WHERE p.id = t.user_id
+  AND NOT t.due_date_overridden;
@@ -0,0 +1,59 @@
+/*
+  # Task Notes and Ordering
+
+  1. Changes
+    - `tasks`
+      - `notes` (text)
+      - `position` (integer) - sort order within the task's phase
+
+  2. Functions
+    - `set_task_position()` appends new tasks to the end of their phase when
+      no position is given
+    - `reorder_tasks(phase, task_ids)` moves the given tasks into a phase and
+      numbers them in array order; runs as the caller so RLS still applies
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS notes text DEFAULT '';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS position integer;
+
+-- Backfill positions from the existing creation order
+UPDATE tasks t
+SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, phase ORDER BY created_at, task_name) - 1 AS position
+  FROM tasks
+) ordered
+WHERE ordered.id = t.id
+  AND t.position IS NULL;
+
+-- Append new tasks to the end of their phase
+CREATE OR REPLACE FUNCTION set_task_position()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.position IS NULL THEN
+    SELECT coalesce(max(position) + 1, 0) INTO NEW.position
+    FROM tasks
+    WHERE user_id = NEW.user_id AND phase = NEW.phase;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER set_task_position_trigger
+  BEFORE INSERT ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_position();
+
+ALTER TABLE tasks ALTER COLUMN position SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_user_phase_position_idx ON tasks(user_id, phase, position);
+
+-- Move tasks into a phase in the given order
+CREATE OR REPLACE FUNCTION reorder_tasks(p_phase text, p_task_ids uuid[])
+RETURNS void AS $$
+  UPDATE tasks
+  SET phase = p_phase,
+      position = array_position(p_task_ids, id) - 1
+  WHERE id = ANY(p_task_ids);
+$$ LANGUAGE sql;
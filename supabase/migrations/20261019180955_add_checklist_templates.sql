@@ -0,0 +1,438 @@
+/*
+  # Checklist Templates
+
+  1. New Tables
+    - `checklist_templates`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `description` (text)
+      - `is_default` (boolean) - used when a profile has no template chosen
+      - `created_at` (timestamp)
+    - `checklist_template_tasks`
+      - `id` (uuid, primary key)
+      - `template_id` (uuid, references checklist_templates)
+      - `task_name` (text)
+      - `phase` (text)
+      - `position` (integer)
+      - `notes` (text)
+      - `retired` (boolean) - kept for history but no longer handed out
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `profiles`
+      - `template_id` (uuid, references checklist_templates)
+      - `template_synced_at` (timestamp) - last time template changes were pushed
+    - `tasks`
+      - `template_task_id` (uuid, references checklist_template_tasks) -
+        cleared when the couple renames or moves the task, so template
+        pushes leave their version alone
+    - The 60 hard-coded default tasks become the "Standard" template, and
+      "Destination wedding" and "Elopement" templates are added
+    - `create_default_tasks()` now copies the profile's template instead of
+      inserting a fixed list
+
+  3. Functions
+    - `assign_checklist_template(user_id, template_id)` switches a client to
+      another template, keeping completed and custom tasks
+    - `sync_checklist_template(template_id, user_id)` pushes template edits to
+      clients: new tasks are added, renamed or moved tasks are updated and
+      retired tasks are removed. Completed tasks and tasks the couple has
+      changed are never touched.
+    - `reorder_template_tasks(phase, task_ids)`
+
+  4. Security
+    - Enable RLS on both template tables
+    - Anyone can read templates so one can be chosen at signup
+    - Admins manage templates
+*/
+
+-- Checklist templates table
+CREATE TABLE IF NOT EXISTS checklist_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text DEFAULT '',
+  is_default boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE checklist_templates ENABLE ROW LEVEL SECURITY;
+
+-- Checklist template tasks table
+CREATE TABLE IF NOT EXISTS checklist_template_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid REFERENCES checklist_templates(id) ON DELETE CASCADE NOT NULL,
+  task_name text NOT NULL,
+  phase text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  notes text DEFAULT '',
+  retired boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE checklist_template_tasks ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES checklist_templates(id) ON DELETE SET NULL;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS template_synced_at timestamptz;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS template_task_id uuid REFERENCES checklist_template_tasks(id) ON DELETE SET NULL;
+
+-- RLS Policies for checklist templates
+CREATE POLICY "Anyone can read checklist templates"
+  ON checklist_templates
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage checklist templates"
+  ON checklist_templates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for checklist template tasks
+CREATE POLICY "Authenticated users can read checklist template tasks"
+  ON checklist_template_tasks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage checklist template tasks"
+  ON checklist_template_tasks
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Seed templates
+DO $$
+DECLARE
+  v_template uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM checklist_templates) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO checklist_templates (name, description, is_default)
+  VALUES ('Standard', 'Our full twelve-month checklist', true)
+  RETURNING id INTO v_template;
+
+  INSERT INTO checklist_template_tasks (template_id, task_name, phase, position) VALUES
+    (v_template, 'Set your wedding date', '12+ Months Before', 0),
+    (v_template, 'Determine your budget', '12+ Months Before', 1),
+    (v_template, 'Create guest list (rough estimate)', '12+ Months Before', 2),
+    (v_template, 'Research and book venue', '12+ Months Before', 3),
+    (v_template, 'Hire wedding planner (optional)', '12+ Months Before', 4),
+    (v_template, 'Start shopping for wedding dress', '12+ Months Before', 5),
+    (v_template, 'Research photographers', '12+ Months Before', 6),
+    (v_template, 'Book photographer', '12+ Months Before', 7),
+    (v_template, 'Research caterers', '12+ Months Before', 8),
+    (v_template, 'Book caterer', '12+ Months Before', 9),
+    (v_template, 'Send save the dates', '8-12 Months Before', 0),
+    (v_template, 'Register for gifts', '8-12 Months Before', 1),
+    (v_template, 'Book officiant', '8-12 Months Before', 2),
+    (v_template, 'Book florist', '8-12 Months Before', 3),
+    (v_template, 'Book band/DJ', '8-12 Months Before', 4),
+    (v_template, 'Order wedding dress', '8-12 Months Before', 5),
+    (v_template, 'Book transportation', '8-12 Months Before', 6),
+    (v_template, 'Plan honeymoon', '8-12 Months Before', 7),
+    (v_template, 'Book honeymoon', '8-12 Months Before', 8),
+    (v_template, 'Engagement party planning', '8-12 Months Before', 9),
+    (v_template, 'Order invitations', '4-8 Months Before', 0),
+    (v_template, 'Plan bachelor/bachelorette parties', '4-8 Months Before', 1),
+    (v_template, 'Book hair and makeup artists', '4-8 Months Before', 2),
+    (v_template, 'Choose wedding cake', '4-8 Months Before', 3),
+    (v_template, 'Plan rehearsal dinner', '4-8 Months Before', 4),
+    (v_template, 'Shop for wedding rings', '4-8 Months Before', 5),
+    (v_template, 'Plan ceremony details', '4-8 Months Before', 6),
+    (v_template, 'Choose wedding party attire', '4-8 Months Before', 7),
+    (v_template, 'Book accommodations for guests', '4-8 Months Before', 8),
+    (v_template, 'Apply for marriage license', '4-8 Months Before', 9),
+    (v_template, 'Send wedding invitations', '2-4 Months Before', 0),
+    (v_template, 'Finalize guest list', '2-4 Months Before', 1),
+    (v_template, 'Order wedding favors', '2-4 Months Before', 2),
+    (v_template, 'Plan seating arrangements', '2-4 Months Before', 3),
+    (v_template, 'Write wedding vows', '2-4 Months Before', 4),
+    (v_template, 'Schedule dress fittings', '2-4 Months Before', 5),
+    (v_template, 'Confirm all vendors', '2-4 Months Before', 6),
+    (v_template, 'Create wedding day timeline', '2-4 Months Before', 7),
+    (v_template, 'Plan wedding day emergency kit', '2-4 Months Before', 8),
+    (v_template, 'Confirm honeymoon details', '2-4 Months Before', 9),
+    (v_template, 'Final dress fitting', '1-2 Months Before', 0),
+    (v_template, 'Confirm final headcount with caterer', '1-2 Months Before', 1),
+    (v_template, 'Finalize seating chart', '1-2 Months Before', 2),
+    (v_template, 'Confirm transportation details', '1-2 Months Before', 3),
+    (v_template, 'Break in wedding shoes', '1-2 Months Before', 4),
+    (v_template, 'Prepare wedding day emergency kit', '1-2 Months Before', 5),
+    (v_template, 'Confirm ceremony and reception details', '1-2 Months Before', 6),
+    (v_template, 'Get marriage license', '1-2 Months Before', 7),
+    (v_template, 'Prepare vendor payments', '1-2 Months Before', 8),
+    (v_template, 'Delegate wedding day responsibilities', '1-2 Months Before', 9),
+    (v_template, 'Confirm all vendor arrival times', '1 Week Before', 0),
+    (v_template, 'Pack for honeymoon', '1 Week Before', 1),
+    (v_template, 'Prepare wedding day timeline for vendors', '1 Week Before', 2),
+    (v_template, 'Rehearsal and rehearsal dinner', '1 Week Before', 3),
+    (v_template, 'Get manicure/pedicure', '1 Week Before', 4),
+    (v_template, 'Prepare vendor tip envelopes', '1 Week Before', 5),
+    (v_template, 'Confirm weather backup plans', '1 Week Before', 6),
+    (v_template, 'Rest and relax', '1 Week Before', 7),
+    (v_template, 'Prepare emergency contact list', '1 Week Before', 8),
+    (v_template, 'Final venue walkthrough', '1 Week Before', 9);
+
+  INSERT INTO checklist_templates (name, description)
+  VALUES ('Destination wedding', 'Travel, legal paperwork and guest logistics abroad')
+  RETURNING id INTO v_template;
+
+  INSERT INTO checklist_template_tasks (template_id, task_name, phase, position) VALUES
+    (v_template, 'Set your wedding date', '12+ Months Before', 0),
+    (v_template, 'Determine your budget, including travel', '12+ Months Before', 1),
+    (v_template, 'Choose your destination', '12+ Months Before', 2),
+    (v_template, 'Research local marriage requirements', '12+ Months Before', 3),
+    (v_template, 'Research and book venue or resort', '12+ Months Before', 4),
+    (v_template, 'Hire a local wedding planner', '12+ Months Before', 5),
+    (v_template, 'Create guest list (rough estimate)', '12+ Months Before', 6),
+    (v_template, 'Book photographer', '12+ Months Before', 7),
+    (v_template, 'Send save the dates with travel details', '8-12 Months Before', 0),
+    (v_template, 'Reserve a room block for guests', '8-12 Months Before', 1),
+    (v_template, 'Create wedding website with travel information', '8-12 Months Before', 2),
+    (v_template, 'Book officiant', '8-12 Months Before', 3),
+    (v_template, 'Book local florist', '8-12 Months Before', 4),
+    (v_template, 'Order wedding dress', '8-12 Months Before', 5),
+    (v_template, 'Register for gifts', '8-12 Months Before', 6),
+    (v_template, 'Book your flights', '8-12 Months Before', 7),
+    (v_template, 'Send wedding invitations', '4-8 Months Before', 0),
+    (v_template, 'Check passports and visas', '4-8 Months Before', 1),
+    (v_template, 'Book hair and makeup artists', '4-8 Months Before', 2),
+    (v_template, 'Plan welcome event', '4-8 Months Before', 3),
+    (v_template, 'Plan rehearsal dinner', '4-8 Months Before', 4),
+    (v_template, 'Arrange guest transportation', '4-8 Months Before', 5),
+    (v_template, 'Shop for wedding rings', '4-8 Months Before', 6),
+    (v_template, 'Track RSVPs and guest travel plans', '2-4 Months Before', 0),
+    (v_template, 'Confirm legal paperwork for marriage', '2-4 Months Before', 1),
+    (v_template, 'Plan seating arrangements', '2-4 Months Before', 2),
+    (v_template, 'Write wedding vows', '2-4 Months Before', 3),
+    (v_template, 'Confirm all vendors', '2-4 Months Before', 4),
+    (v_template, 'Create wedding day timeline', '2-4 Months Before', 5),
+    (v_template, 'Prepare welcome bags', '2-4 Months Before', 6),
+    (v_template, 'Final dress fitting', '1-2 Months Before', 0),
+    (v_template, 'Confirm final headcount with venue', '1-2 Months Before', 1),
+    (v_template, 'Prepare vendor payments', '1-2 Months Before', 2),
+    (v_template, 'Pack passports and marriage paperwork', '1-2 Months Before', 3),
+    (v_template, 'Arrange transport for dress and attire', '1-2 Months Before', 4),
+    (v_template, 'Travel to destination', '1 Week Before', 0),
+    (v_template, 'Meet local vendors in person', '1 Week Before', 1),
+    (v_template, 'Final venue walkthrough', '1 Week Before', 2),
+    (v_template, 'Rehearsal and rehearsal dinner', '1 Week Before', 3),
+    (v_template, 'Distribute welcome bags', '1 Week Before', 4),
+    (v_template, 'Rest and relax', '1 Week Before', 5);
+
+  INSERT INTO checklist_templates (name, description)
+  VALUES ('Elopement', 'A short list for an intimate ceremony')
+  RETURNING id INTO v_template;
+
+  INSERT INTO checklist_template_tasks (template_id, task_name, phase, position) VALUES
+    (v_template, 'Set your wedding date', '8-12 Months Before', 0),
+    (v_template, 'Determine your budget', '8-12 Months Before', 1),
+    (v_template, 'Choose your elopement location', '8-12 Months Before', 2),
+    (v_template, 'Research marriage license requirements', '4-8 Months Before', 0),
+    (v_template, 'Book photographer', '4-8 Months Before', 1),
+    (v_template, 'Book officiant', '4-8 Months Before', 2),
+    (v_template, 'Choose wedding attire', '4-8 Months Before', 3),
+    (v_template, 'Shop for wedding rings', '4-8 Months Before', 4),
+    (v_template, 'Book accommodations', '2-4 Months Before', 0),
+    (v_template, 'Obtain permits for ceremony location', '2-4 Months Before', 1),
+    (v_template, 'Write wedding vows', '2-4 Months Before', 2),
+    (v_template, 'Book hair and makeup artist (optional)', '2-4 Months Before', 3),
+    (v_template, 'Plan celebration dinner', '2-4 Months Before', 4),
+    (v_template, 'Get marriage license', '1-2 Months Before', 0),
+    (v_template, 'Final attire fitting', '1-2 Months Before', 1),
+    (v_template, 'Confirm all vendors', '1-2 Months Before', 2),
+    (v_template, 'Prepare vendor payments', '1-2 Months Before', 3),
+    (v_template, 'Plan announcement to family and friends', '1-2 Months Before', 4),
+    (v_template, 'Confirm weather backup plans', '1 Week Before', 0),
+    (v_template, 'Pack for the trip', '1 Week Before', 1),
+    (v_template, 'Rest and relax', '1 Week Before', 2);
+END $$;
+
+-- Link existing profiles and their seeded tasks to the Standard template
+UPDATE profiles
+SET template_id = (SELECT id FROM checklist_templates WHERE is_default ORDER BY created_at LIMIT 1),
+    template_synced_at = now()
+WHERE template_id IS NULL;
+
+UPDATE tasks t
+SET template_task_id = tt.id
+FROM profiles p, checklist_template_tasks tt
+WHERE t.user_id = p.id
+  AND tt.template_id = p.template_id
+  AND tt.task_name = t.task_name
+  AND tt.phase = t.phase
+  AND t.template_task_id IS NULL;
+
+-- Fall back to the default template when none is chosen at signup
+CREATE OR REPLACE FUNCTION set_profile_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template_id IS NULL THEN
+    NEW.template_id := (SELECT id FROM checklist_templates WHERE is_default ORDER BY created_at LIMIT 1);
+  END IF;
+  NEW.template_synced_at := now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER set_profile_template_trigger
+  BEFORE INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_profile_template();
+
+-- Insert default tasks for new users from their template (trigger function)
+CREATE OR REPLACE FUNCTION create_default_tasks()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO tasks (user_id, task_name, phase, notes, position, template_task_id)
+  SELECT NEW.id, task_name, phase, notes, position, id
+  FROM checklist_template_tasks
+  WHERE template_id = NEW.template_id
+    AND NOT retired;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A task the couple renames or moves is theirs from then on. Pushes set the
+-- template's own name and phase, so those keep the link.
+CREATE OR REPLACE FUNCTION detach_customized_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template_task_id IS NOT NULL
+    AND (NEW.task_name IS DISTINCT FROM OLD.task_name OR NEW.phase IS DISTINCT FROM OLD.phase)
+    AND NOT EXISTS (
+      SELECT 1 FROM checklist_template_tasks
+      WHERE id = NEW.template_task_id
+        AND task_name = NEW.task_name
+        AND phase = NEW.phase
+    )
+  THEN
+    NEW.template_task_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER detach_customized_task_trigger
+  BEFORE UPDATE OF task_name, phase ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION detach_customized_task();
+
+-- Switch a client to another template
+CREATE OR REPLACE FUNCTION assign_checklist_template(p_user_id uuid, p_template_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this checklist template';
+  END IF;
+
+  -- Open tasks from the previous template make way for the new one
+  DELETE FROM tasks
+  WHERE user_id = p_user_id
+    AND template_task_id IS NOT NULL
+    AND NOT completed;
+
+  UPDATE profiles
+  SET template_id = p_template_id,
+      template_synced_at = now()
+  WHERE id = p_user_id;
+
+  INSERT INTO tasks (user_id, task_name, phase, notes, template_task_id)
+  SELECT p_user_id, tt.task_name, tt.phase, tt.notes, tt.id
+  FROM checklist_template_tasks tt
+  WHERE tt.template_id = p_template_id
+    AND NOT tt.retired
+    AND NOT EXISTS (
+      SELECT 1 FROM tasks t
+      WHERE t.user_id = p_user_id AND t.template_task_id = tt.id
+    )
+  ORDER BY tt.phase, tt.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Push template changes to every client on the template, or just one
+CREATE OR REPLACE FUNCTION sync_checklist_template(p_template_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can push checklist templates';
+  END IF;
+
+  FOR v_profile IN
+    SELECT * FROM profiles
+    WHERE template_id = p_template_id
+      AND (p_user_id IS NULL OR id = p_user_id)
+  LOOP
+    -- Retired template tasks are removed unless already completed
+    DELETE FROM tasks t
+    USING checklist_template_tasks tt
+    WHERE t.user_id = v_profile.id
+      AND t.template_task_id = tt.id
+      AND tt.retired
+      AND NOT t.completed;
+
+    -- Renamed or re-phased template tasks are updated unless already
+    -- completed; tasks the couple changed were detached (detach_customized_task)
+    UPDATE tasks t
+    SET task_name = tt.task_name,
+        phase = tt.phase
+    FROM checklist_template_tasks tt
+    WHERE t.user_id = v_profile.id
+      AND t.template_task_id = tt.id
+      AND NOT tt.retired
+      AND NOT t.completed
+      AND (t.task_name <> tt.task_name OR t.phase <> tt.phase);
+
+    -- Only tasks added since the last push are inserted, so tasks the couple
+    -- deleted on purpose do not come back
+    INSERT INTO tasks (user_id, task_name, phase, notes, template_task_id)
+    SELECT v_profile.id, tt.task_name, tt.phase, tt.notes, tt.id
+    FROM checklist_template_tasks tt
+    WHERE tt.template_id = p_template_id
+      AND NOT tt.retired
+      AND tt.created_at > coalesce(v_profile.template_synced_at, v_profile.created_at)
+      AND NOT EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.user_id = v_profile.id AND t.template_task_id = tt.id
+      )
+    ORDER BY tt.phase, tt.position;
+
+    UPDATE profiles SET template_synced_at = now() WHERE id = v_profile.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move template tasks into a phase in the given order
+CREATE OR REPLACE FUNCTION reorder_template_tasks(p_phase text, p_task_ids uuid[])
+RETURNS void AS $$
+  UPDATE checklist_template_tasks
+  SET phase = p_phase,
+      position = array_position(p_task_ids, id) - 1
+  WHERE id = ANY(p_task_ids);
+$$ LANGUAGE sql;
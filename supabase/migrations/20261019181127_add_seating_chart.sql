@@ -0,0 +1,101 @@
+/*
+  # Seating Chart
+
+  1. New Tables
+    - `seating_tables`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `table_number` (integer) - matches `guests.table_number`
+      - `name` (text)
+      - `capacity` (integer)
+      - `shape` (text) - 'round', 'rectangle' or 'square'
+      - `created_at` (timestamp)
+    - `seating_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `guest_id` (uuid, references guests)
+      - `other_guest_id` (uuid, references guests)
+      - `rule` (text) - 'together' or 'apart'
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Guests stay the source of truth for seat assignments through
+      `guests.table_number`; a table is created for every number already in use
+
+  3. Security
+    - Enable RLS on both tables
+    - Users manage their own tables and rules, admins can read all
+*/
+
+-- Seating tables table
+CREATE TABLE IF NOT EXISTS seating_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  table_number integer NOT NULL,
+  name text DEFAULT '',
+  capacity integer NOT NULL DEFAULT 8 CHECK (capacity > 0),
+  shape text NOT NULL DEFAULT 'round' CHECK (shape IN ('round', 'rectangle', 'square')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, table_number)
+);
+
+ALTER TABLE seating_tables ENABLE ROW LEVEL SECURITY;
+
+-- Seating rules table
+CREATE TABLE IF NOT EXISTS seating_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  guest_id uuid REFERENCES guests(id) ON DELETE CASCADE NOT NULL,
+  other_guest_id uuid REFERENCES guests(id) ON DELETE CASCADE NOT NULL,
+  rule text NOT NULL CHECK (rule IN ('together', 'apart')),
+  created_at timestamptz DEFAULT now(),
+  CHECK (guest_id <> other_guest_id)
+);
+
+ALTER TABLE seating_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for seating tables
+CREATE POLICY "Users can manage own seating tables"
+  ON seating_tables
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all seating tables"
+  ON seating_tables
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for seating rules
+CREATE POLICY "Users can manage own seating rules"
+  ON seating_rules
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all seating rules"
+  ON seating_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Create tables for numbers guests are already assigned to
+INSERT INTO seating_tables (user_id, table_number, name)
+SELECT DISTINCT user_id, table_number, 'Table ' || table_number
+FROM guests
+WHERE table_number IS NOT NULL
+ON CONFLICT (user_id, table_number) DO NOTHING;
+
+-- Everyone with the seating chart open sees tables and rules change as they're made
+ALTER PUBLICATION supabase_realtime ADD TABLE seating_tables, seating_rules;
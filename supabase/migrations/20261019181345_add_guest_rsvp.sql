@@ -0,0 +1,76 @@
+/*
+  # Public Guest RSVP
+
+  1. Changes
+    - `guests`
+      - `rsvp_token` (uuid) - unguessable token for the guest's public RSVP link
+      - `rsvp_responded_at` (timestamp) - when the guest last answered
+
+  2. Functions
+    - `get_rsvp(token)` returns the couple, the wedding date and the invited
+      guests for a token, or null when the token is unknown
+    - `submit_rsvp(token, responses)` records each guest's answer, plus-one
+      and dietary restrictions
+
+  3. Security
+    - Both functions are SECURITY DEFINER and callable by `anon`, so guests
+      never need a login and never get direct access to the `guests` table.
+      A token only ever reads or writes the guests it was issued for.
+*/
+
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS rsvp_token uuid NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS rsvp_responded_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS guests_rsvp_token_idx ON guests(rsvp_token);
+
+-- Look up an invitation by token
+CREATE OR REPLACE FUNCTION get_rsvp(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', p.couple_names,
+    'wedding_date', p.wedding_date,
+    'guests', jsonb_build_array(jsonb_build_object(
+      'id', g.id,
+      'first_name', g.first_name,
+      'last_name', g.last_name,
+      'rsvp_status', g.rsvp_status,
+      'plus_one', g.plus_one,
+      'dietary_restrictions', g.dietary_restrictions
+    ))
+  )
+  FROM guests g
+  JOIN profiles p ON p.id = g.user_id
+  WHERE g.rsvp_token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record answers for the guests on an invitation
+CREATE OR REPLACE FUNCTION submit_rsvp(p_token uuid, p_responses jsonb)
+RETURNS void AS $$
+DECLARE
+  v_response jsonb;
+  v_status text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM guests WHERE rsvp_token = p_token) THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  FOR v_response IN SELECT * FROM jsonb_array_elements(p_responses)
+  LOOP
+    v_status := v_response->>'rsvp_status';
+    IF v_status NOT IN ('attending', 'declined') THEN
+      RAISE EXCEPTION 'Invalid RSVP status: %', v_status;
+    END IF;
+
+    UPDATE guests
+    SET rsvp_status = v_status,
+        plus_one = coalesce(left(v_response->>'plus_one', 200), ''),
+        dietary_restrictions = coalesce(left(v_response->>'dietary_restrictions', 500), ''),
+        rsvp_responded_at = now()
+    WHERE id = (v_response->>'guest_id')::uuid
+      AND rsvp_token = p_token;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_rsvp(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_rsvp(uuid, jsonb) TO anon, authenticated;
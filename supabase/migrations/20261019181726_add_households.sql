@@ -0,0 +1,233 @@
+/*
+  # Households and Plus-Ones
+
+  1. New Tables
+    - `households`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text) - how the invitation is addressed, e.g. "The Garcia Family"
+      - `address_line1`, `address_line2`, `city`, `state`, `postal_code`, `country` (text)
+      - `primary_contact_id` (uuid, references guests)
+      - `rsvp_token` (uuid) - one RSVP link for the whole household
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `guests`
+      - `household_id` (uuid, references households) - guests without a
+        household are invited on their own
+      - `plus_one_allowed` (boolean) - the guest may bring someone
+      - `plus_one_of` (uuid, references guests) - set on the guest row that
+        fills another guest's plus-one
+    - Existing free-text `plus_one` names become real guest rows; the text
+      column is kept for history but no longer used
+    - Plus-ones move with their guest when the guest changes household
+
+  3. Functions
+    - `rsvp_guest_ids(token)` resolves a household or guest token to the
+      guests on that invitation
+    - `get_rsvp` and `submit_rsvp` now answer for the whole household and
+      create, rename or decline the plus-one guest row
+
+  4. Security
+    - Enable RLS on `households`
+    - Users manage their own households, admins can read all
+*/
+
+-- Households table
+CREATE TABLE IF NOT EXISTS households (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  address_line1 text DEFAULT '',
+  address_line2 text DEFAULT '',
+  city text DEFAULT '',
+  state text DEFAULT '',
+  postal_code text DEFAULT '',
+  country text DEFAULT '',
+  primary_contact_id uuid REFERENCES guests(id) ON DELETE SET NULL,
+  rsvp_token uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS households_rsvp_token_idx ON households(rsvp_token);
+
+-- Household membership and plus-ones on guests
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES households(id) ON DELETE SET NULL;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS plus_one_allowed boolean NOT NULL DEFAULT false;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS plus_one_of uuid REFERENCES guests(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS guests_household_id_idx ON guests(household_id);
+CREATE UNIQUE INDEX IF NOT EXISTS guests_plus_one_of_idx ON guests(plus_one_of);
+
+-- RLS Policies for households
+CREATE POLICY "Users can manage own households"
+  ON households
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all households"
+  ON households
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Plus-ones follow their guest when they move household
+CREATE OR REPLACE FUNCTION sync_plus_one_household()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE guests
+  SET household_id = NEW.household_id
+  WHERE plus_one_of = NEW.id
+    AND household_id IS DISTINCT FROM NEW.household_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_plus_one_household
+  AFTER UPDATE OF household_id ON guests
+  FOR EACH ROW
+  WHEN (OLD.household_id IS DISTINCT FROM NEW.household_id)
+  EXECUTE FUNCTION sync_plus_one_household();
+
+-- Turn free-text plus-one names into guest rows
+UPDATE guests SET plus_one_allowed = true
+WHERE trim(coalesce(plus_one, '')) <> '' AND plus_one_of IS NULL;
+
+INSERT INTO guests (user_id, first_name, last_name, group_name, rsvp_status, table_number, plus_one_of)
+SELECT
+  g.user_id,
+  split_part(trim(g.plus_one), ' ', 1),
+  trim(substr(trim(g.plus_one), length(split_part(trim(g.plus_one), ' ', 1)) + 1)),
+  g.group_name,
+  g.rsvp_status,
+  g.table_number,
+  g.id
+FROM guests g
+WHERE trim(coalesce(g.plus_one, '')) <> ''
+  AND g.plus_one_of IS NULL
+  AND NOT EXISTS (SELECT 1 FROM guests po WHERE po.plus_one_of = g.id);
+
+-- Guests on the invitation a token belongs to, not counting plus-ones
+CREATE OR REPLACE FUNCTION rsvp_guest_ids(p_token uuid)
+RETURNS SETOF uuid AS $$
+  SELECT g.id
+  FROM guests g
+  WHERE g.plus_one_of IS NULL
+    AND (
+      g.household_id IN (SELECT id FROM households WHERE rsvp_token = p_token)
+      OR EXISTS (
+        SELECT 1 FROM guests t
+        WHERE t.rsvp_token = p_token
+          AND (
+            (t.household_id IS NOT NULL AND g.household_id = t.household_id)
+            OR g.id = coalesce(t.plus_one_of, t.id)
+          )
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rsvp_guest_ids(uuid) FROM PUBLIC;
+
+-- Look up an invitation by household or guest token
+CREATE OR REPLACE FUNCTION get_rsvp(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', p.couple_names,
+    'wedding_date', p.wedding_date,
+    'household_name', h.name,
+    'guests', jsonb_agg(jsonb_build_object(
+      'id', g.id,
+      'first_name', g.first_name,
+      'last_name', g.last_name,
+      'rsvp_status', g.rsvp_status,
+      'dietary_restrictions', g.dietary_restrictions,
+      'plus_one_allowed', g.plus_one_allowed,
+      'plus_one', coalesce((
+        SELECT trim(po.first_name || ' ' || po.last_name)
+        FROM guests po
+        WHERE po.plus_one_of = g.id AND po.rsvp_status <> 'declined'
+      ), '')
+    ) ORDER BY g.created_at)
+  )
+  FROM guests g
+  JOIN profiles p ON p.id = g.user_id
+  LEFT JOIN households h ON h.id = g.household_id
+  WHERE g.id IN (SELECT rsvp_guest_ids(p_token))
+  GROUP BY p.couple_names, p.wedding_date, h.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record answers for the guests on an invitation
+CREATE OR REPLACE FUNCTION submit_rsvp(p_token uuid, p_responses jsonb)
+RETURNS void AS $$
+DECLARE
+  v_ids uuid[];
+  v_response jsonb;
+  v_status text;
+  v_guest guests;
+  v_plus_one text;
+  v_first_name text;
+BEGIN
+  SELECT array_agg(id) INTO v_ids FROM rsvp_guest_ids(p_token) AS id;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  FOR v_response IN SELECT * FROM jsonb_array_elements(p_responses)
+  LOOP
+    v_status := v_response->>'rsvp_status';
+    IF v_status NOT IN ('attending', 'declined') THEN
+      RAISE EXCEPTION 'Invalid RSVP status: %', v_status;
+    END IF;
+
+    UPDATE guests
+    SET rsvp_status = v_status,
+        dietary_restrictions = coalesce(left(v_response->>'dietary_restrictions', 500), ''),
+        rsvp_responded_at = now()
+    WHERE id = (v_response->>'guest_id')::uuid
+      AND id = ANY(v_ids)
+    RETURNING * INTO v_guest;
+
+    CONTINUE WHEN v_guest.id IS NULL OR NOT v_guest.plus_one_allowed;
+
+    v_plus_one := trim(coalesce(left(v_response->>'plus_one', 200), ''));
+
+    IF v_status = 'attending' AND v_plus_one <> '' THEN
+      v_first_name := split_part(v_plus_one, ' ', 1);
+
+      UPDATE guests
+      SET first_name = v_first_name,
+          last_name = trim(substr(v_plus_one, length(v_first_name) + 1)),
+          rsvp_status = 'attending',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id;
+
+      IF NOT FOUND THEN
+        INSERT INTO guests (user_id, household_id, plus_one_of, first_name, last_name, group_name, rsvp_status, rsvp_responded_at)
+        VALUES (v_guest.user_id, v_guest.household_id, v_guest.id, v_first_name,
+                trim(substr(v_plus_one, length(v_first_name) + 1)), v_guest.group_name, 'attending', now());
+      END IF;
+    ELSE
+      UPDATE guests
+      SET rsvp_status = 'declined',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_rsvp(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_rsvp(uuid, jsonb) TO anon, authenticated;
+
+-- New households show up in the guest list as soon as they're saved
+ALTER PUBLICATION supabase_realtime ADD TABLE households;
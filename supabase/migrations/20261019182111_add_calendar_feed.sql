@@ -0,0 +1,69 @@
+/*
+  # Calendar Feed
+
+  1. New Tables
+    - `vendor_appointments`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `vendor_id` (uuid, references vendors)
+      - `title` (text) - e.g. "Menu tasting"
+      - `starts_at` (timestamp)
+      - `ends_at` (timestamp, optional)
+      - `location` (text)
+      - `notes` (text)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `profiles`
+      - `calendar_token` (uuid) - secret for the subscribable .ics feed URL;
+        replacing it revokes the old URL
+
+  3. Security
+    - Enable RLS on `vendor_appointments`
+    - Users manage their own appointments, admins can read all
+    - The `calendar-feed` edge function looks profiles up by token with the
+      service role, so the token is the only credential a calendar app needs
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS calendar_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_calendar_token_idx ON profiles(calendar_token);
+
+-- Vendor appointments table
+CREATE TABLE IF NOT EXISTS vendor_appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz,
+  location text DEFAULT '',
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at IS NULL OR ends_at >= starts_at)
+);
+
+ALTER TABLE vendor_appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS vendor_appointments_vendor_id_idx ON vendor_appointments(vendor_id);
+
+-- RLS Policies for vendor appointments
+CREATE POLICY "Users can manage own vendor appointments"
+  ON vendor_appointments
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all vendor appointments"
+  ON vendor_appointments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Appointments booked by a partner appear in the vendor list right away
+ALTER PUBLICATION supabase_realtime ADD TABLE vendor_appointments;
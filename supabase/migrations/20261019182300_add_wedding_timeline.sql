@@ -0,0 +1,91 @@
+/*
+  # Wedding-Day Timeline
+
+  1. New Tables
+    - `timeline_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `title` (text)
+      - `start_time` (time) - on the wedding day
+      - `end_time` (time, optional) - earlier than `start_time` means it runs past midnight
+      - `location` (text)
+      - `responsible` (text) - people in charge, e.g. "Maid of honor, DJ"
+      - `notes` (text)
+      - `created_at` (timestamp)
+    - `timeline_event_vendors`
+      - `event_id` (uuid, references timeline_events)
+      - `vendor_id` (uuid, references vendors)
+      - `user_id` (uuid, references profiles)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users manage their own events and vendor links, admins can read all
+*/
+
+-- Timeline events table
+CREATE TABLE IF NOT EXISTS timeline_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  start_time time NOT NULL,
+  end_time time,
+  location text DEFAULT '',
+  responsible text DEFAULT '',
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE timeline_events ENABLE ROW LEVEL SECURITY;
+
+-- Vendors assigned to each event
+CREATE TABLE IF NOT EXISTS timeline_event_vendors (
+  event_id uuid REFERENCES timeline_events(id) ON DELETE CASCADE NOT NULL,
+  vendor_id uuid REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (event_id, vendor_id)
+);
+
+ALTER TABLE timeline_event_vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS timeline_event_vendors_vendor_id_idx ON timeline_event_vendors(vendor_id);
+
+-- RLS Policies for timeline events
+CREATE POLICY "Users can manage own timeline events"
+  ON timeline_events
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all timeline events"
+  ON timeline_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for timeline event vendors
+CREATE POLICY "Users can manage own timeline event vendors"
+  ON timeline_event_vendors
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all timeline event vendors"
+  ON timeline_event_vendors
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- The day-of schedule stays current for everyone who has it open
+ALTER PUBLICATION supabase_realtime ADD TABLE timeline_events, timeline_event_vendors;
@@ -0,0 +1,684 @@
+/*
+  # Shared Weddings
+
+  1. New Tables
+    - `weddings`
+      - `id` (uuid, primary key)
+      - `couple_names` (text)
+      - `wedding_date` (date)
+      - `total_budget` (numeric)
+      - `template_id` (uuid, references checklist_templates)
+      - `template_synced_at` (timestamp)
+      - `calendar_token` (uuid, unique)
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamp)
+    - `wedding_members`
+      - `wedding_id` (uuid, references weddings)
+      - `user_id` (uuid, references profiles)
+      - `role` (text) - 'owner', 'editor' or 'viewer'
+      - `created_at` (timestamp)
+    - `wedding_invites`
+      - `id` (uuid, primary key)
+      - `wedding_id` (uuid, references weddings)
+      - `email` (text)
+      - `role` (text)
+      - `token` (uuid, unique) - carried by the sign-up link
+      - `invited_by` (uuid, references profiles)
+      - `accepted_by` (uuid, references profiles)
+      - `accepted_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Every existing profile becomes a wedding with the same id, owned by that
+      profile, so existing calendar feeds and event UIDs keep working
+    - `wedding_id` added to tasks, vendors, guests, budget_categories,
+      vendor_payments, vendor_appointments, households, seating_tables,
+      seating_rules, timeline_events and timeline_event_vendors.
+      `user_id` now records who created the row and is cleared rather than
+      cascading when that person's account goes, so shared data survives.
+    - Table numbers are unique per wedding instead of per user
+    - `wedding_date`, `total_budget`, `template_id`, `template_synced_at` and
+      `calendar_token` move from `profiles` to `weddings`; the template,
+      default task, default budget category and due date triggers follow them
+    - `get_rsvp` and `submit_rsvp` read the couple from `weddings`
+
+  3. Functions
+    - `wedding_role(wedding_id)` is the signed-in user's role, or null
+    - `is_wedding_member`, `can_edit_wedding` and `is_wedding_owner` wrap it
+      for policies
+    - `create_wedding(couple_names, wedding_date, template_id)` creates a
+      wedding owned by the caller
+    - `get_wedding_invite(token)` shows an open invite on the sign-up page
+    - `accept_wedding_invite(token)` adds the caller to the invite's wedding
+    - `get_wedding_members(wedding_id)` lists members with their email
+    - `is_admin()` checks the signed-in user's admin flag without going
+      through the profiles policies
+    - `assign_checklist_template(wedding_id, template_id)` and
+      `sync_checklist_template(template_id, wedding_id)` now work per wedding
+
+  4. Security
+    - Enable RLS on the three new tables
+    - Members read their wedding's data, owners and editors change it and
+      viewers only look; admins can still read everything
+    - Owners manage members and invites; anyone can leave a wedding, but the
+      last owner cannot leave others behind without someone to manage it
+    - "Admins can read all profiles" uses `is_admin()`; querying profiles
+      from its own policy recursed for every admin check
+*/
+
+-- Weddings table
+CREATE TABLE IF NOT EXISTS weddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  couple_names text NOT NULL,
+  wedding_date date,
+  total_budget numeric(12,2),
+  template_id uuid REFERENCES checklist_templates(id) ON DELETE SET NULL,
+  template_synced_at timestamptz,
+  calendar_token uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE weddings ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS weddings_calendar_token_idx ON weddings(calendar_token);
+
+-- Wedding members table
+CREATE TABLE IF NOT EXISTS wedding_members (
+  wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (wedding_id, user_id)
+);
+
+ALTER TABLE wedding_members ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS wedding_members_user_id_idx ON wedding_members(user_id);
+
+-- Wedding invites table
+CREATE TABLE IF NOT EXISTS wedding_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+  token uuid NOT NULL DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  accepted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE wedding_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS wedding_invites_token_idx ON wedding_invites(token);
+CREATE INDEX IF NOT EXISTS wedding_invites_wedding_id_idx ON wedding_invites(wedding_id);
+
+-- One wedding per existing profile, before the wedding triggers below exist
+INSERT INTO weddings (id, couple_names, wedding_date, total_budget, template_id, template_synced_at, calendar_token, created_by, created_at)
+SELECT id, couple_names, wedding_date, total_budget, template_id, template_synced_at, calendar_token, id, created_at
+FROM profiles p
+WHERE NOT EXISTS (SELECT 1 FROM weddings w WHERE w.id = p.id);
+
+INSERT INTO wedding_members (wedding_id, user_id, role)
+SELECT id, id, 'owner'
+FROM profiles
+ON CONFLICT (wedding_id, user_id) DO NOTHING;
+
+-- Admin check for policies that would otherwise read profiles from a
+-- profiles policy
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT coalesce((SELECT is_admin FROM profiles WHERE id = auth.uid()), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+
+CREATE POLICY "Admins can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Role helpers for policies; definer rights keep wedding_members policies
+-- from checking themselves
+CREATE OR REPLACE FUNCTION wedding_role(p_wedding_id uuid)
+RETURNS text AS $$
+  SELECT role FROM wedding_members
+  WHERE wedding_id = p_wedding_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_wedding_member(p_wedding_id uuid)
+RETURNS boolean AS $$
+  SELECT wedding_role(p_wedding_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_wedding(p_wedding_id uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(wedding_role(p_wedding_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_wedding_owner(p_wedding_id uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(wedding_role(p_wedding_id) = 'owner', false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS Policies for weddings
+CREATE POLICY "Members can read their weddings"
+  ON weddings
+  FOR SELECT
+  TO authenticated
+  USING (is_wedding_member(id));
+
+CREATE POLICY "Editors can update their weddings"
+  ON weddings
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_wedding(id));
+
+CREATE POLICY "Owners can delete their weddings"
+  ON weddings
+  FOR DELETE
+  TO authenticated
+  USING (is_wedding_owner(id));
+
+CREATE POLICY "Admins can read all weddings"
+  ON weddings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for wedding members
+CREATE POLICY "Members can read wedding members"
+  ON wedding_members
+  FOR SELECT
+  TO authenticated
+  USING (is_wedding_member(wedding_id));
+
+CREATE POLICY "Owners can manage wedding members"
+  ON wedding_members
+  FOR ALL
+  TO authenticated
+  USING (is_wedding_owner(wedding_id));
+
+CREATE POLICY "Members can leave weddings"
+  ON wedding_members
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all wedding members"
+  ON wedding_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for wedding invites
+CREATE POLICY "Owners can manage wedding invites"
+  ON wedding_invites
+  FOR ALL
+  TO authenticated
+  USING (is_wedding_owner(wedding_id));
+
+-- Move every wedding's data under its wedding and rewrite the policies
+-- around membership
+DO $$
+DECLARE
+  v_table text;
+  v_label text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'tasks', 'vendors', 'guests', 'budget_categories', 'vendor_payments',
+    'vendor_appointments', 'households', 'seating_tables', 'seating_rules',
+    'timeline_events', 'timeline_event_vendors'
+  ]
+  LOOP
+    v_label := replace(v_table, '_', ' ');
+
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE', v_table);
+    EXECUTE format('UPDATE %I SET wedding_id = user_id WHERE wedding_id IS NULL', v_table);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN wedding_id SET NOT NULL', v_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(wedding_id)', v_table || '_wedding_id_idx', v_table);
+
+    EXECUTE format('ALTER TABLE %I DROP CONSTRAINT IF EXISTS %I', v_table, v_table || '_user_id_fkey');
+    EXECUTE format('ALTER TABLE %I ADD CONSTRAINT %I FOREIGN KEY (user_id) REFERENCES profiles(id) ON DELETE SET NULL', v_table, v_table || '_user_id_fkey');
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN user_id DROP NOT NULL', v_table);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN user_id SET DEFAULT auth.uid()', v_table);
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Users can manage own ' || v_label, v_table);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (is_wedding_member(wedding_id))',
+      'Members can read wedding ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (can_edit_wedding(wedding_id) AND user_id = auth.uid())',
+      'Editors can add wedding ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (can_edit_wedding(wedding_id)) WITH CHECK (can_edit_wedding(wedding_id))',
+      'Editors can update wedding ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (can_edit_wedding(wedding_id))',
+      'Editors can delete wedding ' || v_label, v_table
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE seating_tables DROP CONSTRAINT IF EXISTS seating_tables_user_id_table_number_key;
+ALTER TABLE seating_tables ADD CONSTRAINT seating_tables_wedding_id_table_number_key UNIQUE (wedding_id, table_number);
+
+DROP INDEX IF EXISTS tasks_user_phase_position_idx;
+CREATE INDEX IF NOT EXISTS tasks_wedding_phase_position_idx ON tasks(wedding_id, phase, position);
+
+-- Wedding-level triggers move from profiles to weddings
+DROP TRIGGER IF EXISTS set_profile_template_trigger ON profiles;
+DROP TRIGGER IF EXISTS create_default_tasks_trigger ON profiles;
+DROP TRIGGER IF EXISTS create_default_budget_categories_trigger ON profiles;
+DROP TRIGGER IF EXISTS recompute_task_due_dates_trigger ON profiles;
+DROP FUNCTION IF EXISTS set_profile_template();
+
+-- Fall back to the default template when none is chosen
+CREATE OR REPLACE FUNCTION set_wedding_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template_id IS NULL THEN
+    NEW.template_id := (SELECT id FROM checklist_templates WHERE is_default ORDER BY created_at LIMIT 1);
+  END IF;
+  NEW.template_synced_at := now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER set_wedding_template_trigger
+  BEFORE INSERT ON weddings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_wedding_template();
+
+-- Insert default tasks for new weddings from their template
+CREATE OR REPLACE FUNCTION create_default_tasks()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO tasks (wedding_id, user_id, task_name, phase, notes, position, template_task_id)
+  SELECT NEW.id, NEW.created_by, task_name, phase, notes, position, id
+  FROM checklist_template_tasks
+  WHERE template_id = NEW.template_id
+    AND NOT retired;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER create_default_tasks_trigger
+  AFTER INSERT ON weddings
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_tasks();
+
+CREATE OR REPLACE FUNCTION create_default_budget_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO budget_categories (wedding_id, user_id, name)
+  SELECT NEW.id, NEW.created_by, name
+  FROM unnest(ARRAY[
+    'Venue', 'Catering', 'Photography', 'Videography', 'Attire',
+    'Flowers & Decor', 'Music & Entertainment', 'Cake', 'Stationery',
+    'Transportation', 'Hair & Makeup', 'Rings', 'Officiant', 'Honeymoon', 'Other'
+  ]) AS name;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER create_default_budget_categories_trigger
+  AFTER INSERT ON weddings
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_budget_categories();
+
+CREATE OR REPLACE FUNCTION set_task_due_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.due_date_overridden THEN
+    NEW.due_date := phase_due_date(
+      NEW.phase,
+      (SELECT wedding_date FROM weddings WHERE id = NEW.wedding_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recompute_task_due_dates()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tasks
+  SET due_date = phase_due_date(phase, NEW.wedding_date)
+  WHERE wedding_id = NEW.id
+    AND NOT due_date_overridden;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER recompute_task_due_dates_trigger
+  AFTER UPDATE OF wedding_date ON weddings
+  FOR EACH ROW
+  WHEN (OLD.wedding_date IS DISTINCT FROM NEW.wedding_date)
+  EXECUTE FUNCTION recompute_task_due_dates();
+
+CREATE OR REPLACE FUNCTION set_task_position()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.position IS NULL THEN
+    SELECT coalesce(max(position) + 1, 0) INTO NEW.position
+    FROM tasks
+    WHERE wedding_id = NEW.wedding_id AND phase = NEW.phase;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS wedding_date;
+ALTER TABLE profiles DROP COLUMN IF EXISTS total_budget;
+ALTER TABLE profiles DROP COLUMN IF EXISTS template_id;
+ALTER TABLE profiles DROP COLUMN IF EXISTS template_synced_at;
+ALTER TABLE profiles DROP COLUMN IF EXISTS calendar_token;
+
+-- A wedding with members left in it always keeps an owner
+CREATE OR REPLACE FUNCTION keep_wedding_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND NOT EXISTS (SELECT 1 FROM wedding_members WHERE wedding_id = OLD.wedding_id AND role = 'owner')
+    AND EXISTS (SELECT 1 FROM wedding_members WHERE wedding_id = OLD.wedding_id)
+  THEN
+    RAISE EXCEPTION 'A wedding needs at least one owner';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER keep_wedding_owner_trigger
+  AFTER UPDATE OF role OR DELETE ON wedding_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_wedding_owner();
+
+-- Start a new wedding owned by the caller
+CREATE OR REPLACE FUNCTION create_wedding(p_couple_names text, p_wedding_date date DEFAULT NULL, p_template_id uuid DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  v_wedding_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO weddings (couple_names, wedding_date, template_id, created_by)
+  VALUES (p_couple_names, p_wedding_date, p_template_id, auth.uid())
+  RETURNING id INTO v_wedding_id;
+
+  INSERT INTO wedding_members (wedding_id, user_id, role)
+  VALUES (v_wedding_id, auth.uid(), 'owner');
+
+  RETURN v_wedding_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- What the sign-up page shows for an open invite
+CREATE OR REPLACE FUNCTION get_wedding_invite(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', w.couple_names,
+    'email', i.email,
+    'role', i.role
+  )
+  FROM wedding_invites i
+  JOIN weddings w ON w.id = i.wedding_id
+  WHERE i.token = p_token
+    AND i.accepted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join the wedding an invite is for; the link works once, for one account
+CREATE OR REPLACE FUNCTION accept_wedding_invite(p_token uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_invite wedding_invites;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite FROM wedding_invites WHERE token = p_token FOR UPDATE;
+
+  IF v_invite.id IS NULL OR v_invite.accepted_by <> auth.uid() THEN
+    RAISE EXCEPTION 'This invite is no longer valid';
+  END IF;
+
+  INSERT INTO wedding_members (wedding_id, user_id, role)
+  VALUES (v_invite.wedding_id, auth.uid(), v_invite.role)
+  ON CONFLICT (wedding_id, user_id) DO NOTHING;
+
+  UPDATE wedding_invites
+  SET accepted_by = auth.uid(),
+      accepted_at = coalesce(accepted_at, now())
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.wedding_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members with their email; profiles are otherwise private to their owner
+CREATE OR REPLACE FUNCTION get_wedding_members(p_wedding_id uuid)
+RETURNS TABLE (user_id uuid, email text, name text, role text, created_at timestamptz) AS $$
+  SELECT m.user_id, p.email, p.couple_names, m.role, m.created_at
+  FROM wedding_members m
+  JOIN profiles p ON p.id = m.user_id
+  WHERE m.wedding_id = p_wedding_id
+    AND (
+      is_wedding_member(p_wedding_id)
+      OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true)
+    )
+  ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_wedding_invite(uuid) TO anon, authenticated;
+
+-- Switch a wedding to another template
+DROP FUNCTION IF EXISTS assign_checklist_template(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION assign_checklist_template(p_wedding_id uuid, p_template_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_edit_wedding(p_wedding_id) AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this checklist template';
+  END IF;
+
+  -- Open tasks from the previous template make way for the new one
+  DELETE FROM tasks
+  WHERE wedding_id = p_wedding_id
+    AND template_task_id IS NOT NULL
+    AND NOT completed;
+
+  UPDATE weddings
+  SET template_id = p_template_id,
+      template_synced_at = now()
+  WHERE id = p_wedding_id;
+
+  INSERT INTO tasks (wedding_id, user_id, task_name, phase, notes, template_task_id)
+  SELECT p_wedding_id, auth.uid(), tt.task_name, tt.phase, tt.notes, tt.id
+  FROM checklist_template_tasks tt
+  WHERE tt.template_id = p_template_id
+    AND NOT tt.retired
+    AND NOT EXISTS (
+      SELECT 1 FROM tasks t
+      WHERE t.wedding_id = p_wedding_id AND t.template_task_id = tt.id
+    )
+  ORDER BY tt.phase, tt.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Push template changes to every wedding on the template, or just one
+DROP FUNCTION IF EXISTS sync_checklist_template(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION sync_checklist_template(p_template_id uuid, p_wedding_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_wedding weddings%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can push checklist templates';
+  END IF;
+
+  FOR v_wedding IN
+    SELECT * FROM weddings
+    WHERE template_id = p_template_id
+      AND (p_wedding_id IS NULL OR id = p_wedding_id)
+  LOOP
+    -- Retired template tasks are removed unless already completed
+    DELETE FROM tasks t
+    USING checklist_template_tasks tt
+    WHERE t.wedding_id = v_wedding.id
+      AND t.template_task_id = tt.id
+      AND tt.retired
+      AND NOT t.completed;
+
+    -- Renamed or re-phased template tasks are updated unless already
+    -- completed; tasks the couple changed were detached (detach_customized_task)
+    UPDATE tasks t
+    SET task_name = tt.task_name,
+        phase = tt.phase
+    FROM checklist_template_tasks tt
+    WHERE t.wedding_id = v_wedding.id
+      AND t.template_task_id = tt.id
+      AND NOT tt.retired
+      AND NOT t.completed
+      AND (t.task_name <> tt.task_name OR t.phase <> tt.phase);
+
+    -- Only tasks added since the last push are inserted, so tasks the couple
+    -- deleted on purpose do not come back
+    INSERT INTO tasks (wedding_id, user_id, task_name, phase, notes, template_task_id)
+    SELECT v_wedding.id, v_wedding.created_by, tt.task_name, tt.phase, tt.notes, tt.id
+    FROM checklist_template_tasks tt
+    WHERE tt.template_id = p_template_id
+      AND NOT tt.retired
+      AND tt.created_at > coalesce(v_wedding.template_synced_at, v_wedding.created_at)
+      AND NOT EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.wedding_id = v_wedding.id AND t.template_task_id = tt.id
+      )
+    ORDER BY tt.phase, tt.position;
+
+    UPDATE weddings SET template_synced_at = now() WHERE id = v_wedding.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- RSVPs read the couple from the guest's wedding
+CREATE OR REPLACE FUNCTION get_rsvp(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', w.couple_names,
+    'wedding_date', w.wedding_date,
+    'household_name', h.name,
+    'guests', jsonb_agg(jsonb_build_object(
+      'id', g.id,
+      'first_name', g.first_name,
+      'last_name', g.last_name,
+      'rsvp_status', g.rsvp_status,
+      'dietary_restrictions', g.dietary_restrictions,
+      'plus_one_allowed', g.plus_one_allowed,
+      'plus_one', coalesce((
+        SELECT trim(po.first_name || ' ' || po.last_name)
+        FROM guests po
+        WHERE po.plus_one_of = g.id AND po.rsvp_status <> 'declined'
+      ), '')
+    ) ORDER BY g.created_at)
+  )
+  FROM guests g
+  JOIN weddings w ON w.id = g.wedding_id
+  LEFT JOIN households h ON h.id = g.household_id
+  WHERE g.id IN (SELECT rsvp_guest_ids(p_token))
+  GROUP BY w.couple_names, w.wedding_date, h.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_rsvp(p_token uuid, p_responses jsonb)
+RETURNS void AS $$
+DECLARE
+  v_ids uuid[];
+  v_response jsonb;
+  v_status text;
+  v_guest guests;
+  v_plus_one text;
+  v_first_name text;
+BEGIN
+  SELECT array_agg(id) INTO v_ids FROM rsvp_guest_ids(p_token) AS id;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  FOR v_response IN SELECT * FROM jsonb_array_elements(p_responses)
+  LOOP
+    v_status := v_response->>'rsvp_status';
+    IF v_status NOT IN ('attending', 'declined') THEN
+      RAISE EXCEPTION 'Invalid RSVP status: %', v_status;
+    END IF;
+
+    UPDATE guests
+    SET rsvp_status = v_status,
+        dietary_restrictions = coalesce(left(v_response->>'dietary_restrictions', 500), ''),
+        rsvp_responded_at = now()
+    WHERE id = (v_response->>'guest_id')::uuid
+      AND id = ANY(v_ids)
+    RETURNING * INTO v_guest;
+
+    CONTINUE WHEN v_guest.id IS NULL OR NOT v_guest.plus_one_allowed;
+
+    v_plus_one := trim(coalesce(left(v_response->>'plus_one', 200), ''));
+
+    IF v_status = 'attending' AND v_plus_one <> '' THEN
+      v_first_name := split_part(v_plus_one, ' ', 1);
+
+      UPDATE guests
+      SET first_name = v_first_name,
+          last_name = trim(substr(v_plus_one, length(v_first_name) + 1)),
+          rsvp_status = 'attending',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id;
+
+      IF NOT FOUND THEN
+        INSERT INTO guests (wedding_id, user_id, household_id, plus_one_of, first_name, last_name, group_name, rsvp_status, rsvp_responded_at)
+        VALUES (v_guest.wedding_id, v_guest.user_id, v_guest.household_id, v_guest.id, v_first_name,
+                trim(substr(v_plus_one, length(v_first_name) + 1)), v_guest.group_name, 'attending', now());
+      END IF;
+    ELSE
+      UPDATE guests
+      SET rsvp_status = 'declined',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
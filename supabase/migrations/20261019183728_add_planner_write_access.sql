@@ -0,0 +1,62 @@
+/*
+  # Planner Write Access
+
+  1. Changes
+    - `tasks`, `vendors` and `guests`
+      - `updated_by` (uuid, references profiles) - who last added or changed the row
+      - `updated_by_admin` (boolean) - that change came from a planner working
+        on a client's plan rather than from someone planning the wedding
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `stamp_updated_by()` fills the three columns on every insert and update.
+      An admin who is also a member of the wedding counts as a member.
+      Changes with no signed-in user (RSVP links, scheduled jobs) record no one.
+
+  3. Security
+    - Admins can add, update and delete tasks, vendors and guests on any
+      wedding. Everything else stays read-only for them.
+*/
+
+-- Record who made each change and whether it was a planner
+CREATE OR REPLACE FUNCTION stamp_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  NEW.updated_by_admin := is_admin() AND NOT is_wedding_member(NEW.wedding_id);
+  NEW.updated_at := now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admins write to the three tables planners work on for their clients
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tasks', 'vendors', 'guests']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL', v_table);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS updated_by_admin boolean NOT NULL DEFAULT false', v_table);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS updated_at timestamptz', v_table);
+
+    EXECUTE format(
+      'CREATE OR REPLACE TRIGGER stamp_updated_by_trigger BEFORE INSERT OR UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION stamp_updated_by()',
+      v_table
+    );
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (is_admin())',
+      'Admins can add all ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (is_admin()) WITH CHECK (is_admin())',
+      'Admins can update all ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (is_admin())',
+      'Admins can delete all ' || v_table, v_table
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,32 @@
+/*
+  # Protect the Admin Flag
+
+  1. Functions
+    - `protect_admin_flag()` stops signed-in users from making an account an
+      admin, or from changing an admin's flag. "Users can update own
+      profile" and "Users can insert own profile" cover every column, so
+      without this anyone could make themselves a planner.
+
+  2. Security
+    - Admin access is granted from the dashboard or the service role, where
+      there is no signed-in user.
+*/
+
+CREATE OR REPLACE FUNCTION protect_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND coalesce(NEW.is_admin, false) IS DISTINCT FROM
+      (CASE WHEN TG_OP = 'UPDATE' THEN coalesce(OLD.is_admin, false) ELSE false END)
+  THEN
+    RAISE EXCEPTION 'Admin access can only be changed by the service role';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER protect_admin_flag_trigger
+  BEFORE INSERT OR UPDATE OF is_admin ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_admin_flag();
@@ -0,0 +1,150 @@
+/*
+  # Audit Log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `wedding_id` (uuid, references weddings)
+      - `table_name` (text) - 'tasks', 'vendors' or 'guests'
+      - `row_id` (uuid) - the changed row; it may since have been deleted
+      - `row_label` (text) - task name, vendor name or guest name at the time
+      - `action` (text) - 'insert', 'update' or 'delete'
+      - `actor_id` (uuid, references profiles) - null for RSVP links and scheduled jobs
+      - `actor_name` (text) - kept so the entry still reads after the account goes
+      - `actor_is_admin` (boolean) - a planner working on a client's plan
+      - `old_values` (jsonb) - the row before; only the changed columns for updates
+      - `new_values` (jsonb) - the row after; only the changed columns for updates
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `record_audit_log()` writes an entry after every insert, update and
+      delete on tasks, vendors and guests. Updates that change nothing but
+      the `updated_*` stamps are skipped, as are changes other triggers make
+      (default tasks, due dates following the wedding date, rows removed
+      along with their wedding).
+
+  3. Security
+    - Enable RLS on `audit_log`
+    - Members read their wedding's entries and admins read all of them.
+      Nobody writes to it directly; only the trigger does.
+*/
+
+-- Audit log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE NOT NULL,
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  row_label text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_name text,
+  actor_is_admin boolean NOT NULL DEFAULT false,
+  old_values jsonb,
+  new_values jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS audit_log_wedding_id_created_at_idx ON audit_log(wedding_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log(created_at DESC);
+
+-- RLS Policies for audit log
+CREATE POLICY "Members can read wedding audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_wedding_member(wedding_id));
+
+CREATE POLICY "Admins can read all audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Record every change with who made it; runs as the owner because nobody
+-- may write to the log directly
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_wedding_id uuid;
+  v_row_id uuid;
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_actor_name text;
+BEGIN
+  -- Changes made by other triggers (a new wedding's default tasks, due dates
+  -- following the wedding date) are not edits
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_wedding_id := OLD.wedding_id;
+    v_row_id := OLD.id;
+    v_old := to_jsonb(OLD);
+  ELSIF TG_OP = 'INSERT' THEN
+    v_wedding_id := NEW.wedding_id;
+    v_row_id := NEW.id;
+    v_new := to_jsonb(NEW);
+  ELSE
+    v_wedding_id := NEW.wedding_id;
+    v_row_id := NEW.id;
+
+    SELECT jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+    INTO v_old, v_new
+    FROM jsonb_each(to_jsonb(OLD)) o
+    JOIN jsonb_each(to_jsonb(NEW)) n ON n.key = o.key
+    WHERE o.value IS DISTINCT FROM n.value
+      AND o.key NOT IN ('updated_by', 'updated_by_admin', 'updated_at');
+
+    IF v_new IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Rows removed along with their wedding have nowhere to be logged
+  IF NOT EXISTS (SELECT 1 FROM weddings WHERE id = v_wedding_id) THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+
+  SELECT coalesce(nullif(couple_names, ''), email) INTO v_actor_name
+  FROM profiles
+  WHERE id = auth.uid();
+
+  INSERT INTO audit_log (
+    wedding_id, table_name, row_id, row_label, action, actor_id, actor_name, actor_is_admin, old_values, new_values
+  )
+  VALUES (
+    v_wedding_id,
+    TG_TABLE_NAME,
+    v_row_id,
+    coalesce(v_row->>'task_name', v_row->>'name', concat_ws(' ', v_row->>'first_name', v_row->>'last_name')),
+    lower(TG_OP),
+    auth.uid(),
+    v_actor_name,
+    is_admin() AND NOT is_wedding_member(v_wedding_id),
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tasks', 'vendors', 'guests']
+  LOOP
+    EXECUTE format(
+      'CREATE OR REPLACE TRIGGER record_audit_log_trigger AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_log()',
+      v_table
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,195 @@
+/*
+  # Trash for Tasks, Vendors and Guests
+
+  1. Changes
+    - `tasks`, `vendors` and `guests`
+      - `deleted_at` (timestamp) - set when the row is moved to the trash;
+        the app leaves these rows out until they are restored
+    - Plus-ones follow their guest into and out of the trash
+    - A guest may have one plus-one outside the trash; one in the trash no
+      longer stops a new plus-one being added
+    - RSVP links leave out guests in the trash, and a plus-one in the trash
+      is replaced rather than renamed when the guest names someone again
+
+  2. Functions
+    - `purge_trash(retention)` permanently deletes rows that have been in the
+      trash longer than the retention window (30 days by default)
+    - A nightly pg_cron job runs it
+*/
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tasks', 'vendors', 'guests']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_at timestamptz', v_table);
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON %I(wedding_id, deleted_at) WHERE deleted_at IS NOT NULL',
+      v_table || '_trash_idx', v_table
+    );
+  END LOOP;
+END $$;
+
+DROP INDEX IF EXISTS guests_plus_one_of_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS guests_plus_one_of_idx ON guests(plus_one_of) WHERE deleted_at IS NULL;
+
+-- Plus-ones go to the trash and come back with their guest
+CREATE OR REPLACE FUNCTION sync_plus_one_deleted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE guests
+  SET deleted_at = NEW.deleted_at
+  WHERE plus_one_of = NEW.id
+    AND deleted_at IS NOT DISTINCT FROM OLD.deleted_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER sync_plus_one_deleted_at
+  AFTER UPDATE OF deleted_at ON guests
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION sync_plus_one_deleted_at();
+
+-- Guests in the trash are no longer on any invitation
+CREATE OR REPLACE FUNCTION rsvp_guest_ids(p_token uuid)
+RETURNS SETOF uuid AS $$
+  SELECT g.id
+  FROM guests g
+  WHERE g.plus_one_of IS NULL
+    AND g.deleted_at IS NULL
+    AND (
+      g.household_id IN (SELECT id FROM households WHERE rsvp_token = p_token)
+      OR EXISTS (
+        SELECT 1 FROM guests t
+        WHERE t.rsvp_token = p_token
+          AND t.deleted_at IS NULL
+          AND (
+            (t.household_id IS NOT NULL AND g.household_id = t.household_id)
+            OR g.id = coalesce(t.plus_one_of, t.id)
+          )
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rsvp_guest_ids(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_rsvp(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', w.couple_names,
+    'wedding_date', w.wedding_date,
+    'household_name', h.name,
+    'guests', jsonb_agg(jsonb_build_object(
+      'id', g.id,
+      'first_name', g.first_name,
+      'last_name', g.last_name,
+      'rsvp_status', g.rsvp_status,
+      'dietary_restrictions', g.dietary_restrictions,
+      'plus_one_allowed', g.plus_one_allowed,
+      'plus_one', coalesce((
+        SELECT trim(po.first_name || ' ' || po.last_name)
+        FROM guests po
+        WHERE po.plus_one_of = g.id AND po.rsvp_status <> 'declined' AND po.deleted_at IS NULL
+      ), '')
+    ) ORDER BY g.created_at)
+  )
+  FROM guests g
+  JOIN weddings w ON w.id = g.wedding_id
+  LEFT JOIN households h ON h.id = g.household_id
+  WHERE g.id IN (SELECT rsvp_guest_ids(p_token))
+  GROUP BY w.couple_names, w.wedding_date, h.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_rsvp(p_token uuid, p_responses jsonb)
+RETURNS void AS $$
+DECLARE
+  v_ids uuid[];
+  v_response jsonb;
+  v_status text;
+  v_guest guests;
+  v_plus_one text;
+  v_first_name text;
+BEGIN
+  SELECT array_agg(id) INTO v_ids FROM rsvp_guest_ids(p_token) AS id;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  FOR v_response IN SELECT * FROM jsonb_array_elements(p_responses)
+  LOOP
+    v_status := v_response->>'rsvp_status';
+    IF v_status NOT IN ('attending', 'declined') THEN
+      RAISE EXCEPTION 'Invalid RSVP status: %', v_status;
+    END IF;
+
+    UPDATE guests
+    SET rsvp_status = v_status,
+        dietary_restrictions = coalesce(left(v_response->>'dietary_restrictions', 500), ''),
+        rsvp_responded_at = now()
+    WHERE id = (v_response->>'guest_id')::uuid
+      AND id = ANY(v_ids)
+    RETURNING * INTO v_guest;
+
+    CONTINUE WHEN v_guest.id IS NULL OR NOT v_guest.plus_one_allowed;
+
+    v_plus_one := trim(coalesce(left(v_response->>'plus_one', 200), ''));
+
+    IF v_status = 'attending' AND v_plus_one <> '' THEN
+      v_first_name := split_part(v_plus_one, ' ', 1);
+
+      UPDATE guests
+      SET first_name = v_first_name,
+          last_name = trim(substr(v_plus_one, length(v_first_name) + 1)),
+          rsvp_status = 'attending',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id
+        AND deleted_at IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO guests (wedding_id, user_id, household_id, plus_one_of, first_name, last_name, group_name, rsvp_status, rsvp_responded_at)
+        VALUES (v_guest.wedding_id, v_guest.user_id, v_guest.household_id, v_guest.id, v_first_name,
+                trim(substr(v_plus_one, length(v_first_name) + 1)), v_guest.group_name, 'attending', now());
+      END IF;
+    ELSE
+      UPDATE guests
+      SET rsvp_status = 'declined',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id
+        AND deleted_at IS NULL;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Empty the trash of anything older than the retention window
+CREATE OR REPLACE FUNCTION purge_trash(p_retention interval DEFAULT interval '30 days')
+RETURNS integer AS $$
+DECLARE
+  v_count integer := 0;
+  v_deleted integer;
+BEGIN
+  DELETE FROM tasks WHERE deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  v_count := v_count + v_deleted;
+
+  DELETE FROM vendors WHERE deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  v_count := v_count + v_deleted;
+
+  DELETE FROM guests WHERE deleted_at < now() - p_retention;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  v_count := v_count + v_deleted;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_trash(interval) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-trash', '0 3 * * *', 'SELECT purge_trash()');
@@ -0,0 +1,67 @@
+/*
+  # Bulk Guest Updates
+
+  1. Functions
+    - `update_guests(guest_ids, changes)` applies the same change to many
+      guests in one call: `rsvp_status`, `group_name`, `table_number`, or
+      `deleted_at` to move them to the trash. Each guest is saved on its own,
+      so one that fails doesn't undo the rest; the failures come back as
+      (guest_id, message) rows, and no rows means every guest was saved.
+
+  2. Security
+    - Runs as the caller, so RLS decides which guests can be changed. Guests
+      the caller can't change are reported as failures rather than skipped.
+*/
+
+CREATE OR REPLACE FUNCTION update_guests(p_guest_ids uuid[], p_changes jsonb)
+RETURNS TABLE (guest_id uuid, message text) AS $$
+DECLARE
+  v_id uuid;
+  v_count integer;
+  v_key text;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(p_changes)
+  LOOP
+    IF v_key NOT IN ('rsvp_status', 'group_name', 'table_number', 'deleted_at') THEN
+      RAISE EXCEPTION 'Guests can''t be changed in bulk by %', v_key;
+    END IF;
+  END LOOP;
+
+  IF p_changes ? 'rsvp_status' AND coalesce(p_changes->>'rsvp_status', '') NOT IN ('pending', 'attending', 'declined') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', p_changes->>'rsvp_status';
+  END IF;
+
+  IF p_changes ? 'table_number' AND (p_changes->>'table_number')::integer < 1 THEN
+    RAISE EXCEPTION 'Invalid table number: %', p_changes->>'table_number';
+  END IF;
+
+  FOREACH v_id IN ARRAY p_guest_ids
+  LOOP
+    BEGIN
+      UPDATE guests
+      SET rsvp_status = CASE WHEN p_changes ? 'rsvp_status' THEN p_changes->>'rsvp_status' ELSE rsvp_status END,
+          group_name = CASE WHEN p_changes ? 'group_name' THEN coalesce(p_changes->>'group_name', '') ELSE group_name END,
+          table_number = CASE WHEN p_changes ? 'table_number' THEN (p_changes->>'table_number')::integer ELSE table_number END,
+          deleted_at = CASE WHEN p_changes ? 'deleted_at' THEN (p_changes->>'deleted_at')::timestamptz ELSE deleted_at END
+      WHERE id = v_id
+        AND deleted_at IS NULL;
+
+      GET DIAGNOSTICS v_count = ROW_COUNT;
+
+      -- A plus-one already followed its guest into the trash earlier in the batch
+      IF v_count = 0 AND NOT (
+        p_changes ? 'deleted_at'
+        AND EXISTS (SELECT 1 FROM guests g WHERE g.id = v_id AND g.deleted_at IS NOT NULL)
+      ) THEN
+        guest_id := v_id;
+        message := 'Guest not found, or you can''t edit it';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      guest_id := v_id;
+      message := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,42 @@
+/*
+  # Guest Validation
+
+  1. Changes
+    - `guests`
+      - `rsvp_status` is one of pending, attending or declined. Existing
+        values are lowercased and trimmed first, and anything still unknown
+        goes back to pending.
+      - `table_number` is positive when set
+
+  2. Notes
+    - The planner checks the same rules, and email and phone formats, before
+      saving; these constraints catch writes that skip it.
+*/
+
+UPDATE guests
+SET rsvp_status = lower(trim(rsvp_status))
+WHERE rsvp_status IS DISTINCT FROM lower(trim(rsvp_status));
+
+UPDATE guests
+SET rsvp_status = 'pending'
+WHERE rsvp_status IS NULL
+   OR rsvp_status NOT IN ('pending', 'attending', 'declined');
+
+UPDATE guests
+SET table_number = NULL
+WHERE table_number < 1;
+
+ALTER TABLE guests ALTER COLUMN rsvp_status SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'guests_rsvp_status_check') THEN
+    ALTER TABLE guests ADD CONSTRAINT guests_rsvp_status_check
+      CHECK (rsvp_status IN ('pending', 'attending', 'declined'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'guests_table_number_check') THEN
+    ALTER TABLE guests ADD CONSTRAINT guests_table_number_check
+      CHECK (table_number > 0);
+  END IF;
+END $$;
@@ -0,0 +1,248 @@
+/*
+  # Meal Selection
+
+  1. New Tables
+    - `meal_options`
+      - `id` (uuid, primary key)
+      - `wedding_id` (uuid, references weddings)
+      - `user_id` (uuid, references profiles)
+      - `name` (text) - e.g. "Braised short rib"
+      - `description` (text)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `guests`
+      - `meal_option_id` (uuid, references meal_options) - the guest's meal;
+        cleared if the option is removed from the menu
+      - `dietary_tags` (text[]) - diets and allergies from a fixed list, so
+        they can be counted. `dietary_restrictions` stays for anything the
+        tags don't cover. Tags are filled in from the text already entered.
+
+  3. Functions
+    - `get_rsvp` also returns the wedding's menu and each guest's meal and
+      tags, and `submit_rsvp` saves them, including the plus-one's meal
+
+  4. Security
+    - Enable RLS on `meal_options`
+    - Members read the menu, editors change it, admins can read all
+*/
+
+CREATE TABLE IF NOT EXISTS meal_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS meal_options_wedding_id_idx ON meal_options(wedding_id);
+
+ALTER TABLE meal_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read wedding meal options"
+  ON meal_options
+  FOR SELECT
+  TO authenticated
+  USING (is_wedding_member(wedding_id));
+
+CREATE POLICY "Editors can add wedding meal options"
+  ON meal_options
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_wedding(wedding_id) AND user_id = auth.uid());
+
+CREATE POLICY "Editors can update wedding meal options"
+  ON meal_options
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_wedding(wedding_id))
+  WITH CHECK (can_edit_wedding(wedding_id));
+
+CREATE POLICY "Editors can delete wedding meal options"
+  ON meal_options
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_wedding(wedding_id));
+
+CREATE POLICY "Admins can read all meal options"
+  ON meal_options
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS meal_option_id uuid REFERENCES meal_options(id) ON DELETE SET NULL;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS dietary_tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS guests_meal_option_id_idx ON guests(meal_option_id);
+
+-- The same keywords the planner's import recognises (see src/lib/meals.ts)
+UPDATE guests
+SET dietary_tags = ARRAY(
+  SELECT tag
+  FROM (VALUES
+    ('vegetarian', 'vegetarian|veggie'),
+    ('vegan', 'vegan'),
+    ('pescatarian', 'pesc[ae]tarian'),
+    ('gluten_free', 'gluten|coeliac|celiac'),
+    ('dairy_free', 'dairy|lactose'),
+    ('kosher', 'kosher'),
+    ('halal', 'halal'),
+    ('peanut_allergy', 'peanut'),
+    ('tree_nut_allergy', 'tree nut|\ynuts?\y|almond|cashew|walnut|pecan|hazelnut|pistachio'),
+    ('shellfish_allergy', 'shellfish|shrimp|prawn|crab|lobster'),
+    ('fish_allergy', '\yfish\y'),
+    ('egg_allergy', '\yeggs?\y'),
+    ('soy_allergy', '\ysoy|\ysoya\y'),
+    ('sesame_allergy', 'sesame')
+  ) AS keywords (tag, pattern)
+  WHERE guests.dietary_restrictions ~* keywords.pattern
+)
+WHERE coalesce(dietary_restrictions, '') <> ''
+  AND dietary_tags = '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'guests_dietary_tags_check') THEN
+    ALTER TABLE guests ADD CONSTRAINT guests_dietary_tags_check
+      CHECK (dietary_tags <@ ARRAY[
+        'vegetarian', 'vegan', 'pescatarian', 'gluten_free', 'dairy_free', 'kosher', 'halal',
+        'peanut_allergy', 'tree_nut_allergy', 'shellfish_allergy', 'fish_allergy', 'egg_allergy',
+        'soy_allergy', 'sesame_allergy'
+      ]::text[]);
+  END IF;
+END $$;
+
+-- A meal from another wedding's menu can't be chosen
+CREATE OR REPLACE FUNCTION check_guest_meal_option()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.meal_option_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM meal_options WHERE id = NEW.meal_option_id AND wedding_id = NEW.wedding_id
+  ) THEN
+    RAISE EXCEPTION 'That meal isn''t on this wedding''s menu';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER check_guest_meal_option_trigger
+  BEFORE INSERT OR UPDATE OF meal_option_id ON guests
+  FOR EACH ROW
+  EXECUTE FUNCTION check_guest_meal_option();
+
+CREATE OR REPLACE FUNCTION get_rsvp(p_token uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'couple_names', w.couple_names,
+    'wedding_date', w.wedding_date,
+    'household_name', h.name,
+    'meal_options', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'name', m.name,
+        'description', m.description
+      ) ORDER BY m.created_at)
+      FROM meal_options m
+      WHERE m.wedding_id = w.id
+    ), '[]'::jsonb),
+    'guests', jsonb_agg(jsonb_build_object(
+      'id', g.id,
+      'first_name', g.first_name,
+      'last_name', g.last_name,
+      'rsvp_status', g.rsvp_status,
+      'dietary_restrictions', g.dietary_restrictions,
+      'dietary_tags', g.dietary_tags,
+      'meal_option_id', g.meal_option_id,
+      'plus_one_allowed', g.plus_one_allowed,
+      'plus_one', coalesce((
+        SELECT trim(po.first_name || ' ' || po.last_name)
+        FROM guests po
+        WHERE po.plus_one_of = g.id AND po.rsvp_status <> 'declined' AND po.deleted_at IS NULL
+      ), ''),
+      'plus_one_meal_option_id', (
+        SELECT po.meal_option_id
+        FROM guests po
+        WHERE po.plus_one_of = g.id AND po.rsvp_status <> 'declined' AND po.deleted_at IS NULL
+      )
+    ) ORDER BY g.created_at)
+  )
+  FROM guests g
+  JOIN weddings w ON w.id = g.wedding_id
+  LEFT JOIN households h ON h.id = g.household_id
+  WHERE g.id IN (SELECT rsvp_guest_ids(p_token))
+  GROUP BY w.id, w.couple_names, w.wedding_date, h.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_rsvp(p_token uuid, p_responses jsonb)
+RETURNS void AS $$
+DECLARE
+  v_ids uuid[];
+  v_response jsonb;
+  v_status text;
+  v_guest guests;
+  v_plus_one text;
+  v_first_name text;
+  v_tags text[];
+BEGIN
+  SELECT array_agg(id) INTO v_ids FROM rsvp_guest_ids(p_token) AS id;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  FOR v_response IN SELECT * FROM jsonb_array_elements(p_responses)
+  LOOP
+    v_status := v_response->>'rsvp_status';
+    IF v_status NOT IN ('attending', 'declined') THEN
+      RAISE EXCEPTION 'Invalid RSVP status: %', v_status;
+    END IF;
+
+    v_tags := ARRAY(SELECT DISTINCT jsonb_array_elements_text(coalesce(v_response->'dietary_tags', '[]'::jsonb)));
+
+    UPDATE guests
+    SET rsvp_status = v_status,
+        dietary_restrictions = coalesce(left(v_response->>'dietary_restrictions', 500), ''),
+        dietary_tags = v_tags,
+        meal_option_id = (v_response->>'meal_option_id')::uuid,
+        rsvp_responded_at = now()
+    WHERE id = (v_response->>'guest_id')::uuid
+      AND id = ANY(v_ids)
+    RETURNING * INTO v_guest;
+
+    CONTINUE WHEN v_guest.id IS NULL OR NOT v_guest.plus_one_allowed;
+
+    v_plus_one := trim(coalesce(left(v_response->>'plus_one', 200), ''));
+
+    IF v_status = 'attending' AND v_plus_one <> '' THEN
+      v_first_name := split_part(v_plus_one, ' ', 1);
+
+      UPDATE guests
+      SET first_name = v_first_name,
+          last_name = trim(substr(v_plus_one, length(v_first_name) + 1)),
+          meal_option_id = (v_response->>'plus_one_meal_option_id')::uuid,
+          rsvp_status = 'attending',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id
+        AND deleted_at IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO guests (wedding_id, user_id, household_id, plus_one_of, first_name, last_name, group_name, meal_option_id, rsvp_status, rsvp_responded_at)
+        VALUES (v_guest.wedding_id, v_guest.user_id, v_guest.household_id, v_guest.id, v_first_name,
+                trim(substr(v_plus_one, length(v_first_name) + 1)), v_guest.group_name,
+                (v_response->>'plus_one_meal_option_id')::uuid, 'attending', now());
+      END IF;
+    ELSE
+      UPDATE guests
+      SET rsvp_status = 'declined',
+          rsvp_responded_at = now()
+      WHERE plus_one_of = v_guest.id
+        AND deleted_at IS NULL;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Menu changes reach the catering report while it's open
+ALTER PUBLICATION supabase_realtime ADD TABLE meal_options;
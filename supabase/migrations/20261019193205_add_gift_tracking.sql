@@ -0,0 +1,116 @@
+/*
+  # Gift Tracking
+
+  1. New Tables
+    - `gifts`
+      - `id` (uuid, primary key)
+      - `wedding_id` (uuid, references weddings)
+      - `user_id` (uuid, references profiles)
+      - `guest_id` (uuid, references guests) - who gave it
+      - `household_id` (uuid, references households) - or the household it
+        came from; filled in from the guest when only the guest is given
+      - `description` (text) - e.g. "Stand mixer"
+      - `value` (numeric)
+      - `from_registry` (boolean)
+      - `received_date` (date)
+      - `thank_you_status` (text) - 'not_written', 'written' or 'sent'
+      - `notes` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `gifts`
+    - Members read gifts, editors change them, admins can read all
+
+  3. Notes
+    - A gift keeps its row if its guest or household is deleted, with the
+      link cleared, so the record of what arrived isn't lost
+*/
+
+CREATE TABLE IF NOT EXISTS gifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wedding_id uuid REFERENCES weddings(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  guest_id uuid REFERENCES guests(id) ON DELETE SET NULL,
+  household_id uuid REFERENCES households(id) ON DELETE SET NULL,
+  description text NOT NULL CHECK (trim(description) <> ''),
+  value numeric(12,2) CHECK (value >= 0),
+  from_registry boolean NOT NULL DEFAULT false,
+  received_date date,
+  thank_you_status text NOT NULL DEFAULT 'not_written'
+    CHECK (thank_you_status IN ('not_written', 'written', 'sent')),
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS gifts_wedding_id_idx ON gifts(wedding_id);
+CREATE INDEX IF NOT EXISTS gifts_guest_id_idx ON gifts(guest_id);
+CREATE INDEX IF NOT EXISTS gifts_household_id_idx ON gifts(household_id);
+
+ALTER TABLE gifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read wedding gifts"
+  ON gifts
+  FOR SELECT
+  TO authenticated
+  USING (is_wedding_member(wedding_id));
+
+CREATE POLICY "Editors can add wedding gifts"
+  ON gifts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_wedding(wedding_id) AND user_id = auth.uid());
+
+CREATE POLICY "Editors can update wedding gifts"
+  ON gifts
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_wedding(wedding_id))
+  WITH CHECK (can_edit_wedding(wedding_id));
+
+CREATE POLICY "Editors can delete wedding gifts"
+  ON gifts
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_wedding(wedding_id));
+
+CREATE POLICY "Admins can read all gifts"
+  ON gifts
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Givers come from the same wedding, and a guest's gift is filed under their household
+CREATE OR REPLACE FUNCTION check_gift_giver()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_guest guests;
+BEGIN
+  IF NEW.guest_id IS NOT NULL THEN
+    SELECT * INTO v_guest FROM guests WHERE id = NEW.guest_id;
+
+    IF v_guest.id IS NULL OR v_guest.wedding_id <> NEW.wedding_id THEN
+      RAISE EXCEPTION 'That guest isn''t on this wedding''s guest list';
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.guest_id IS DISTINCT FROM OLD.guest_id THEN
+      NEW.household_id := coalesce(NEW.household_id, v_guest.household_id);
+    END IF;
+  END IF;
+
+  IF NEW.household_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM households WHERE id = NEW.household_id AND wedding_id = NEW.wedding_id
+  ) THEN
+    RAISE EXCEPTION 'That household isn''t on this wedding''s guest list';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER check_gift_giver_trigger
+  BEFORE INSERT OR UPDATE OF guest_id, household_id, wedding_id ON gifts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_gift_giver();
+
+-- Gifts and thank-you notes stay in step between partners writing them
+ALTER PUBLICATION supabase_realtime ADD TABLE gifts;
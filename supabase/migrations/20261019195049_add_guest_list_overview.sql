@@ -0,0 +1,70 @@
+/*
+  # Guest List Overview
+
+  1. Functions
+    - `guest_list_overview(wedding_id)` returns, in one row, what the guest
+      list shows about every guest while it only loads one page of them:
+      invitations sent, headcount (counting plus-ones nobody has named yet),
+      RSVP counts, and the group names, table numbers, dietary tags and
+      households in use for the filter menus. Guests in the trash don't count.
+      Mirrors `summarizeGuests()` in src/lib/guests.ts.
+
+  2. Security
+    - Runs as the caller, so RLS decides which guests are counted.
+*/
+
+CREATE OR REPLACE FUNCTION guest_list_overview(p_wedding_id uuid)
+RETURNS TABLE (
+  invitations integer,
+  headcount integer,
+  open_plus_ones integer,
+  attending integer,
+  declined integer,
+  pending integer,
+  group_names text[],
+  table_numbers integer[],
+  dietary_tags text[],
+  households_in_use uuid[]
+) AS $$
+  WITH live AS (
+    SELECT * FROM guests
+    WHERE wedding_id = p_wedding_id
+      AND deleted_at IS NULL
+  ),
+  open_plus_ones AS (
+    SELECT count(*)::integer AS n
+    FROM live g
+    WHERE g.plus_one_of IS NULL
+      AND g.plus_one_allowed
+      AND g.rsvp_status <> 'declined'
+      AND NOT EXISTS (SELECT 1 FROM live p WHERE p.plus_one_of = g.id)
+  )
+  SELECT
+    -- One per household, plus one per guest invited on their own
+    ((SELECT count(DISTINCT household_id) FROM live WHERE plus_one_of IS NULL)
+      + (SELECT count(*) FROM live WHERE plus_one_of IS NULL AND household_id IS NULL))::integer,
+    ((SELECT count(*) FROM live) + (SELECT n FROM open_plus_ones))::integer,
+    (SELECT n FROM open_plus_ones),
+    (SELECT count(*) FROM live WHERE rsvp_status = 'attending')::integer,
+    (SELECT count(*) FROM live WHERE rsvp_status = 'declined')::integer,
+    (SELECT count(*) FROM live WHERE rsvp_status = 'pending')::integer,
+    coalesce((
+      SELECT array_agg(DISTINCT trim(group_name) ORDER BY trim(group_name))
+      FROM live
+      WHERE trim(coalesce(group_name, '')) <> ''
+    ), '{}'),
+    coalesce((
+      SELECT array_agg(DISTINCT table_number ORDER BY table_number)
+      FROM live
+      WHERE table_number IS NOT NULL
+    ), '{}'),
+    coalesce((
+      SELECT array_agg(DISTINCT tag ORDER BY tag)
+      FROM live, unnest(live.dietary_tags) AS tag
+    ), '{}'),
+    coalesce((
+      SELECT array_agg(DISTINCT household_id)
+      FROM live
+      WHERE household_id IS NOT NULL
+    ), '{}');
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,69 @@
+/*
+  # Gift Giver Households
+
+  1. Functions
+    - `check_gift_giver()` now rejects a gift from a guest filed under a
+      household the guest isn't in. A guest with no household can't be
+      paired with one either. Gifts recorded before a guest moved household
+      keep the household they were filed under until the giver is changed,
+      and clearing the household (as deleting it does) is always allowed.
+
+  2. Security
+    - Admins can add, update and delete gifts on any wedding, as they can
+      tasks, vendors and guests.
+*/
+
+-- Givers come from the same wedding, and a guest's gift is filed under their household
+CREATE OR REPLACE FUNCTION check_gift_giver()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_guest guests;
+BEGIN
+  IF NEW.guest_id IS NOT NULL THEN
+    SELECT * INTO v_guest FROM guests WHERE id = NEW.guest_id;
+
+    IF v_guest.id IS NULL OR v_guest.wedding_id <> NEW.wedding_id THEN
+      RAISE EXCEPTION 'That guest isn''t on this wedding''s guest list';
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.guest_id IS DISTINCT FROM OLD.guest_id THEN
+      NEW.household_id := coalesce(NEW.household_id, v_guest.household_id);
+    END IF;
+
+    IF NEW.household_id IS NOT NULL AND NEW.household_id IS DISTINCT FROM v_guest.household_id AND (
+      TG_OP = 'INSERT'
+      OR NEW.guest_id IS DISTINCT FROM OLD.guest_id
+      OR NEW.household_id IS DISTINCT FROM OLD.household_id
+    ) THEN
+      RAISE EXCEPTION 'That guest isn''t in that household';
+    END IF;
+  END IF;
+
+  IF NEW.household_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM households WHERE id = NEW.household_id AND wedding_id = NEW.wedding_id
+  ) THEN
+    RAISE EXCEPTION 'That household isn''t on this wedding''s guest list';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Admins can add all gifts"
+  ON gifts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update all gifts"
+  ON gifts
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete all gifts"
+  ON gifts
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
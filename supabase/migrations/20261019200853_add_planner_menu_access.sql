@@ -0,0 +1,26 @@
+/*
+  # Planner Menu Access
+
+  1. Security
+    - Admins can add, update and delete meal options on any wedding, so
+      planners can set up a client's menu along with their guest list.
+*/
+
+CREATE POLICY "Admins can add all meal options"
+  ON meal_options
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update all meal options"
+  ON meal_options
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete all meal options"
+  ON meal_options
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
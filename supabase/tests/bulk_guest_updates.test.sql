@@ -0,0 +1,95 @@
+-- Changing many guests at once with update_guests(), and the failures it reports.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'other@example.com');
+
+INSERT INTO profiles (id, couple_names, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'Dev', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'Cleo & Eli', 'other@example.com');
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', 'Cleo & Eli', '00000000-0000-0000-0000-000000000003');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'viewer'),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000003', 'owner');
+
+INSERT INTO guests (id, wedding_id, user_id, first_name, last_name, plus_one_of) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Jamie', 'Rivera', NULL),
+  ('30000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Casey', 'Rivera', '30000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Sky', 'Adams', NULL),
+  ('30000000-0000-0000-0000-000000000004', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-000000000003', 'Robin', 'Hale', NULL);
+
+SET LOCAL ROLE authenticated;
+
+-- A viewer
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT results_eq(
+  $$ SELECT guest_id FROM update_guests(
+       ARRAY['30000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000003']::uuid[],
+       '{"rsvp_status": "declined"}') $$,
+  $$ VALUES ('30000000-0000-0000-0000-000000000001'::uuid), ('30000000-0000-0000-0000-000000000003'::uuid) $$,
+  'Viewers get every guest back as a failure'
+);
+
+-- The owner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT results_eq(
+  $$ SELECT guest_id, message FROM update_guests(
+       ARRAY['30000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000004', '30000000-0000-0000-0000-000000000003']::uuid[],
+       '{"rsvp_status": "attending", "table_number": 4}') $$,
+  $$ VALUES ('30000000-0000-0000-0000-000000000004'::uuid, 'Guest not found, or you can''t edit it') $$,
+  'Guests from another wedding are reported one by one'
+);
+SELECT is(
+  (SELECT count(*) FROM guests WHERE rsvp_status = 'attending' AND table_number = 4), 2::bigint,
+  'The rest of the batch is saved'
+);
+SELECT is_empty(
+  $$ SELECT * FROM update_guests(ARRAY['30000000-0000-0000-0000-000000000003']::uuid[], '{"group_name": null}') $$,
+  'Clearing a group reports no failures'
+);
+SELECT is(
+  (SELECT group_name FROM guests WHERE id = '30000000-0000-0000-0000-000000000003'), '',
+  'A cleared group is blank'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM update_guests(ARRAY['30000000-0000-0000-0000-000000000003']::uuid[], '{"rsvp_status": "maybe"}') $$,
+  'P0001', 'Invalid RSVP status: maybe',
+  'Unknown RSVP statuses are refused outright'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM update_guests(ARRAY['30000000-0000-0000-0000-000000000003']::uuid[], '{"first_name": "Sam"}') $$,
+  'P0001', 'Guests can''t be changed in bulk by first_name',
+  'Only the bulk fields can be changed'
+);
+SELECT is_empty(
+  $$ SELECT * FROM update_guests(
+       ARRAY['30000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002']::uuid[],
+       jsonb_build_object('deleted_at', now())) $$,
+  'A guest and their plus-one go to the trash together without failures'
+);
+SELECT is(
+  (SELECT count(*) FROM guests WHERE deleted_at IS NOT NULL), 2::bigint,
+  'Both are in the trash'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,78 @@
+-- Pushing checklist template changes to weddings that use the template.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'planner@example.com');
+
+INSERT INTO profiles (id, couple_names, email, is_admin) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com', false),
+  ('00000000-0000-0000-0000-000000000005', 'Gia', 'planner@example.com', true);
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner');
+
+SET LOCAL ROLE authenticated;
+
+-- The couple makes one template task their own
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+UPDATE tasks SET task_name = 'Register at the hardware store'
+WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND task_name = 'Register for gifts';
+
+SELECT is(
+  (SELECT template_task_id FROM tasks WHERE task_name = 'Register at the hardware store'), NULL::uuid,
+  'Renaming a template task detaches it from the template'
+);
+
+UPDATE tasks SET notes = 'Ask about Saturdays'
+WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND task_name = 'Set your wedding date';
+
+SELECT isnt(
+  (SELECT template_task_id FROM tasks WHERE task_name = 'Set your wedding date'), NULL::uuid,
+  'Adding notes keeps the link to the template'
+);
+
+-- A planner edits the template and pushes it
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+UPDATE checklist_template_tasks SET task_name = 'Register for wedding gifts'
+WHERE task_name = 'Register for gifts'
+  AND template_id = (SELECT template_id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001');
+
+UPDATE checklist_template_tasks SET task_name = 'Pick your wedding date'
+WHERE task_name = 'Set your wedding date'
+  AND template_id = (SELECT template_id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001');
+
+SELECT lives_ok(
+  $$ SELECT sync_checklist_template(
+       (SELECT template_id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001'),
+       '10000000-0000-0000-0000-000000000001') $$,
+  'Planners push template changes'
+);
+
+SELECT results_eq(
+  $$ SELECT task_name FROM tasks
+     WHERE wedding_id = '10000000-0000-0000-0000-000000000001'
+       AND task_name IN ('Register at the hardware store', 'Register for wedding gifts') $$,
+  $$ VALUES ('Register at the hardware store') $$,
+  'The couple''s renamed task is left alone'
+);
+SELECT results_eq(
+  $$ SELECT task_name, notes FROM tasks
+     WHERE wedding_id = '10000000-0000-0000-0000-000000000001'
+       AND task_name IN ('Set your wedding date', 'Pick your wedding date') $$,
+  $$ VALUES ('Pick your wedding date', 'Ask about Saturdays') $$,
+  'Tasks still following the template take its new name'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
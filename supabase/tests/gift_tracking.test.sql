@@ -0,0 +1,145 @@
+-- Gifts and thank-you notes.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'other@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'planner@example.com');
+
+INSERT INTO profiles (id, couple_names, email, is_admin) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com', false),
+  ('00000000-0000-0000-0000-000000000002', 'Dev', 'viewer@example.com', false),
+  ('00000000-0000-0000-0000-000000000003', 'Cleo & Eli', 'other@example.com', false),
+  ('00000000-0000-0000-0000-000000000005', 'Gia', 'planner@example.com', true);
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', 'Cleo & Eli', '00000000-0000-0000-0000-000000000003');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'viewer'),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000003', 'owner');
+
+INSERT INTO households (id, wedding_id, user_id, name, address_line1, city) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'The Riveras', '12 Elm St', 'Portland'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'The Kims', '3 Oak Ave', 'Salem');
+
+INSERT INTO guests (id, wedding_id, user_id, household_id, first_name, last_name) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001', 'Jamie', 'Rivera'),
+  ('30000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000002', 'Alex', 'Kim'),
+  ('30000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-000000000003', NULL, 'Sam', 'Okafor');
+
+INSERT INTO gifts (id, wedding_id, user_id, guest_id, description) VALUES
+  ('60000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-000000000003', '30000000-0000-0000-0000-000000000002', 'Toaster');
+
+SET LOCAL ROLE authenticated;
+
+-- A viewer
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT is_empty(
+  $$ SELECT id FROM gifts $$,
+  'Members don''t see other weddings'' gifts'
+);
+SELECT throws_ok(
+  $$ INSERT INTO gifts (wedding_id, description) VALUES ('10000000-0000-0000-0000-000000000001', 'Vase') $$,
+  '42501', NULL,
+  'Viewers cannot record gifts'
+);
+
+-- The owner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO gifts (id, wedding_id, guest_id, description, value, from_registry, received_date)
+     VALUES ('60000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001',
+             '30000000-0000-0000-0000-000000000001', 'Stand mixer', 349.99, true, '2026-06-01') $$,
+  'Editors record gifts'
+);
+SELECT is(
+  (SELECT household_id FROM gifts WHERE id = '60000000-0000-0000-0000-000000000002'),
+  '20000000-0000-0000-0000-000000000001'::uuid,
+  'A guest''s gift is filed under their household'
+);
+SELECT is(
+  (SELECT thank_you_status FROM gifts WHERE id = '60000000-0000-0000-0000-000000000002'),
+  'not_written',
+  'New gifts still need a thank-you note'
+);
+SELECT throws_ok(
+  $$ INSERT INTO gifts (wedding_id, guest_id, description)
+     VALUES ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000002', 'Vase') $$,
+  'P0001', 'That guest isn''t on this wedding''s guest list',
+  'Guests from another wedding cannot be givers'
+);
+SELECT throws_ok(
+  $$ INSERT INTO gifts (wedding_id, guest_id, household_id, description)
+     VALUES ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001',
+             '20000000-0000-0000-0000-000000000002', 'Vase') $$,
+  'P0001', 'That guest isn''t in that household',
+  'A guest''s gift cannot be filed under another household'
+);
+SELECT throws_ok(
+  $$ UPDATE gifts SET household_id = '20000000-0000-0000-0000-000000000002'
+     WHERE id = '60000000-0000-0000-0000-000000000002' $$,
+  'P0001', 'That guest isn''t in that household',
+  'Nor moved to one later'
+);
+SELECT throws_ok(
+  $$ UPDATE gifts SET thank_you_status = 'mailed' WHERE id = '60000000-0000-0000-0000-000000000002' $$,
+  '23514', NULL,
+  'Only known thank-you statuses can be saved'
+);
+SELECT lives_ok(
+  $$ UPDATE gifts SET thank_you_status = 'sent' WHERE id = '60000000-0000-0000-0000-000000000002' $$,
+  'Editors mark thank-you notes as sent'
+);
+
+-- A planner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO gifts (id, wedding_id, guest_id, description)
+     VALUES ('60000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001',
+             '30000000-0000-0000-0000-000000000003', 'Vase') $$,
+  'Planners record gifts for their clients'
+);
+UPDATE gifts SET thank_you_status = 'written' WHERE id = '60000000-0000-0000-0000-000000000003';
+
+SELECT is(
+  (SELECT thank_you_status FROM gifts WHERE id = '60000000-0000-0000-0000-000000000003'), 'written',
+  'Planners update their clients'' gifts'
+);
+
+RESET ROLE;
+
+DELETE FROM households WHERE id = '20000000-0000-0000-0000-000000000002';
+
+SELECT is(
+  (SELECT household_id FROM gifts WHERE id = '60000000-0000-0000-0000-000000000003'), NULL::uuid,
+  'Deleting a household clears it from its guests'' gifts'
+);
+
+DELETE FROM guests WHERE id = '30000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT household_id FROM gifts WHERE id = '60000000-0000-0000-0000-000000000002' AND guest_id IS NULL),
+  '20000000-0000-0000-0000-000000000001'::uuid,
+  'Deleting the giver keeps the gift and its household'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,84 @@
+-- The guest list's RSVP counts and filter choices from guest_list_overview().
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'other@example.com');
+
+INSERT INTO profiles (id, couple_names, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'Cleo & Eli', 'other@example.com');
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', 'Cleo & Eli', '00000000-0000-0000-0000-000000000003');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner'),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000003', 'owner');
+
+INSERT INTO households (id, wedding_id, user_id, name) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'The Riveras');
+
+INSERT INTO guests (id, wedding_id, user_id, household_id, first_name, last_name, group_name, rsvp_status,
+                    plus_one_allowed, plus_one_of, table_number, dietary_tags, deleted_at) VALUES
+  -- A household of two, one bringing a named plus-one
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   '20000000-0000-0000-0000-000000000001', 'Jamie', 'Rivera', 'Family', 'attending', true, NULL, 2, '{vegan}', NULL),
+  ('30000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   '20000000-0000-0000-0000-000000000001', 'Casey', 'Rivera', 'Family', 'pending', false, NULL, NULL, '{}', NULL),
+  ('30000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   '20000000-0000-0000-0000-000000000001', 'Alex', 'Kim', 'Family', 'attending', false, '30000000-0000-0000-0000-000000000001', 2, '{}', NULL),
+  -- Invited on their own, with a plus-one nobody has named
+  ('30000000-0000-0000-0000-000000000004', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   NULL, 'Sky', 'Adams', ' Friends ', 'pending', true, NULL, NULL, '{gluten_free,vegan}', NULL),
+  -- Declined, so their plus-one isn't counted
+  ('30000000-0000-0000-0000-000000000005', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   NULL, 'Robin', 'Hale', '', 'declined', true, NULL, 5, '{}', NULL),
+  -- In the trash
+  ('30000000-0000-0000-0000-000000000006', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001',
+   NULL, 'Dana', 'Cole', 'Work', 'attending', false, NULL, 9, '{kosher}', now()),
+  -- Another wedding's guest
+  ('30000000-0000-0000-0000-000000000007', '10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000003',
+   NULL, 'Lee', 'Park', 'Work', 'attending', false, NULL, NULL, '{}', NULL);
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT results_eq(
+  $$ SELECT invitations, headcount, open_plus_ones
+     FROM guest_list_overview('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (3, 6, 1) $$,
+  'Households share one invitation and unnamed plus-ones join the headcount'
+);
+SELECT results_eq(
+  $$ SELECT attending, declined, pending
+     FROM guest_list_overview('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (2, 1, 2) $$,
+  'RSVPs are counted without guests in the trash'
+);
+SELECT results_eq(
+  $$ SELECT group_names, table_numbers, dietary_tags, households_in_use
+     FROM guest_list_overview('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES ('{Family,Friends}'::text[], '{2,5}'::integer[], '{gluten_free,vegan}'::text[],
+             '{20000000-0000-0000-0000-000000000001}'::uuid[]) $$,
+  'Filter choices come from the guests in use'
+);
+
+-- Someone who isn't a member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003"}';
+
+SELECT results_eq(
+  $$ SELECT invitations, headcount FROM guest_list_overview('10000000-0000-0000-0000-000000000001') $$,
+  $$ VALUES (0, 0) $$,
+  'Other weddings'' guests aren''t counted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
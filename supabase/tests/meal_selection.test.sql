@@ -0,0 +1,138 @@
+-- Wedding menus, meal choices and dietary tags, from the planner and from RSVP links.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'other@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'planner@example.com');
+
+INSERT INTO profiles (id, couple_names, email, is_admin) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com', false),
+  ('00000000-0000-0000-0000-000000000002', 'Dev', 'viewer@example.com', false),
+  ('00000000-0000-0000-0000-000000000003', 'Cleo & Eli', 'other@example.com', false),
+  ('00000000-0000-0000-0000-000000000005', 'Gia', 'planner@example.com', true);
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002', 'Cleo & Eli', '00000000-0000-0000-0000-000000000003');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'viewer'),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000003', 'owner');
+
+INSERT INTO meal_options (id, wedding_id, user_id, name) VALUES
+  ('40000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Short rib'),
+  ('40000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-000000000003', 'Salmon');
+
+INSERT INTO guests (id, wedding_id, user_id, first_name, last_name, plus_one_allowed, rsvp_token) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Jamie', 'Rivera', true, '50000000-0000-0000-0000-000000000001');
+
+SET LOCAL ROLE authenticated;
+
+-- A viewer
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT results_eq(
+  $$ SELECT name FROM meal_options $$,
+  $$ VALUES ('Short rib') $$,
+  'Members see their own wedding''s menu'
+);
+SELECT throws_ok(
+  $$ INSERT INTO meal_options (wedding_id, name) VALUES ('10000000-0000-0000-0000-000000000001', 'Risotto') $$,
+  '42501', NULL,
+  'Viewers cannot change the menu'
+);
+
+-- The owner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO meal_options (id, wedding_id, name, description)
+     VALUES ('40000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001', 'Risotto', 'Wild mushroom') $$,
+  'Editors add meals to the menu'
+);
+SELECT throws_ok(
+  $$ UPDATE guests SET meal_option_id = '40000000-0000-0000-0000-000000000002' WHERE id = '30000000-0000-0000-0000-000000000001' $$,
+  'P0001', 'That meal isn''t on this wedding''s menu',
+  'Meals from another wedding cannot be chosen'
+);
+SELECT throws_ok(
+  $$ UPDATE guests SET dietary_tags = '{vegan,carnivore}' WHERE id = '30000000-0000-0000-0000-000000000001' $$,
+  '23514', NULL,
+  'Only known dietary tags can be saved'
+);
+
+-- A planner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO meal_options (wedding_id, name) VALUES ('10000000-0000-0000-0000-000000000002', 'Gnocchi') $$,
+  'Planners add meals to their clients'' menus'
+);
+
+UPDATE meal_options SET name = 'Wild salmon' WHERE id = '40000000-0000-0000-0000-000000000002';
+
+SELECT is(
+  (SELECT name FROM meal_options WHERE id = '40000000-0000-0000-0000-000000000002'), 'Wild salmon',
+  'Planners rename meals on their clients'' menus'
+);
+
+-- A guest with an RSVP link
+RESET ROLE;
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims TO '{}';
+
+SELECT is(
+  (SELECT jsonb_array_length(get_rsvp('50000000-0000-0000-0000-000000000001')->'meal_options')), 2,
+  'The RSVP page gets the wedding''s menu'
+);
+SELECT lives_ok(
+  $$ SELECT submit_rsvp('50000000-0000-0000-0000-000000000001', '[{
+       "guest_id": "30000000-0000-0000-0000-000000000001",
+       "rsvp_status": "attending",
+       "dietary_restrictions": "",
+       "dietary_tags": ["vegetarian", "peanut_allergy"],
+       "meal_option_id": "40000000-0000-0000-0000-000000000003",
+       "plus_one": "Casey Rivera",
+       "plus_one_meal_option_id": "40000000-0000-0000-0000-000000000001"
+     }]') $$,
+  'Guests send their meal and dietary needs with their RSVP'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT meal_option_id FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'),
+  '40000000-0000-0000-0000-000000000003'::uuid,
+  'The guest''s meal is saved'
+);
+SELECT is(
+  (SELECT dietary_tags FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'),
+  '{peanut_allergy,vegetarian}'::text[],
+  'The guest''s dietary tags are saved'
+);
+SELECT is(
+  (SELECT meal_option_id FROM guests WHERE plus_one_of = '30000000-0000-0000-0000-000000000001'),
+  '40000000-0000-0000-0000-000000000001'::uuid,
+  'The plus-one gets their own meal'
+);
+
+DELETE FROM meal_options WHERE id = '40000000-0000-0000-0000-000000000003';
+
+SELECT is(
+  (SELECT meal_option_id FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'), NULL::uuid,
+  'Taking a meal off the menu clears it for the guests who chose it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,85 @@
+-- Row level security on profiles, and who can grant admin access.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'couple@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'other@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'planner@example.com'),
+  ('00000000-0000-0000-0000-000000000004', 'new@example.com');
+
+INSERT INTO profiles (id, couple_names, email, is_admin) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'couple@example.com', false),
+  ('00000000-0000-0000-0000-000000000002', 'Cleo & Dev', 'other@example.com', false),
+  ('00000000-0000-0000-0000-000000000003', 'Gia', 'planner@example.com', true);
+
+SET LOCAL ROLE authenticated;
+
+-- A couple
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT results_eq(
+  $$ SELECT id FROM profiles $$,
+  $$ VALUES ('00000000-0000-0000-0000-000000000001'::uuid) $$,
+  'Users only see their own profile'
+);
+SELECT lives_ok(
+  $$ UPDATE profiles SET couple_names = 'Ana & Ben Cruz' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  'Users can rename themselves'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET is_admin = true WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  'P0001', 'Admin access can only be changed by the service role',
+  'Users cannot make themselves admins'
+);
+UPDATE profiles SET couple_names = 'Hijacked' WHERE id = '00000000-0000-0000-0000-000000000002';
+
+-- Someone signing up
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000004"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO profiles (id, couple_names, email, is_admin)
+     VALUES ('00000000-0000-0000-0000-000000000004', 'Eli', 'new@example.com', true) $$,
+  'P0001', 'Admin access can only be changed by the service role',
+  'New accounts cannot start as admins'
+);
+SELECT throws_ok(
+  $$ INSERT INTO profiles (id, couple_names, email)
+     VALUES ('00000000-0000-0000-0000-000000000002', 'Eli', 'new@example.com') $$,
+  '42501', NULL,
+  'Users cannot create a profile for someone else'
+);
+SELECT lives_ok(
+  $$ INSERT INTO profiles (id, couple_names, email)
+     VALUES ('00000000-0000-0000-0000-000000000004', 'Eli & Fay', 'new@example.com') $$,
+  'Users create their own profile on sign-up'
+);
+
+-- A planner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003"}';
+
+SELECT is(
+  (SELECT count(*) FROM profiles), 4::bigint,
+  'Planners see every profile'
+);
+SELECT is(
+  (SELECT couple_names FROM profiles WHERE id = '00000000-0000-0000-0000-000000000002'), 'Cleo & Dev',
+  'Users cannot change other profiles'
+);
+
+-- Signed out
+RESET ROLE;
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims TO '{}';
+
+SELECT is_empty(
+  $$ SELECT id FROM profiles $$,
+  'Signed-out visitors cannot read profiles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
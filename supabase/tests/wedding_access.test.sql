@@ -0,0 +1,228 @@
+-- Row level security on a shared wedding: what owners, editors, viewers,
+-- outsiders, planners and signed-out visitors can read and change.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(32);
+
+-- Fixtures, created as the database owner
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'editor@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000004', 'outsider@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'planner@example.com');
+
+INSERT INTO profiles (id, couple_names, email, is_admin) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Ana & Ben', 'owner@example.com', false),
+  ('00000000-0000-0000-0000-000000000002', 'Cleo', 'editor@example.com', false),
+  ('00000000-0000-0000-0000-000000000003', 'Dev', 'viewer@example.com', false),
+  ('00000000-0000-0000-0000-000000000004', 'Eli & Fay', 'outsider@example.com', false),
+  ('00000000-0000-0000-0000-000000000005', 'Gia', 'planner@example.com', true);
+
+INSERT INTO weddings (id, couple_names, created_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Ana & Ben', '00000000-0000-0000-0000-000000000001');
+
+INSERT INTO wedding_members (wedding_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'owner'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'editor'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000003', 'viewer');
+
+INSERT INTO tasks (id, wedding_id, user_id, task_name, phase) VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Book the venue', '12+ Months Before');
+
+INSERT INTO guests (id, wedding_id, user_id, first_name, last_name) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000001', 'Jamie', 'Rivera');
+
+SET LOCAL ROLE authenticated;
+
+-- Someone with no part in the wedding
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000004"}';
+
+SELECT is_empty(
+  $$ SELECT id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'Outsiders cannot see the wedding'
+);
+SELECT is_empty(
+  $$ SELECT id FROM tasks WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Outsiders cannot see its tasks'
+);
+SELECT is_empty(
+  $$ SELECT id FROM guests WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Outsiders cannot see its guests'
+);
+SELECT is_empty(
+  $$ SELECT id FROM audit_log WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Outsiders cannot see its activity'
+);
+SELECT throws_ok(
+  $$ INSERT INTO vendors (wedding_id, user_id, name, type)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000004', 'Gatecrash Catering', 'Caterer') $$,
+  '42501', NULL,
+  'Outsiders cannot add vendors'
+);
+UPDATE tasks SET completed = true WHERE id = '20000000-0000-0000-0000-000000000001';
+DELETE FROM guests WHERE id = '30000000-0000-0000-0000-000000000001';
+
+-- A viewer
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003"}';
+
+SELECT is(
+  (SELECT completed FROM tasks WHERE id = '20000000-0000-0000-0000-000000000001'), false,
+  'Outsiders cannot tick off tasks'
+);
+SELECT isnt_empty(
+  $$ SELECT id FROM guests WHERE id = '30000000-0000-0000-0000-000000000001' $$,
+  'Outsiders cannot delete guests'
+);
+SELECT isnt_empty(
+  $$ SELECT id FROM tasks WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Viewers can read the checklist'
+);
+SELECT isnt_empty(
+  $$ SELECT user_id FROM wedding_members WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Viewers can see who else is planning'
+);
+SELECT throws_ok(
+  $$ INSERT INTO tasks (wedding_id, user_id, task_name, phase)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000003', 'Sneaky task', '1 Week Before') $$,
+  '42501', NULL,
+  'Viewers cannot add tasks'
+);
+SELECT throws_ok(
+  $$ INSERT INTO wedding_members (wedding_id, user_id, role)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000004', 'editor') $$,
+  '42501', NULL,
+  'Viewers cannot add members'
+);
+UPDATE guests SET rsvp_status = 'declined' WHERE id = '30000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT rsvp_status FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'), 'pending',
+  'Viewers cannot change guests'
+);
+UPDATE wedding_members SET role = 'owner'
+WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-000000000003';
+SELECT is(
+  (SELECT role FROM wedding_members
+   WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-000000000003'),
+  'viewer',
+  'Viewers cannot promote themselves'
+);
+
+-- An editor
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO vendors (wedding_id, user_id, name, type)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'Petal & Stem', 'Florist') $$,
+  'Editors can add vendors'
+);
+SELECT throws_ok(
+  $$ INSERT INTO vendors (wedding_id, user_id, name, type)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'Lens & Light', 'Photographer') $$,
+  '42501', NULL,
+  'Editors cannot add rows in someone else''s name'
+);
+UPDATE tasks SET completed = true WHERE id = '20000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT completed FROM tasks WHERE id = '20000000-0000-0000-0000-000000000001'), true,
+  'Editors can tick off tasks'
+);
+SELECT is(
+  (SELECT updated_by FROM tasks WHERE id = '20000000-0000-0000-0000-000000000001'),
+  '00000000-0000-0000-0000-000000000002'::uuid,
+  'Changes are stamped with who made them'
+);
+UPDATE weddings SET wedding_date = '2027-06-12' WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT wedding_date FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001'), '2027-06-12'::date,
+  'Editors can set the wedding date'
+);
+SELECT throws_ok(
+  $$ INSERT INTO wedding_invites (wedding_id, email, role)
+     VALUES ('10000000-0000-0000-0000-000000000001', 'friend@example.com', 'editor') $$,
+  '42501', NULL,
+  'Editors cannot invite people'
+);
+DELETE FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT isnt_empty(
+  $$ SELECT id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'Editors cannot delete the wedding'
+);
+SELECT isnt_empty(
+  $$ SELECT id FROM audit_log WHERE wedding_id = '10000000-0000-0000-0000-000000000001' $$,
+  'Members can see the wedding''s activity'
+);
+SELECT throws_ok(
+  $$ INSERT INTO audit_log (wedding_id, table_name, row_id, action)
+     VALUES ('10000000-0000-0000-0000-000000000001', 'tasks', '20000000-0000-0000-0000-000000000001', 'delete') $$,
+  '42501', NULL,
+  'Nobody writes to the activity log directly'
+);
+
+-- The owner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO wedding_invites (wedding_id, email, role)
+     VALUES ('10000000-0000-0000-0000-000000000001', 'friend@example.com', 'viewer') $$,
+  'Owners can invite people'
+);
+SELECT lives_ok(
+  $$ UPDATE wedding_members SET role = 'editor'
+     WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-000000000003' $$,
+  'Owners can change roles'
+);
+SELECT throws_ok(
+  $$ DELETE FROM wedding_members
+     WHERE wedding_id = '10000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-000000000001' $$,
+  'P0001', 'A wedding needs at least one owner',
+  'The last owner cannot leave while others remain'
+);
+
+-- A planner who is not a member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+SELECT isnt_empty(
+  $$ SELECT id FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'Planners can see every wedding'
+);
+UPDATE guests SET rsvp_status = 'attending' WHERE id = '30000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT rsvp_status FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'), 'attending',
+  'Planners can change a client''s guests'
+);
+SELECT is(
+  (SELECT updated_by_admin FROM guests WHERE id = '30000000-0000-0000-0000-000000000001'), true,
+  'Planner changes are marked as such'
+);
+UPDATE weddings SET total_budget = 1 WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT total_budget FROM weddings WHERE id = '10000000-0000-0000-0000-000000000001'), NULL,
+  'Planners cannot change a client''s budget'
+);
+SELECT throws_ok(
+  $$ SELECT purge_trash() $$,
+  '42501', NULL,
+  'Only the nightly job empties the trash'
+);
+
+-- Signed out
+RESET ROLE;
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims TO '{}';
+
+SELECT is_empty(
+  $$ SELECT id FROM tasks $$,
+  'Signed-out visitors cannot read tasks'
+);
+SELECT is_empty(
+  $$ SELECT id FROM guests $$,
+  'Signed-out visitors cannot read guests'
+);
+
+SELECT * FROM finish();
+ROLLBACK;